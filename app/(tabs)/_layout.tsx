@@ -1,11 +1,34 @@
+import { useEffect, useState } from 'react';
 import { Tabs } from 'expo-router';
-import { Chrome as Home, Calendar, User, BookOpen, Search, CalendarDays } from 'lucide-react-native';
+import { Chrome as Home, Calendar, User, BookOpen, Search, CalendarDays, Bell } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { NotificationService } from '@/lib/notificationService';
 import { Platform } from 'react-native';
 
 export default function TabLayout() {
   const { profile } = useAuth();
   const isTeacher = profile?.role === 'teacher';
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    const fetchUnreadCount = async () => {
+      try {
+        setUnreadCount(await NotificationService.getUnreadCount(profile.id));
+      } catch (error) {
+        console.error('Error fetching unread notifications:', error);
+      }
+    };
+
+    fetchUnreadCount();
+
+    const subscription = NotificationService.subscribeToNotifications(profile.id, 'badge', fetchUnreadCount);
+
+    return () => {
+      NotificationService.unsubscribeFromNotifications(subscription);
+    };
+  }, [profile?.id]);
 
   return (
     <Tabs
@@ -85,6 +108,19 @@ export default function TabLayout() {
           }}
         />
       )}
+      <Tabs.Screen
+        name="inbox"
+        options={{
+          title: 'Inbox',
+          tabBarIcon: ({ size, color }) => (
+            <Bell size={size} color={color} />
+          ),
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarBadgeStyle: {
+            backgroundColor: '#C4896F',
+          },
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { Calendar, Clock, MapPin, X, CreditCard, CircleAlert as AlertCircle } from 'lucide-react-native';
@@ -11,6 +12,7 @@ type Booking = Database['public']['Tables']['bookings']['Row'] & {
 
 export default function BookingsScreen() {
   const { profile } = useAuth();
+  const router = useRouter();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -79,40 +81,12 @@ export default function BookingsScreen() {
     );
   };
 
-  const handlePayment = async (bookingId: string) => {
-    try {
-      // Simulate payment processing
-      Alert.alert(
-        'Process Payment',
-        'This would integrate with a payment processor like RevenueCat or Stripe.',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          {
-            text: 'Simulate Success',
-            onPress: async () => {
-              try {
-                // Update payment status using the secure function
-                const { error } = await supabase.rpc('update_booking_payment_status', {
-                  booking_id: bookingId,
-                  new_payment_status: 'completed'
-                });
-
-                if (error) throw error;
-
-                fetchBookings();
-                Alert.alert('Success', 'Payment completed successfully!');
-              } catch (error) {
-                console.error('Error processing payment:', error);
-                Alert.alert('Error', 'Payment failed. Please try again.');
-              }
-            }
-          }
-        ]
-      );
-    } catch (error) {
-      console.error('Error handling payment:', error);
-      Alert.alert('Error', 'Failed to process payment');
-    }
+  const handlePayment = (booking: Booking) => {
+    // Payments are confirmed by the payment provider on the payment screen
+    router.push({
+      pathname: '/payment/[classId]',
+      params: { classId: booking.class_id, bookingId: booking.id }
+    });
   };
 
   const isUpcoming = (date: string, time: string) => {
@@ -124,6 +98,7 @@ export default function BookingsScreen() {
     switch (status) {
       case 'completed': return '#4CAF50';
       case 'pending': return '#FF9800';
+      case 'partially_paid': return '#8B7355';
       case 'failed': return '#FF6B6B';
       case 'refunded': return '#9C27B0';
       default: return '#666';
@@ -134,6 +109,7 @@ export default function BookingsScreen() {
     switch (status) {
       case 'completed': return 'Paid';
       case 'pending': return 'Payment Pending';
+      case 'partially_paid': return 'Deposit Paid';
       case 'failed': return 'Payment Failed';
       case 'refunded': return 'Refunded';
       default: return status;
@@ -213,7 +189,7 @@ export default function BookingsScreen() {
                 {booking.payment_status === 'pending' && (
                   <TouchableOpacity
                     style={styles.payButton}
-                    onPress={() => handlePayment(booking.id)}
+                    onPress={() => handlePayment(booking)}
                   >
                     <Text style={styles.payButtonText}>Pay Now</Text>
                   </TouchableOpacity>
@@ -2,11 +2,19 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Alert } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { Plus, Calendar, Clock, Users, MapPin, CreditCard as Edit, Trash2, Tent } from 'lucide-react-native';
+import { WaitlistService } from '@/lib/waitlistService';
+import { CancellationPolicyService, type CancellationPolicy } from '@/lib/cancellationPolicyService';
+import { ClassSeriesService, type SeriesScope } from '@/lib/classSeriesService';
+import { ClassChangeService } from '@/lib/classChangeService';
+import { PenaltyService } from '@/lib/penaltyService';
+import { RetreatService } from '@/lib/retreatService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
+import { Plus, Calendar, Clock, Users, MapPin, CreditCard as Edit, CalendarX, Tent, Repeat, Tag } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import CreateClassModal from '@/components/CreateClassModal';
 import CreateRetreatModal from '@/components/CreateRetreatModal';
 import RetreatCard from '@/components/RetreatCard';
+import SeriesScopeModal from '@/components/SeriesScopeModal';
 import type { Database } from '@/lib/supabase';
 
 type YogaClass = Database['public']['Tables']['yoga_classes']['Row'];
@@ -21,8 +29,13 @@ export default function ClassesScreen() {
   const [showCreateRetreatModal, setShowCreateRetreatModal] = useState(false);
   const [createLoading, setCreateLoading] = useState(false);
   const [participantCounts, setParticipantCounts] = useState<Record<string, number>>({});
+  const [pricingRules, setPricingRules] = useState<Record<string, PricingRule[]>>({});
   const [bookingStates, setBookingStates] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<'classes' | 'retreats'>('classes');
+  const [cancellationPolicies, setCancellationPolicies] = useState<CancellationPolicy[]>([]);
+  const [editingClass, setEditingClass] = useState<YogaClass | null>(null);
+  const [editScope, setEditScope] = useState<SeriesScope>('single');
+  const [seriesAction, setSeriesAction] = useState<{ type: 'edit' | 'cancel'; yogaClass: YogaClass } | null>(null);
 
   const isTeacher = profile?.role === 'teacher';
 
@@ -48,6 +61,8 @@ export default function ClassesScreen() {
       
       if (isTeacher) {
         query = query.eq('teacher_id', profile?.id);
+      } else {
+        query = query.eq('status', 'scheduled');
       }
       
       const { data, error } = await query.order('date', { ascending: true });
@@ -60,6 +75,7 @@ export default function ClassesScreen() {
       
       setClasses(classesData);
       setRetreats(retreatsData);
+      fetchPricingRules(allData.map(item => item.id));
     } catch (error) {
       console.error('Error fetching classes and retreats:', error);
       Alert.alert('Error', 'Failed to load classes and retreats');
@@ -68,6 +84,14 @@ export default function ClassesScreen() {
     }
   };
 
+  const fetchPricingRules = async (classIds: string[]) => {
+    try {
+      setPricingRules(await PricingService.getPricingRules(classIds));
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+    }
+  };
+
   const fetchParticipantCounts = async () => {
     try {
       const allItems = [...classes, ...retreats];
@@ -78,7 +102,7 @@ export default function ClassesScreen() {
         .select('class_id')
         .in('class_id', itemIds)
         .eq('status', 'confirmed')
-        .eq('payment_status', 'completed');
+        .in('payment_status', ['completed', 'partially_paid']);
 
       if (error) throw error;
 
@@ -107,28 +131,113 @@ export default function ClassesScreen() {
     }
   };
 
+  const loadCancellationPolicies = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const policies = await CancellationPolicyService.getTeacherPolicies(profile.id);
+      setCancellationPolicies(policies);
+    } catch (error) {
+      console.error('Error fetching cancellation policies:', error);
+    }
+  };
+
+  const openCreateClassModal = () => {
+    setEditingClass(null);
+    setShowCreateModal(true);
+    loadCancellationPolicies();
+  };
+
+  const openEditClassModal = (yogaClass: YogaClass, scope: SeriesScope) => {
+    setEditingClass(yogaClass);
+    setEditScope(scope);
+    setShowCreateModal(true);
+    loadCancellationPolicies();
+  };
+
+  const closeClassModal = () => {
+    setShowCreateModal(false);
+    setEditingClass(null);
+  };
+
   const createClass = async (classData: any) => {
     if (!profile?.id) return;
 
+    const { recurrence, ...classFields } = classData;
+
     setCreateLoading(true);
     try {
+      if (recurrence) {
+        const { class_count } = await ClassSeriesService.createSeries(
+          profile.id,
+          classFields,
+          classFields.date,
+          recurrence
+        );
+
+        closeClassModal();
+        fetchClassesAndRetreats();
+        Alert.alert('Success', `Series created with ${class_count} classes!`);
+        return;
+      }
+
       const { error } = await supabase
         .from('yoga_classes')
         .insert([{
-          ...classData,
+          ...classFields,
           teacher_id: profile.id,
           current_participants: 0,
           is_retreat: false,
         }]);
 
-      if (error) throw error;
+      if (error) throw new Error(error.message);
 
-      setShowCreateModal(false);
+      closeClassModal();
       fetchClassesAndRetreats();
       Alert.alert('Success', 'Class created successfully!');
     } catch (error) {
       console.error('Error creating class:', error);
-      Alert.alert('Error', 'Failed to create class. Please try again.');
+      if (error instanceof Error
+        && (error.message.includes('room capacity') || error.message.includes('already booked'))) {
+        Alert.alert('Cannot Create Class', `${error.message}.`);
+      } else {
+        Alert.alert('Error', 'Failed to create class. Please try again.');
+      }
+    } finally {
+      setCreateLoading(false);
+    }
+  };
+
+  const updateClass = async (classData: any) => {
+    if (!profile?.id || !editingClass) return;
+
+    const { recurrence, ...changes } = classData;
+
+    setCreateLoading(true);
+    try {
+      const updatedCount = await ClassSeriesService.updateClasses(
+        editingClass.id,
+        profile.id,
+        editScope,
+        changes
+      );
+
+      closeClassModal();
+      fetchClassesAndRetreats();
+      Alert.alert(
+        'Success',
+        updatedCount > 1 ? `${updatedCount} classes updated successfully!` : 'Class updated successfully!'
+      );
+    } catch (error) {
+      console.error('Error updating class:', error);
+      if (error instanceof Error
+        && (error.message.includes('already booked')
+          || error.message.includes('moved into the past')
+          || error.message.includes('room capacity'))) {
+        Alert.alert('Cannot Update Class', `${error.message}.`);
+      } else {
+        Alert.alert('Error', 'Failed to update class. Please try again.');
+      }
     } finally {
       setCreateLoading(false);
     }
@@ -137,30 +246,80 @@ export default function ClassesScreen() {
   const createRetreat = async (retreatData: any) => {
     if (!profile?.id) return;
 
+    const { accommodations, itinerary, ...retreatFields } = retreatData;
+
     setCreateLoading(true);
     try {
-      const { error } = await supabase
-        .from('yoga_classes')
-        .insert([{
-          ...retreatData,
-          teacher_id: profile.id,
-          current_participants: 0,
-        }]);
-
-      if (error) throw error;
+      // The itinerary and options are saved with the retreat, so a retry can't create a duplicate
+      await RetreatService.createRetreat(profile.id, retreatFields, itinerary, accommodations);
 
       setShowCreateRetreatModal(false);
       fetchClassesAndRetreats();
       setActiveTab('retreats'); // Switch to retreats tab to show the new retreat
+
       Alert.alert('Success', 'Retreat created successfully!');
     } catch (error) {
       console.error('Error creating retreat:', error);
-      Alert.alert('Error', 'Failed to create retreat. Please try again.');
+      if (error instanceof Error && error.message.includes('retreat days')) {
+        Alert.alert('Cannot Create Retreat', `${error.message}.`);
+      } else {
+        Alert.alert('Error', 'Failed to create retreat. Please try again.');
+      }
     } finally {
       setCreateLoading(false);
     }
   };
 
+  const joinWaitlist = async (classId: string) => {
+    if (!profile?.id) return;
+
+    if (bookingStates[classId]) {
+      return;
+    }
+
+    setBookingStates(prev => ({ ...prev, [classId]: true }));
+
+    try {
+      const { position } = await WaitlistService.joinWaitlist(profile.id, classId);
+      Alert.alert(
+        'Added to Waitlist',
+        `You're #${position} on the waitlist. If a spot opens up, we'll hold it for you and you can complete payment from My Bookings.`
+      );
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+
+      let errorMessage = 'Failed to join the waitlist. Please try again.';
+
+      if (error instanceof Error) {
+        if (error.message.includes('already has a booking')) {
+          errorMessage = 'You have already booked this class.';
+        } else if (error.message.includes('has available spots')) {
+          errorMessage = 'A spot has opened up. You can book this class now.';
+          fetchClassesAndRetreats();
+        } else if (error.message.includes('Cannot book past classes')) {
+          errorMessage = 'This class has already started or ended.';
+        } else if (error.message.includes('Booking restricted')) {
+          errorMessage = PenaltyService.getRestrictionMessage(error.message);
+        }
+      }
+
+      Alert.alert('Waitlist', errorMessage);
+    } finally {
+      setBookingStates(prev => ({ ...prev, [classId]: false }));
+    }
+  };
+
+  const promptJoinWaitlist = (classId: string) => {
+    Alert.alert(
+      'Class Full',
+      'This class is now full. Would you like to join the waitlist?',
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Join Waitlist', onPress: () => joinWaitlist(classId) },
+      ]
+    );
+  };
+
   const bookClass = async (classId: string) => {
     if (!profile?.id) return;
 
@@ -188,7 +347,7 @@ export default function ClassesScreen() {
         return;
       }
 
-      const { error } = await supabase.rpc('create_booking_with_count', {
+      const { data: bookingId, error } = await supabase.rpc('create_booking_with_count', {
         p_student_id: profile.id,
         p_class_id: classId,
         p_status: 'confirmed',
@@ -199,9 +358,12 @@ export default function ClassesScreen() {
         if (error.message.includes('already has a booking')) {
           Alert.alert('Already Booked', 'You have already booked this class.');
         } else if (error.message.includes('Class is full')) {
-          Alert.alert('Class Full', 'This class is now full. Please try another class.');
+          promptJoinWaitlist(classId);
+          fetchClassesAndRetreats();
         } else if (error.message.includes('Cannot book past classes')) {
           Alert.alert('Class Unavailable', 'This class has already started or ended.');
+        } else if (error.message.includes('Booking restricted')) {
+          Alert.alert('Booking Paused', PenaltyService.getRestrictionMessage(error.message));
         } else if (error.message.includes('duplicate key value violates unique constraint')) {
           Alert.alert('Already Booked', 'You have already booked this class.');
         } else {
@@ -211,9 +373,22 @@ export default function ClassesScreen() {
       }
 
       fetchClassesAndRetreats();
+
+      // Members are booked straight away
+      const { data: createdBooking } = await supabase
+        .from('bookings')
+        .select('payment_status, membership_id')
+        .eq('id', bookingId)
+        .single();
+
+      if (createdBooking?.membership_id) {
+        Alert.alert('Booking Confirmed', 'This class is covered by your membership.');
+        return;
+      }
+
       Alert.alert(
         'Booking Created', 
-        'Your booking has been created with pending payment status. Please complete payment to secure your spot.',
+        'Your spot is held for 15 minutes. Please complete payment to keep it.',
         [
           { text: 'View Details', onPress: () => router.push(`/class-detail/${classId}`) },
           { text: 'OK' }
@@ -242,30 +417,74 @@ export default function ClassesScreen() {
     }
   };
 
-  const deleteItem = async (itemId: string, isRetreat: boolean) => {
-    const itemType = isRetreat ? 'retreat' : 'class';
+  const cancelClass = (yogaClass: YogaClass) => {
+    if (!profile?.id) return;
+
     Alert.alert(
-      `Delete ${itemType}`,
-      `Are you sure you want to delete this ${itemType}? This action cannot be undone.`,
+      'Cancel class',
+      'Are you sure you want to cancel this class? Every booked student will be refunded in full and notified.',
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep', style: 'cancel' },
         {
-          text: 'Delete',
+          text: 'Cancel class',
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('yoga_classes')
-                .delete()
-                .eq('id', itemId);
+              const { booking_count } = await ClassChangeService.cancelClass(yogaClass.id, profile.id);
+
+              fetchClassesAndRetreats();
+              Alert.alert(
+                'Success',
+                booking_count > 0
+                  ? `Class cancelled. ${booking_count} booked ${booking_count === 1 ? 'student was' : 'students were'} refunded and notified.`
+                  : 'Class cancelled successfully'
+              );
+            } catch (error) {
+              console.error('Error cancelling class:', error);
+              if (error instanceof Error && error.message.includes('already started')) {
+                Alert.alert('Cannot Cancel', 'This class has already started.');
+              } else {
+                Alert.alert('Error', 'Failed to cancel class');
+              }
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const cancelSeriesClasses = (yogaClass: YogaClass, scope: SeriesScope) => {
+    if (!profile?.id) return;
 
-              if (error) throw error;
+    const scopeText = scope === 'single'
+      ? 'this class'
+      : scope === 'following'
+        ? 'this and all following classes in the series'
+        : 'all upcoming classes in the series';
+
+    Alert.alert(
+      'Cancel classes',
+      `Are you sure you want to cancel ${scopeText}? Every booked student will be refunded in full and notified.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel classes',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { class_count, booking_count } = await ClassSeriesService.cancelClasses(yogaClass.id, profile.id, scope);
 
               fetchClassesAndRetreats();
-              Alert.alert('Success', `${itemType} deleted successfully`);
+              const classText = class_count > 1 ? `${class_count} classes cancelled.` : 'Class cancelled.';
+              Alert.alert(
+                'Success',
+                booking_count > 0
+                  ? `${classText} ${booking_count} ${booking_count === 1 ? 'booking was' : 'bookings were'} refunded and notified.`
+                  : classText
+              );
             } catch (error) {
-              console.error(`Error deleting ${itemType}:`, error);
-              Alert.alert('Error', `Failed to delete ${itemType}`);
+              console.error('Error cancelling classes:', error);
+              Alert.alert('Error', 'Failed to cancel classes');
             }
           },
         },
@@ -273,6 +492,19 @@ export default function ClassesScreen() {
     );
   };
 
+  const handleSeriesScopeSelected = (scope: SeriesScope) => {
+    if (!seriesAction) return;
+
+    const { type, yogaClass } = seriesAction;
+    setSeriesAction(null);
+
+    if (type === 'edit') {
+      openEditClassModal(yogaClass, scope);
+    } else {
+      cancelSeriesClasses(yogaClass, scope);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -310,6 +542,7 @@ export default function ClassesScreen() {
 
   const renderClassCard = (yogaClass: YogaClass) => {
     const isPast = isItemPast(yogaClass.date, yogaClass.time);
+    const isCancelled = yogaClass.status === 'cancelled';
     const isFull = isItemFull(yogaClass);
     const participantCount = getParticipantCount(yogaClass);
     const isBooking = bookingStates[yogaClass.id] || false;
@@ -319,7 +552,7 @@ export default function ClassesScreen() {
         key={yogaClass.id}
         style={[
           styles.classCard,
-          isPast && styles.pastClassCard
+          (isPast || isCancelled) && styles.pastClassCard
         ]}
         onPress={() => router.push(`/class-detail/${yogaClass.id}`)}
       >
@@ -333,7 +566,21 @@ export default function ClassesScreen() {
           </View>
         </View>
         
-        <Text style={styles.classType}>{yogaClass.type}</Text>
+        <View style={styles.classTypeRow}>
+          <Text style={styles.classType}>{yogaClass.type}</Text>
+          {yogaClass.series_id && (
+            <View style={styles.seriesBadge}>
+              <Repeat size={12} color="#8B7355" />
+              <Text style={styles.seriesText}>Series</Text>
+            </View>
+          )}
+          {isCancelled && (
+            <View style={styles.cancelledBadge}>
+              <CalendarX size={12} color="#FF6B6B" />
+              <Text style={styles.cancelledText}>Cancelled</Text>
+            </View>
+          )}
+        </View>
         
         {yogaClass.description && (
           <Text style={styles.classDescription} numberOfLines={2}>
@@ -372,35 +619,50 @@ export default function ClassesScreen() {
         </View>
         
         <View style={styles.classFooter}>
-          <Text style={styles.priceText}>${yogaClass.price}</Text>
+          <Text style={styles.priceText}>
+            {PricingService.formatPrice(PricingService.calculatePrice(yogaClass, pricingRules[yogaClass.id] || []))}
+          </Text>
           {isTeacher ? (
-            <View style={styles.teacherActions}>
-              <TouchableOpacity 
-                style={styles.editButton}
-                onPress={() => {
-                  Alert.alert('Coming Soon', 'Edit functionality will be available soon!');
-                }}
-              >
-                <Edit size={16} color="#C4896F" />
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={styles.deleteButton}
-                onPress={() => deleteItem(yogaClass.id, false)}
-              >
-                <Trash2 size={16} color="#FF6B6B" />
-              </TouchableOpacity>
-            </View>
+            isCancelled ? null : (
+              <View style={styles.teacherActions}>
+                <TouchableOpacity 
+                  style={styles.editButton}
+                  onPress={() => yogaClass.series_id
+                    ? setSeriesAction({ type: 'edit', yogaClass })
+                    : openEditClassModal(yogaClass, 'single')
+                  }
+                >
+                  <Edit size={16} color="#C4896F" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.editButton}
+                  onPress={() => router.push(`/pricing/${yogaClass.id}`)}
+                >
+                  <Tag size={16} color="#C4896F" />
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={styles.cancelButton}
+                  onPress={() => yogaClass.series_id
+                    ? setSeriesAction({ type: 'cancel', yogaClass })
+                    : cancelClass(yogaClass)
+                  }
+                >
+                  <CalendarX size={16} color="#FF6B6B" />
+                </TouchableOpacity>
+              </View>
+            )
           ) : (
             <TouchableOpacity
               style={[
                 styles.actionButton,
-                (isFull || isPast || isBooking) && styles.disabledButton
+                isFull && !isPast && styles.waitlistButton,
+                (isPast || isBooking) && styles.disabledButton
               ]}
-              onPress={() => bookClass(yogaClass.id)}
-              disabled={isFull || isPast || isBooking}
+              onPress={() => isFull ? joinWaitlist(yogaClass.id) : bookClass(yogaClass.id)}
+              disabled={isPast || isBooking}
             >
               <Text style={styles.actionButtonText}>
-                {isBooking ? 'Booking...' : isPast ? 'Past' : isFull ? 'Full' : 'Book Now'}
+                {isBooking ? 'Booking...' : isPast ? 'Past' : isFull ? 'Join Waitlist' : 'Book Now'}
               </Text>
             </TouchableOpacity>
           )}
@@ -425,7 +687,7 @@ export default function ClassesScreen() {
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.addButton}
-              onPress={() => setShowCreateModal(true)}
+              onPress={openCreateClassModal}
             >
               <Plus size={20} color="white" />
             </TouchableOpacity>
@@ -495,6 +757,7 @@ export default function ClassesScreen() {
                   retreat_capacity: retreat.retreat_capacity || retreat.max_participants,
                   profiles: retreat.profiles
                 }}
+                pricingRules={pricingRules[retreat.id]}
                 onPress={() => router.push(`/class-detail/${retreat.id}`)}
               />
             ))
@@ -514,9 +777,22 @@ export default function ClassesScreen() {
       {/* Create Class Modal */}
       <CreateClassModal
         visible={showCreateModal}
-        onClose={() => setShowCreateModal(false)}
-        onSubmit={createClass}
+        onClose={closeClassModal}
+        onSubmit={editingClass ? updateClass : createClass}
         loading={createLoading}
+        cancellationPolicies={cancellationPolicies}
+        initialClass={editingClass}
+        editScope={editScope}
+      />
+
+      {/* Series Scope Picker */}
+      <SeriesScopeModal
+        visible={seriesAction !== null}
+        title={seriesAction?.type === 'edit' ? 'Edit recurring class' : 'Cancel recurring class'}
+        actionLabel={seriesAction?.type === 'edit' ? 'Edit' : 'Cancel'}
+        destructive={seriesAction?.type === 'cancel'}
+        onSelect={handleSeriesScopeSelected}
+        onClose={() => setSeriesAction(null)}
       />
 
       {/* Create Retreat Modal */}
@@ -646,11 +922,44 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textTransform: 'capitalize',
   },
+  classTypeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
   classType: {
     fontSize: 14,
     color: '#C4896F',
     fontWeight: '500',
-    marginBottom: 8,
+  },
+  seriesBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#F4EDE4',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  seriesText: {
+    fontSize: 11,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  cancelledBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FFE5E5',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  cancelledText: {
+    fontSize: 11,
+    color: '#FF6B6B',
+    fontWeight: '500',
   },
   classDescription: {
     fontSize: 14,
@@ -701,6 +1010,9 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#CCC',
   },
+  waitlistButton: {
+    backgroundColor: '#A68B6F',
+  },
   teacherActions: {
     flexDirection: 'row',
     gap: 12,
@@ -710,7 +1022,7 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     backgroundColor: '#F0F0F0',
   },
-  deleteButton: {
+  cancelButton: {
     padding: 8,
     borderRadius: 8,
     backgroundColor: '#FFE5E5',
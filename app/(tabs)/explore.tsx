@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -9,30 +9,22 @@ import {
   RefreshControl,
   ActivityIndicator,
   Alert,
-  Image 
+  Image,
+  TextInput,
+  NativeSyntheticEvent,
+  NativeScrollEvent
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-import { Calendar, Clock, MapPin, Globe, Filter, User, Tent } from 'lucide-react-native';
+import { FollowService } from '@/lib/followService';
+import { LocationService, type LocationCoordinate } from '@/lib/locationService';
+import { ClassSearchService, DEFAULT_FILTERS, RADIUS_OPTIONS_KM, type FilterState, type SearchResultItem } from '@/lib/classSearchService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
+import { Calendar, Clock, MapPin, Globe, Filter, User, Tent, UserCheck, Search, X, Navigation, Map, List } from 'lucide-react-native';
 import RetreatCard from '@/components/RetreatCard';
-import type { Database } from '@/lib/supabase';
+import ClassMap from '@/components/ClassMap';
 
-type YogaClass = Database['public']['Tables']['yoga_classes']['Row'] & {
-  profiles: {
-    full_name: string;
-    avatar_url?: string;
-  };
-};
-
-type FilterState = {
-  type: string;
-  level: string;
-  date: string;
-  mode: string; // 'all', 'in-person', 'virtual'
-  priceRange: [number, number];
-  duration: string; // 'all', '1-3', '4-7', '7+'
-};
+type YogaClass = SearchResultItem;
 
 const YOGA_TYPES = ['All', 'Hatha', 'Vinyasa', 'Ashtanga', 'Bikram', 'Hot Yoga', 'Yin Yoga', 'Restorative', 'Power Yoga', 'Kundalini', 'Iyengar'];
 const LEVELS = ['All', 'beginner', 'intermediate', 'advanced'];
@@ -41,190 +33,146 @@ const RETREAT_TYPES = ['All', 'Mindfulness Retreat', 'Yoga & Meditation', 'Welln
 export default function ExploreScreen() {
   const { profile, loading: authLoading } = useAuth();
   const router = useRouter();
-  const [classes, setClasses] = useState<YogaClass[]>([]);
-  const [retreats, setRetreats] = useState<YogaClass[]>([]);
-  const [filteredClasses, setFilteredClasses] = useState<YogaClass[]>([]);
-  const [filteredRetreats, setFilteredRetreats] = useState<YogaClass[]>([]);
+  const [results, setResults] = useState<YogaClass[]>([]);
+  const [pricingRules, setPricingRules] = useState<Record<string, PricingRule[]>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [participantCounts, setParticipantCounts] = useState<Record<string, number>>({});
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [activeTab, setActiveTab] = useState<'classes' | 'retreats'>('classes');
-  const [filters, setFilters] = useState<FilterState>({
-    type: 'All',
-    level: 'All',
-    date: 'All',
-    mode: 'all',
-    priceRange: [0, 1000],
-    duration: 'all'
-  });
+  const [followedTeacherIds, setFollowedTeacherIds] = useState<string[]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
+  const [studentLocation, setStudentLocation] = useState<LocationCoordinate | null>(null);
+  const [locating, setLocating] = useState(false);
+  // Only the latest search may update the list
+  const searchRequestId = useRef(0);
 
   useEffect(() => {
     if (!authLoading && profile?.role === 'student') {
-      fetchClassesAndRetreats();
+      fetchFollowedTeachers();
     }
   }, [authLoading, profile]);
 
   useEffect(() => {
-    applyFilters();
-  }, [classes, retreats, filters, activeTab]);
+    if (!authLoading && profile?.role === 'student') {
+      fetchResults(true);
+    }
+  }, [authLoading, profile, filters, activeTab, searchQuery, studentLocation]);
 
+  // Wait for the student to stop typing before searching
   useEffect(() => {
-    if (classes.length > 0 || retreats.length > 0) {
-      fetchParticipantCounts();
-    }
-  }, [classes, retreats]);
+    const timeout = setTimeout(() => setSearchQuery(searchText), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
 
-  const fetchClassesAndRetreats = async () => {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      const { data, error } = await supabase
-        .from('yoga_classes')
-        .select(`
-          *,
-          profiles!yoga_classes_teacher_id_fkey (
-            full_name,
-            avatar_url
-          )
-        `)
-        .gte('date', today)
-        .order('date', { ascending: true })
-        .order('time', { ascending: true });
+  const fetchFollowedTeachers = async () => {
+    if (!profile?.id) return;
 
-      if (error) throw error;
-      
-      const allData = data || [];
-      const classesData = allData.filter(item => !item.is_retreat);
-      const retreatsData = allData.filter(item => item.is_retreat);
-      
-      setClasses(classesData);
-      setRetreats(retreatsData);
+    try {
+      setFollowedTeacherIds(await FollowService.getFollowedTeacherIds(profile.id));
     } catch (error) {
-      console.error('Error fetching classes and retreats:', error);
-      Alert.alert('Error', 'Failed to load classes and retreats. Please try again.');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+      console.error('Error fetching followed teachers:', error);
     }
   };
 
-  const fetchParticipantCounts = async () => {
+  const fetchResults = async (reset: boolean) => {
+    const requestId = ++searchRequestId.current;
+    const offset = reset ? 0 : results.length;
+
     try {
-      const allItems = [...classes, ...retreats];
-      const itemIds = allItems.map(item => item.id);
-      
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('class_id')
-        .in('class_id', itemIds)
-        .eq('status', 'confirmed');
+      const page = await ClassSearchService.searchClasses(
+        activeTab === 'retreats',
+        filters,
+        searchQuery,
+        offset,
+        followedTeacherIds,
+        // Distance filters only apply to classes; retreats are picked by destination
+        activeTab === 'classes' ? studentLocation : null
+      );
 
-      if (error) throw error;
+      if (requestId !== searchRequestId.current) return;
 
-      const counts: Record<string, number> = {};
-      itemIds.forEach(id => counts[id] = 0);
-      
-      data?.forEach(booking => {
-        counts[booking.class_id] = (counts[booking.class_id] || 0) + 1;
-      });
+      setResults(prev => reset ? page.items : [...prev, ...page.items]);
+      setTotalCount(page.totalCount);
+      setHasMore(page.hasMore);
 
-      setParticipantCounts(counts);
+      const rules = await PricingService.getPricingRules(page.items.map(item => item.id));
+      if (requestId !== searchRequestId.current) return;
+      setPricingRules(prev => reset ? rules : { ...prev, ...rules });
     } catch (error) {
-      console.error('Error fetching participant counts:', error);
+      if (requestId !== searchRequestId.current) return;
+
+      console.error('Error searching classes and retreats:', error);
+      Alert.alert('Error', 'Failed to load classes and retreats. Please try again.');
+    } finally {
+      if (requestId === searchRequestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+        setRefreshing(false);
+      }
     }
   };
 
-  const applyFilters = () => {
-    const sourceData = activeTab === 'classes' ? classes : retreats;
-    let filtered = [...sourceData];
+  const loadMore = () => {
+    if (!hasMore || loadingMore || loading || refreshing) return;
 
-    // Filter by type
-    if (filters.type !== 'All') {
-      filtered = filtered.filter(item => item.type === filters.type);
-    }
+    setLoadingMore(true);
+    fetchResults(false);
+  };
 
-    // Filter by level
-    if (filters.level !== 'All') {
-      filtered = filtered.filter(item => item.level === filters.level);
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - 400) {
+      loadMore();
     }
+  };
 
-    // Filter by mode (in-person/virtual)
-    if (filters.mode === 'in-person') {
-      filtered = filtered.filter(item => !item.is_virtual);
-    } else if (filters.mode === 'virtual') {
-      filtered = filtered.filter(item => item.is_virtual);
+  const locateStudent = async () => {
+    setLocating(true);
+    try {
+      const location = await LocationService.getCurrentLocation();
+      if (!location) {
+        Alert.alert('Location Needed', 'Allow location access to find classes near you.');
+        return null;
+      }
+
+      setStudentLocation(location);
+      return location;
+    } catch (error) {
+      console.error('Error getting current location:', error);
+      Alert.alert('Error', 'Failed to get your current location. Please try again.');
+      return null;
+    } finally {
+      setLocating(false);
     }
+  };
 
-    // Filter by price range
-    filtered = filtered.filter(item => {
-      const price = item.price;
-      return price >= filters.priceRange[0] && price <= filters.priceRange[1];
-    });
+  const setDistanceFilters = async (changes: Pick<Partial<FilterState>, 'radiusKm' | 'sortBy'>) => {
+    const next = { ...filters, ...changes };
+    const needsLocation = next.radiusKm !== null || next.sortBy === 'distance';
 
-    // Filter by duration (for retreats)
-    if (activeTab === 'retreats' && filters.duration !== 'all') {
-      filtered = filtered.filter(item => {
-        if (!item.retreat_end_date) return filters.duration === '1-3';
-        
-        const start = new Date(item.date);
-        const end = new Date(item.retreat_end_date);
-        const duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        
-        switch (filters.duration) {
-          case '1-3': return duration >= 1 && duration <= 3;
-          case '4-7': return duration >= 4 && duration <= 7;
-          case '7+': return duration > 7;
-          default: return true;
-        }
-      });
-    }
+    if (needsLocation && !studentLocation && !(await locateStudent())) return;
 
-    // Filter by date
-    if (filters.date !== 'All') {
-      const today =  new Date();
-      const filterDate = new Date(today);
-      
-      switch (filters.date) {
-        case 'Today':
-          filterDate.setDate(today.getDate());
-          break;
-        case 'Tomorrow':
-          filterDate.setDate(today.getDate() + 1);
-          break;
-        case 'This Week':
-          filterDate.setDate(today.getDate() + 7);
-          filtered = filtered.filter(item => {
-            const itemDate = new Date(item.date);
-            return itemDate <= filterDate;
-          });
-          break;
-        case 'This Month':
-          filterDate.setMonth(today.getMonth() + 1);
-          filterDate.setDate(0); // Last day of current month
-          filtered = filtered.filter(item => {
-            const itemDate = new Date(item.date);
-            return itemDate <= filterDate;
-          });
-          break;
-      }
-      
-      if (filters.date === 'Today' || filters.date === 'Tomorrow') {
-        const targetDate = filterDate.toISOString().split('T')[0];
-        filtered = filtered.filter(item => item.date === targetDate);
-      }
-    }
+    setFilters(next);
+  };
 
-    if (activeTab === 'classes') {
-      setFilteredClasses(filtered);
-    } else {
-      setFilteredRetreats(filtered);
-    }
+  const changeTab = (tab: 'classes' | 'retreats') => {
+    if (tab === activeTab) return;
+
+    setResults([]);
+    setLoading(true);
+    setActiveTab(tab);
   };
 
-  const onRefresh = () => {
+  const onRefresh = async () => {
     setRefreshing(true);
-    fetchClassesAndRetreats();
+    await fetchFollowedTeachers();
+    fetchResults(true);
   };
 
   const formatDate = (dateString: string) => {
@@ -259,15 +207,17 @@ export default function ExploreScreen() {
   };
 
   const isClassFull = (yogaClass: YogaClass) => {
-    const actualCount = participantCounts[yogaClass.id] || yogaClass.current_participants;
+    const actualCount = getParticipantCount(yogaClass);
     const maxCapacity = yogaClass.is_retreat ? yogaClass.retreat_capacity : yogaClass.max_participants;
     return actualCount >= (maxCapacity || yogaClass.max_participants);
   };
 
   const getParticipantCount = (yogaClass: YogaClass) => {
-    return participantCounts[yogaClass.id] ?? yogaClass.current_participants;
+    return yogaClass.participant_count ?? yogaClass.current_participants;
   };
 
+  const mappedCount = results.filter(item => item.latitude != null && item.longitude != null).length;
+
   const handleClassPress = (classId: string) => {
     router.push(`/class-detail/${classId}`);
   };
@@ -302,6 +252,43 @@ export default function ExploreScreen() {
     </View>
   );
 
+  const renderFollowingFilter = () => (
+    <View style={styles.filterGroup}>
+      <Text style={styles.filterLabel}>Teachers</Text>
+      <View style={styles.modeToggle}>
+        <TouchableOpacity
+          style={[
+            styles.modeButton,
+            !filters.following && styles.modeButtonActive
+          ]}
+          onPress={() => setFilters(prev => ({ ...prev, following: false }))}
+        >
+          <Text style={[
+            styles.modeButtonText,
+            !filters.following && styles.modeButtonTextActive
+          ]}>
+            All
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.modeButton,
+            filters.following && styles.modeButtonActive
+          ]}
+          onPress={() => setFilters(prev => ({ ...prev, following: true }))}
+        >
+          <UserCheck size={16} color={filters.following ? 'white' : '#666'} />
+          <Text style={[
+            styles.modeButtonText,
+            filters.following && styles.modeButtonTextActive
+          ]}>
+            Following
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   const renderModeFilter = () => (
     <View style={styles.filterGroup}>
       <Text style={styles.filterLabel}>Mode</Text>
@@ -354,6 +341,60 @@ export default function ExploreScreen() {
     </View>
   );
 
+  const renderDistanceFilter = () => (
+    <>
+      {renderFilterDropdown(
+        'Distance',
+        ['Any', ...RADIUS_OPTIONS_KM.map(km => `${km} km`)],
+        filters.radiusKm === null ? 'Any' : `${filters.radiusKm} km`,
+        (option) => setDistanceFilters({
+          radiusKm: option === 'Any' ? null : parseInt(option)
+        })
+      )}
+
+      <View style={styles.filterGroup}>
+        <Text style={styles.filterLabel}>Sort By</Text>
+        <View style={styles.modeToggle}>
+          <TouchableOpacity
+            style={[
+              styles.modeButton,
+              filters.sortBy === 'date' && styles.modeButtonActive
+            ]}
+            onPress={() => setDistanceFilters({ sortBy: 'date' })}
+          >
+            <Calendar size={16} color={filters.sortBy === 'date' ? 'white' : '#666'} />
+            <Text style={[
+              styles.modeButtonText,
+              filters.sortBy === 'date' && styles.modeButtonTextActive
+            ]}>
+              Soonest
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.modeButton,
+              filters.sortBy === 'distance' && styles.modeButtonActive
+            ]}
+            onPress={() => setDistanceFilters({ sortBy: 'distance' })}
+            disabled={locating}
+          >
+            {locating ? (
+              <ActivityIndicator size="small" color="#666" />
+            ) : (
+              <Navigation size={16} color={filters.sortBy === 'distance' ? 'white' : '#666'} />
+            )}
+            <Text style={[
+              styles.modeButtonText,
+              filters.sortBy === 'distance' && styles.modeButtonTextActive
+            ]}>
+              Nearest
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </>
+  );
+
   const renderDurationFilter = () => (
     <View style={styles.filterGroup}>
       <Text style={styles.filterLabel}>Duration</Text>
@@ -456,12 +497,24 @@ export default function ExploreScreen() {
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Explore</Text>
-        <TouchableOpacity
-          style={styles.filterButton}
-          onPress={() => setShowFilters(!showFilters)}
-        >
-          <Filter size={20} color="#C4896F" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+          >
+            {viewMode === 'list' ? (
+              <Map size={20} color="#C4896F" />
+            ) : (
+              <List size={20} color="#C4896F" />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowFilters(!showFilters)}
+          >
+            <Filter size={20} color="#C4896F" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Tab Navigation */}
@@ -471,7 +524,7 @@ export default function ExploreScreen() {
             styles.tab,
             activeTab === 'classes' && styles.activeTab
           ]}
-          onPress={() => setActiveTab('classes')}
+          onPress={() => changeTab('classes')}
         >
           <Text style={[
             styles.tabText,
@@ -485,7 +538,7 @@ export default function ExploreScreen() {
             styles.tab,
             activeTab === 'retreats' && styles.activeTab
           ]}
-          onPress={() => setActiveTab('retreats')}
+          onPress={() => changeTab('retreats')}
         >
           <Tent size={16} color={activeTab === 'retreats' ? 'white' : '#666'} />
           <Text style={[
@@ -497,9 +550,32 @@ export default function ExploreScreen() {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.searchBar}>
+        <Search size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          value={searchText}
+          onChangeText={setSearchText}
+          placeholder={activeTab === 'classes'
+            ? 'Search classes, teachers or locations'
+            : 'Search retreats, teachers or locations'
+          }
+          placeholderTextColor="#999"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {searchText.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchText('')}>
+            <X size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {showFilters && (
         <View style={styles.filtersContainer}>
           {renderModeFilter()}
+
+          {renderFollowingFilter()}
           
           {renderFilterDropdown(
             activeTab === 'classes' ? 'Type' : 'Retreat Type',
@@ -522,182 +598,219 @@ export default function ExploreScreen() {
             (date) => setFilters(prev => ({ ...prev, date }))
           )}
 
+          {activeTab === 'classes' && renderDistanceFilter()}
+
           {activeTab === 'retreats' && renderDurationFilter()}
         </View>
       )}
 
-      <ScrollView 
-        style={styles.content}
-        contentContainerStyle={styles.scrollContent}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-        showsVerticalScrollIndicator={false}
-      >
-        {activeTab === 'classes' ? (
-          filteredClasses.length > 0 ? (
-            <>
-              <Text style={styles.resultsCount}>
-                {filteredClasses.length} class{filteredClasses.length !== 1 ? 'es' : ''} found
-              </Text>
+      {viewMode === 'map' ? (
+        <View style={styles.mapContainer}>
+          <ClassMap items={results} onSelect={handleClassPress} />
+          <View style={styles.mapFooter}>
+            <Text style={styles.mapFooterText}>
+              {mappedCount} of {totalCount} {activeTab === 'classes' ? 'classes' : 'retreats'} on the map
+            </Text>
+            {hasMore && (
+              <TouchableOpacity
+                style={styles.loadMoreButton}
+                onPress={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.loadMoreText}>Load More</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={400}
+        >
+          {activeTab === 'classes' ? (
+            results.length > 0 ? (
+              <>
+                <Text style={styles.resultsCount}>
+                  {totalCount} class{totalCount !== 1 ? 'es' : ''} found
+                </Text>
               
-              {filteredClasses.map((yogaClass) => {
-                const isFull = isClassFull(yogaClass);
-                const isOnline = yogaClass.is_virtual || yogaClass.location.toLowerCase() === 'online';
-                const participantCount = getParticipantCount(yogaClass);
-                const teacherName = yogaClass.profiles?.full_name || 'Unknown Teacher';
+                {results.map((yogaClass) => {
+                  const isFull = isClassFull(yogaClass);
+                  const isOnline = yogaClass.is_virtual || yogaClass.location.toLowerCase() === 'online';
+                  const participantCount = getParticipantCount(yogaClass);
+                  const teacherName = yogaClass.profiles?.full_name || 'Unknown Teacher';
                 
-                return (
-                  <TouchableOpacity
-                    key={yogaClass.id}
-                    style={[styles.classCard, isFull && styles.classCardDisabled]}
-                    onPress={() => handleClassPress(yogaClass.id)}
-                    disabled={isFull}
-                  >
-                    {/* Class Image */}
-                    <View style={styles.imageContainer}>
-                      <Image
-                        source={{ 
-                          uri: yogaClass.image_url || 'https://images.pexels.com/photos/3822622/pexels-photo-3822622.jpeg?auto=compress&cs=tinysrgb&w=800'
-                        }}
-                        style={styles.classImage}
-                        resizeMode="cover"
-                      />
-                      {isFull && (
-                        <View style={styles.fullOverlay}>
-                          <Text style={styles.fullOverlayText}>Class Full</Text>
-                        </View>
-                      )}
-                    </View>
-
-                    <View style={styles.cardContent}>
-                      {/* Teacher Info */}
-                      <View style={styles.teacherInfo}>
-                        <View style={styles.teacherAvatar}>
-                          <User size={16} color="white" />
-                        </View>
-                        <Text style={styles.teacherName}>
-                          {teacherName}
-                        </Text>
+                  return (
+                    <TouchableOpacity
+                      key={yogaClass.id}
+                      style={[styles.classCard, isFull && styles.classCardDisabled]}
+                      onPress={() => handleClassPress(yogaClass.id)}
+                      disabled={isFull}
+                    >
+                      {/* Class Image */}
+                      <View style={styles.imageContainer}>
+                        <Image
+                          source={{ 
+                            uri: yogaClass.image_url || 'https://images.pexels.com/photos/3822622/pexels-photo-3822622.jpeg?auto=compress&cs=tinysrgb&w=800'
+                          }}
+                          style={styles.classImage}
+                          resizeMode="cover"
+                        />
+                        {isFull && (
+                          <View style={styles.fullOverlay}>
+                            <Text style={styles.fullOverlayText}>Class Full</Text>
+                          </View>
+                        )}
                       </View>
 
-                      <View style={styles.classHeader}>
-                        <View style={styles.classHeaderLeft}>
-                          <Text style={styles.classTitle}>{yogaClass.title}</Text>
-                          <Text style={styles.classType}>{yogaClass.type}</Text>
-                        </View>
-                        <View style={[
-                          styles.levelBadge,
-                          isFull && styles.levelBadgeDisabled
-                        ]}>
-                          <Text style={styles.levelText}>{yogaClass.level}</Text>
+                      <View style={styles.cardContent}>
+                        {/* Teacher Info */}
+                        <View style={styles.teacherInfo}>
+                          <View style={styles.teacherAvatar}>
+                            <User size={16} color="white" />
+                          </View>
+                          <Text style={styles.teacherName}>
+                            {teacherName}
+                          </Text>
                         </View>
-                      </View>
 
-                      <View style={styles.classDetails}>
-                        <View style={styles.detailItem}>
-                          <Calendar size={14} color="#666" />
-                          <Text style={styles.detailText}>{formatDate(yogaClass.date)}</Text>
+                        <View style={styles.classHeader}>
+                          <View style={styles.classHeaderLeft}>
+                            <Text style={styles.classTitle}>{yogaClass.title}</Text>
+                            <Text style={styles.classType}>{yogaClass.type}</Text>
+                          </View>
+                          <View style={[
+                            styles.levelBadge,
+                            isFull && styles.levelBadgeDisabled
+                          ]}>
+                            <Text style={styles.levelText}>{yogaClass.level}</Text>
+                          </View>
                         </View>
+
+                        <View style={styles.classDetails}>
+                          <View style={styles.detailItem}>
+                            <Calendar size={14} color="#666" />
+                            <Text style={styles.detailText}>{formatDate(yogaClass.date)}</Text>
+                          </View>
                         
-                        <View style={styles.detailItem}>
-                          <Clock size={14} color="#666" />
-                          <Text style={styles.detailText}>
-                            {formatTime(yogaClass.time)} • {yogaClass.duration}min
-                          </Text>
-                        </View>
+                          <View style={styles.detailItem}>
+                            <Clock size={14} color="#666" />
+                            <Text style={styles.detailText}>
+                              {formatTime(yogaClass.time)} • {yogaClass.duration}min
+                            </Text>
+                          </View>
                         
-                        <View style={styles.detailItem}>
-                          {isOnline ? (
-                            <Globe size={14} color="#4CAF50" />
-                          ) : (
-                            <MapPin size={14} color="#666" />
+                          <View style={styles.detailItem}>
+                            {isOnline ? (
+                              <Globe size={14} color="#4CAF50" />
+                            ) : (
+                              <MapPin size={14} color="#666" />
+                            )}
+                            <Text style={[
+                              styles.detailText,
+                              isOnline && styles.onlineText
+                            ]}>
+                              {isOnline ? 'Online' : yogaClass.location}
+                            </Text>
+                          </View>
+
+                          {!isOnline && yogaClass.distance_km != null && (
+                            <View style={styles.detailItem}>
+                              <Navigation size={14} color="#C4896F" />
+                              <Text style={[styles.detailText, styles.distanceText]}>
+                                {LocationService.formatDistance(yogaClass.distance_km)}
+                              </Text>
+                            </View>
                           )}
+                        </View>
+
+                        <View style={styles.classFooter}>
+                          <Text style={styles.priceText}>
+                            {PricingService.formatPrice(PricingService.calculatePrice(yogaClass, pricingRules[yogaClass.id] || []))}
+                          </Text>
                           <Text style={[
-                            styles.detailText,
-                            isOnline && styles.onlineText
+                            styles.participantsText,
+                            isFull && styles.fullText
                           ]}>
-                            {isOnline ? 'Online' : yogaClass.location}
+                            {participantCount}/{yogaClass.max_participants}
+                            {isFull && ' (Full)'}
                           </Text>
                         </View>
                       </View>
-
-                      <View style={styles.classFooter}>
-                        <Text style={styles.priceText}>${yogaClass.price}</Text>
-                        <Text style={[
-                          styles.participantsText,
-                          isFull && styles.fullText
-                        ]}>
-                          {participantCount}/{yogaClass.max_participants}
-                          {isFull && ' (Full)'}
-                        </Text>
-                      </View>
-                    </View>
-                  </TouchableOpacity>
-                );
-              })}
-            </>
-          ) : (
-            <View style={styles.emptyState}>
-              <Text style={styles.emptyText}>
-                No classes found matching your filters.
-              </Text>
-              <TouchableOpacity
-                style={styles.clearFiltersButton}
-                onPress={() => setFilters({ 
-                  type: 'All', 
-                  level: 'All', 
-                  date: 'All',
-                  mode: 'all',
-                  priceRange: [0, 1000],
-                  duration: 'all'
+                    </TouchableOpacity>
+                  );
                 })}
-              >
-                <Text style={styles.clearFiltersText}>Clear Filters</Text>
-              </TouchableOpacity>
-            </View>
-          )
-        ) : (
-          filteredRetreats.length > 0 ? (
-            <>
-              <Text style={styles.resultsCount}>
-                {filteredRetreats.length} retreat{filteredRetreats.length !== 1 ? 's' : ''} found
-              </Text>
-              
-              {filteredRetreats.map((retreat) => (
-                <RetreatCard
-                  key={retreat.id}
-                  retreat={{
-                    ...retreat,
-                    retreat_capacity: retreat.retreat_capacity || retreat.max_participants,
-                    profiles: retreat.profiles
-                  }}
-                  onPress={() => handleClassPress(retreat.id)}
-                />
-              ))}
-            </>
+              </>
+            ) : (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>
+                  {filters.following && followedTeacherIds.length === 0
+                    ? 'You are not following any teachers yet. Follow teachers from their profile page.'
+                    : 'No classes found matching your filters.'
+                  }
+                </Text>
+                <TouchableOpacity
+                  style={styles.clearFiltersButton}
+                  onPress={() => setFilters(DEFAULT_FILTERS)}
+                >
+                  <Text style={styles.clearFiltersText}>Clear Filters</Text>
+                </TouchableOpacity>
+              </View>
+            )
           ) : (
-            <View style={styles.emptyState}>
-              <Text style={styles.emptyText}>
-                No retreats found matching your filters.
-              </Text>
-              <TouchableOpacity
-                style={styles.clearFiltersButton}
-                onPress={() => setFilters({ 
-                  type: 'All', 
-                  level: 'All', 
-                  date: 'All',
-                  mode: 'all',
-                  priceRange: [0, 1000],
-                  duration: 'all'
-                })}
-              >
-                <Text style={styles.clearFiltersText}>Clear Filters</Text>
-              </TouchableOpacity>
-            </View>
-          )
-        )}
-      </ScrollView>
+            results.length > 0 ? (
+              <>
+                <Text style={styles.resultsCount}>
+                  {totalCount} retreat{totalCount !== 1 ? 's' : ''} found
+                </Text>
+              
+                {results.map((retreat) => (
+                  <RetreatCard
+                    key={retreat.id}
+                    retreat={{
+                      ...retreat,
+                      retreat_capacity: retreat.retreat_capacity || retreat.max_participants,
+                      is_virtual: retreat.is_virtual ?? false,
+                      profiles: retreat.profiles
+                    }}
+                    pricingRules={pricingRules[retreat.id]}
+                    onPress={() => handleClassPress(retreat.id)}
+                  />
+                ))}
+              </>
+            ) : (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>
+                  {filters.following && followedTeacherIds.length === 0
+                    ? 'You are not following any teachers yet. Follow teachers from their profile page.'
+                    : 'No retreats found matching your filters.'
+                  }
+                </Text>
+                <TouchableOpacity
+                  style={styles.clearFiltersButton}
+                  onPress={() => setFilters(DEFAULT_FILTERS)}
+                >
+                  <Text style={styles.clearFiltersText}>Clear Filters</Text>
+                </TouchableOpacity>
+              </View>
+            )
+          )}
+
+          {loadingMore && (
+            <ActivityIndicator style={styles.loadingMore} color="#C4896F" />
+          )}
+        </ScrollView>
+      )}
     </SafeAreaView>
   );
 }
@@ -722,6 +835,10 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#333',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   filterButton: {
     padding: 8,
     borderRadius: 8,
@@ -735,6 +852,22 @@ const styles = StyleSheet.create({
     padding: 4,
     marginTop: 16,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    marginHorizontal: 20,
+    marginTop: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#333',
+  },
   tab: {
     flex: 1,
     flexDirection: 'row',
@@ -851,6 +984,40 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 16,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  mapContainer: {
+    flex: 1,
+    marginTop: 16,
+  },
+  mapFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+  mapFooterText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  loadMoreButton: {
+    backgroundColor: '#C4896F',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -986,6 +1153,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  distanceText: {
+    color: '#C4896F',
+    fontWeight: '500',
+  },
   onlineText: {
     color: '#4CAF50',
     fontWeight: '500',
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { NotificationService, type Notification, type NotificationType } from '@/lib/notificationService';
+import { CircleCheck as CheckCircle, CreditCard, CalendarClock, CalendarX, Hourglass, UserPlus, ShieldAlert, Star, MessageSquare, CalendarPlus, CircleAlert as AlertCircle, Bell } from 'lucide-react-native';
+
+const NOTIFICATION_ICONS: Record<NotificationType, { icon: typeof Bell; color: string }> = {
+  booking_confirmed: { icon: CheckCircle, color: '#4CAF50' },
+  payment_received: { icon: CreditCard, color: '#4CAF50' },
+  class_changed: { icon: CalendarClock, color: '#8B7355' },
+  class_cancelled: { icon: CalendarX, color: '#FF6B6B' },
+  waitlist_promoted: { icon: Hourglass, color: '#FF9800' },
+  new_booking: { icon: UserPlus, color: '#C4896F' },
+  penalty_applied: { icon: ShieldAlert, color: '#FF6B6B' },
+  new_review: { icon: Star, color: '#FF9800' },
+  review_reply: { icon: MessageSquare, color: '#8B7355' },
+  new_class: { icon: CalendarPlus, color: '#C4896F' },
+  installment_overdue: { icon: AlertCircle, color: '#FF9800' },
+  booking_released: { icon: CalendarX, color: '#FF6B6B' },
+};
+
+export default function InboxScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    fetchNotifications();
+
+    const subscription = NotificationService.subscribeToNotifications(profile.id, 'inbox', fetchNotifications);
+
+    return () => {
+      NotificationService.unsubscribeFromNotifications(subscription);
+    };
+  }, [profile]);
+
+  const fetchNotifications = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setNotifications(await NotificationService.getNotifications(profile.id));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchNotifications();
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!profile?.id) return;
+
+    if (!notification.read_at) {
+      setNotifications(prev => prev.map(item =>
+        item.id === notification.id ? { ...item, read_at: new Date().toISOString() } : item
+      ));
+
+      try {
+        await NotificationService.markAsRead(notification.id, profile.id);
+      } catch (error) {
+        console.error('Error marking notification as read:', error);
+      }
+    }
+
+    if ((notification.type === 'waitlist_promoted' || notification.type === 'installment_overdue') && notification.class_id) {
+      router.push(`/payment/${notification.class_id}`);
+    } else if (notification.type === 'new_review') {
+      router.push('/reviews');
+    } else if (notification.type === 'class_cancelled' || notification.type === 'review_reply') {
+      router.push('/(tabs)/my-bookings');
+    } else if (notification.class_id) {
+      router.push(`/class-detail/${notification.class_id}`);
+    }
+  };
+
+  const markAllAsRead = async () => {
+    if (!profile?.id) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(item => item.read_at ? item : { ...item, read_at: readAt }));
+
+    try {
+      await NotificationService.markAllAsRead(profile.id);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) => {
+    const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const hasUnread = notifications.some(notification => !notification.read_at);
+
+  const renderNotification = (notification: Notification) => {
+    const { icon: Icon, color } = NOTIFICATION_ICONS[notification.type];
+    const isUnread = !notification.read_at;
+
+    return (
+      <TouchableOpacity
+        key={notification.id}
+        style={[styles.notificationCard, isUnread && styles.unreadCard]}
+        onPress={() => openNotification(notification)}
+      >
+        <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+          <Icon size={20} color={color} />
+        </View>
+        <View style={styles.notificationContent}>
+          <View style={styles.notificationHeader}>
+            <Text style={[styles.notificationTitle, isUnread && styles.unreadTitle]}>
+              {notification.title}
+            </Text>
+            <Text style={styles.timestamp}>{formatTimestamp(notification.created_at)}</Text>
+          </View>
+          <Text style={styles.notificationBody}>{notification.body}</Text>
+        </View>
+        {isUnread && <View style={styles.unreadDot} />}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading notifications...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Inbox</Text>
+        {hasUnread && (
+          <TouchableOpacity onPress={markAllAsRead}>
+            <Text style={styles.markAllText}>Mark all as read</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {notifications.length > 0 ? (
+          notifications.map(renderNotification)
+        ) : (
+          <View style={styles.emptyState}>
+            <Bell size={32} color="#999" />
+            <Text style={styles.emptyText}>No notifications yet.</Text>
+            <Text style={styles.emptySubtext}>
+              {profile?.role === 'teacher'
+                ? 'New bookings for your classes will show up here.'
+                : 'Updates about your bookings will show up here.'
+              }
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#333',
+  },
+  markAllText: {
+    fontSize: 14,
+    color: '#C4896F',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  notificationCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  unreadCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#C4896F',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notificationContent: {
+    flex: 1,
+  },
+  notificationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+    gap: 8,
+  },
+  notificationTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#999',
+  },
+  notificationBody: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#C4896F',
+    marginTop: 6,
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
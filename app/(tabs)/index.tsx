@@ -1,13 +1,17 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { Calendar, Clock, Users, MapPin } from 'lucide-react-native';
+import { FollowService } from '@/lib/followService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
+import { Calendar, Clock, Users, MapPin, Tent, ChevronRight } from 'lucide-react-native';
 import TeacherAvatar from '@/components/TeacherAvatar';
 import { AvatarService } from '@/lib/avatarService';
 import type { Database } from '@/lib/supabase';
 
 type YogaClass = Database['public']['Tables']['yoga_classes']['Row'] & {
+  is_retreat?: boolean;
   profiles: {
     full_name: string;
     avatar_url?: string;
@@ -16,13 +20,22 @@ type YogaClass = Database['public']['Tables']['yoga_classes']['Row'] & {
 
 export default function HomeScreen() {
   const { profile } = useAuth();
+  const router = useRouter();
   const [upcomingClasses, setUpcomingClasses] = useState<YogaClass[]>([]);
+  const [followedClasses, setFollowedClasses] = useState<YogaClass[]>([]);
+  const [pricingRules, setPricingRules] = useState<Record<string, PricingRule[]>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchUpcomingClasses();
   }, []);
 
+  useEffect(() => {
+    if (profile?.id && profile.role === 'student') {
+      fetchFollowedClasses();
+    }
+  }, [profile?.id]);
+
   useEffect(() => {
     if (upcomingClasses.length > 0) {
       preloadTeacherAvatars();
@@ -40,12 +53,14 @@ export default function HomeScreen() {
             avatar_url
           )
         `)
+        .eq('status', 'scheduled')
         .gte('date', new Date().toISOString().split('T')[0])
         .order('date', { ascending: true })
         .limit(5);
 
       if (error) throw error;
       setUpcomingClasses(data || []);
+      setPricingRules(await PricingService.getPricingRules((data || []).map(yogaClass => yogaClass.id)));
     } catch (error) {
       console.error('Error fetching classes:', error);
     } finally {
@@ -53,6 +68,16 @@ export default function HomeScreen() {
     }
   };
 
+  const fetchFollowedClasses = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setFollowedClasses(await FollowService.getFollowedTeachersNewClasses(profile.id));
+    } catch (error) {
+      console.error('Error fetching classes from followed teachers:', error);
+    }
+  };
+
   const preloadTeacherAvatars = async () => {
     const teachers = upcomingClasses
       .map(cls => ({
@@ -87,6 +112,36 @@ export default function HomeScreen() {
           </Text>
         </View>
 
+        {followedClasses.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>New From Teachers You Follow</Text>
+            {followedClasses.map((yogaClass) => (
+              <TouchableOpacity
+                key={yogaClass.id}
+                style={styles.followedCard}
+                onPress={() => router.push(`/class-detail/${yogaClass.id}`)}
+              >
+                <TeacherAvatar
+                  teacherId={yogaClass.teacher_id}
+                  teacherName={yogaClass.profiles?.full_name || 'Unknown Teacher'}
+                  avatarUrl={yogaClass.profiles?.avatar_url}
+                  size="SMALL"
+                />
+                <View style={styles.followedInfo}>
+                  <View style={styles.followedTitleRow}>
+                    {yogaClass.is_retreat && <Tent size={14} color="#C4896F" />}
+                    <Text style={styles.followedTitle} numberOfLines={1}>{yogaClass.title}</Text>
+                  </View>
+                  <Text style={styles.followedMeta}>
+                    {yogaClass.profiles?.full_name || 'Unknown Teacher'} • {yogaClass.date} • {yogaClass.time.slice(0, 5)}
+                  </Text>
+                </View>
+                <ChevronRight size={20} color="#CCC" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Upcoming Classes</Text>
           
@@ -147,7 +202,9 @@ export default function HomeScreen() {
                   </View>
                   
                   <View style={styles.classFooter}>
-                    <Text style={styles.priceText}>${yogaClass.price}</Text>
+                    <Text style={styles.priceText}>
+                      {PricingService.formatPrice(PricingService.calculatePrice(yogaClass, pricingRules[yogaClass.id] || []))}
+                    </Text>
                     <TouchableOpacity style={styles.actionButton}>
                       <Text style={styles.actionButtonText}>
                         {isTeacher ? 'View' : 'Book Now'}
@@ -339,6 +396,39 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  followedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  followedInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  followedTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  followedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flexShrink: 1,
+  },
+  followedMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
   quickActions: {
     gap: 12,
   },
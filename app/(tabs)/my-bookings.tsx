@@ -1,8 +1,19 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, RefreshControl, Alert, ActivityIndicator, Modal } from 'react-native';
+import { useRouter } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { Calendar, Clock, MapPin, Globe, CreditCard, CircleCheck as CheckCircle, CircleAlert as AlertCircle, Tent } from 'lucide-react-native';
+import { WaitlistService } from '@/lib/waitlistService';
+import { CancellationPolicyService, type RefundQuote } from '@/lib/cancellationPolicyService';
+import { ClassChangeService, type ClassChanges, type ClassCancellationNotice } from '@/lib/classChangeService';
+import { ReminderService, DEFAULT_REMINDER_OFFSETS } from '@/lib/reminderService';
+import { AttendanceService } from '@/lib/attendanceService';
+import { ReviewService, type Review } from '@/lib/reviewService';
+import { PaymentScheduleService, type PaymentInstallment } from '@/lib/paymentScheduleService';
+import ReviewModal from '@/components/ReviewModal';
+import StarRating from '@/components/StarRating';
+import { Calendar, Clock, MapPin, Globe, CreditCard, CircleCheck as CheckCircle, CircleAlert as AlertCircle, Tent, Hourglass, X, CalendarClock, CalendarX, QrCode, MessageSquare } from 'lucide-react-native';
 import type { Database } from '@/lib/supabase';
 
 type BookingWithClass = Database['public']['Tables']['bookings']['Row'] & {
@@ -16,6 +27,7 @@ type BookingWithClass = Database['public']['Tables']['bookings']['Row'] & {
 
 export default function MyBookingsScreen() {
   const { profile } = useAuth();
+  const router = useRouter();
   const [upcomingClasses, setUpcomingClasses] = useState<BookingWithClass[]>([]);
   const [upcomingRetreats, setUpcomingRetreats] = useState<BookingWithClass[]>([]);
   const [pastClasses, setPastClasses] = useState<BookingWithClass[]>([]);
@@ -23,6 +35,14 @@ export default function MyBookingsScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'classes' | 'retreats'>('classes');
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [classChanges, setClassChanges] = useState<Record<string, ClassChanges>>({});
+  const [cancellations, setCancellations] = useState<ClassCancellationNotice[]>([]);
+  const [checkInBooking, setCheckInBooking] = useState<BookingWithClass | null>(null);
+  const [reviews, setReviews] = useState<Record<string, Review>>({});
+  const [reviewingBooking, setReviewingBooking] = useState<BookingWithClass | null>(null);
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [schedules, setSchedules] = useState<Record<string, PaymentInstallment[]>>({});
 
   useEffect(() => {
     if (profile?.id && profile?.role === 'student') {
@@ -111,6 +131,22 @@ export default function MyBookingsScreen() {
       setUpcomingRetreats(upcomingRetreatsData);
       setPastClasses(pastClassesData);
       setPastRetreats(pastRetreatsData);
+
+      setClassChanges(await ClassChangeService.getOpenChanges(profile.id));
+      setCancellations(await ClassChangeService.getOpenCancellations(profile.id));
+      setReviews(await ReviewService.getStudentReviews(profile.id));
+      setSchedules(await PaymentScheduleService.getSchedules(
+        upcomingRetreatsData.filter(booking => booking.payment_status === 'partially_paid').map(booking => booking.id)
+      ));
+
+      // Unpaid holds may still lapse, so only paid bookings get reminders; a retreat
+      // paid in installments keeps its spot from the deposit on
+      ReminderService.syncReminders(
+        [...upcomingClassesData, ...upcomingRetreatsData].filter(booking =>
+          booking.payment_status === 'completed' || booking.payment_status === 'partially_paid'
+        ),
+        profile.reminder_offsets ?? DEFAULT_REMINDER_OFFSETS
+      ).catch(error => console.error('Error scheduling class reminders:', error));
     } catch (error) {
       console.error('Error fetching bookings:', error);
     } finally {
@@ -124,6 +160,96 @@ export default function MyBookingsScreen() {
     fetchBookings();
   };
 
+  const getRefundMessage = (booking: BookingWithClass, quote: RefundQuote) => {
+    if (booking.payment_status !== 'completed' && booking.payment_status !== 'partially_paid') {
+      return 'You have not paid for this booking, so no refund is due.';
+    }
+
+    const policyText = quote.policy_id
+      ? `\n\n${quote.policy_name}: ${CancellationPolicyService.describeTiers(quote.tiers)}`
+      : '';
+
+    if (booking.membership_id) {
+      return 'This class is covered by your membership. Cancelling frees it up for another class.';
+    }
+
+    if (quote.pack_purchase_id) {
+      return quote.credit_returned
+        ? `The class credit you used will be returned to your pack.${policyText}`
+        : `It is too late to get your class credit back under the teacher's cancellation policy.${policyText}`;
+    }
+
+    if (quote.refund_amount > 0) {
+      return `You will be refunded €${quote.refund_amount.toFixed(2)} (${quote.refund_percent}% of €${quote.amount_paid.toFixed(2)}).${policyText}`;
+    }
+
+    return `It is too late for a refund under the teacher's cancellation policy. You will not get back the €${quote.amount_paid.toFixed(2)} you paid.${policyText}`;
+  };
+
+  const cancelBooking = async (booking: BookingWithClass) => {
+    if (!profile?.id || cancellingId) return;
+
+    setCancellingId(booking.id);
+
+    let quote: RefundQuote;
+    try {
+      quote = await CancellationPolicyService.getRefundQuote(booking.id, profile.id);
+    } catch (error) {
+      console.error('Error fetching refund quote:', error);
+      setCancellingId(null);
+      if (error instanceof Error && error.message.includes('not found or already cancelled')) {
+        Alert.alert('Error', 'This booking has already been cancelled or does not exist.');
+        fetchBookings();
+      } else {
+        Alert.alert('Error', 'Could not check your refund. Please try again.');
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Cancel Booking',
+      `Cancel your booking for ${booking.yoga_classes.title}?\n\n${getRefundMessage(booking, quote)}`,
+      [
+        { text: 'Keep Booking', style: 'cancel', onPress: () => setCancellingId(null) },
+        {
+          text: 'Cancel Booking',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await supabase.rpc('cancel_booking_with_count', {
+                p_booking_id: booking.id,
+                p_student_id: profile.id
+              });
+
+              if (error) {
+                if (error.message.includes('not found or already cancelled')) {
+                  Alert.alert('Error', 'This booking has already been cancelled or does not exist.');
+                } else {
+                  throw error;
+                }
+                return;
+              }
+
+              fetchBookings();
+              Alert.alert(
+                'Booking Cancelled',
+                quote.refund_amount > 0
+                  ? `Your refund of €${quote.refund_amount.toFixed(2)} is on its way.`
+                  : 'Your booking has been cancelled.'
+              );
+            } catch (error) {
+              console.error('Error cancelling booking:', error);
+              Alert.alert('Error', 'Failed to cancel booking. Please try again.');
+            } finally {
+              setCancellingId(null);
+            }
+          },
+        },
+      ],
+      { cancelable: true, onDismiss: () => setCancellingId(null) }
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -173,10 +299,87 @@ export default function MyBookingsScreen() {
     });
   };
 
+  const describeClassChanges = (changes: ClassChanges) => {
+    const lines: string[] = [];
+
+    if (changes.date) {
+      lines.push(`Date: ${formatDate(changes.date.old!)} → ${formatDate(changes.date.new!)}`);
+    }
+    if (changes.time) {
+      lines.push(`Time: ${formatTime(changes.time.old!)} → ${formatTime(changes.time.new!)}`);
+    }
+    if (changes.location) {
+      lines.push(`Location: ${changes.location.old} → ${changes.location.new}`);
+    }
+    if (changes.meeting_link) {
+      lines.push(changes.meeting_link.new ? 'The meeting link has changed' : 'The meeting link was removed');
+    }
+
+    return lines.join('\n');
+  };
+
+  const dismissClassChanges = async (bookingId: string) => {
+    if (!profile?.id) return;
+
+    setClassChanges(prev => {
+      const { [bookingId]: _dismissed, ...rest } = prev;
+      return rest;
+    });
+
+    try {
+      await ClassChangeService.dismissChanges(bookingId, profile.id);
+    } catch (error) {
+      console.error('Error dismissing class changes:', error);
+    }
+  };
+
+  const describeCancellationRefund = (notice: ClassCancellationNotice) => {
+    if (notice.bookings.membership_id) {
+      return 'It no longer counts toward your membership.';
+    }
+    if (notice.bookings.payment_status === 'refunded') {
+      return notice.bookings.pack_purchase_id
+        ? 'Your class credit has been returned.'
+        : 'Your payment has been refunded in full.';
+    }
+    return 'Nothing was charged.';
+  };
+
+  const dismissCancellation = async (notice: ClassCancellationNotice) => {
+    if (!profile?.id) return;
+
+    setCancellations(prev => prev.filter(item => item.booking_id !== notice.booking_id));
+
+    try {
+      await ClassChangeService.dismissChanges(notice.booking_id, profile.id);
+    } catch (error) {
+      console.error('Error dismissing class cancellation:', error);
+    }
+  };
+
+  const renderCancellation = (notice: ClassCancellationNotice) => (
+    <View key={notice.id} style={styles.cancellationBanner}>
+      <CalendarX size={16} color="#FF6B6B" />
+      <View style={styles.changeBannerContent}>
+        <Text style={styles.cancellationBannerTitle}>
+          {notice.yoga_classes.title} on {formatDate(notice.yoga_classes.date)} was cancelled
+        </Text>
+        {notice.yoga_classes.cancellation_reason && (
+          <Text style={styles.changeBannerText}>{notice.yoga_classes.cancellation_reason}</Text>
+        )}
+        <Text style={styles.changeBannerText}>{describeCancellationRefund(notice)}</Text>
+      </View>
+      <TouchableOpacity onPress={() => dismissCancellation(notice)}>
+        <X size={16} color="#FF6B6B" />
+      </TouchableOpacity>
+    </View>
+  );
+
   const getPaymentStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return '#4CAF50';
       case 'pending': return '#FF9800';
+      case 'partially_paid': return '#8B7355';
       case 'failed': return '#FF6B6B';
       case 'refunded': return '#9C27B0';
       default: return '#666';
@@ -187,12 +390,107 @@ export default function MyBookingsScreen() {
     switch (status) {
       case 'completed': return 'Paid';
       case 'pending': return 'Payment Pending';
+      case 'partially_paid': return 'Deposit Paid';
       case 'failed': return 'Payment Failed';
       case 'refunded': return 'Refunded';
       default: return status;
     }
   };
 
+  const submitReview = async (rating: number, comment: string) => {
+    if (!profile?.id || !reviewingBooking) return;
+
+    setSubmittingReview(true);
+    try {
+      await ReviewService.submitReview(reviewingBooking.id, profile.id, rating, comment);
+      setReviewingBooking(null);
+      setReviews(await ReviewService.getStudentReviews(profile.id));
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      if (error instanceof Error && error.message.includes('Only students who attended')) {
+        Alert.alert('Cannot Review', 'Only students who attended this class can review it.');
+      } else {
+        Alert.alert('Error', 'Failed to save your review. Please try again.');
+      }
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
+  const renderReview = (booking: BookingWithClass) => {
+    // No-shows and unpaid bookings can't be reviewed
+    if (booking.payment_status !== 'completed' || booking.attendance === 'no_show') return null;
+
+    const review = reviews[booking.id];
+
+    if (!review) {
+      return (
+        <TouchableOpacity
+          style={styles.reviewButton}
+          onPress={() => setReviewingBooking(booking)}
+        >
+          <MessageSquare size={16} color="#8B7355" />
+          <Text style={styles.reviewButtonText}>Leave a Review</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <View style={styles.reviewContainer}>
+        <View style={styles.reviewHeader}>
+          <StarRating rating={review.rating} size={14} />
+          <TouchableOpacity onPress={() => setReviewingBooking(booking)}>
+            <Text style={styles.reviewEditText}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        {review.comment && <Text style={styles.reviewComment}>{review.comment}</Text>}
+        {review.status === 'removed' && (
+          <Text style={styles.reviewFlaggedText}>
+            A moderator removed this review, so it's hidden from other students.
+          </Text>
+        )}
+        {review.teacher_reply && (
+          <View style={styles.reviewReply}>
+            <Text style={styles.reviewReplyLabel}>
+              Reply from {booking.yoga_classes.profiles?.full_name || 'the teacher'}
+            </Text>
+            <Text style={styles.reviewReplyText}>{review.teacher_reply}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderBalanceDue = (booking: BookingWithClass) => {
+    const schedule = schedules[booking.id] ?? [];
+    const nextInstallment = PaymentScheduleService.getNextInstallment(schedule);
+    if (!nextInstallment) return null;
+
+    const overdue = PaymentScheduleService.isOverdue(nextInstallment);
+    const formatDueDate = (dueDate: string) => new Date(dueDate).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+
+    return (
+      <TouchableOpacity
+        style={overdue ? styles.failedPaymentNotice : styles.balanceNotice}
+        onPress={() => router.push({
+          pathname: '/payment/[classId]',
+          params: { classId: booking.class_id, bookingId: booking.id }
+        })}
+      >
+        {overdue ? <AlertCircle size={16} color="#FF6B6B" /> : <CalendarClock size={16} color="#8B7355" />}
+        <Text style={overdue ? styles.failedPaymentText : styles.balanceNoticeText}>
+          {overdue
+            ? `Your installment of €${nextInstallment.amount.toFixed(2)} was due ${formatDueDate(nextInstallment.due_date)}. Pay the balance by ${formatDueDate(schedule[schedule.length - 1].due_date)} to keep your spot.`
+            : `€${PaymentScheduleService.getBalanceDue(schedule).toFixed(2)} left to pay. Next installment of €${nextInstallment.amount.toFixed(2)} due ${formatDueDate(nextInstallment.due_date)}.`}
+          {' '}Tap to pay.
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderBookingCard = (booking: BookingWithClass, isPast: boolean = false) => {
     const isOnline = booking.yoga_classes.is_virtual || booking.yoga_classes.location.toLowerCase() === 'online';
     const teacherName = booking.yoga_classes.profiles?.full_name || 'Unknown Teacher';
@@ -223,6 +521,21 @@ export default function MyBookingsScreen() {
         <Text style={styles.teacherName}>with {teacherName}</Text>
         <Text style={styles.classType}>{booking.yoga_classes.type} • {booking.yoga_classes.level}</Text>
 
+        {!isPast && classChanges[booking.id] && (
+          <View style={styles.changeBanner}>
+            <CalendarClock size={16} color="#8B7355" />
+            <View style={styles.changeBannerContent}>
+              <Text style={styles.changeBannerTitle}>
+                This {isRetreat ? 'retreat' : 'class'} has changed
+              </Text>
+              <Text style={styles.changeBannerText}>{describeClassChanges(classChanges[booking.id])}</Text>
+            </View>
+            <TouchableOpacity onPress={() => dismissClassChanges(booking.id)}>
+              <X size={16} color="#8B7355" />
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.classDetails}>
           <View style={styles.detailItem}>
             <Calendar size={16} color="#666" />
@@ -269,6 +582,37 @@ export default function MyBookingsScreen() {
             </Text>
           </View>
 
+          {booking.payment_status === 'pending' && WaitlistService.isHoldActive(booking.hold_expires_at) && (
+            <TouchableOpacity
+              style={styles.holdNotice}
+              onPress={() => router.push({
+                pathname: '/payment/[classId]',
+                params: { classId: booking.class_id, bookingId: booking.id }
+              })}
+            >
+              <Hourglass size={16} color="#FF9800" />
+              <Text style={styles.holdNoticeText}>
+                Your spot is held until{' '}
+                {new Date(booking.hold_expires_at!).toLocaleString('en-US', {
+                  weekday: 'short',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}. Tap to complete payment and keep it.
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {booking.payment_status === 'pending' && booking.hold_expires_at && !WaitlistService.isHoldActive(booking.hold_expires_at) && (
+            <View style={styles.failedPaymentNotice}>
+              <AlertCircle size={16} color="#FF6B6B" />
+              <Text style={styles.failedPaymentText}>
+                Your hold expired before payment. Book again if spots are still available.
+              </Text>
+            </View>
+          )}
+
+          {!isPast && booking.payment_status === 'partially_paid' && renderBalanceDue(booking)}
+
           {booking.payment_status === 'failed' && (
             <View style={styles.failedPaymentNotice}>
               <AlertCircle size={16} color="#FF6B6B" />
@@ -285,6 +629,35 @@ export default function MyBookingsScreen() {
             Booked {new Date(booking.created_at).toLocaleDateString()}
           </Text>
         </View>
+
+        {isPast && renderReview(booking)}
+
+        {!isPast && !isOnline && booking.payment_status === 'completed' && (
+          <TouchableOpacity
+            style={styles.checkInButton}
+            onPress={() => setCheckInBooking(booking)}
+          >
+            <QrCode size={16} color="#8B7355" />
+            <Text style={styles.checkInButtonText}>Show Check-In Code</Text>
+          </TouchableOpacity>
+        )}
+
+        {!isPast && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => cancelBooking(booking)}
+            disabled={cancellingId !== null}
+          >
+            {cancellingId === booking.id ? (
+              <ActivityIndicator size="small" color="#FF6B6B" />
+            ) : (
+              <>
+                <X size={16} color="#FF6B6B" />
+                <Text style={styles.cancelButtonText}>Cancel Booking</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
       </View>
     );
   };
@@ -357,6 +730,9 @@ export default function MyBookingsScreen() {
         }
         showsVerticalScrollIndicator={false}
       >
+        {/* Cancelled by the teacher */}
+        {cancellations.filter(notice => !!notice.yoga_classes.is_retreat === (activeTab === 'retreats')).map(renderCancellation)}
+
         {activeTab === 'classes' ? (
           <>
             {/* Upcoming Classes */}
@@ -405,6 +781,46 @@ export default function MyBookingsScreen() {
           </>
         )}
       </ScrollView>
+
+      {/* Check-In Code */}
+      <Modal
+        visible={checkInBooking !== null}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setCheckInBooking(null)}
+      >
+        <View style={styles.checkInOverlay}>
+          {checkInBooking && (
+            <View style={styles.checkInCard}>
+              <Text style={styles.checkInTitle}>{checkInBooking.yoga_classes.title}</Text>
+              <Text style={styles.checkInSubtitle}>
+                {formatDate(checkInBooking.yoga_classes.date)} at {formatTime(checkInBooking.yoga_classes.time)}
+              </Text>
+              <View style={styles.qrContainer}>
+                <QRCode
+                  value={AttendanceService.getCheckInPayload(checkInBooking.check_in_code)}
+                  size={200}
+                  color="#333"
+                />
+              </View>
+              <Text style={styles.checkInHint}>Show this code to your teacher when you arrive.</Text>
+              <TouchableOpacity style={styles.checkInCloseButton} onPress={() => setCheckInBooking(null)}>
+                <Text style={styles.checkInCloseText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </Modal>
+
+      <ReviewModal
+        visible={reviewingBooking !== null}
+        classTitle={reviewingBooking?.yoga_classes.title ?? ''}
+        teacherName={reviewingBooking?.yoga_classes.profiles?.full_name || 'your teacher'}
+        existingReview={reviewingBooking ? reviews[reviewingBooking.id] : null}
+        submitting={submittingReview}
+        onSubmit={submitReview}
+        onClose={() => setReviewingBooking(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -615,6 +1031,72 @@ const styles = StyleSheet.create({
     color: '#FF6B6B',
     flex: 1,
   },
+  changeBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: '#F4EDE4',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  changeBannerContent: {
+    flex: 1,
+  },
+  changeBannerTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8B7355',
+    marginBottom: 2,
+  },
+  changeBannerText: {
+    fontSize: 12,
+    color: '#666',
+    lineHeight: 18,
+  },
+  cancellationBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: '#FFE5E5',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  cancellationBannerTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF6B6B',
+    marginBottom: 2,
+  },
+  holdNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF3E0',
+    padding: 8,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  holdNoticeText: {
+    fontSize: 12,
+    color: '#FF9800',
+    flex: 1,
+  },
+  balanceNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F9F5F0',
+    padding: 8,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  balanceNoticeText: {
+    fontSize: 12,
+    color: '#8B7355',
+    flex: 1,
+  },
   bookingFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -629,6 +1111,148 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  checkInButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F4EDE4',
+  },
+  checkInButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F4EDE4',
+  },
+  reviewButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  reviewContainer: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reviewEditText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#8B7355',
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  reviewFlaggedText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 8,
+  },
+  reviewReply: {
+    backgroundColor: '#F4EDE4',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  reviewReplyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B7355',
+    marginBottom: 4,
+  },
+  reviewReplyText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  checkInOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  checkInCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 360,
+  },
+  checkInTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  checkInSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  qrContainer: {
+    padding: 16,
+    marginVertical: 20,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  checkInHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  checkInCloseButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  checkInCloseText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#FF6B6B',
+  },
   emptyState: {
     padding: 40,
     alignItems: 'center',
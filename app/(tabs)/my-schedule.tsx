@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, RefreshControl, Modal } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { Calendar, Clock, MapPin, Globe, Eye, X, Mail, User, Tent } from 'lucide-react-native';
+import { WaitlistService, type WaitlistEntryWithStudent } from '@/lib/waitlistService';
+import { PenaltyService, type StrikeCounts } from '@/lib/penaltyService';
+import { Calendar, Clock, MapPin, Globe, Eye, X, Mail, User, Tent, Hourglass, QrCode, BedDouble, Tag } from 'lucide-react-native';
 import type { Database } from '@/lib/supabase';
 
 type ClassWithBookings = Database['public']['Tables']['yoga_classes']['Row'] & {
@@ -10,6 +13,7 @@ type ClassWithBookings = Database['public']['Tables']['yoga_classes']['Row'] & {
     id: string;
     student_id: string;
     payment_status: string;
+    attendance: 'checked_in' | 'no_show' | null;
     profiles: {
       full_name: string;
       email: string;
@@ -22,10 +26,12 @@ type StudentInfo = {
   full_name: string;
   email: string;
   payment_status: string;
+  attendance: 'checked_in' | 'no_show' | null;
 };
 
 export default function MyScheduleScreen() {
   const { profile } = useAuth();
+  const router = useRouter();
   const [upcomingClasses, setUpcomingClasses] = useState<ClassWithBookings[]>([]);
   const [upcomingRetreats, setUpcomingRetreats] = useState<ClassWithBookings[]>([]);
   const [pastClasses, setPastClasses] = useState<ClassWithBookings[]>([]);
@@ -34,6 +40,8 @@ export default function MyScheduleScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedItem, setSelectedItem] = useState<ClassWithBookings | null>(null);
   const [showStudentModal, setShowStudentModal] = useState(false);
+  const [strikeCounts, setStrikeCounts] = useState<Record<string, StrikeCounts>>({});
+  const [waitlists, setWaitlists] = useState<Record<string, WaitlistEntryWithStudent[]>>({});
   const [activeTab, setActiveTab] = useState<'classes' | 'retreats'>('classes');
 
   useEffect(() => {
@@ -54,6 +62,7 @@ export default function MyScheduleScreen() {
             id,
             student_id,
             payment_status,
+            attendance,
             profiles!bookings_student_id_fkey (
               full_name,
               email
@@ -113,6 +122,10 @@ export default function MyScheduleScreen() {
       setUpcomingRetreats(upcomingRetreatsData);
       setPastClasses(pastClassesData);
       setPastRetreats(pastRetreatsData);
+
+      // Only upcoming items can still promote students from the waitlist
+      const upcomingIds = [...upcomingClassesData, ...upcomingRetreatsData].map(item => item.id);
+      setWaitlists(await WaitlistService.getClassWaitlists(upcomingIds));
     } catch (error) {
       console.error('Error fetching classes and retreats:', error);
     } finally {
@@ -179,13 +192,41 @@ export default function MyScheduleScreen() {
     const totalBookings = classItem.bookings.length;
     const paidBookings = classItem.bookings.filter(b => b.payment_status === 'completed').length;
     const pendingPayments = classItem.bookings.filter(b => b.payment_status === 'pending').length;
+    const waitlistCount = waitlists[classItem.id]?.length || 0;
     
-    return { totalBookings, paidBookings, pendingPayments };
+    return { totalBookings, paidBookings, pendingPayments, waitlistCount };
   };
 
-  const showStudentList = (classItem: ClassWithBookings) => {
+  const showStudentList = async (classItem: ClassWithBookings) => {
     setSelectedItem(classItem);
     setShowStudentModal(true);
+
+    if (!profile?.id) return;
+
+    try {
+      const policy = await PenaltyService.getPolicy(profile.id);
+      setStrikeCounts(await PenaltyService.getStrikeCounts(
+        profile.id,
+        classItem.bookings.map(booking => booking.student_id),
+        policy?.window_days
+      ));
+    } catch (error) {
+      console.error('Error fetching student strikes:', error);
+    }
+  };
+
+  const describeStrikes = (counts?: StrikeCounts) => {
+    if (!counts) return null;
+
+    const parts: string[] = [];
+    if (counts.no_show > 0) {
+      parts.push(`${counts.no_show} ${counts.no_show === 1 ? 'no-show' : 'no-shows'}`);
+    }
+    if (counts.late_cancel > 0) {
+      parts.push(`${counts.late_cancel} late ${counts.late_cancel === 1 ? 'cancel' : 'cancels'}`);
+    }
+
+    return parts.length > 0 ? parts.join(' · ') : null;
   };
 
   const renderStudentModal = () => {
@@ -196,7 +237,10 @@ export default function MyScheduleScreen() {
       full_name: booking.profiles.full_name,
       email: booking.profiles.email,
       payment_status: booking.payment_status,
+      attendance: booking.attendance,
     }));
+    const waitlist = waitlists[selectedItem.id] || [];
+    const isRetreat = selectedItem.is_retreat;
 
     return (
       <Modal
@@ -219,11 +263,43 @@ export default function MyScheduleScreen() {
           <View style={styles.modalClassInfo}>
             <Text style={styles.modalClassName}>{selectedItem.title}</Text>
             <Text style={styles.modalClassDate}>
-              {selectedItem.is_retreat 
+              {isRetreat 
                 ? formatDateRange(selectedItem.date, selectedItem.retreat_end_date)
                 : formatDate(selectedItem.date)
               } at {formatTime(selectedItem.time)}
             </Text>
+            <TouchableOpacity
+              style={styles.checkInButton}
+              onPress={() => {
+                setShowStudentModal(false);
+                router.push(`/check-in/${selectedItem.id}`);
+              }}
+            >
+              <QrCode size={16} color="white" />
+              <Text style={styles.checkInButtonText}>Check in students</Text>
+            </TouchableOpacity>
+            {isRetreat && (
+              <TouchableOpacity
+                style={styles.outlineButton}
+                onPress={() => {
+                  setShowStudentModal(false);
+                  router.push(`/retreat-rooms/${selectedItem.id}`);
+                }}
+              >
+                <BedDouble size={16} color="#8B7355" />
+                <Text style={styles.outlineButtonText}>Assign rooms</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={() => {
+                setShowStudentModal(false);
+                router.push(`/pricing/${selectedItem.id}`);
+              }}
+            >
+              <Tag size={16} color="#8B7355" />
+              <Text style={styles.outlineButtonText}>Set pricing</Text>
+            </TouchableOpacity>
           </View>
 
           <ScrollView style={styles.studentList}>
@@ -239,21 +315,65 @@ export default function MyScheduleScreen() {
                       <Mail size={14} color="#666" />
                       <Text style={styles.studentEmailText}>{student.email}</Text>
                     </View>
+                    {describeStrikes(strikeCounts[student.id]) && (
+                      <Text style={styles.strikeText}>{describeStrikes(strikeCounts[student.id])}</Text>
+                    )}
                   </View>
                 </View>
-                <View style={[
-                  styles.paymentBadge,
-                  student.payment_status === 'completed' ? styles.paidBadge : styles.pendingBadge
-                ]}>
-                  <Text style={[
-                    styles.paymentBadgeText,
-                    student.payment_status === 'completed' ? styles.paidText : styles.pendingText
+                {student.attendance ? (
+                  <View style={[
+                    styles.paymentBadge,
+                    student.attendance === 'checked_in' ? styles.paidBadge : styles.noShowBadge
                   ]}>
-                    {student.payment_status === 'completed' ? 'Paid' : 'Pending'}
-                  </Text>
-                </View>
+                    <Text style={[
+                      styles.paymentBadgeText,
+                      student.attendance === 'checked_in' ? styles.paidText : styles.noShowText
+                    ]}>
+                      {student.attendance === 'checked_in' ? 'Attended' : 'No-show'}
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={[
+                    styles.paymentBadge,
+                    student.payment_status === 'completed' ? styles.paidBadge : styles.pendingBadge
+                  ]}>
+                    <Text style={[
+                      styles.paymentBadgeText,
+                      student.payment_status === 'completed' ? styles.paidText : styles.pendingText
+                    ]}>
+                      {student.payment_status === 'completed'
+                        ? 'Paid'
+                        : student.payment_status === 'partially_paid' ? 'Deposit Paid' : 'Pending'}
+                    </Text>
+                  </View>
+                )}
               </View>
             ))}
+
+            {waitlist.length > 0 && (
+              <>
+                <Text style={styles.waitlistTitle}>Waitlist ({waitlist.length})</Text>
+                {waitlist.map((entry, index) => (
+                  <View key={entry.id} style={styles.studentCard}>
+                    <View style={styles.studentInfo}>
+                      <View style={[styles.studentAvatar, styles.waitlistAvatar]}>
+                        <Text style={styles.waitlistPosition}>#{index + 1}</Text>
+                      </View>
+                      <View style={styles.studentDetails}>
+                        <Text style={styles.studentName}>{entry.profiles.full_name}</Text>
+                        <View style={styles.studentEmail}>
+                          <Mail size={14} color="#666" />
+                          <Text style={styles.studentEmailText}>{entry.profiles.email}</Text>
+                        </View>
+                      </View>
+                    </View>
+                    <Text style={styles.waitlistJoinedText}>
+                      Joined {new Date(entry.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
           </ScrollView>
         </SafeAreaView>
       </Modal>
@@ -262,7 +382,7 @@ export default function MyScheduleScreen() {
 
   const renderClassCard = (classItem: ClassWithBookings, isPast: boolean = false) => {
     const isOnline = classItem.is_virtual || classItem.location.toLowerCase() === 'online';
-    const { totalBookings, paidBookings, pendingPayments } = getBookingStats(classItem);
+    const { totalBookings, paidBookings, pendingPayments, waitlistCount } = getBookingStats(classItem);
     const isRetreat = classItem.is_retreat;
 
     return (
@@ -333,6 +453,13 @@ export default function MyScheduleScreen() {
               <Text style={styles.pendingCount}>• {pendingPayments} pending</Text>
             )}
           </View>
+
+          {waitlistCount > 0 && (
+            <View style={styles.statItem}>
+              <Hourglass size={14} color="#FF9800" />
+              <Text style={styles.pendingCount}>{waitlistCount} on waitlist</Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.classFooter}>
@@ -760,6 +887,37 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  checkInButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  checkInButtonText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#8B7355',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '600',
+  },
   studentList: {
     flex: 1,
     padding: 20,
@@ -810,6 +968,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  strikeText: {
+    fontSize: 12,
+    color: '#FF6B6B',
+    marginTop: 4,
+  },
   paymentBadge: {
     borderRadius: 12,
     paddingHorizontal: 8,
@@ -831,4 +994,29 @@ const styles = StyleSheet.create({
   pendingText: {
     color: '#FF9800',
   },
+  noShowBadge: {
+    backgroundColor: '#FFE5E5',
+  },
+  noShowText: {
+    color: '#FF6B6B',
+  },
+  waitlistTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  waitlistAvatar: {
+    backgroundColor: '#FF9800',
+  },
+  waitlistPosition: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  waitlistJoinedText: {
+    fontSize: 12,
+    color: '#999',
+  },
 });
\ No newline at end of file
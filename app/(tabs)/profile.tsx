@@ -1,12 +1,121 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, Alert, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { User, Settings, CircleHelp as HelpCircle, LogOut, Mail, Calendar } from 'lucide-react-native';
+import { ClassPackService, type CreditBalance } from '@/lib/classPackService';
+import { MembershipService, type StudentMembership } from '@/lib/membershipService';
+import { PaymentService } from '@/lib/paymentService';
+import { User, Settings, CircleHelp as HelpCircle, LogOut, Mail, Calendar, ReceiptText, Package, Ticket, BadgeCheck, Bell, ShieldAlert, Star, UserPen, Building2, TicketPercent } from 'lucide-react-native';
 
 export default function ProfileScreen() {
   const { profile, signOut } = useAuth();
   const router = useRouter();
+  const [credits, setCredits] = useState<CreditBalance[]>([]);
+  const [memberships, setMemberships] = useState<StudentMembership[]>([]);
+  const [updatingMembershipId, setUpdatingMembershipId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (profile?.id && profile.role === 'student') {
+      fetchCredits();
+      fetchMemberships();
+    }
+  }, [profile]);
+
+  const fetchCredits = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await ClassPackService.getStudentCredits(profile.id);
+      setCredits(data);
+    } catch (error) {
+      console.error('Error fetching class credits:', error);
+    }
+  };
+
+  const fetchMemberships = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await MembershipService.getStudentMemberships(profile.id);
+      setMemberships(data);
+    } catch (error) {
+      console.error('Error fetching memberships:', error);
+    }
+  };
+
+  const renewMembership = async (membership: StudentMembership) => {
+    if (!profile?.id) return;
+
+    setUpdatingMembershipId(membership.id);
+    try {
+      const result = await PaymentService.payForMembership(
+        { membershipId: membership.id },
+        profile.id
+      );
+
+      if (result.status !== 'succeeded') {
+        throw new Error(result.failureReason || 'Payment could not be confirmed. Please try again.');
+      }
+
+      await fetchMemberships();
+      Alert.alert('Membership Renewed', `${membership.plan_name} is active for another month.`);
+    } catch (error) {
+      console.error('Error renewing membership:', error);
+      Alert.alert(
+        'Renewal Failed',
+        error instanceof Error ? error.message : 'Payment failed. Please try again.'
+      );
+    } finally {
+      setUpdatingMembershipId(null);
+    }
+  };
+
+  const cancelMembership = (membership: StudentMembership) => {
+    if (!profile?.id) return;
+
+    Alert.alert(
+      'Cancel Membership',
+      membership.status === 'active'
+        ? `Cancel ${membership.plan_name}? You keep your membership until ${new Date(membership.current_period_end!).toLocaleDateString()}.`
+        : `Cancel ${membership.plan_name}? Your membership ends now.`,
+      [
+        { text: 'Keep Membership', style: 'cancel' },
+        {
+          text: 'Cancel Membership',
+          style: 'destructive',
+          onPress: async () => {
+            setUpdatingMembershipId(membership.id);
+            try {
+              await MembershipService.cancelMembership(membership.id, profile.id);
+              await fetchMemberships();
+            } catch (error) {
+              console.error('Error cancelling membership:', error);
+              Alert.alert('Error', 'Failed to cancel the membership. Please try again.');
+            } finally {
+              setUpdatingMembershipId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getMembershipStatusText = (membership: StudentMembership) => {
+    if (membership.status === 'past_due') {
+      return 'Payment due - renew to keep booking';
+    }
+
+    const periodEnd = new Date(membership.current_period_end!).toLocaleDateString();
+    const usage = membership.classes_per_period
+      ? `${membership.classes_used} of ${membership.classes_per_period} classes used · `
+      : '';
+
+    return membership.cancel_at_period_end
+      ? `${usage}Ends ${periodEnd}`
+      : `${usage}Renews ${periodEnd}`;
+  };
+
+  const totalCredits = credits.reduce((total, purchase) => total + purchase.credits_remaining, 0);
 
   const handleSignOut = () => {
     Alert.alert(
@@ -53,6 +162,91 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Class Credits */}
+        {profile?.role === 'student' && (
+          <View style={styles.creditsSection}>
+            <View style={styles.creditsHeader}>
+              <Ticket size={20} color="#8B7355" />
+              <Text style={styles.creditsTitle}>Class Credits</Text>
+              <Text style={styles.creditsTotal}>{totalCredits}</Text>
+            </View>
+            {credits.length === 0 ? (
+              <Text style={styles.creditsEmpty}>
+                You don't have any class credits. Buy a class pack from a teacher's class page to save on regular classes.
+              </Text>
+            ) : (
+              credits.map((purchase) => (
+                <TouchableOpacity
+                  key={purchase.id}
+                  style={styles.creditRow}
+                  onPress={() => router.push({
+                    pathname: '/class-packs/[teacherId]',
+                    params: {
+                      teacherId: purchase.teacher_id,
+                      teacherName: purchase.profiles?.full_name
+                    }
+                  })}
+                >
+                  <View style={styles.creditInfo}>
+                    <Text style={styles.creditPackName}>
+                      {purchase.class_packs?.name} · {purchase.profiles?.full_name}
+                    </Text>
+                    <Text style={styles.creditExpiry}>
+                      Expires {new Date(purchase.expires_at!).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <Text style={styles.creditCount}>
+                    {purchase.credits_remaining}/{purchase.credits_total}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        )}
+
+        {/* Memberships */}
+        {profile?.role === 'student' && memberships.length > 0 && (
+          <View style={styles.creditsSection}>
+            <View style={styles.creditsHeader}>
+              <BadgeCheck size={20} color="#8B7355" />
+              <Text style={styles.creditsTitle}>Memberships</Text>
+            </View>
+            {memberships.map((membership) => (
+              <View key={membership.id} style={styles.creditRow}>
+                <View style={styles.creditInfo}>
+                  <Text style={styles.creditPackName}>
+                    {membership.plan_name} · {membership.teacher_name}
+                  </Text>
+                  <Text style={[
+                    styles.creditExpiry,
+                    membership.status === 'past_due' && styles.pastDueText
+                  ]}>
+                    {getMembershipStatusText(membership)}
+                  </Text>
+                </View>
+                {membership.status === 'past_due' && (
+                  <TouchableOpacity
+                    style={styles.membershipAction}
+                    onPress={() => renewMembership(membership)}
+                    disabled={updatingMembershipId !== null}
+                  >
+                    <Text style={styles.membershipActionText}>Renew €{membership.price}</Text>
+                  </TouchableOpacity>
+                )}
+                {!membership.cancel_at_period_end && (
+                  <TouchableOpacity
+                    style={styles.membershipAction}
+                    onPress={() => cancelMembership(membership)}
+                    disabled={updatingMembershipId !== null}
+                  >
+                    <Text style={[styles.membershipActionText, styles.cancelActionText]}>Cancel</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Menu Items */}
         <View style={styles.menuSection}>
           <TouchableOpacity style={styles.menuItem}>
@@ -69,6 +263,114 @@ export default function ProfileScreen() {
             </View>
           </TouchableOpacity>
 
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/teacher-profile')}
+            >
+              <View style={styles.menuItemLeft}>
+                <UserPen size={20} color="#666" />
+                <Text style={styles.menuItemText}>Teacher Profile</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/venues')}
+            >
+              <View style={styles.menuItemLeft}>
+                <Building2 size={20} color="#666" />
+                <Text style={styles.menuItemText}>Venues</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/cancellation-policies')}
+            >
+              <View style={styles.menuItemLeft}>
+                <ReceiptText size={20} color="#666" />
+                <Text style={styles.menuItemText}>Cancellation Policies</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/class-packs')}
+            >
+              <View style={styles.menuItemLeft}>
+                <Package size={20} color="#666" />
+                <Text style={styles.menuItemText}>Class Packs</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/membership-plans')}
+            >
+              <View style={styles.menuItemLeft}>
+                <BadgeCheck size={20} color="#666" />
+                <Text style={styles.menuItemText}>Memberships</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/promo-codes')}
+            >
+              <View style={styles.menuItemLeft}>
+                <TicketPercent size={20} color="#666" />
+                <Text style={styles.menuItemText}>Promo Codes</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/penalty-policy')}
+            >
+              <View style={styles.menuItemLeft}>
+                <ShieldAlert size={20} color="#666" />
+                <Text style={styles.menuItemText}>No-Show Policy</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'teacher' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/reviews')}
+            >
+              <View style={styles.menuItemLeft}>
+                <Star size={20} color="#666" />
+                <Text style={styles.menuItemText}>Reviews</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {profile?.role === 'student' && (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/reminder-settings')}
+            >
+              <View style={styles.menuItemLeft}>
+                <Bell size={20} color="#666" />
+                <Text style={styles.menuItemText}>Class Reminders</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={styles.menuItem}>
             <View style={styles.menuItemLeft}>
               <Settings size={20} color="#666" />
@@ -170,6 +472,79 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textTransform: 'capitalize',
   },
+  creditsSection: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  creditsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  creditsTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  creditsTotal: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#8B7355',
+  },
+  creditsEmpty: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  creditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  creditInfo: {
+    flex: 1,
+  },
+  creditPackName: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  creditExpiry: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  pastDueText: {
+    color: '#FF9800',
+  },
+  membershipAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  membershipActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#C4896F',
+  },
+  cancelActionText: {
+    color: '#FF6B6B',
+  },
+  creditCount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#C4896F',
+  },
   menuSection: {
     backgroundColor: 'white',
     borderRadius: 16,
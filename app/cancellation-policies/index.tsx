@@ -0,0 +1,553 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CancellationPolicyService,
+  type CancellationPolicy,
+  type RefundTier,
+} from '@/lib/cancellationPolicyService';
+import { ArrowLeft, Plus, Trash2, Star, Pencil } from 'lucide-react-native';
+
+interface PolicyForm {
+  id?: string;
+  name: string;
+  tiers: { hours_before: string; refund_percent: string }[];
+}
+
+const EMPTY_FORM: PolicyForm = {
+  name: '',
+  tiers: [
+    { hours_before: '24', refund_percent: '100' },
+    { hours_before: '6', refund_percent: '50' },
+  ],
+};
+
+export default function CancellationPoliciesScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PolicyForm | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchPolicies();
+    }
+  }, [profile]);
+
+  const fetchPolicies = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await CancellationPolicyService.getTeacherPolicies(profile.id);
+      setPolicies(data);
+    } catch (error) {
+      console.error('Error fetching cancellation policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editPolicy = (policy: CancellationPolicy) => {
+    setForm({
+      id: policy.id,
+      name: policy.name,
+      tiers: CancellationPolicyService.sortTiers(policy.tiers).map(tier => ({
+        hours_before: tier.hours_before.toString(),
+        refund_percent: tier.refund_percent.toString(),
+      })),
+    });
+  };
+
+  const updateTier = (index: number, field: 'hours_before' | 'refund_percent', value: string) => {
+    setForm(prev => prev && {
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    });
+  };
+
+  const validateForm = (policyForm: PolicyForm): RefundTier[] | null => {
+    if (!policyForm.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the policy a name.');
+      return null;
+    }
+
+    const tiers: RefundTier[] = [];
+    for (const tier of policyForm.tiers) {
+      const hoursBefore = parseFloat(tier.hours_before);
+      const refundPercent = parseFloat(tier.refund_percent);
+
+      if (isNaN(hoursBefore) || hoursBefore < 0) {
+        Alert.alert('Invalid Tier', 'Hours before class must be 0 or more.');
+        return null;
+      }
+      if (isNaN(refundPercent) || refundPercent < 0 || refundPercent > 100) {
+        Alert.alert('Invalid Tier', 'Refund must be between 0% and 100%.');
+        return null;
+      }
+
+      tiers.push({ hours_before: hoursBefore, refund_percent: refundPercent });
+    }
+
+    return tiers;
+  };
+
+  const savePolicy = async () => {
+    if (!profile?.id || !form) return;
+
+    const tiers = validateForm(form);
+    if (!tiers) return;
+
+    setSaving(true);
+    try {
+      const saved = await CancellationPolicyService.savePolicy(profile.id, {
+        id: form.id,
+        name: form.name.trim(),
+        tiers,
+      });
+
+      // The first policy a teacher creates becomes their default
+      if (policies.length === 0) {
+        await CancellationPolicyService.setDefaultPolicy(saved.id, profile.id);
+      }
+
+      setForm(null);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error saving cancellation policy:', error);
+      Alert.alert('Error', 'Failed to save the policy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setDefaultPolicy = async (policy: CancellationPolicy) => {
+    if (!profile?.id) return;
+
+    try {
+      await CancellationPolicyService.setDefaultPolicy(policy.id, profile.id);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error setting default policy:', error);
+      Alert.alert('Error', 'Failed to update the default policy. Please try again.');
+    }
+  };
+
+  const deletePolicy = (policy: CancellationPolicy) => {
+    Alert.alert(
+      'Delete Policy',
+      policy.is_default
+        ? `Delete "${policy.name}"? Classes without their own policy will give full refunds until you pick a new default.`
+        : `Delete "${policy.name}"? Classes using it will fall back to your default policy.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (!profile?.id) return;
+
+            try {
+              await CancellationPolicyService.deletePolicy(policy.id, profile.id);
+              fetchPolicies();
+            } catch (error) {
+              console.error('Error deleting cancellation policy:', error);
+              Alert.alert('Error', 'Failed to delete the policy. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = (policyForm: PolicyForm) => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{policyForm.id ? 'Edit Policy' : 'New Policy'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={policyForm.name}
+        onChangeText={(name) => setForm(prev => prev && { ...prev, name })}
+        placeholder="e.g. Standard 24h"
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Refund Tiers</Text>
+      <Text style={styles.helpText}>
+        Cancelling at least this many hours before class gets this refund. Later cancellations get nothing.
+      </Text>
+
+      {policyForm.tiers.map((tier, index) => (
+        <View key={index} style={styles.tierRow}>
+          <TextInput
+            style={[styles.input, styles.tierInput]}
+            value={tier.hours_before}
+            onChangeText={(value) => updateTier(index, 'hours_before', value)}
+            keyboardType="numeric"
+            editable={!saving}
+          />
+          <Text style={styles.tierLabel}>h before →</Text>
+          <TextInput
+            style={[styles.input, styles.tierInput]}
+            value={tier.refund_percent}
+            onChangeText={(value) => updateTier(index, 'refund_percent', value)}
+            keyboardType="numeric"
+            editable={!saving}
+          />
+          <Text style={styles.tierLabel}>%</Text>
+          <TouchableOpacity
+            onPress={() => setForm(prev => prev && {
+              ...prev,
+              tiers: prev.tiers.filter((_, i) => i !== index),
+            })}
+            disabled={saving}
+          >
+            <Trash2 size={18} color="#FF6B6B" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addTierButton}
+        onPress={() => setForm(prev => prev && {
+          ...prev,
+          tiers: [...prev.tiers, { hours_before: '0', refund_percent: '0' }],
+        })}
+        disabled={saving}
+      >
+        <Plus size={16} color="#8B7355" />
+        <Text style={styles.addTierText}>Add Tier</Text>
+      </TouchableOpacity>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setForm(null)}
+          disabled={saving}
+        >
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={savePolicy}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  // Only teachers configure cancellation policies
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Cancellation Policies</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading policies...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Your default policy applies to every class without its own policy.
+            Without any policy, students always get a full refund.
+          </Text>
+
+          {policies.map((policy) => (
+            <View key={policy.id} style={styles.policyCard}>
+              <View style={styles.policyHeader}>
+                <Text style={styles.policyName}>{policy.name}</Text>
+                {policy.is_default && (
+                  <View style={styles.defaultBadge}>
+                    <Text style={styles.defaultBadgeText}>Default</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.policyTiers}>
+                {CancellationPolicyService.describeTiers(policy.tiers)}
+              </Text>
+              <View style={styles.policyActions}>
+                {!policy.is_default && (
+                  <TouchableOpacity style={styles.policyAction} onPress={() => setDefaultPolicy(policy)}>
+                    <Star size={16} color="#8B7355" />
+                    <Text style={styles.policyActionText}>Make Default</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.policyAction} onPress={() => editPolicy(policy)}>
+                  <Pencil size={16} color="#8B7355" />
+                  <Text style={styles.policyActionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.policyAction} onPress={() => deletePolicy(policy)}>
+                  <Trash2 size={16} color="#FF6B6B" />
+                  <Text style={[styles.policyActionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {form ? (
+            renderForm(form)
+          ) : (
+            <TouchableOpacity style={styles.newPolicyButton} onPress={() => setForm(EMPTY_FORM)}>
+              <Plus size={20} color="white" />
+              <Text style={styles.newPolicyText}>New Policy</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  policyCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  policyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  policyName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  defaultBadge: {
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  defaultBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '500',
+  },
+  policyTiers: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  policyActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  policyAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  policyActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#FF6B6B',
+  },
+  newPolicyButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  newPolicyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tierInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  tierLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  addTierButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+  },
+  addTierText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,465 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { AttendanceService, type AttendanceEntry, type AttendanceStatus } from '@/lib/attendanceService';
+import { ArrowLeft, CircleCheck as CheckCircle, CircleX, Camera, User } from 'lucide-react-native';
+
+type ScanResult = {
+  success: boolean;
+  message: string;
+};
+
+// Readable messages for the errors raised by check_in_booking
+const CHECK_IN_ERRORS = [
+  'already checked in',
+  'not for this class',
+  'Check-in opens',
+  'has not been paid',
+  'has been cancelled',
+];
+
+export default function CheckInScreen() {
+  const { classId } = useLocalSearchParams<{ classId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [yogaClass, setYogaClass] = useState<{ title: string; date: string; time: string } | null>(null);
+  const [students, setStudents] = useState<AttendanceEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+
+  useEffect(() => {
+    if (classId) {
+      fetchClassAndAttendance();
+    }
+  }, [classId]);
+
+  // Keep the last result on screen for a moment before scanning the next student
+  useEffect(() => {
+    if (!scanResult) return;
+
+    const timeout = setTimeout(() => setScanResult(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [scanResult]);
+
+  const fetchClassAndAttendance = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('yoga_classes')
+        .select('title, date, time')
+        .eq('id', classId)
+        .single();
+
+      if (error) throw error;
+
+      setYogaClass(data);
+      setStudents(await AttendanceService.getClassAttendance(classId));
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+      Alert.alert('Error', 'Failed to load the class attendance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    if (!profile?.id || processing || scanResult) return;
+
+    const checkInCode = AttendanceService.parseCheckInPayload(data);
+    if (!checkInCode) {
+      setScanResult({ success: false, message: 'This is not a Yogify check-in code.' });
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      const { student_name } = await AttendanceService.checkIn(classId, profile.id, checkInCode);
+
+      setScanResult({ success: true, message: `${student_name} is checked in.` });
+      setStudents(await AttendanceService.getClassAttendance(classId));
+    } catch (error) {
+      console.error('Error checking in student:', error);
+
+      const message = error instanceof Error && CHECK_IN_ERRORS.some(text => error.message.includes(text))
+        ? error.message
+        : 'Check-in failed. Please try again.';
+      setScanResult({ success: false, message });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const markAttendance = async (bookingId: string, attendance: AttendanceStatus) => {
+    if (!profile?.id) return;
+
+    try {
+      await AttendanceService.markAttendance(bookingId, profile.id, attendance);
+      setStudents(await AttendanceService.getClassAttendance(classId));
+    } catch (error) {
+      console.error('Error marking attendance:', error);
+      Alert.alert('Error', 'Failed to update attendance');
+    }
+  };
+
+  const markRemainingNoShows = () => {
+    if (!profile?.id) return;
+
+    Alert.alert(
+      'Close attendance',
+      'Everyone who hasn\'t checked in will be marked as a no-show.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark no-shows',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await AttendanceService.markRemainingNoShows(classId, profile.id);
+              setStudents(await AttendanceService.getClassAttendance(classId));
+            } catch (error) {
+              console.error('Error marking no-shows:', error);
+              if (error instanceof Error && error.message.includes('once the class has started')) {
+                Alert.alert('Too Early', 'No-shows can only be marked once the class has started.');
+              } else {
+                Alert.alert('Error', 'Failed to mark no-shows');
+              }
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const paidStudents = students.filter(student => student.payment_status === 'completed');
+  const checkedInCount = paidStudents.filter(student => student.attendance === 'checked_in').length;
+  const hasStarted = yogaClass ? new Date(`${yogaClass.date} ${yogaClass.time}`) <= new Date() : false;
+  const hasUnmarked = paidStudents.some(student => !student.attendance);
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <View style={styles.cameraPlaceholder} />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.cameraPlaceholder}>
+          <Camera size={32} color="#8B7355" />
+          <Text style={styles.placeholderText}>
+            Allow camera access to scan your students' check-in codes.
+          </Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraContainer}>
+        <CameraView
+          style={styles.camera}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={processing || scanResult ? undefined : handleBarcodeScanned}
+        />
+        {scanResult && (
+          <View style={[styles.scanResult, scanResult.success ? styles.scanSuccess : styles.scanError]}>
+            {scanResult.success ? (
+              <CheckCircle size={20} color="white" />
+            ) : (
+              <CircleX size={20} color="white" />
+            )}
+            <Text style={styles.scanResultText}>{scanResult.message}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Check-In</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading attendance...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {yogaClass && (
+            <View style={styles.classInfo}>
+              <Text style={styles.className}>{yogaClass.title}</Text>
+              <Text style={styles.attendanceCount}>
+                {checkedInCount}/{paidStudents.length} checked in
+              </Text>
+            </View>
+          )}
+
+          {renderCamera()}
+
+          <Text style={styles.sectionTitle}>Students</Text>
+          {students.map((student) => (
+            <View key={student.id} style={styles.studentCard}>
+              <View style={styles.studentInfo}>
+                <View style={styles.studentAvatar}>
+                  <User size={20} color="white" />
+                </View>
+                <View style={styles.studentDetails}>
+                  <Text style={styles.studentName}>{student.profiles.full_name}</Text>
+                  <Text style={styles.studentStatus}>
+                    {student.payment_status !== 'completed'
+                      ? 'Payment pending'
+                      : student.attendance === 'checked_in'
+                        ? `Checked in at ${new Date(student.checked_in_at!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+                        : student.attendance === 'no_show'
+                          ? 'No-show'
+                          : 'Not checked in'
+                    }
+                  </Text>
+                </View>
+              </View>
+              {student.payment_status === 'completed' && (
+                <View style={styles.studentActions}>
+                  <TouchableOpacity
+                    style={[styles.attendanceButton, student.attendance === 'checked_in' && styles.checkedInButton]}
+                    onPress={() => markAttendance(student.id, 'checked_in')}
+                    disabled={student.attendance === 'checked_in'}
+                  >
+                    <CheckCircle size={18} color={student.attendance === 'checked_in' ? 'white' : '#4CAF50'} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.attendanceButton, student.attendance === 'no_show' && styles.noShowButton]}
+                    onPress={() => markAttendance(student.id, 'no_show')}
+                    disabled={student.attendance === 'no_show'}
+                  >
+                    <CircleX size={18} color={student.attendance === 'no_show' ? 'white' : '#FF6B6B'} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))}
+
+          {hasStarted && hasUnmarked && (
+            <TouchableOpacity style={styles.noShowAllButton} onPress={markRemainingNoShows}>
+              <Text style={styles.noShowAllText}>Mark the rest as no-show</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  classInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  className: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  attendanceCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  cameraContainer: {
+    height: 280,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 24,
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraPlaceholder: {
+    height: 280,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 12,
+    marginBottom: 24,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: '#8B7355',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  permissionButtonText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  scanResult: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+  },
+  scanSuccess: {
+    backgroundColor: '#4CAF50',
+  },
+  scanError: {
+    backgroundColor: '#FF6B6B',
+  },
+  scanResultText: {
+    flex: 1,
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '500',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  studentCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  studentInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  studentAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#8B7355',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  studentDetails: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 2,
+  },
+  studentStatus: {
+    fontSize: 12,
+    color: '#666',
+  },
+  studentActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  attendanceButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  checkedInButton: {
+    backgroundColor: '#4CAF50',
+  },
+  noShowButton: {
+    backgroundColor: '#FF6B6B',
+  },
+  noShowAllButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+    marginTop: 8,
+  },
+  noShowAllText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    fontWeight: '600',
+  },
+});
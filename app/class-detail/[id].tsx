@@ -14,7 +14,17 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Calendar, Clock, MapPin, Users, Globe, DollarSign, Star, CircleCheck as CheckCircle, User, Tent } from 'lucide-react-native';
+import { WaitlistService, type WaitlistStatus } from '@/lib/waitlistService';
+import { ClassPackService } from '@/lib/classPackService';
+import { MembershipService, type StudentMembership } from '@/lib/membershipService';
+import { PenaltyService } from '@/lib/penaltyService';
+import { ReviewService, type RatingSummary, type ReviewWithDetails } from '@/lib/reviewService';
+import { RetreatItineraryService, type ItineraryDay } from '@/lib/retreatItineraryService';
+import { AccommodationService, type RetreatAccommodation } from '@/lib/accommodationService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
+import StarRating from '@/components/StarRating';
+import RetreatItinerary from '@/components/RetreatItinerary';
+import { ArrowLeft, Calendar, Clock, MapPin, Users, Globe, DollarSign, Star, CircleCheck as CheckCircle, User, Tent, Hourglass, Ticket, ChevronRight, CalendarX } from 'lucide-react-native';
 import type { Database } from '@/lib/supabase';
 
 type YogaClass = Database['public']['Tables']['yoga_classes']['Row'] & {
@@ -35,6 +45,17 @@ export default function ClassDetailScreen() {
   const [booking, setBooking] = useState(false);
   const [existingBooking, setExistingBooking] = useState<Booking | null>(null);
   const [actualParticipantCount, setActualParticipantCount] = useState(0);
+  const [waitlistStatus, setWaitlistStatus] = useState<WaitlistStatus | null>(null);
+  const [availableCredits, setAvailableCredits] = useState(0);
+  const [packsOnSale, setPacksOnSale] = useState(false);
+  const [membership, setMembership] = useState<StudentMembership | null>(null);
+  const [teacherRating, setTeacherRating] = useState<RatingSummary | null>(null);
+  const [classTypeRating, setClassTypeRating] = useState<RatingSummary | null>(null);
+  const [recentReviews, setRecentReviews] = useState<ReviewWithDetails[]>([]);
+  const [itinerary, setItinerary] = useState<ItineraryDay[]>([]);
+  const [accommodations, setAccommodations] = useState<RetreatAccommodation[]>([]);
+  const [selectedAccommodationId, setSelectedAccommodationId] = useState<string | null>(null);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
 
   // Ensure id is a valid string
   const id = typeof params.id === 'string' ? params.id : null;
@@ -44,11 +65,19 @@ export default function ClassDetailScreen() {
       fetchClassDetails();
       checkExistingBooking();
       fetchActualParticipantCount();
+      fetchWaitlistStatus();
     } else {
       setLoading(false);
     }
   }, [id]);
 
+  useEffect(() => {
+    if (yogaClass) {
+      fetchCredits();
+      fetchRatings();
+    }
+  }, [yogaClass?.teacher_id]);
+
   const fetchClassDetails = async () => {
     if (!id) return;
     
@@ -67,6 +96,12 @@ export default function ClassDetailScreen() {
 
       if (error) throw error;
       setYogaClass(data);
+      fetchPricingRules();
+
+      if (data.is_retreat) {
+        fetchItinerary(data.date, data.retreat_end_date);
+        fetchAccommodations();
+      }
     } catch (error) {
       console.error('Error fetching class details:', error);
       Alert.alert('Error', 'Failed to load class details.');
@@ -85,7 +120,7 @@ export default function ClassDetailScreen() {
         .select('*', { count: 'exact', head: true })
         .eq('class_id', id)
         .eq('status', 'confirmed')
-        .eq('payment_status', 'completed');
+        .in('payment_status', ['completed', 'partially_paid']);
 
       if (error) throw error;
       setActualParticipantCount(count || 0);
@@ -111,7 +146,12 @@ export default function ClassDetailScreen() {
         throw error;
       }
 
-      if (data) {
+      // A booking whose hold ran out unpaid is released when the student books again
+      const holdLapsed = data?.payment_status === 'pending'
+        && !!data.hold_expires_at
+        && !WaitlistService.isHoldActive(data.hold_expires_at);
+
+      if (data && !holdLapsed) {
         setExistingBooking(data);
       }
     } catch (error) {
@@ -119,13 +159,175 @@ export default function ClassDetailScreen() {
     }
   };
 
+  const fetchWaitlistStatus = async () => {
+    if (!profile?.id || profile.role !== 'student' || !id) return;
+
+    try {
+      const status = await WaitlistService.getWaitlistStatus(profile.id, id);
+      setWaitlistStatus(status);
+    } catch (error) {
+      console.error('Error fetching waitlist status:', error);
+    }
+  };
+
+  const fetchCredits = async () => {
+    if (!profile?.id || profile.role !== 'student' || !yogaClass) return;
+
+    try {
+      const [credits, packs, plans, memberships] = await Promise.all([
+        ClassPackService.getAvailableCredits(profile.id, yogaClass.teacher_id),
+        ClassPackService.getTeacherPacks(yogaClass.teacher_id, true),
+        MembershipService.getTeacherPlans(yogaClass.teacher_id, true),
+        MembershipService.getStudentMemberships(profile.id),
+      ]);
+      setAvailableCredits(credits);
+      setPacksOnSale(packs.length > 0 || plans.length > 0);
+      setMembership(memberships.find(m =>
+        m.teacher_id === yogaClass.teacher_id &&
+        m.status === 'active' &&
+        (m.classes_per_period === null || m.classes_used < m.classes_per_period)
+      ) ?? null);
+    } catch (error) {
+      console.error('Error fetching class credits:', error);
+    }
+  };
+
+  const fetchRatings = async () => {
+    if (!yogaClass) return;
+
+    try {
+      const [teacherRatings, classTypeRatings, reviews] = await Promise.all([
+        ReviewService.getTeacherRatings([yogaClass.teacher_id]),
+        ReviewService.getClassTypeRatings(yogaClass.teacher_id),
+        ReviewService.getTeacherReviews(yogaClass.teacher_id, 10),
+      ]);
+      setTeacherRating(teacherRatings[yogaClass.teacher_id] ?? null);
+      setClassTypeRating(classTypeRatings[yogaClass.type] ?? null);
+      // The teacher also gets their removed reviews back, which don't belong on the class page
+      setRecentReviews(reviews.filter(review => review.status !== 'removed').slice(0, 3));
+    } catch (error) {
+      console.error('Error fetching ratings:', error);
+    }
+  };
+
+  const fetchItinerary = async (startDate: string, endDate: string | null) => {
+    if (!id) return;
+
+    try {
+      const sessions = await RetreatItineraryService.getItinerary(id);
+      setItinerary(sessions.length > 0 ? RetreatItineraryService.groupByDay(sessions, startDate, endDate) : []);
+    } catch (error) {
+      console.error('Error fetching retreat itinerary:', error);
+    }
+  };
+
+  const fetchPricingRules = async () => {
+    if (!id) return;
+
+    try {
+      setPricingRules((await PricingService.getPricingRules([id]))[id] || []);
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+    }
+  };
+
+  const fetchAccommodations = async () => {
+    if (!id) return;
+
+    try {
+      setAccommodations(await AccommodationService.getAccommodations(id));
+    } catch (error) {
+      console.error('Error fetching accommodations:', error);
+    }
+  };
+
+  const joinWaitlist = async () => {
+    if (!profile?.id || !yogaClass) return;
+
+    setBooking(true);
+    try {
+      const { position } = await WaitlistService.joinWaitlist(profile.id, yogaClass.id);
+      await fetchWaitlistStatus();
+      Alert.alert(
+        'Added to Waitlist',
+        `You're #${position} on the waitlist. If a spot opens up, we'll hold it for you and you can complete payment from My Bookings.`
+      );
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+
+      let errorMessage = 'Failed to join the waitlist. Please try again.';
+
+      if (error instanceof Error) {
+        if (error.message.includes('already has a booking')) {
+          errorMessage = 'You have already booked this class.';
+          await checkExistingBooking();
+        } else if (error.message.includes('has available spots')) {
+          errorMessage = 'A spot has opened up. You can book this class now.';
+          await fetchActualParticipantCount();
+        } else if (error.message.includes('Cannot book past classes')) {
+          errorMessage = 'This class has already started or ended.';
+        } else if (error.message.includes('Booking restricted')) {
+          errorMessage = PenaltyService.getRestrictionMessage(error.message);
+        }
+      }
+
+      Alert.alert('Waitlist', errorMessage);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  const leaveWaitlist = () => {
+    if (!profile?.id || !waitlistStatus?.entry_id) return;
+
+    const entryId = waitlistStatus.entry_id;
+    Alert.alert(
+      'Leave Waitlist',
+      'Are you sure you want to give up your place on the waitlist?',
+      [
+        { text: 'Stay', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await WaitlistService.leaveWaitlist(entryId, profile.id);
+              await fetchWaitlistStatus();
+            } catch (error) {
+              console.error('Error leaving waitlist:', error);
+              Alert.alert('Error', 'Failed to leave the waitlist. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const promptJoinWaitlist = (message: string) => {
+    Alert.alert(
+      'Class Full',
+      `${message} Would you like to join the waitlist?`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Join Waitlist', onPress: joinWaitlist },
+      ]
+    );
+  };
+
   const handleBookClass = async () => {
     if (!profile?.id || !yogaClass) return;
 
-    // Check if class is full based on actual count
-    const maxCapacity = yogaClass.is_retreat ? yogaClass.retreat_capacity : yogaClass.max_participants;
-    if (actualParticipantCount >= (maxCapacity || yogaClass.max_participants)) {
-      Alert.alert('Class Full', 'This class is already full.');
+    // Check if already on the waitlist
+    if (!existingBooking && waitlistStatus?.on_waitlist) {
+      leaveWaitlist();
+      return;
+    }
+
+    // Offer the waitlist if the class is full based on actual count
+    const isRetreat = yogaClass.is_retreat;
+    const maxCapacity = isRetreat ? yogaClass.retreat_capacity : yogaClass.max_participants;
+    if (!existingBooking && actualParticipantCount >= (maxCapacity || yogaClass.max_participants)) {
+      await joinWaitlist();
       return;
     }
 
@@ -147,6 +349,16 @@ export default function ClassDetailScreen() {
       return;
     }
 
+    // Retreats sold by accommodation are booked into one of the options
+    if (accommodations.length > 0 && !selectedAccommodationId) {
+      if (accommodations.every(option => option.spots_left <= 0)) {
+        Alert.alert('Accommodation Sold Out', 'Every accommodation option of this retreat is fully booked.');
+      } else {
+        Alert.alert('Choose Accommodation', 'Pick where you would like to stay before booking.');
+      }
+      return;
+    }
+
     setBooking(true);
     try {
       // First check if we can book this class
@@ -168,14 +380,22 @@ export default function ClassDetailScreen() {
             await checkExistingBooking();
             break;
           case 'class_full':
-            alertTitle = 'Class Full';
-            alertMessage = 'This class is now full. Please try another class.';
             await fetchActualParticipantCount();
-            break;
+            promptJoinWaitlist('This class is now full.');
+            return;
           case 'class_past':
             alertTitle = 'Class Unavailable';
             alertMessage = 'This class has already started or ended.';
             break;
+          case 'booking_restricted':
+            alertTitle = 'Booking Paused';
+            alertMessage = PenaltyService.getRestrictionMessage(canBookData.restricted_until);
+            break;
+          case 'class_cancelled':
+            alertTitle = 'Class Cancelled';
+            alertMessage = 'This class has been cancelled by the teacher.';
+            await fetchClassDetails();
+            break;
           default:
             alertTitle = 'Booking Failed';
             break;
@@ -185,12 +405,43 @@ export default function ClassDetailScreen() {
         return;
       }
 
+      // Students with credits for this teacher can skip the payment screen;
+      // a covering membership is applied by the server without asking
+      if (availableCredits > 0 && !isRetreat && !canBookData.membership_id) {
+        Alert.alert(
+          'Book Class',
+          `You have ${availableCredits} class ${availableCredits === 1 ? 'credit' : 'credits'} with ${yogaClass.profiles?.full_name || 'this teacher'}. How would you like to pay?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: `Pay ${getCurrentPrice()}`, onPress: () => createBooking(false) },
+            { text: 'Use 1 Credit', onPress: () => createBooking(true) },
+          ]
+        );
+        return;
+      }
+
+      await createBooking(false);
+    } catch (error) {
+      console.error('Error checking booking availability:', error);
+      Alert.alert('Booking Failed', 'Failed to book the class. Please try again.');
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  const createBooking = async (useCredit: boolean) => {
+    if (!profile?.id || !yogaClass) return;
+
+    setBooking(true);
+    try {
       // Use the secure booking function that handles participant count management
       const { data, error } = await supabase.rpc('create_booking_with_count', {
         p_student_id: profile.id,
         p_class_id: yogaClass.id,
         p_status: 'confirmed',
-        p_payment_status: 'pending'
+        p_payment_status: 'pending',
+        p_use_credit: useCredit,
+        p_accommodation_id: selectedAccommodationId
       });
 
       if (error) {
@@ -200,8 +451,8 @@ export default function ClassDetailScreen() {
           await checkExistingBooking();
           return;
         } else if (error.message.includes('Class is full')) {
-          Alert.alert('Class Full', 'This class is now full. Please try another class.');
           await fetchActualParticipantCount();
+          promptJoinWaitlist('This class is now full.');
           return;
         } else if (error.message.includes('Cannot book past classes')) {
           Alert.alert('Class Unavailable', 'This class has already started or ended.');
@@ -213,6 +464,22 @@ export default function ClassDetailScreen() {
         } else if (error.message.includes('Booking system is busy')) {
           Alert.alert('System Busy', 'The booking system is currently busy. Please try again in a moment.');
           return;
+        } else if (error.message.includes('No class credits available')) {
+          Alert.alert('No Credits Left', 'Your class credits for this teacher have run out or expired.');
+          await fetchCredits();
+          return;
+        } else if (error.message.includes('Booking restricted')) {
+          Alert.alert('Booking Paused', PenaltyService.getRestrictionMessage(error.message));
+          return;
+        } else if (error.message.includes('is fully booked')) {
+          Alert.alert('Accommodation Full', `${error.message}. Please pick another option.`);
+          setSelectedAccommodationId(null);
+          await fetchAccommodations();
+          return;
+        } else if (error.message.includes('Choose an accommodation option')) {
+          Alert.alert('Choose Accommodation', 'Pick where you would like to stay before booking.');
+          await fetchAccommodations();
+          return;
         }
         throw error;
       }
@@ -221,9 +488,27 @@ export default function ClassDetailScreen() {
       await Promise.all([
         fetchActualParticipantCount(),
         checkExistingBooking(),
-        fetchClassDetails()
+        fetchClassDetails(),
+        fetchCredits()
       ]);
 
+      // A credit or membership pays for the booking straight away
+      const { data: createdBooking } = await supabase
+        .from('bookings')
+        .select('payment_status, membership_id')
+        .eq('id', data)
+        .single();
+
+      if (createdBooking?.payment_status === 'completed') {
+        Alert.alert(
+          'Booking Confirmed',
+          createdBooking.membership_id
+            ? `You're booked for ${yogaClass.title}. This class is covered by your membership.`
+            : `You're booked for ${yogaClass.title}. One class credit was used.`
+        );
+        return;
+      }
+
       // Navigate to payment screen
       router.push({
         pathname: '/payment/[classId]',
@@ -327,16 +612,17 @@ export default function ClassDetailScreen() {
     return yogaClass?.is_virtual || yogaClass?.location.toLowerCase() === 'online';
   };
 
-  const isEarlyBirdActive = () => {
-    if (!yogaClass?.early_bird_deadline) return false;
-    return new Date(yogaClass.early_bird_deadline) >= new Date();
+  // Today's price of the class, or of one of its accommodation options
+  const getPricing = (accommodation?: RetreatAccommodation) => {
+    return PricingService.calculatePrice(yogaClass!, pricingRules, { accommodation });
   };
 
   const getCurrentPrice = () => {
-    if (!yogaClass) return 0;
-    return isEarlyBirdActive() && yogaClass.early_bird_price 
-      ? yogaClass.early_bird_price 
-      : yogaClass.price;
+    if (!yogaClass) return '';
+
+    return PricingService.formatPrice(
+      getPricing(accommodations.find(option => option.id === selectedAccommodationId))
+    );
   };
 
   const getDuration = () => {
@@ -373,10 +659,13 @@ export default function ClassDetailScreen() {
   }
 
   const classPast = isClassPast();
+  const classCancelled = yogaClass.status === 'cancelled';
   const classFull = isClassFull();
   const classOnline = isOnline();
   const teacherName = yogaClass.profiles?.full_name || 'Unknown Teacher';
   const isRetreat = yogaClass.is_retreat;
+  const pricing = getPricing();
+  const concessionRules = pricingRules.filter(rule => rule.rule_type === 'concession');
 
   return (
     <SafeAreaView style={styles.container}>
@@ -418,7 +707,10 @@ export default function ClassDetailScreen() {
         </View>
 
         {/* Teacher Info */}
-        <View style={styles.teacherSection}>
+        <TouchableOpacity
+          style={styles.teacherSection}
+          onPress={() => router.push(`/teacher/${yogaClass.teacher_id}`)}
+        >
           <View style={styles.teacherInfo}>
             <View style={styles.teacherAvatar}>
               <User size={24} color="white" />
@@ -428,12 +720,18 @@ export default function ClassDetailScreen() {
                 {teacherName}
               </Text>
               <View style={styles.teacherRating}>
-                <Star size={14} color="#FFD700" fill="#FFD700" />
-                <Text style={styles.ratingText}>4.8 (127 reviews)</Text>
+                <Star size={14} color="#FFD700" fill={teacherRating ? '#FFD700' : 'transparent'} />
+                <Text style={styles.ratingText}>{ReviewService.formatRating(teacherRating)}</Text>
               </View>
+              {classTypeRating && (
+                <Text style={styles.classTypeRatingText}>
+                  {classTypeRating.average_rating.toFixed(1)} for {yogaClass.type} classes
+                </Text>
+              )}
             </View>
+            <ChevronRight size={20} color="#CCC" />
           </View>
-        </View>
+        </TouchableOpacity>
 
         {/* Class Header */}
         <View style={styles.classHeader}>
@@ -523,15 +821,26 @@ export default function ClassDetailScreen() {
             <View style={styles.detailContent}>
               <Text style={styles.detailLabel}>Price</Text>
               <View style={styles.priceContainer}>
-                {isEarlyBirdActive() && yogaClass.early_bird_price && (
-                  <>
-                    <Text style={styles.earlyBirdLabel}>Early Bird Price</Text>
-                    <Text style={styles.priceValue}>€{yogaClass.early_bird_price}</Text>
-                    <Text style={styles.regularPriceLabel}>Regular Price: €{yogaClass.price}</Text>
-                  </>
+                {pricing.adjustments.length > 0 && (
+                  <Text style={styles.earlyBirdLabel}>{pricing.adjustments[0].label} Price</Text>
+                )}
+                <Text style={styles.priceValue}>
+                  {accommodations.length > 0 && 'From '}{PricingService.formatPrice(pricing)}
+                </Text>
+                {pricing.adjustments.length > 0 && (
+                  <Text style={styles.regularPriceLabel}>
+                    Regular Price: {PricingService.formatAmount(pricing.base_price)}
+                  </Text>
+                )}
+                {pricing.sliding_scale_min != null && (
+                  <Text style={styles.pricingNote}>
+                    Pay what you can · {PricingService.formatAmount(pricing.price)} suggested
+                  </Text>
                 )}
-                {(!isEarlyBirdActive() || !yogaClass.early_bird_price) && (
-                  <Text style={styles.priceValue}>€{yogaClass.price}</Text>
+                {concessionRules.length > 0 && (
+                  <Text style={styles.pricingNote}>
+                    {concessionRules.map(rule => PricingService.describeRule(rule)).join(' · ')} at checkout
+                  </Text>
                 )}
               </View>
             </View>
@@ -553,6 +862,60 @@ export default function ClassDetailScreen() {
           </View>
         )}
 
+        {/* Accommodation */}
+        {isRetreat && accommodations.length > 0 && (
+          <View style={styles.highlightsSection}>
+            <Text style={styles.sectionTitle}>Accommodation</Text>
+            <View style={styles.highlightsList}>
+              {accommodations.map((option) => {
+                const soldOut = option.spots_left <= 0;
+                const selected = existingBooking
+                  ? existingBooking.accommodation_id === option.id
+                  : selectedAccommodationId === option.id;
+
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.accommodationOption,
+                      selected && styles.accommodationOptionSelected,
+                      soldOut && !selected && styles.accommodationOptionSoldOut,
+                    ]}
+                    onPress={() => setSelectedAccommodationId(option.id)}
+                    disabled={soldOut || !!existingBooking || profile?.role !== 'student'}
+                  >
+                    <View style={styles.accommodationInfo}>
+                      <Text style={styles.accommodationName}>{option.name}</Text>
+                      {!!option.description && (
+                        <Text style={styles.accommodationDescription}>{option.description}</Text>
+                      )}
+                      <Text style={[styles.accommodationSpots, soldOut && styles.fullText]}>
+                        {soldOut ? 'Sold out' : `${option.spots_left} of ${option.capacity} spots left`}
+                      </Text>
+                    </View>
+                    <View style={styles.accommodationPriceContainer}>
+                      {getPricing(option).adjustments.length > 0 && (
+                        <Text style={styles.accommodationRegularPrice}>{PricingService.formatAmount(option.price)}</Text>
+                      )}
+                      <Text style={styles.accommodationPrice}>{PricingService.formatAmount(getPricing(option).price)}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Retreat Itinerary */}
+        {isRetreat && itinerary.length > 0 && (
+          <View style={styles.highlightsSection}>
+            <Text style={styles.sectionTitle}>Itinerary</Text>
+            <View style={styles.highlightsList}>
+              <RetreatItinerary days={itinerary} />
+            </View>
+          </View>
+        )}
+
         {/* Description */}
         {yogaClass.description && (
           <View style={styles.descriptionSection}>
@@ -561,6 +924,45 @@ export default function ClassDetailScreen() {
           </View>
         )}
 
+        {/* Reviews */}
+        {recentReviews.length > 0 && (
+          <View style={styles.descriptionSection}>
+            <Text style={styles.sectionTitle}>Recent Reviews</Text>
+            {recentReviews.map((review, index) => (
+              <View key={review.id} style={[styles.reviewItem, index > 0 && styles.reviewItemBorder]}>
+                <View style={styles.reviewHeader}>
+                  <StarRating rating={review.rating} size={14} />
+                  <Text style={styles.reviewMeta}>
+                    {review.profiles?.full_name || 'Student'} • {review.class_type}
+                  </Text>
+                </View>
+                {review.comment && <Text style={styles.reviewComment}>{review.comment}</Text>}
+                {review.teacher_reply && (
+                  <View style={styles.reviewReply}>
+                    <Text style={styles.reviewReplyLabel}>Reply from {teacherName}</Text>
+                    <Text style={styles.reviewReplyText}>{review.teacher_reply}</Text>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Cancelled Notice */}
+        {classCancelled && (
+          <View style={styles.cancelledStatus}>
+            <CalendarX size={20} color="#FF6B6B" />
+            <View style={styles.bookingStatusContent}>
+              <Text style={styles.cancelledStatusText}>
+                This {isRetreat ? 'retreat' : 'class'} has been cancelled
+              </Text>
+              <Text style={styles.cancelledSubtext}>
+                {yogaClass.cancellation_reason || 'Booked students have been refunded in full.'}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Booking Status */}
         {existingBooking && (
           <View style={styles.bookingStatus}>
@@ -572,25 +974,85 @@ export default function ClassDetailScreen() {
                   : "Booking created - Payment pending"
                 }
               </Text>
+              {existingBooking.payment_status === 'pending' && WaitlistService.isHoldActive(existingBooking.hold_expires_at) && (
+                <Text style={styles.participantCountText}>
+                  Spot held for you until {new Date(existingBooking.hold_expires_at!).toLocaleString('en-US', {
+                    weekday: 'short',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </Text>
+              )}
               <Text style={styles.participantCountText}>
                 {actualParticipantCount} participants enrolled
               </Text>
             </View>
           </View>
         )}
+
+        {/* Waitlist Status */}
+        {!existingBooking && waitlistStatus?.on_waitlist && (
+          <View style={styles.waitlistStatus}>
+            <Hourglass size={20} color="#FF9800" />
+            <View style={styles.bookingStatusContent}>
+              <Text style={styles.waitlistStatusText}>
+                You're #{waitlistStatus.position} on the waitlist
+              </Text>
+              <Text style={styles.waitlistSubtext}>
+                If a spot opens up, it will be held for you to complete payment.
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Class Credits */}
+        {profile?.role === 'student' && !isRetreat && !classCancelled && (membership || availableCredits > 0 || packsOnSale) && (
+          <TouchableOpacity
+            style={styles.creditsCard}
+            onPress={() => router.push({
+              pathname: '/class-packs/[teacherId]',
+              params: {
+                teacherId: yogaClass.teacher_id,
+                teacherName: teacherName
+              }
+            })}
+          >
+            <Ticket size={20} color="#8B7355" />
+            <View style={styles.bookingStatusContent}>
+              <Text style={styles.creditsText}>
+                {membership
+                  ? `${membership.plan_name} member`
+                  : availableCredits > 0
+                    ? `You have ${availableCredits} class ${availableCredits === 1 ? 'credit' : 'credits'} with ${teacherName}`
+                    : `Save with a pack or membership from ${teacherName}`
+                }
+              </Text>
+              <Text style={styles.creditsSubtext}>
+                {membership
+                  ? 'Classes this month are included in your membership.'
+                  : availableCredits > 0
+                    ? 'Use a credit when booking instead of paying per class.'
+                    : 'Book without paying each time.'
+                }
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#8B7355" />
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Book Now Button */}
-      {profile?.role === 'student' && !classPast && (
+      {profile?.role === 'student' && !classPast && !classCancelled && (
         <View style={styles.bookingSection}>
           <TouchableOpacity
             style={[
               styles.bookButton,
-              (classFull || booking) && styles.bookButtonDisabled,
+              booking && styles.bookButtonDisabled,
+              classFull && !existingBooking && styles.bookButtonWaitlist,
               existingBooking && existingBooking.payment_status === 'pending' && styles.bookButtonPending
             ]}
             onPress={handleBookClass}
-            disabled={(classFull && !existingBooking) || booking}
+            disabled={booking}
           >
             {booking ? (
               <ActivityIndicator size="small" color="white" />
@@ -600,9 +1062,13 @@ export default function ClassDetailScreen() {
                   ? existingBooking.payment_status === 'pending'
                     ? 'Complete Payment'
                     : 'Already Booked'
-                  : classFull 
-                    ? `${isRetreat ? 'Retreat' : 'Class'} Full` 
-                    : `Book Now - €${getCurrentPrice()}`
+                  : waitlistStatus?.on_waitlist
+                    ? 'Leave Waitlist'
+                    : classFull
+                      ? 'Join Waitlist'
+                      : membership && !isRetreat
+                        ? 'Book Now - Included'
+                        : `Book Now - ${getCurrentPrice()}`
                 }
               </Text>
             )}
@@ -612,6 +1078,12 @@ export default function ClassDetailScreen() {
               {(isRetreat ? yogaClass.retreat_capacity : yogaClass.max_participants) - actualParticipantCount} spots left
             </Text>
           )}
+          {!existingBooking && classFull && !waitlistStatus?.on_waitlist && (
+            <Text style={styles.spotsLeftText}>
+              {isRetreat ? 'Retreat' : 'Class'} full
+              {waitlistStatus && waitlistStatus.waiting_count > 0 && ` • ${waitlistStatus.waiting_count} on the waitlist`}
+            </Text>
+          )}
         </View>
       )}
     </SafeAreaView>
@@ -742,6 +1214,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  classTypeRatingText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   classHeader: {
     backgroundColor: 'white',
     padding: 20,
@@ -845,6 +1322,11 @@ const styles = StyleSheet.create({
     marginTop: 2,
     textDecorationLine: 'line-through',
   },
+  pricingNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
   joinButton: {
     backgroundColor: '#4CAF50',
     borderRadius: 8,
@@ -858,6 +1340,54 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '500',
   },
+  accommodationOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  accommodationOptionSelected: {
+    borderColor: '#8B7355',
+    backgroundColor: '#F9F5F0',
+  },
+  accommodationOptionSoldOut: {
+    opacity: 0.5,
+  },
+  accommodationInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  accommodationName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  accommodationDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  accommodationSpots: {
+    fontSize: 12,
+    color: '#8B7355',
+    marginTop: 4,
+  },
+  accommodationPriceContainer: {
+    alignItems: 'flex-end',
+  },
+  accommodationRegularPrice: {
+    fontSize: 12,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  accommodationPrice: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
   highlightsSection: {
     backgroundColor: 'white',
     padding: 20,
@@ -895,6 +1425,46 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 24,
   },
+  reviewItem: {
+    paddingVertical: 12,
+  },
+  reviewItemBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  reviewMeta: {
+    fontSize: 12,
+    color: '#999',
+    flex: 1,
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  reviewReply: {
+    backgroundColor: '#F4EDE4',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  reviewReplyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B7355',
+    marginBottom: 4,
+  },
+  reviewReplyText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
   bookingStatus: {
     backgroundColor: '#E8F5E8',
     margin: 20,
@@ -918,6 +1488,67 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     opacity: 0.8,
   },
+  cancelledStatus: {
+    backgroundColor: '#FFE5E5',
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cancelledStatusText: {
+    fontSize: 16,
+    color: '#FF6B6B',
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  cancelledSubtext: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    opacity: 0.8,
+  },
+  waitlistStatus: {
+    backgroundColor: '#FFF3E0',
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  creditsCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+    gap: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#8B7355',
+  },
+  creditsText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  creditsSubtext: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  waitlistStatusText: {
+    fontSize: 16,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  waitlistSubtext: {
+    fontSize: 14,
+    color: '#FF9800',
+    opacity: 0.8,
+  },
   bookingSection: {
     position: 'absolute',
     bottom: 0,
@@ -943,6 +1574,9 @@ const styles = StyleSheet.create({
   bookButtonPending: {
     backgroundColor: '#FF9800',
   },
+  bookButtonWaitlist: {
+    backgroundColor: '#A68B6F',
+  },
   bookButtonText: {
     fontSize: 16,
     color: 'white',
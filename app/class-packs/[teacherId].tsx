@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { ClassPackService, type ClassPack } from '@/lib/classPackService';
+import { MembershipService, type MembershipPlan, type StudentMembership } from '@/lib/membershipService';
+import { PaymentService } from '@/lib/paymentService';
+import { getPaymentProvider, MockPaymentProvider } from '@/lib/paymentProvider';
+import { ArrowLeft, Ticket, Shield, BadgeCheck } from 'lucide-react-native';
+
+export default function BuyClassPackScreen() {
+  const params = useLocalSearchParams<{ teacherId: string; teacherName?: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [packs, setPacks] = useState<ClassPack[]>([]);
+  const [availableCredits, setAvailableCredits] = useState(0);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [memberships, setMemberships] = useState<StudentMembership[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [purchasingId, setPurchasingId] = useState<string | null>(null);
+
+  const teacherId = typeof params.teacherId === 'string' ? params.teacherId : null;
+  const teacherName = typeof params.teacherName === 'string' ? params.teacherName : 'this teacher';
+  const paymentProvider = getPaymentProvider();
+
+  useEffect(() => {
+    if (teacherId && profile?.id) {
+      fetchPacks();
+    } else {
+      setLoading(false);
+    }
+  }, [teacherId, profile]);
+
+  const fetchPacks = async () => {
+    if (!teacherId || !profile?.id) return;
+
+    try {
+      const [packData, credits, planData, membershipData] = await Promise.all([
+        ClassPackService.getTeacherPacks(teacherId, true),
+        ClassPackService.getAvailableCredits(profile.id, teacherId),
+        MembershipService.getTeacherPlans(teacherId, true),
+        MembershipService.getStudentMemberships(profile.id),
+      ]);
+      setPacks(packData);
+      setAvailableCredits(credits);
+      setPlans(planData);
+      setMemberships(membershipData.filter(membership => membership.teacher_id === teacherId));
+    } catch (error) {
+      console.error('Error fetching class packs:', error);
+      Alert.alert('Error', 'Failed to load class packs.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const purchasePack = async (pack: ClassPack) => {
+    if (!profile?.id) return;
+
+    setPurchasingId(pack.id);
+    try {
+      const result = await PaymentService.payForPack(
+        pack.id,
+        profile.id,
+        paymentProvider.id
+      );
+
+      if (result.status !== 'succeeded') {
+        throw new Error(result.failureReason || 'Payment could not be confirmed. Please try again.');
+      }
+
+      await fetchPacks();
+      Alert.alert(
+        'Pack Purchased',
+        `${pack.class_count} class credits have been added to your account. They expire in ${pack.validity_days} days.`
+      );
+    } catch (error) {
+      console.error('Error purchasing class pack:', error);
+      Alert.alert(
+        'Purchase Failed',
+        error instanceof Error ? error.message : 'Payment failed. Please try again.'
+      );
+    } finally {
+      setPurchasingId(null);
+    }
+  };
+
+  const confirmPurchase = (pack: ClassPack) => {
+    Alert.alert(
+      'Buy Class Pack',
+      `Pay €${pack.price} for ${pack.name}? ${ClassPackService.describePack(pack)}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: `Pay €${pack.price}`, onPress: () => purchasePack(pack) },
+      ]
+    );
+  };
+
+  const subscribeToPlan = async (plan: MembershipPlan) => {
+    if (!profile?.id) return;
+
+    setPurchasingId(plan.id);
+    try {
+      const result = await PaymentService.payForMembership(
+        { planId: plan.id },
+        profile.id,
+        paymentProvider.id
+      );
+
+      if (result.status !== 'succeeded') {
+        throw new Error(result.failureReason || 'Payment could not be confirmed. Please try again.');
+      }
+
+      await fetchPacks();
+      Alert.alert(
+        'Membership Active',
+        `Welcome to ${plan.name}! Classes with ${teacherName} this month are now booked without a payment.`
+      );
+    } catch (error) {
+      console.error('Error subscribing to membership plan:', error);
+
+      let errorMessage = error instanceof Error ? error.message : 'Payment failed. Please try again.';
+      if (error instanceof Error && error.message.includes('already has a membership')) {
+        errorMessage = 'You are already a member on this plan.';
+      }
+
+      Alert.alert('Signup Failed', errorMessage);
+    } finally {
+      setPurchasingId(null);
+    }
+  };
+
+  const confirmSubscribe = (plan: MembershipPlan) => {
+    Alert.alert(
+      'Join Membership',
+      `Pay €${plan.price} per month for ${plan.name}? ${MembershipService.describePlan(plan)}. You can cancel any time; it ends with the paid month.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: `Pay €${plan.price}`, onPress: () => subscribeToPlan(plan) },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#8B7355" />
+          <Text style={styles.loadingText}>Loading class packs...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Packs & Memberships</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.balanceCard}>
+          <Ticket size={24} color="#8B7355" />
+          <View style={styles.balanceContent}>
+            <Text style={styles.balanceValue}>
+              {availableCredits} {availableCredits === 1 ? 'credit' : 'credits'}
+            </Text>
+            <Text style={styles.balanceLabel}>available for classes with {teacherName}</Text>
+          </View>
+        </View>
+
+        {plans.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Memberships</Text>
+            {plans.map((plan) => {
+              const membership = memberships.find(m => m.plan_id === plan.id);
+
+              return (
+                <View key={plan.id} style={styles.packCard}>
+                  <View style={styles.packInfo}>
+                    <Text style={styles.packName}>{plan.name}</Text>
+                    <Text style={styles.packDetails}>{MembershipService.describePlan(plan)}</Text>
+                    <Text style={styles.packPerClass}>€{plan.price} per month</Text>
+                  </View>
+                  {membership ? (
+                    <View style={styles.memberBadge}>
+                      <BadgeCheck size={16} color="#4CAF50" />
+                      <Text style={styles.memberBadgeText}>
+                        {membership.status === 'past_due' ? 'Payment due' : 'Member'}
+                      </Text>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={[styles.buyButton, purchasingId !== null && styles.buttonDisabled]}
+                      onPress={() => confirmSubscribe(plan)}
+                      disabled={purchasingId !== null}
+                    >
+                      {purchasingId === plan.id ? (
+                        <ActivityIndicator size="small" color="white" />
+                      ) : (
+                        <Text style={styles.buyButtonText}>Join</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+            <Text style={styles.sectionTitle}>Class Packs</Text>
+          </>
+        )}
+
+        {packs.length === 0 ? (
+          <Text style={styles.emptyText}>This teacher isn't selling any class packs right now.</Text>
+        ) : (
+          packs.map((pack) => (
+            <View key={pack.id} style={styles.packCard}>
+              <View style={styles.packInfo}>
+                <Text style={styles.packName}>{pack.name}</Text>
+                <Text style={styles.packDetails}>{ClassPackService.describePack(pack)}</Text>
+                <Text style={styles.packPerClass}>
+                  €{(pack.price / pack.class_count).toFixed(2)} per class
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.buyButton, purchasingId !== null && styles.buttonDisabled]}
+                onPress={() => confirmPurchase(pack)}
+                disabled={purchasingId !== null}
+              >
+                {purchasingId === pack.id ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.buyButtonText}>€{pack.price}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        <View style={styles.securityNote}>
+          <Shield size={16} color="#4CAF50" />
+          <Text style={styles.securityText}>
+            {paymentProvider instanceof MockPaymentProvider
+              ? 'This is a demo payment. No actual charges will be made.'
+              : `Paying with ${paymentProvider.displayName}`}
+          </Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  balanceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#8B7355',
+  },
+  balanceContent: {
+    flex: 1,
+  },
+  balanceValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#333',
+  },
+  balanceLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  memberBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#E8F5E8',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  memberBadgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  packCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  packDetails: {
+    fontSize: 13,
+    color: '#666',
+  },
+  packPerClass: {
+    fontSize: 12,
+    color: '#4CAF50',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  buyButton: {
+    backgroundColor: '#C4896F',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  buyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  securityText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,10 @@
+import { Stack } from 'expo-router';
+
+export default function ClassPacksLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="[teacherId]" />
+    </Stack>
+  );
+}
@@ -0,0 +1,483 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { ClassPackService, type ClassPack } from '@/lib/classPackService';
+import { ArrowLeft, Plus, Pencil, Eye, EyeOff } from 'lucide-react-native';
+
+interface PackForm {
+  id?: string;
+  name: string;
+  class_count: string;
+  price: string;
+  validity_days: string;
+}
+
+const EMPTY_FORM: PackForm = {
+  name: '',
+  class_count: '10',
+  price: '',
+  validity_days: '90',
+};
+
+export default function ClassPacksScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [packs, setPacks] = useState<ClassPack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PackForm | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchPacks();
+    }
+  }, [profile]);
+
+  const fetchPacks = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await ClassPackService.getTeacherPacks(profile.id);
+      setPacks(data);
+    } catch (error) {
+      console.error('Error fetching class packs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editPack = (pack: ClassPack) => {
+    setForm({
+      id: pack.id,
+      name: pack.name,
+      class_count: pack.class_count.toString(),
+      price: pack.price.toString(),
+      validity_days: pack.validity_days.toString(),
+    });
+  };
+
+  const updateForm = (field: keyof Omit<PackForm, 'id'>, value: string) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const savePack = async () => {
+    if (!profile?.id || !form) return;
+
+    const classCount = parseInt(form.class_count);
+    const price = parseFloat(form.price);
+    const validityDays = parseInt(form.validity_days);
+
+    if (!form.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the pack a name.');
+      return;
+    }
+    if (isNaN(classCount) || classCount < 1) {
+      Alert.alert('Invalid Pack', 'A pack must include at least 1 class.');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      Alert.alert('Invalid Pack', 'Please enter a valid price.');
+      return;
+    }
+    if (isNaN(validityDays) || validityDays < 1) {
+      Alert.alert('Invalid Pack', 'Credits must be valid for at least 1 day.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await ClassPackService.savePack(profile.id, {
+        id: form.id,
+        name: form.name.trim(),
+        class_count: classCount,
+        price,
+        validity_days: validityDays,
+      });
+
+      setForm(null);
+      fetchPacks();
+    } catch (error) {
+      console.error('Error saving class pack:', error);
+      Alert.alert('Error', 'Failed to save the pack. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePackActive = async (pack: ClassPack) => {
+    if (!profile?.id) return;
+
+    try {
+      await ClassPackService.setPackActive(pack.id, profile.id, !pack.is_active);
+      fetchPacks();
+    } catch (error) {
+      console.error('Error updating class pack:', error);
+      Alert.alert('Error', 'Failed to update the pack. Please try again.');
+    }
+  };
+
+  const renderForm = (packForm: PackForm) => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{packForm.id ? 'Edit Pack' : 'New Pack'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={packForm.name}
+        onChangeText={(value) => updateForm('name', value)}
+        placeholder="e.g. 10-Class Pack"
+        editable={!saving}
+      />
+
+      <View style={styles.row}>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Classes</Text>
+          <TextInput
+            style={styles.input}
+            value={packForm.class_count}
+            onChangeText={(value) => updateForm('class_count', value)}
+            keyboardType="numeric"
+            editable={!saving}
+          />
+        </View>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Price (€)</Text>
+          <TextInput
+            style={styles.input}
+            value={packForm.price}
+            onChangeText={(value) => updateForm('price', value)}
+            keyboardType="numeric"
+            placeholder="e.g. 200"
+            editable={!saving}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>Valid For (days)</Text>
+      <TextInput
+        style={styles.input}
+        value={packForm.validity_days}
+        onChangeText={(value) => updateForm('validity_days', value)}
+        keyboardType="numeric"
+        editable={!saving}
+      />
+      <Text style={styles.helpText}>
+        Credits expire this many days after purchase. Changes only apply to new purchases.
+      </Text>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setForm(null)}
+          disabled={saving}
+        >
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={savePack}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  // Only teachers sell class packs
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Class Packs</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading packs...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Students buy packs up front and spend one credit per class you teach.
+            Credits can't be used for retreats.
+          </Text>
+
+          {packs.map((pack) => (
+            <View key={pack.id} style={[styles.packCard, !pack.is_active && styles.packCardInactive]}>
+              <View style={styles.packHeader}>
+                <Text style={styles.packName}>{pack.name}</Text>
+                {!pack.is_active && (
+                  <View style={styles.inactiveBadge}>
+                    <Text style={styles.inactiveBadgeText}>Not on sale</Text>
+                  </View>
+                )}
+                <Text style={styles.packPrice}>€{pack.price}</Text>
+              </View>
+              <Text style={styles.packDetails}>{ClassPackService.describePack(pack)}</Text>
+              <View style={styles.packActions}>
+                <TouchableOpacity style={styles.packAction} onPress={() => editPack(pack)}>
+                  <Pencil size={16} color="#8B7355" />
+                  <Text style={styles.packActionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.packAction} onPress={() => togglePackActive(pack)}>
+                  {pack.is_active ? (
+                    <EyeOff size={16} color="#8B7355" />
+                  ) : (
+                    <Eye size={16} color="#8B7355" />
+                  )}
+                  <Text style={styles.packActionText}>
+                    {pack.is_active ? 'Stop Selling' : 'Put On Sale'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {form ? (
+            renderForm(form)
+          ) : (
+            <TouchableOpacity style={styles.newPackButton} onPress={() => setForm(EMPTY_FORM)}>
+              <Plus size={20} color="white" />
+              <Text style={styles.newPackText}>New Pack</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  packCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  packCardInactive: {
+    opacity: 0.7,
+  },
+  packHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  packName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  packPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#C4896F',
+  },
+  inactiveBadge: {
+    backgroundColor: '#999',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  inactiveBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '500',
+  },
+  packDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  packActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  packAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  packActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  newPackButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  newPackText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,9 @@
+import { Stack } from 'expo-router';
+
+export default function MembershipPlansLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+    </Stack>
+  );
+}
@@ -0,0 +1,467 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { MembershipService, type MembershipPlan } from '@/lib/membershipService';
+import { ArrowLeft, Plus, Pencil, Eye, EyeOff } from 'lucide-react-native';
+
+interface PlanForm {
+  id?: string;
+  name: string;
+  price: string;
+  /** Blank for unlimited */
+  classes_per_period: string;
+}
+
+const EMPTY_FORM: PlanForm = {
+  name: '',
+  price: '',
+  classes_per_period: '',
+};
+
+export default function MembershipPlansScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PlanForm | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchPlans();
+    }
+  }, [profile]);
+
+  const fetchPlans = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await MembershipService.getTeacherPlans(profile.id);
+      setPlans(data);
+    } catch (error) {
+      console.error('Error fetching membership plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editPlan = (plan: MembershipPlan) => {
+    setForm({
+      id: plan.id,
+      name: plan.name,
+      price: plan.price.toString(),
+      classes_per_period: plan.classes_per_period?.toString() ?? '',
+    });
+  };
+
+  const updateForm = (field: keyof Omit<PlanForm, 'id'>, value: string) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const savePlan = async () => {
+    if (!profile?.id || !form) return;
+
+    const price = parseFloat(form.price);
+    const classesPerPeriod = form.classes_per_period.trim() ? parseInt(form.classes_per_period) : null;
+
+    if (!form.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the plan a name.');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      Alert.alert('Invalid Plan', 'Please enter a valid monthly price.');
+      return;
+    }
+    if (classesPerPeriod !== null && (isNaN(classesPerPeriod) || classesPerPeriod < 1)) {
+      Alert.alert('Invalid Plan', 'Classes per month must be at least 1, or left blank for unlimited.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await MembershipService.savePlan(profile.id, {
+        id: form.id,
+        name: form.name.trim(),
+        price,
+        classes_per_period: classesPerPeriod,
+      });
+
+      setForm(null);
+      fetchPlans();
+    } catch (error) {
+      console.error('Error saving membership plan:', error);
+      Alert.alert('Error', 'Failed to save the plan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePlanActive = async (plan: MembershipPlan) => {
+    if (!profile?.id) return;
+
+    try {
+      await MembershipService.setPlanActive(plan.id, profile.id, !plan.is_active);
+      fetchPlans();
+    } catch (error) {
+      console.error('Error updating membership plan:', error);
+      Alert.alert('Error', 'Failed to update the plan. Please try again.');
+    }
+  };
+
+  const renderForm = (planForm: PlanForm) => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{planForm.id ? 'Edit Plan' : 'New Plan'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={planForm.name}
+        onChangeText={(value) => updateForm('name', value)}
+        placeholder="e.g. Unlimited Monthly"
+        editable={!saving}
+      />
+
+      <View style={styles.row}>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Price per Month (€)</Text>
+          <TextInput
+            style={styles.input}
+            value={planForm.price}
+            onChangeText={(value) => updateForm('price', value)}
+            keyboardType="numeric"
+            placeholder="e.g. 120"
+            editable={!saving}
+          />
+        </View>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Classes per Month</Text>
+          <TextInput
+            style={styles.input}
+            value={planForm.classes_per_period}
+            onChangeText={(value) => updateForm('classes_per_period', value)}
+            keyboardType="numeric"
+            placeholder="Unlimited"
+            editable={!saving}
+          />
+        </View>
+      </View>
+      <Text style={styles.helpText}>
+        Members book your regular classes without paying per class. Changes only apply to new members.
+      </Text>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setForm(null)}
+          disabled={saving}
+        >
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={savePlan}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  // Only teachers offer memberships
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Memberships</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading plans...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Memberships are billed monthly and cover your regular classes held during
+            the paid month. Retreats are always paid separately.
+          </Text>
+
+          {plans.map((plan) => (
+            <View key={plan.id} style={[styles.planCard, !plan.is_active && styles.planCardInactive]}>
+              <View style={styles.planHeader}>
+                <Text style={styles.planName}>{plan.name}</Text>
+                {!plan.is_active && (
+                  <View style={styles.inactiveBadge}>
+                    <Text style={styles.inactiveBadgeText}>Closed</Text>
+                  </View>
+                )}
+                <Text style={styles.planPrice}>€{plan.price}/mo</Text>
+              </View>
+              <Text style={styles.planDetails}>{MembershipService.describePlan(plan)}</Text>
+              <View style={styles.planActions}>
+                <TouchableOpacity style={styles.planAction} onPress={() => editPlan(plan)}>
+                  <Pencil size={16} color="#8B7355" />
+                  <Text style={styles.planActionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.planAction} onPress={() => togglePlanActive(plan)}>
+                  {plan.is_active ? (
+                    <EyeOff size={16} color="#8B7355" />
+                  ) : (
+                    <Eye size={16} color="#8B7355" />
+                  )}
+                  <Text style={styles.planActionText}>
+                    {plan.is_active ? 'Close Signups' : 'Open Signups'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {form ? (
+            renderForm(form)
+          ) : (
+            <TouchableOpacity style={styles.newPlanButton} onPress={() => setForm(EMPTY_FORM)}>
+              <Plus size={20} color="white" />
+              <Text style={styles.newPlanText}>New Plan</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  planCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  planCardInactive: {
+    opacity: 0.7,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  planName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  planPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#C4896F',
+  },
+  inactiveBadge: {
+    backgroundColor: '#999',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  inactiveBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '500',
+  },
+  planDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  planActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  planAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  planActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  newPlanButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  newPlanText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -10,11 +10,23 @@ import {
   Image,
   ScrollView,
   BackHandler,
+  TextInput,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, CreditCard, Calendar, Clock, MapPin, User, Shield, Tent } from 'lucide-react-native';
+import { PaymentService } from '@/lib/paymentService';
+import { AccommodationService, type RetreatAccommodation } from '@/lib/accommodationService';
+import {
+  PaymentScheduleService,
+  type PaymentInstallment,
+  type PaymentPlan,
+  type PlannedInstallment,
+} from '@/lib/paymentScheduleService';
+import { PricingService, type Concession, type PricingRule } from '@/lib/pricingService';
+import { PromoCodeService, type PromoCode } from '@/lib/promoCodeService';
+import { getPaymentProvider, MockPaymentProvider } from '@/lib/paymentProvider';
+import { ArrowLeft, CreditCard, Calendar, Clock, MapPin, User, Shield, Tent, Hourglass, BedDouble, CalendarClock, Tag } from 'lucide-react-native';
 import type { Database } from '@/lib/supabase';
 
 type YogaClass = Database['public']['Tables']['yoga_classes']['Row'] & {
@@ -35,9 +47,22 @@ export default function PaymentScreen() {
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [accommodations, setAccommodations] = useState<RetreatAccommodation[]>([]);
+  const [choosingAccommodation, setChoosingAccommodation] = useState(false);
+  // Deposit and installments offered to an unpaid booking, and the ones a partially paid booking follows
+  const [installmentPlan, setInstallmentPlan] = useState<PlannedInstallment[]>([]);
+  const [schedule, setSchedule] = useState<PaymentInstallment[]>([]);
+  const [paymentPlan, setPaymentPlan] = useState<PaymentPlan>('full');
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [chosenPriceInput, setChosenPriceInput] = useState('');
+  const [savingPricing, setSavingPricing] = useState(false);
+  const [promoCode, setPromoCode] = useState<PromoCode | null>(null);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
 
   const classId = typeof params.classId === 'string' ? params.classId : null;
   const bookingId = typeof params.bookingId === 'string' ? params.bookingId : null;
+  const paymentProvider = getPaymentProvider();
 
   useEffect(() => {
     if (classId) {
@@ -48,6 +73,15 @@ export default function PaymentScreen() {
     }
   }, [classId]);
 
+  // Tick once a second while the booking's spot is held
+  useEffect(() => {
+    if (booking?.payment_status !== 'pending' || !booking.hold_expires_at) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [booking?.payment_status, booking?.hold_expires_at]);
+
   useEffect(() => {
     const backHandler = BackHandler.addEventListener('hardwareBackPress', handleBackPress);
     return () => backHandler.remove();
@@ -88,6 +122,13 @@ export default function PaymentScreen() {
       if (classError) throw classError;
       setYogaClass(classData);
 
+      if (classData.is_retreat) {
+        setAccommodations(await AccommodationService.getAccommodations(classId));
+      }
+
+      const rules = await PricingService.getPricingRules([classId]);
+      setPricingRules(rules[classId] || []);
+
       // Fetch or find existing booking
       let bookingData = null;
       if (bookingId) {
@@ -115,6 +156,15 @@ export default function PaymentScreen() {
       }
 
       setBooking(bookingData);
+      setChosenPriceInput(bookingData?.chosen_price != null ? String(bookingData.chosen_price) : '');
+      setPromoCode(bookingData?.promo_code_id ? await PromoCodeService.getPromoCode(bookingData.promo_code_id) : null);
+
+      if (bookingData?.payment_status === 'partially_paid') {
+        const schedules = await PaymentScheduleService.getSchedules([bookingData.id]);
+        setSchedule(schedules[bookingData.id] ?? []);
+      } else if (bookingData && classData.is_retreat) {
+        await fetchInstallmentPlan(bookingData.id);
+      }
 
       // If no booking exists and no bookingId provided, redirect back
       if (!bookingData && !bookingId) {
@@ -139,6 +189,23 @@ export default function PaymentScreen() {
     }
   };
 
+  const fetchInstallmentPlan = async (planBookingId: string) => {
+    if (!profile?.id) return;
+
+    try {
+      const plan = await PaymentScheduleService.getInstallmentPlan(planBookingId, profile.id);
+      setInstallmentPlan(plan);
+      if (plan.length === 0) {
+        setPaymentPlan('full');
+      }
+    } catch (error) {
+      // Paying in full still works without the plan
+      console.error('Error fetching installment plan:', error);
+      setInstallmentPlan([]);
+      setPaymentPlan('full');
+    }
+  };
+
   const processPayment = async () => {
     if (!booking || !yogaClass || !profile?.id) {
       setError('Missing required information for payment processing');
@@ -149,25 +216,25 @@ export default function PaymentScreen() {
     setError(null);
 
     try {
-      // Simulate payment processing delay (1-3 seconds)
-      const processingTime = Math.random() * 2000 + 1000;
-      await new Promise(resolve => setTimeout(resolve, processingTime));
-
-      // Simulate payment success/failure (95% success rate)
-      const paymentSuccess = Math.random() > 0.05;
+      // The provider submits the payment; the booking is settled server-side
+      // only once the provider's callback has recorded a successful payment
+      const result = await PaymentService.payForBooking(
+        booking.id,
+        profile.id,
+        paymentProvider.id,
+        paymentPlan
+      );
 
-      if (!paymentSuccess) {
-        throw new Error('Payment failed. Please check your payment method and try again.');
+      if (result.status === 'failed') {
+        throw new Error(
+          result.failureReason
+            ? `Payment failed: ${result.failureReason}. Please check your payment method and try again.`
+            : 'Payment failed. Please check your payment method and try again.'
+        );
       }
 
-      // Update payment status using the secure function
-      const { error: updateError } = await supabase.rpc('update_booking_payment_status', {
-        booking_id: booking.id,
-        new_payment_status: 'completed'
-      });
-
-      if (updateError) {
-        throw new Error(`Payment processing failed: ${updateError.message}`);
+      if (result.status !== 'succeeded') {
+        throw new Error(result.failureReason || 'Payment could not be confirmed. Please try again.');
       }
 
       // Navigate to success screen
@@ -180,12 +247,30 @@ export default function PaymentScreen() {
           instructorName: yogaClass.profiles?.full_name || 'Unknown Instructor',
           classDate: yogaClass.date,
           classTime: yogaClass.time,
-          price: getCurrentPrice().toString()
+          price: result.amount.toString()
         }
       });
 
     } catch (error) {
       console.error('Payment processing error:', error);
+      if (error instanceof Error && error.message.includes('hold has expired')) {
+        setNow(Date.now());
+        setError('Your hold on this spot has expired. Go back and book again if spots are still available.');
+        return;
+      }
+      if (error instanceof Error && error.message.includes('Choose an accommodation option')) {
+        setError('Choose where you would like to stay before paying.');
+        return;
+      }
+      if (error instanceof Error && /promo code/i.test(error.message)) {
+        setError(`${error.message}. Remove it to pay the regular price.`);
+        return;
+      }
+      if (error instanceof Error && error.message.includes('Installments are not available')) {
+        setError('Paying by installments is no longer available for this retreat. Please pay in full.');
+        fetchInstallmentPlan(booking.id);
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Payment failed. Please try again.';
       setError(errorMessage);
     } finally {
@@ -193,6 +278,111 @@ export default function PaymentScreen() {
     }
   };
 
+  const chooseAccommodation = async (accommodationId: string) => {
+    if (!booking || !profile?.id || !classId) return;
+
+    setChoosingAccommodation(true);
+    setError(null);
+    try {
+      await AccommodationService.chooseAccommodation(booking.id, profile.id, accommodationId);
+      setBooking({ ...booking, accommodation_id: accommodationId });
+      // The deposit and installments follow the price of the option
+      fetchInstallmentPlan(booking.id);
+    } catch (error) {
+      console.error('Error choosing accommodation:', error);
+      setError(error instanceof Error && error.message.includes('is fully booked')
+        ? `${error.message}. Please pick another option.`
+        : 'Failed to save your accommodation. Please try again.');
+    } finally {
+      setChoosingAccommodation(false);
+    }
+
+    // Spots left have changed either way
+    try {
+      setAccommodations(await AccommodationService.getAccommodations(classId));
+    } catch (error) {
+      console.error('Error fetching accommodations:', error);
+    }
+  };
+
+  const updatePricing = async (concession: Concession | null, chosenPrice: number | null) => {
+    if (!booking || !profile?.id) return;
+
+    setSavingPricing(true);
+    setError(null);
+    try {
+      await PricingService.setBookingPricing(booking.id, profile.id, concession, chosenPrice);
+      setBooking({ ...booking, concession, chosen_price: chosenPrice });
+      // The deposit and installments follow the new price
+      if (installmentPlan.length > 0) {
+        fetchInstallmentPlan(booking.id);
+      }
+    } catch (error) {
+      console.error('Error saving price:', error);
+      setError(error instanceof Error && error.message.includes('Choose a price')
+        ? `${error.message}.`
+        : 'Failed to update your price. Please try again.');
+    } finally {
+      setSavingPricing(false);
+    }
+  };
+
+  const applyChosenPrice = () => {
+    if (!booking) return;
+
+    const trimmed = chosenPriceInput.trim();
+    const chosenPrice = trimmed ? parseFloat(trimmed.replace(',', '.')) : null;
+    if (chosenPrice !== null && isNaN(chosenPrice)) {
+      setError('Please enter a valid amount.');
+      return;
+    }
+
+    updatePricing(booking.concession ?? null, chosenPrice);
+  };
+
+  const applyPromoCode = async () => {
+    if (!booking || !profile?.id || !promoCodeInput.trim()) return;
+
+    setSavingPricing(true);
+    setError(null);
+    try {
+      const applied = await PromoCodeService.applyPromoCode(booking.id, profile.id, promoCodeInput);
+      setPromoCode(applied);
+      setPromoCodeInput('');
+      setBooking({ ...booking, promo_code_id: applied.id });
+      if (installmentPlan.length > 0) {
+        fetchInstallmentPlan(booking.id);
+      }
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      setError(error instanceof Error && /promo code/i.test(error.message)
+        ? `${error.message}.`
+        : 'Failed to apply the promo code. Please try again.');
+    } finally {
+      setSavingPricing(false);
+    }
+  };
+
+  const removePromoCode = async () => {
+    if (!booking || !profile?.id) return;
+
+    setSavingPricing(true);
+    setError(null);
+    try {
+      await PromoCodeService.removePromoCode(booking.id, profile.id);
+      setPromoCode(null);
+      setBooking({ ...booking, promo_code_id: null, promo_discount: null });
+      if (installmentPlan.length > 0) {
+        fetchInstallmentPlan(booking.id);
+      }
+    } catch (error) {
+      console.error('Error removing promo code:', error);
+      setError('Failed to remove the promo code. Please try again.');
+    } finally {
+      setSavingPricing(false);
+    }
+  };
+
   const retryPayment = () => {
     setError(null);
     processPayment();
@@ -221,18 +411,27 @@ export default function PaymentScreen() {
     return `${hours}:${minutes}`;
   };
 
-  const isEarlyBirdActive = () => {
-    if (!yogaClass?.early_bird_deadline) return false;
-    return new Date(yogaClass.early_bird_deadline) >= new Date();
-  };
+  const formatCountdown = (milliseconds: number) => {
+    const totalSeconds = Math.ceil(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
 
-  const getCurrentPrice = () => {
-    if (!yogaClass) return 0;
-    return isEarlyBirdActive() && yogaClass.early_bird_price 
-      ? yogaClass.early_bird_price 
-      : yogaClass.price;
+    return hours > 0
+      ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+      : `${pad(minutes)}:${pad(seconds)}`;
   };
 
+  // Retreats sold by accommodation charge the price of the booked option
+  const getPricing = (accommodation = accommodations.find(option => option.id === booking?.accommodation_id)) =>
+    PricingService.calculatePrice(yogaClass!, pricingRules, {
+      accommodation,
+      concession: booking?.concession,
+      chosenPrice: booking?.chosen_price,
+      promoCode,
+    });
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -262,6 +461,23 @@ export default function PaymentScreen() {
   const instructorName = yogaClass.profiles?.full_name || 'Unknown Instructor';
   const isOnline = yogaClass.is_virtual || yogaClass.location.toLowerCase() === 'online';
   const isRetreat = yogaClass.is_retreat;
+  const holdTimeLeft = booking?.payment_status === 'pending' && booking.hold_expires_at
+    ? Math.max(0, new Date(booking.hold_expires_at).getTime() - now)
+    : null;
+  const holdExpired = holdTimeLeft === 0;
+  const bookedAccommodation = accommodations.find(option => option.id === booking?.accommodation_id);
+  const needsAccommodation = accommodations.length > 0 && !bookedAccommodation;
+  const paymentBlocked = processing || holdExpired || needsAccommodation || choosingAccommodation || savingPricing;
+  const isPartiallyPaid = booking?.payment_status === 'partially_paid';
+  const nextInstallment = PaymentScheduleService.getNextInstallment(schedule);
+  const payingByInstallments = !isPartiallyPaid && paymentPlan === 'installments' && installmentPlan.length > 0;
+  const installmentCount = (isPartiallyPaid ? schedule.length : installmentPlan.length) - 1;
+  const pricing = getPricing();
+  const concessions = PricingService.getConcessions(pricingRules);
+  const hasSlidingScale = pricing.sliding_scale_min != null && pricing.sliding_scale_max != null;
+  const amountDue = isPartiallyPaid
+    ? nextInstallment?.amount ?? 0
+    : payingByInstallments ? installmentPlan[0].amount : pricing.price;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -289,6 +505,25 @@ export default function PaymentScreen() {
           <Text style={styles.securityText}>Secure Payment</Text>
         </View>
 
+        {/* Hold Countdown */}
+        {holdTimeLeft !== null && (
+          <View style={[styles.holdCard, holdExpired && styles.holdCardExpired]}>
+            <Hourglass size={20} color={holdExpired ? '#FF6B6B' : '#FF9800'} />
+            <View style={styles.holdContent}>
+              <Text style={[styles.holdTitle, holdExpired && styles.holdTitleExpired]}>
+                {holdExpired
+                  ? 'Your hold on this spot has expired'
+                  : `Spot held for ${formatCountdown(holdTimeLeft)}`}
+              </Text>
+              <Text style={styles.holdText}>
+                {holdExpired
+                  ? 'Go back and book again if spots are still available.'
+                  : 'Complete payment before the timer runs out to keep your spot.'}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Class Image */}
         <View style={styles.imageContainer}>
           <Image
@@ -374,23 +609,272 @@ export default function PaymentScreen() {
           </View>
         </View>
 
+        {/* Accommodation */}
+        {accommodations.length > 0 && booking && (
+          <View style={styles.paymentCard}>
+            <Text style={styles.paymentTitle}>
+              {needsAccommodation ? 'Choose Your Accommodation' : 'Accommodation'}
+            </Text>
+            {accommodations.map((option) => {
+              const selected = option.id === booking.accommodation_id;
+              const soldOut = option.spots_left <= 0 && !selected;
+
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.accommodationOption,
+                    selected && styles.accommodationOptionSelected,
+                    soldOut && styles.accommodationOptionSoldOut,
+                  ]}
+                  onPress={() => chooseAccommodation(option.id)}
+                  disabled={selected || soldOut || choosingAccommodation || processing || holdExpired || isPartiallyPaid}
+                >
+                  <BedDouble size={20} color={selected ? '#8B7355' : '#999'} />
+                  <View style={styles.detailContent}>
+                    <Text style={styles.detailValue}>{option.name}</Text>
+                    <Text style={styles.detailLabel}>
+                      {soldOut ? 'Sold out' : selected ? 'Your choice' : `${option.spots_left} spots left`}
+                    </Text>
+                  </View>
+                  <Text style={styles.paymentAmount}>
+                    {PricingService.formatAmount(getPricing(option).price)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Your Price */}
+        {!isPartiallyPaid && booking && (concessions.length > 0 || hasSlidingScale) && (
+          <View style={styles.paymentCard}>
+            <Text style={styles.paymentTitle}>Your Price</Text>
+            {concessions.length > 0 && (
+              <View style={styles.concessionRow}>
+                {[null, ...concessions].map((concession) => {
+                  const selected = (booking.concession ?? null) === concession;
+
+                  return (
+                    <TouchableOpacity
+                      key={concession ?? 'none'}
+                      style={[styles.concessionChip, selected && styles.concessionChipSelected]}
+                      onPress={() => updatePricing(concession, booking.chosen_price ?? null)}
+                      disabled={selected || savingPricing || processing || holdExpired}
+                    >
+                      <Text style={[styles.concessionChipText, selected && styles.concessionChipTextSelected]}>
+                        {concession ? PricingService.getConcessionLabel(concession) : 'Standard'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            {concessions.length > 0 && (
+              <Text style={styles.planNote}>
+                You may be asked to show proof of your concession at the class.
+              </Text>
+            )}
+            {hasSlidingScale && (
+              <>
+                <Text style={[styles.paymentLabel, concessions.length > 0 && styles.slidingScaleLabel]}>
+                  Pay what you can, between {PricingService.formatAmount(pricing.sliding_scale_min!)} and{' '}
+                  {PricingService.formatAmount(pricing.sliding_scale_max!)}
+                </Text>
+                <View style={styles.slidingScaleRow}>
+                  <TextInput
+                    style={styles.slidingScaleInput}
+                    value={chosenPriceInput}
+                    onChangeText={setChosenPriceInput}
+                    placeholder={String(pricing.sliding_scale_min)}
+                    placeholderTextColor="#999"
+                    keyboardType="decimal-pad"
+                    editable={!savingPricing && !processing && !holdExpired}
+                  />
+                  <TouchableOpacity
+                    style={styles.slidingScaleButton}
+                    onPress={applyChosenPrice}
+                    disabled={savingPricing || processing || holdExpired}
+                  >
+                    {savingPricing ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.slidingScaleButtonText}>Apply</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Promo Code */}
+        {!isPartiallyPaid && booking && (
+          <View style={styles.paymentCard}>
+            <Text style={styles.paymentTitle}>Promo Code</Text>
+            {promoCode ? (
+              <View style={styles.promoApplied}>
+                <Tag size={20} color="#4CAF50" />
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailValue}>{promoCode.code}</Text>
+                  <Text style={styles.detailLabel}>
+                    {promoCode.discount_type === 'percent'
+                      ? `${promoCode.discount_value}% off`
+                      : `${PricingService.formatAmount(promoCode.discount_value)} off`}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={removePromoCode} disabled={savingPricing || processing}>
+                  <Text style={styles.promoRemoveText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.slidingScaleRow}>
+                <TextInput
+                  style={styles.slidingScaleInput}
+                  value={promoCodeInput}
+                  onChangeText={setPromoCodeInput}
+                  placeholder="Enter code"
+                  placeholderTextColor="#999"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  editable={!savingPricing && !processing && !holdExpired}
+                />
+                <TouchableOpacity
+                  style={[styles.slidingScaleButton, !promoCodeInput.trim() && styles.slidingScaleButtonDisabled]}
+                  onPress={applyPromoCode}
+                  disabled={!promoCodeInput.trim() || savingPricing || processing || holdExpired}
+                >
+                  <Text style={styles.slidingScaleButtonText}>Apply</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Payment Plan */}
+        {!isPartiallyPaid && installmentPlan.length > 0 && !needsAccommodation && (
+          <View style={styles.paymentCard}>
+            <Text style={styles.paymentTitle}>Payment Plan</Text>
+            <TouchableOpacity
+              style={[styles.planOption, paymentPlan === 'full' && styles.planOptionSelected]}
+              onPress={() => setPaymentPlan('full')}
+              disabled={processing}
+            >
+              <CreditCard size={20} color={paymentPlan === 'full' ? '#8B7355' : '#999'} />
+              <View style={styles.detailContent}>
+                <Text style={styles.detailValue}>Pay in full</Text>
+                <Text style={styles.detailLabel}>Nothing more to pay later</Text>
+              </View>
+              <Text style={styles.paymentAmount}>{PricingService.formatAmount(pricing.price)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.planOption, paymentPlan === 'installments' && styles.planOptionSelected]}
+              onPress={() => setPaymentPlan('installments')}
+              disabled={processing}
+            >
+              <CalendarClock size={20} color={paymentPlan === 'installments' ? '#8B7355' : '#999'} />
+              <View style={styles.detailContent}>
+                <Text style={styles.detailValue}>Pay a deposit</Text>
+                <Text style={styles.detailLabel}>
+                  Then {installmentCount} {installmentCount === 1 ? 'installment' : 'installments'}, the last due{' '}
+                  {formatDate(installmentPlan[installmentPlan.length - 1].due_date)}
+                </Text>
+              </View>
+              <Text style={styles.paymentAmount}>€{installmentPlan[0].amount.toFixed(2)}</Text>
+            </TouchableOpacity>
+
+            {payingByInstallments && installmentPlan.map((installment) => (
+              <View key={installment.installment_number} style={styles.installmentRow}>
+                <Text style={styles.paymentLabel}>
+                  {PaymentScheduleService.getInstallmentLabel(installment, installmentCount)}
+                </Text>
+                <Text style={styles.installmentDue}>
+                  {installment.installment_number === 0 ? 'Today' : formatDate(installment.due_date)}
+                </Text>
+                <Text style={styles.paymentAmount}>€{installment.amount.toFixed(2)}</Text>
+              </View>
+            ))}
+            {payingByInstallments && (
+              <Text style={styles.planNote}>
+                Your spot is released if the last installment isn't paid by its due date.
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Payment Schedule */}
+        {isPartiallyPaid && schedule.length > 0 && (
+          <View style={styles.paymentCard}>
+            <Text style={styles.paymentTitle}>Payment Schedule</Text>
+            {schedule.map((installment) => {
+              const overdue = PaymentScheduleService.isOverdue(installment);
+
+              return (
+                <View key={installment.id} style={styles.installmentRow}>
+                  <Text style={[
+                    styles.paymentLabel,
+                    installment.id === nextInstallment?.id && styles.installmentNext
+                  ]}>
+                    {PaymentScheduleService.getInstallmentLabel(installment, installmentCount)}
+                  </Text>
+                  <Text style={[styles.installmentDue, overdue && styles.installmentOverdue]}>
+                    {installment.status === 'paid'
+                      ? 'Paid'
+                      : overdue ? `Overdue since ${formatDate(installment.due_date)}` : `Due ${formatDate(installment.due_date)}`}
+                  </Text>
+                  <Text style={styles.paymentAmount}>€{installment.amount.toFixed(2)}</Text>
+                </View>
+              );
+            })}
+            <Text style={styles.planNote}>
+              Your spot is released if the last installment isn't paid by its due date.
+            </Text>
+          </View>
+        )}
+
         {/* Payment Summary */}
         <View style={styles.paymentCard}>
           <Text style={styles.paymentTitle}>Payment Summary</Text>
           
           <View style={styles.paymentRow}>
             <Text style={styles.paymentLabel}>
-              {isRetreat ? 'Retreat Fee' : 'Class Fee'}
-              {isEarlyBirdActive() && yogaClass.early_bird_price && ' (Early Bird)'}
+              {bookedAccommodation ? bookedAccommodation.name : isRetreat ? 'Retreat Fee' : 'Class Fee'}
+            </Text>
+            <Text style={styles.paymentAmount}>
+              {isPartiallyPaid
+                ? `€${schedule.reduce((total, installment) => total + installment.amount, 0).toFixed(2)}`
+                : PricingService.formatAmount(pricing.base_price)}
             </Text>
-            <Text style={styles.paymentAmount}>€{getCurrentPrice()}</Text>
           </View>
+
+          {!isPartiallyPaid && pricing.adjustments.map((adjustment) => (
+            <View key={adjustment.kind} style={styles.paymentRow}>
+              <View style={styles.adjustmentLabelContainer}>
+                <Tag size={14} color="#4CAF50" />
+                <Text style={styles.paymentLabel}>{adjustment.label}</Text>
+              </View>
+              <Text style={[styles.paymentAmount, adjustment.amount < 0 && styles.adjustmentDiscount]}>
+                {adjustment.amount > 0 && '+'}{PricingService.formatAmount(adjustment.amount)}
+              </Text>
+            </View>
+          ))}
+
+          {isPartiallyPaid && (
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>Balance</Text>
+              <Text style={styles.paymentAmount}>€{PaymentScheduleService.getBalanceDue(schedule).toFixed(2)}</Text>
+            </View>
+          )}
           
           <View style={styles.paymentDivider} />
           
           <View style={styles.paymentRow}>
-            <Text style={styles.paymentTotalLabel}>Total Amount</Text>
-            <Text style={styles.paymentTotalAmount}>€{getCurrentPrice()}</Text>
+            <Text style={styles.paymentTotalLabel}>
+              {isPartiallyPaid || payingByInstallments ? 'Due Now' : 'Total Amount'}
+            </Text>
+            <Text style={styles.paymentTotalAmount}>
+              {isPartiallyPaid || payingByInstallments ? `€${amountDue.toFixed(2)}` : PricingService.formatAmount(amountDue)}
+            </Text>
           </View>
         </View>
 
@@ -401,7 +885,7 @@ export default function PaymentScreen() {
             <TouchableOpacity
               style={styles.retryButton}
               onPress={retryPayment}
-              disabled={processing}
+              disabled={paymentBlocked}
             >
               <Text style={styles.retryButtonText}>Retry Payment</Text>
             </TouchableOpacity>
@@ -412,7 +896,9 @@ export default function PaymentScreen() {
         <View style={styles.paymentMethodCard}>
           <CreditCard size={20} color="#666" />
           <Text style={styles.paymentMethodText}>
-            This is a demo payment. No actual charges will be made.
+            {paymentProvider instanceof MockPaymentProvider
+              ? 'This is a demo payment. No actual charges will be made.'
+              : `Paying with ${paymentProvider.displayName}`}
           </Text>
         </View>
       </ScrollView>
@@ -422,10 +908,10 @@ export default function PaymentScreen() {
         <TouchableOpacity
           style={[
             styles.confirmButton,
-            processing && styles.confirmButtonDisabled
+            paymentBlocked && styles.confirmButtonDisabled
           ]}
           onPress={processPayment}
-          disabled={processing}
+          disabled={paymentBlocked}
           activeOpacity={0.8}
         >
           {processing ? (
@@ -435,7 +921,11 @@ export default function PaymentScreen() {
             </View>
           ) : (
             <Text style={styles.confirmButtonText}>
-              Confirm Payment - €{getCurrentPrice()}
+              {isPartiallyPaid
+                ? `Pay ${nextInstallment ? PaymentScheduleService.getInstallmentLabel(nextInstallment, installmentCount) : 'Balance'} - €${amountDue.toFixed(2)}`
+                : payingByInstallments
+                  ? `Pay Deposit - €${amountDue.toFixed(2)}`
+                  : `Confirm Payment - ${PricingService.formatAmount(amountDue)}`}
             </Text>
           )}
         </TouchableOpacity>
@@ -529,6 +1019,39 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '500',
   },
+  holdCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFF3E0',
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FFE0B2',
+  },
+  holdCardExpired: {
+    backgroundColor: '#FFE5E5',
+    borderColor: '#FFB3B3',
+  },
+  holdContent: {
+    flex: 1,
+  },
+  holdTitle: {
+    fontSize: 16,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  holdTitleExpired: {
+    color: '#FF6B6B',
+  },
+  holdText: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
   imageContainer: {
     height: 200,
     marginHorizontal: 20,
@@ -614,6 +1137,134 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 4,
   },
+  accommodationOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  accommodationOptionSelected: {
+    borderColor: '#8B7355',
+    backgroundColor: '#F9F5F0',
+  },
+  accommodationOptionSoldOut: {
+    opacity: 0.5,
+  },
+  concessionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  concessionChip: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  concessionChipSelected: {
+    borderColor: '#8B7355',
+    backgroundColor: '#F9F5F0',
+  },
+  concessionChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  concessionChipTextSelected: {
+    color: '#8B7355',
+    fontWeight: '600',
+  },
+  slidingScaleLabel: {
+    marginTop: 16,
+  },
+  slidingScaleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  slidingScaleInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: '#333',
+  },
+  slidingScaleButton: {
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  slidingScaleButtonDisabled: {
+    opacity: 0.6,
+  },
+  slidingScaleButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 12,
+    padding: 12,
+  },
+  promoRemoveText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    fontWeight: '500',
+  },
+  planOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  planOptionSelected: {
+    borderColor: '#8B7355',
+    backgroundColor: '#F9F5F0',
+  },
+  installmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  installmentDue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'right',
+  },
+  installmentOverdue: {
+    color: '#FF6B6B',
+    fontWeight: '500',
+  },
+  installmentNext: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  planNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 12,
+    lineHeight: 16,
+  },
   paymentTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -635,6 +1286,14 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '500',
   },
+  adjustmentLabelContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  adjustmentDiscount: {
+    color: '#4CAF50',
+  },
   paymentDivider: {
     height: 1,
     backgroundColor: '#E0E0E0',
@@ -0,0 +1,9 @@
+import { Stack } from 'expo-router';
+
+export default function PenaltyPolicyLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+    </Stack>
+  );
+}
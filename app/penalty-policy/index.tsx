@@ -0,0 +1,428 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { PenaltyService, type PenaltyPolicy } from '@/lib/penaltyService';
+import { ArrowLeft, CircleCheck as CheckCircle, Circle } from 'lucide-react-native';
+
+interface PolicyForm {
+  /** Blank when no-shows aren't penalised */
+  no_show_limit: string;
+  /** Blank when late cancellations aren't penalised */
+  late_cancel_limit: string;
+  window_days: string;
+  penalty: PenaltyPolicy['penalty'];
+  ban_days: string;
+  is_active: boolean;
+}
+
+const DEFAULT_FORM: PolicyForm = {
+  no_show_limit: '',
+  late_cancel_limit: '',
+  window_days: '30',
+  penalty: 'booking_ban',
+  ban_days: '7',
+  is_active: true,
+};
+
+const PENALTY_OPTIONS: { value: PenaltyPolicy['penalty']; label: string; description: string }[] = [
+  {
+    value: 'booking_ban',
+    label: 'Pause bookings',
+    description: 'The student can\'t book or join a waitlist in your classes for a while.',
+  },
+  {
+    value: 'credit_forfeit',
+    label: 'Forfeit a credit',
+    description: 'One credit is taken from the student\'s class pack with you.',
+  },
+];
+
+export default function PenaltyPolicyScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [form, setForm] = useState<PolicyForm>(DEFAULT_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchPolicy();
+    }
+  }, [profile]);
+
+  const fetchPolicy = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const policy = await PenaltyService.getPolicy(profile.id);
+      if (policy) {
+        setForm({
+          no_show_limit: policy.no_show_limit?.toString() ?? '',
+          late_cancel_limit: policy.late_cancel_limit?.toString() ?? '',
+          window_days: policy.window_days.toString(),
+          penalty: policy.penalty,
+          ban_days: policy.ban_days.toString(),
+          is_active: policy.is_active,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching penalty policy:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = <K extends keyof PolicyForm>(field: K, value: PolicyForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const parseLimit = (value: string): number | null => {
+    return value.trim() ? parseInt(value) : null;
+  };
+
+  const savePolicy = async () => {
+    if (!profile?.id) return;
+
+    const noShowLimit = parseLimit(form.no_show_limit);
+    const lateCancelLimit = parseLimit(form.late_cancel_limit);
+    const windowDays = parseInt(form.window_days);
+    const banDays = parseInt(form.ban_days);
+
+    if (
+      (noShowLimit !== null && (isNaN(noShowLimit) || noShowLimit < 1)) ||
+      (lateCancelLimit !== null && (isNaN(lateCancelLimit) || lateCancelLimit < 1))
+    ) {
+      Alert.alert('Invalid Policy', 'Limits must be at least 1, or left blank to turn them off.');
+      return;
+    }
+    if (isNaN(windowDays) || windowDays < 1) {
+      Alert.alert('Invalid Policy', 'Please enter how many days strikes count for.');
+      return;
+    }
+    if (form.penalty === 'booking_ban' && (isNaN(banDays) || banDays < 1)) {
+      Alert.alert('Invalid Policy', 'Please enter how many days bookings are paused for.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await PenaltyService.savePolicy({
+        teacher_id: profile.id,
+        no_show_limit: noShowLimit,
+        late_cancel_limit: lateCancelLimit,
+        window_days: windowDays,
+        penalty: form.penalty,
+        // Ban length is kept for when the teacher switches back to booking bans
+        ban_days: isNaN(banDays) || banDays < 1 ? parseInt(DEFAULT_FORM.ban_days) : banDays,
+        is_active: form.is_active,
+      });
+      Alert.alert('Saved', 'Your no-show policy has been updated.');
+    } catch (error) {
+      console.error('Error saving penalty policy:', error);
+      Alert.alert('Error', 'Failed to save your policy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only teachers set penalty policies
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>No-Show Policy</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading policy...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Students collect a strike when you mark them as a no-show or when they cancel
+            too late for a full refund. Once they reach a limit, the penalty below is applied.
+          </Text>
+
+          <View style={styles.formCard}>
+            <View style={styles.row}>
+              <View style={styles.halfWidth}>
+                <Text style={styles.label}>No-Show Limit</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.no_show_limit}
+                  onChangeText={(value) => updateForm('no_show_limit', value)}
+                  keyboardType="numeric"
+                  placeholder="Off"
+                  editable={!saving}
+                />
+              </View>
+              <View style={styles.halfWidth}>
+                <Text style={styles.label}>Late Cancel Limit</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.late_cancel_limit}
+                  onChangeText={(value) => updateForm('late_cancel_limit', value)}
+                  keyboardType="numeric"
+                  placeholder="Off"
+                  editable={!saving}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Count Strikes From the Last (days)</Text>
+            <TextInput
+              style={styles.input}
+              value={form.window_days}
+              onChangeText={(value) => updateForm('window_days', value)}
+              keyboardType="numeric"
+              placeholder="e.g. 30"
+              editable={!saving}
+            />
+            <Text style={styles.helpText}>
+              Strikes older than this don't count, and a student starts over after each penalty.
+            </Text>
+          </View>
+
+          <Text style={styles.sectionTitle}>Penalty</Text>
+          <View style={styles.optionsCard}>
+            {PENALTY_OPTIONS.map((option, index) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionRow, index > 0 && styles.optionRowBorder]}
+                onPress={() => updateForm('penalty', option.value)}
+                disabled={saving}
+              >
+                <View style={styles.optionInfo}>
+                  <Text style={styles.optionText}>{option.label}</Text>
+                  <Text style={styles.optionDescription}>{option.description}</Text>
+                </View>
+                {form.penalty === option.value ? (
+                  <CheckCircle size={22} color="#8B7355" />
+                ) : (
+                  <Circle size={22} color="#CCC" />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {form.penalty === 'booking_ban' && (
+            <View style={styles.formCard}>
+              <Text style={styles.label}>Pause Bookings For (days)</Text>
+              <TextInput
+                style={styles.input}
+                value={form.ban_days}
+                onChangeText={(value) => updateForm('ban_days', value)}
+                keyboardType="numeric"
+                placeholder="e.g. 7"
+                editable={!saving}
+              />
+            </View>
+          )}
+
+          <View style={styles.optionsCard}>
+            <TouchableOpacity
+              style={styles.optionRow}
+              onPress={() => updateForm('is_active', !form.is_active)}
+              disabled={saving}
+            >
+              <View style={styles.optionInfo}>
+                <Text style={styles.optionText}>Apply penalties</Text>
+                <Text style={styles.optionDescription}>
+                  Strikes are still counted while penalties are turned off.
+                </Text>
+              </View>
+              {form.is_active ? (
+                <CheckCircle size={22} color="#8B7355" />
+              ) : (
+                <Circle size={22} color="#CCC" />
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={savePolicy}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Save Policy</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  optionsCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 16,
+  },
+  optionRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
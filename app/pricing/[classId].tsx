@@ -0,0 +1,708 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  PricingService,
+  type Concession,
+  type DiscountType,
+  type PricedClass,
+  type PricingRule,
+  type PricingRuleInput,
+} from '@/lib/pricingService';
+import { ArrowLeft, Plus, Trash2, Calendar } from 'lucide-react-native';
+
+type WindowDraft = {
+  key: string;
+  rule_type: 'early_bird' | 'last_minute';
+  label: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  ends_on: Date;
+  days_before: string;
+};
+
+type ConcessionDraft = {
+  discount_type: DiscountType;
+  // Empty when the concession isn't offered
+  discount_value: string;
+};
+
+const CONCESSIONS: Concession[] = ['student', 'senior'];
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export default function PricingScreen() {
+  const { classId } = useLocalSearchParams<{ classId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [yogaClass, setYogaClass] = useState<(PricedClass & { title: string }) | null>(null);
+  const [windows, setWindows] = useState<WindowDraft[]>([]);
+  const [concessions, setConcessions] = useState<Record<Concession, ConcessionDraft>>({
+    student: { discount_type: 'percent', discount_value: '' },
+    senior: { discount_type: 'percent', discount_value: '' },
+  });
+  const [slidingScaleMin, setSlidingScaleMin] = useState('');
+  const [slidingScaleMax, setSlidingScaleMax] = useState('');
+  // Window whose end date is being picked
+  const [datePickerKey, setDatePickerKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (classId) {
+      fetchPricing();
+    }
+  }, [classId]);
+
+  const fetchPricing = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('yoga_classes')
+        .select('*')
+        .eq('id', classId)
+        .single();
+
+      if (error) throw error;
+
+      const rules = (await PricingService.getPricingRules([classId]))[classId] || [];
+
+      setYogaClass(data);
+      setSlidingScaleMin(data.sliding_scale_min != null ? data.sliding_scale_min.toString() : '');
+      setSlidingScaleMax(data.sliding_scale_max != null ? data.sliding_scale_max.toString() : '');
+      setWindows(rules
+        .filter(rule => rule.rule_type !== 'concession')
+        .map(rule => ({
+          key: rule.id,
+          rule_type: rule.rule_type as WindowDraft['rule_type'],
+          label: rule.label || '',
+          discount_type: rule.discount_type,
+          discount_value: rule.discount_value.toString(),
+          ends_on: rule.ends_on ? new Date(`${rule.ends_on}T00:00:00`) : new Date(),
+          days_before: rule.days_before != null ? rule.days_before.toString() : '',
+        })));
+      rules
+        .filter(rule => rule.rule_type === 'concession' && rule.concession)
+        .forEach(rule => setConcessions(prev => ({
+          ...prev,
+          [rule.concession as Concession]: {
+            discount_type: rule.discount_type,
+            discount_value: rule.discount_value.toString(),
+          },
+        })));
+    } catch (error) {
+      console.error('Error fetching pricing:', error);
+      Alert.alert('Error', 'Failed to load the pricing of this class');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addWindow = (ruleType: WindowDraft['rule_type']) => {
+    setWindows(prev => [...prev, {
+      key: `new-${Date.now()}`,
+      rule_type: ruleType,
+      label: '',
+      discount_type: 'percent',
+      discount_value: '',
+      ends_on: new Date(),
+      days_before: ruleType === 'last_minute' ? '3' : '',
+    }]);
+  };
+
+  const updateWindow = (key: string, changes: Partial<WindowDraft>) => {
+    setWindows(prev => prev.map(window => window.key === key ? { ...window, ...changes } : window));
+  };
+
+  const parseDiscount = (draft: { discount_type: DiscountType; discount_value: string }, name: string) => {
+    const value = parseFloat(draft.discount_value);
+    if (isNaN(value) || value <= 0 || (draft.discount_type === 'percent' && value >= 100)) {
+      Alert.alert('Invalid Discount', `The ${name} discount must be more than 0${draft.discount_type === 'percent' ? ' and less than 100%' : ''}.`);
+      return null;
+    }
+    return value;
+  };
+
+  // Rules as saved, or null when a field is invalid
+  const buildRules = (): PricingRuleInput[] | null => {
+    if (!yogaClass) return null;
+
+    const rules: PricingRuleInput[] = [];
+
+    for (const window of windows) {
+      const name = window.rule_type === 'early_bird' ? 'early bird' : 'last-minute';
+      const discountValue = parseDiscount(window, name);
+      if (discountValue === null) return null;
+
+      let daysBefore: number | null = null;
+      if (window.rule_type === 'last_minute') {
+        daysBefore = parseInt(window.days_before);
+        if (isNaN(daysBefore) || daysBefore < 0) {
+          Alert.alert('Invalid Window', 'Last-minute discounts need the number of days before the class they start.');
+          return null;
+        }
+      } else if (toDateString(window.ends_on) >= yogaClass.date) {
+        Alert.alert('Invalid Window', 'Early bird windows must end before the class starts.');
+        return null;
+      }
+
+      rules.push({
+        rule_type: window.rule_type,
+        label: window.label.trim() || null,
+        discount_type: window.discount_type,
+        discount_value: discountValue,
+        ends_on: window.rule_type === 'early_bird' ? toDateString(window.ends_on) : null,
+        days_before: daysBefore,
+        concession: null,
+      });
+    }
+
+    for (const concession of CONCESSIONS) {
+      const draft = concessions[concession];
+      if (!draft.discount_value.trim()) continue;
+
+      const discountValue = parseDiscount(draft, PricingService.getConcessionLabel(concession).toLowerCase());
+      if (discountValue === null) return null;
+
+      rules.push({
+        rule_type: 'concession',
+        label: null,
+        discount_type: draft.discount_type,
+        discount_value: discountValue,
+        ends_on: null,
+        days_before: null,
+        concession,
+      });
+    }
+
+    return rules;
+  };
+
+  const buildSlidingScale = (): { min: number; max: number } | null | undefined => {
+    if (!slidingScaleMin.trim() && !slidingScaleMax.trim()) return null;
+
+    const min = parseFloat(slidingScaleMin);
+    const max = parseFloat(slidingScaleMax);
+    if (isNaN(min) || isNaN(max) || min < 0 || max < min) {
+      Alert.alert('Invalid Sliding Scale', 'Enter the lowest and highest price students can pay.');
+      return undefined;
+    }
+    return { min, max };
+  };
+
+  const savePricing = async () => {
+    if (!profile?.id) return;
+
+    const rules = buildRules();
+    if (!rules) return;
+
+    const slidingScale = buildSlidingScale();
+    if (slidingScale === undefined) return;
+
+    setSaving(true);
+    try {
+      await PricingService.saveClassPricing(classId, profile.id, slidingScale, rules);
+      Alert.alert('Success', 'Pricing saved.');
+      router.back();
+    } catch (error) {
+      console.error('Error saving pricing:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save pricing. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Today's price with the rules as entered, skipping fields still being typed
+  const getPreview = () => {
+    if (!yogaClass) return null;
+
+    const rules = windows
+      .filter(window => parseFloat(window.discount_value) > 0)
+      .map((window): PricingRule => ({
+        id: window.key,
+        class_id: classId,
+        rule_type: window.rule_type,
+        label: window.label.trim() || null,
+        discount_type: window.discount_type,
+        discount_value: parseFloat(window.discount_value),
+        ends_on: window.rule_type === 'early_bird' ? toDateString(window.ends_on) : null,
+        days_before: window.rule_type === 'last_minute' ? parseInt(window.days_before) : null,
+        concession: null,
+      }));
+    const min = parseFloat(slidingScaleMin);
+    const max = parseFloat(slidingScaleMax);
+
+    return PricingService.calculatePrice({
+      ...yogaClass,
+      sliding_scale_min: isNaN(min) || isNaN(max) ? null : min,
+      sliding_scale_max: isNaN(min) || isNaN(max) ? null : max,
+    }, rules);
+  };
+
+  const renderDiscountInput = (
+    draft: { discount_type: DiscountType; discount_value: string },
+    onChange: (changes: { discount_type?: DiscountType; discount_value?: string }) => void,
+    placeholder: string
+  ) => (
+    <View style={styles.discountRow}>
+      <TextInput
+        style={[styles.input, styles.discountInput]}
+        value={draft.discount_value}
+        onChangeText={(discount_value) => onChange({ discount_value })}
+        keyboardType="decimal-pad"
+        placeholder={placeholder}
+        editable={!saving}
+      />
+      {(['percent', 'amount'] as DiscountType[]).map(discountType => (
+        <TouchableOpacity
+          key={discountType}
+          style={[styles.unitButton, draft.discount_type === discountType && styles.unitButtonActive]}
+          onPress={() => onChange({ discount_type: discountType })}
+          disabled={saving}
+        >
+          <Text style={[styles.unitButtonText, draft.discount_type === discountType && styles.unitButtonTextActive]}>
+            {discountType === 'percent' ? '%' : '€'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const preview = getPreview();
+  const pickingWindow = windows.find(window => window.key === datePickerKey);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Pricing</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading || !yogaClass ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#8B7355" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.classInfo}>
+            <Text style={styles.className}>{yogaClass.title}</Text>
+            <Text style={styles.basePrice}>Base price {PricingService.formatAmount(Number(yogaClass.price))}</Text>
+          </View>
+
+          {preview && (
+            <View style={styles.previewCard}>
+              <Text style={styles.previewLabel}>Students booking today pay</Text>
+              <Text style={styles.previewPrice}>{PricingService.formatPrice(preview)}</Text>
+              {preview.adjustments.map(adjustment => (
+                <Text key={adjustment.kind} style={styles.previewAdjustment}>
+                  {adjustment.label} {PricingService.formatAmount(adjustment.amount)}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Discount Windows</Text>
+            <Text style={styles.helpText}>
+              Early bird discounts run until their end date; last-minute discounts start a number
+              of days before the class. Only the biggest open discount applies.
+            </Text>
+
+            {windows.map(window => (
+              <View key={window.key} style={styles.ruleCard}>
+                <View style={styles.ruleHeader}>
+                  <Text style={styles.ruleTitle}>
+                    {window.rule_type === 'early_bird' ? 'Early Bird' : 'Last Minute'}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setWindows(prev => prev.filter(w => w.key !== window.key))}
+                    disabled={saving}
+                  >
+                    <Trash2 size={16} color="#FF6B6B" />
+                  </TouchableOpacity>
+                </View>
+
+                <TextInput
+                  style={styles.input}
+                  value={window.label}
+                  onChangeText={(label) => updateWindow(window.key, { label })}
+                  placeholder={window.rule_type === 'early_bird' ? 'Label, e.g. Super Early Bird' : 'Label, e.g. Last Call'}
+                  editable={!saving}
+                />
+
+                <View style={styles.ruleFields}>
+                  {renderDiscountInput(window, changes => updateWindow(window.key, changes), 'Discount')}
+
+                  {window.rule_type === 'early_bird' ? (
+                    <TouchableOpacity
+                      style={styles.dateButton}
+                      onPress={() => setDatePickerKey(window.key)}
+                      disabled={saving}
+                    >
+                      <Calendar size={16} color="#666" />
+                      <Text style={styles.dateText}>Until {window.ends_on.toLocaleDateString()}</Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <View style={styles.daysBeforeRow}>
+                      <TextInput
+                        style={[styles.input, styles.daysBeforeInput]}
+                        value={window.days_before}
+                        onChangeText={(days_before) => updateWindow(window.key, { days_before })}
+                        keyboardType="numeric"
+                        editable={!saving}
+                      />
+                      <Text style={styles.daysBeforeText}>days before</Text>
+                    </View>
+                  )}
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.addRow}>
+              <TouchableOpacity style={styles.addButton} onPress={() => addWindow('early_bird')} disabled={saving}>
+                <Plus size={16} color="#8B7355" />
+                <Text style={styles.addButtonText}>Early Bird</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addButton} onPress={() => addWindow('last_minute')} disabled={saving}>
+                <Plus size={16} color="#8B7355" />
+                <Text style={styles.addButtonText}>Last Minute</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Concessions</Text>
+            <Text style={styles.helpText}>
+              Taken off after any early bird or last-minute discount. Leave empty to not offer one.
+            </Text>
+
+            {CONCESSIONS.map(concession => (
+              <View key={concession} style={styles.concessionRow}>
+                <Text style={styles.concessionLabel}>{PricingService.getConcessionLabel(concession)}</Text>
+                {renderDiscountInput(
+                  concessions[concession],
+                  changes => setConcessions(prev => ({ ...prev, [concession]: { ...prev[concession], ...changes } })),
+                  'None'
+                )}
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pay What You Can</Text>
+            <Text style={styles.helpText}>
+              Let students choose what they pay within a range. The price above is suggested.
+              Leave empty for a fixed price.
+            </Text>
+
+            <View style={styles.slidingScaleRow}>
+              <TextInput
+                style={[styles.input, styles.slidingScaleInput]}
+                value={slidingScaleMin}
+                onChangeText={setSlidingScaleMin}
+                keyboardType="decimal-pad"
+                placeholder="From €"
+                editable={!saving}
+              />
+              <Text style={styles.daysBeforeText}>to</Text>
+              <TextInput
+                style={[styles.input, styles.slidingScaleInput]}
+                value={slidingScaleMax}
+                onChangeText={setSlidingScaleMax}
+                keyboardType="decimal-pad"
+                placeholder="To €"
+                editable={!saving}
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.buttonDisabled]}
+            onPress={savePricing}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Pricing</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {pickingWindow && (
+        <DateTimePicker
+          value={pickingWindow.ends_on}
+          mode="date"
+          display="default"
+          minimumDate={new Date()}
+          onChange={(event, selectedDate) => {
+            setDatePickerKey(null);
+            if (selectedDate) {
+              updateWindow(pickingWindow.key, { ends_on: selectedDate });
+            }
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  classInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  className: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  basePrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  previewCard: {
+    backgroundColor: '#F9F5F0',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  previewLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  previewPrice: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#8B7355',
+    marginVertical: 4,
+  },
+  previewAdjustment: {
+    fontSize: 13,
+    color: '#4CAF50',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 12,
+  },
+  ruleCard: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  ruleFields: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  discountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  discountInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  unitButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  unitButtonActive: {
+    backgroundColor: '#8B7355',
+    borderColor: '#8B7355',
+  },
+  unitButtonText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  unitButtonTextActive: {
+    color: 'white',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F8F8F8',
+  },
+  dateText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  daysBeforeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  daysBeforeInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  daysBeforeText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#8B7355',
+  },
+  addButtonText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  concessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  concessionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  slidingScaleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  slidingScaleInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#8B7355',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,9 @@
+import { Stack } from 'expo-router';
+
+export default function PricingLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="[classId]" />
+    </Stack>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,755 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { PricingService, type DiscountType } from '@/lib/pricingService';
+import {
+  PromoCodeService,
+  type PromoScope,
+  type TeacherPromoCode,
+} from '@/lib/promoCodeService';
+import { ArrowLeft, Plus, Pencil, Eye, EyeOff, Calendar, X } from 'lucide-react-native';
+
+interface PromoCodeForm {
+  id?: string;
+  code: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  scope: PromoScope;
+  class_id: string | null;
+  /** Blank for unlimited */
+  max_uses: string;
+  max_uses_per_student: string;
+  /** The code stops working at the end of this day */
+  expires_on: Date | null;
+}
+
+interface ClassOption {
+  id: string;
+  title: string;
+  date: string;
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: '',
+  discount_type: 'percent',
+  discount_value: '',
+  scope: 'all',
+  class_id: null,
+  max_uses: '',
+  max_uses_per_student: '1',
+  expires_on: null,
+};
+
+const SCOPE_LABELS: Record<PromoScope, string> = {
+  all: 'All classes',
+  class: 'One class',
+  retreats: 'Retreats only',
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+});
+
+export default function PromoCodesScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [promoCodes, setPromoCodes] = useState<TeacherPromoCode[]>([]);
+  const [classes, setClasses] = useState<ClassOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<PromoCodeForm | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchPromoCodes();
+      fetchClasses();
+    }
+  }, [profile]);
+
+  const fetchPromoCodes = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const data = await PromoCodeService.getTeacherPromoCodes(profile.id);
+      setPromoCodes(data);
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Upcoming classes and retreats a code can be limited to
+  const fetchClasses = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('yoga_classes')
+        .select('id, title, date')
+        .eq('teacher_id', profile.id)
+        .eq('status', 'scheduled')
+        .gte('date', new Date().toISOString().split('T')[0])
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      setClasses(data || []);
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+    }
+  };
+
+  const editPromoCode = (promoCode: TeacherPromoCode) => {
+    setForm({
+      id: promoCode.id,
+      code: promoCode.code,
+      discount_type: promoCode.discount_type,
+      discount_value: promoCode.discount_value.toString(),
+      scope: promoCode.scope,
+      class_id: promoCode.class_id,
+      max_uses: promoCode.max_uses?.toString() ?? '',
+      max_uses_per_student: promoCode.max_uses_per_student?.toString() ?? '',
+      expires_on: promoCode.expires_at ? new Date(promoCode.expires_at) : null,
+    });
+  };
+
+  const updateForm = (changes: Partial<Omit<PromoCodeForm, 'id'>>) => {
+    setForm(prev => prev && { ...prev, ...changes });
+  };
+
+  const parseLimit = (value: string) => value.trim() ? parseInt(value) : null;
+
+  const savePromoCode = async () => {
+    if (!profile?.id || !form) return;
+
+    const discountValue = parseFloat(form.discount_value.replace(',', '.'));
+    const maxUses = parseLimit(form.max_uses);
+    const maxUsesPerStudent = parseLimit(form.max_uses_per_student);
+
+    if (!PromoCodeService.isValidCode(form.code)) {
+      Alert.alert('Invalid Code', 'Codes are 3 to 20 letters, numbers, dashes or underscores.');
+      return;
+    }
+    if (isNaN(discountValue) || discountValue <= 0 || (form.discount_type === 'percent' && discountValue > 100)) {
+      Alert.alert('Invalid Discount', 'Please enter a discount above 0, and at most 100%.');
+      return;
+    }
+    if (form.scope === 'class' && !form.class_id) {
+      Alert.alert('Missing Class', 'Please choose the class the code is for.');
+      return;
+    }
+    if ((maxUses !== null && (isNaN(maxUses) || maxUses < 1))
+      || (maxUsesPerStudent !== null && (isNaN(maxUsesPerStudent) || maxUsesPerStudent < 1))) {
+      Alert.alert('Invalid Limit', 'Usage limits must be at least 1, or left blank for unlimited.');
+      return;
+    }
+
+    let expiresAt: string | null = null;
+    if (form.expires_on) {
+      const endOfDay = new Date(form.expires_on);
+      endOfDay.setHours(23, 59, 59, 999);
+      expiresAt = endOfDay.toISOString();
+    }
+
+    setSaving(true);
+    try {
+      await PromoCodeService.savePromoCode(profile.id, {
+        id: form.id,
+        code: form.code,
+        discount_type: form.discount_type,
+        discount_value: discountValue,
+        scope: form.scope,
+        class_id: form.class_id,
+        max_uses: maxUses,
+        max_uses_per_student: maxUsesPerStudent,
+        expires_at: expiresAt,
+      });
+
+      setForm(null);
+      fetchPromoCodes();
+    } catch (error) {
+      console.error('Error saving promo code:', error);
+      Alert.alert('Error', error instanceof Error && error.message.startsWith('You already have')
+        ? `${error.message}.`
+        : 'Failed to save the promo code. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePromoCodeActive = async (promoCode: TeacherPromoCode) => {
+    if (!profile?.id) return;
+
+    try {
+      await PromoCodeService.setPromoCodeActive(promoCode.id, profile.id, !promoCode.is_active);
+      fetchPromoCodes();
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      Alert.alert('Error', 'Failed to update the promo code. Please try again.');
+    }
+  };
+
+  const renderForm = (promoForm: PromoCodeForm) => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{promoForm.id ? 'Edit Promo Code' : 'New Promo Code'}</Text>
+
+      <Text style={styles.label}>Code</Text>
+      <TextInput
+        style={styles.input}
+        value={promoForm.code}
+        onChangeText={(code) => updateForm({ code: code.toUpperCase() })}
+        placeholder="e.g. SUMMER20"
+        autoCapitalize="characters"
+        autoCorrect={false}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Discount</Text>
+      <View style={styles.discountRow}>
+        <TextInput
+          style={[styles.input, styles.discountInput]}
+          value={promoForm.discount_value}
+          onChangeText={(discount_value) => updateForm({ discount_value })}
+          keyboardType="decimal-pad"
+          placeholder="e.g. 20"
+          editable={!saving}
+        />
+        {(['percent', 'amount'] as DiscountType[]).map(discountType => (
+          <TouchableOpacity
+            key={discountType}
+            style={[styles.unitButton, promoForm.discount_type === discountType && styles.unitButtonActive]}
+            onPress={() => updateForm({ discount_type: discountType })}
+            disabled={saving}
+          >
+            <Text style={[styles.unitButtonText, promoForm.discount_type === discountType && styles.unitButtonTextActive]}>
+              {discountType === 'percent' ? '%' : '€'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Valid For</Text>
+      <View style={styles.chipRow}>
+        {(Object.keys(SCOPE_LABELS) as PromoScope[]).map(scope => (
+          <TouchableOpacity
+            key={scope}
+            style={[styles.chip, promoForm.scope === scope && styles.chipActive]}
+            onPress={() => updateForm({ scope })}
+            disabled={saving}
+          >
+            <Text style={[styles.chipText, promoForm.scope === scope && styles.chipTextActive]}>
+              {SCOPE_LABELS[scope]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {promoForm.scope === 'class' && (
+        classes.length > 0 ? (
+          <View style={styles.classList}>
+            {classes.map(yogaClass => (
+              <TouchableOpacity
+                key={yogaClass.id}
+                style={[styles.classOption, promoForm.class_id === yogaClass.id && styles.classOptionActive]}
+                onPress={() => updateForm({ class_id: yogaClass.id })}
+                disabled={saving}
+              >
+                <Text style={styles.classOptionTitle} numberOfLines={1}>{yogaClass.title}</Text>
+                <Text style={styles.classOptionDate}>{formatDate(new Date(yogaClass.date))}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.helpText}>You have no upcoming classes to limit the code to.</Text>
+        )
+      )}
+
+      <View style={styles.row}>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Total Uses</Text>
+          <TextInput
+            style={styles.input}
+            value={promoForm.max_uses}
+            onChangeText={(max_uses) => updateForm({ max_uses })}
+            keyboardType="numeric"
+            placeholder="Unlimited"
+            editable={!saving}
+          />
+        </View>
+        <View style={styles.halfWidth}>
+          <Text style={styles.label}>Uses per Student</Text>
+          <TextInput
+            style={styles.input}
+            value={promoForm.max_uses_per_student}
+            onChangeText={(max_uses_per_student) => updateForm({ max_uses_per_student })}
+            keyboardType="numeric"
+            placeholder="Unlimited"
+            editable={!saving}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>Expires</Text>
+      <View style={styles.expiryRow}>
+        <TouchableOpacity
+          style={styles.dateButton}
+          onPress={() => setShowDatePicker(true)}
+          disabled={saving}
+        >
+          <Calendar size={16} color="#666" />
+          <Text style={styles.dateText}>
+            {promoForm.expires_on ? `End of ${formatDate(promoForm.expires_on)}` : 'Never'}
+          </Text>
+        </TouchableOpacity>
+        {promoForm.expires_on && (
+          <TouchableOpacity onPress={() => updateForm({ expires_on: null })} disabled={saving}>
+            <X size={20} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.helpText}>
+        Students enter the code when paying. A use counts once the booking is paid.
+      </Text>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setForm(null)}
+          disabled={saving}
+        >
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={savePromoCode}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  // Only teachers create promo codes
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Promo Codes</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading promo codes...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Promo codes take a discount off the price at checkout, after early bird and
+            concession prices.
+          </Text>
+
+          {promoCodes.map((promoCode) => {
+            const expired = PromoCodeService.isExpired(promoCode);
+
+            return (
+              <View
+                key={promoCode.id}
+                style={[styles.codeCard, (!promoCode.is_active || expired) && styles.codeCardInactive]}
+              >
+                <View style={styles.codeHeader}>
+                  <Text style={styles.codeName}>{promoCode.code}</Text>
+                  {(!promoCode.is_active || expired) && (
+                    <View style={styles.inactiveBadge}>
+                      <Text style={styles.inactiveBadgeText}>{expired ? 'Expired' : 'Paused'}</Text>
+                    </View>
+                  )}
+                </View>
+                <Text style={styles.codeDetails}>{PromoCodeService.describePromoCode(promoCode)}</Text>
+                <Text style={styles.codeDetails}>
+                  {promoCode.expires_at ? `Expires ${formatDate(new Date(promoCode.expires_at))}` : 'No expiry'}
+                  {promoCode.discount_total > 0 && ` · ${PricingService.formatAmount(promoCode.discount_total)} discounted`}
+                </Text>
+                <View style={styles.codeActions}>
+                  <TouchableOpacity style={styles.codeAction} onPress={() => editPromoCode(promoCode)}>
+                    <Pencil size={16} color="#8B7355" />
+                    <Text style={styles.codeActionText}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.codeAction} onPress={() => togglePromoCodeActive(promoCode)}>
+                    {promoCode.is_active ? (
+                      <EyeOff size={16} color="#8B7355" />
+                    ) : (
+                      <Eye size={16} color="#8B7355" />
+                    )}
+                    <Text style={styles.codeActionText}>
+                      {promoCode.is_active ? 'Pause' : 'Resume'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })}
+
+          {form ? (
+            renderForm(form)
+          ) : (
+            <TouchableOpacity style={styles.newCodeButton} onPress={() => setForm(EMPTY_FORM)}>
+              <Plus size={20} color="white" />
+              <Text style={styles.newCodeText}>New Promo Code</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+
+      {showDatePicker && form && (
+        <DateTimePicker
+          value={form.expires_on ?? new Date()}
+          mode="date"
+          display="default"
+          minimumDate={new Date()}
+          onChange={(event, selectedDate) => {
+            setShowDatePicker(false);
+            if (selectedDate) {
+              updateForm({ expires_on: selectedDate });
+            }
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  codeCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  codeCardInactive: {
+    opacity: 0.7,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  codeName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+    letterSpacing: 1,
+    flex: 1,
+  },
+  inactiveBadge: {
+    backgroundColor: '#999',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  inactiveBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '500',
+  },
+  codeDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 6,
+  },
+  codeActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  codeAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  codeActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  newCodeButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  newCodeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  discountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  discountInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  unitButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  unitButtonActive: {
+    backgroundColor: '#8B7355',
+    borderColor: '#8B7355',
+  },
+  unitButtonText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  unitButtonTextActive: {
+    color: 'white',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  chipActive: {
+    backgroundColor: '#8B7355',
+    borderColor: '#8B7355',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  classList: {
+    marginTop: 8,
+    gap: 6,
+  },
+  classOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  classOptionActive: {
+    borderColor: '#8B7355',
+    backgroundColor: '#F9F5F0',
+  },
+  classOptionTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  classOptionDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  expiryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F8F8F8',
+  },
+  dateText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ReminderService,
+  REMINDER_OFFSET_OPTIONS,
+  DEFAULT_REMINDER_OFFSETS,
+} from '@/lib/reminderService';
+import { ArrowLeft, CircleCheck as CheckCircle, Circle, BellOff } from 'lucide-react-native';
+
+export default function ReminderSettingsScreen() {
+  const { profile, updateProfile } = useAuth();
+  const router = useRouter();
+  const [offsets, setOffsets] = useState<number[]>(profile?.reminder_offsets ?? DEFAULT_REMINDER_OFFSETS);
+  const [permissionGranted, setPermissionGranted] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    ReminderService.requestPermission()
+      .then(setPermissionGranted)
+      .catch(() => setPermissionGranted(false));
+  }, []);
+
+  const toggleOffset = (offset: number) => {
+    setOffsets(prev => prev.includes(offset)
+      ? prev.filter(item => item !== offset)
+      : [...prev, offset].sort((a, b) => b - a)
+    );
+  };
+
+  const saveOffsets = async () => {
+    setSaving(true);
+
+    const { error } = await updateProfile({ reminder_offsets: offsets });
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving reminder settings:', error);
+      Alert.alert('Error', 'Failed to save reminder settings');
+      return;
+    }
+
+    // My Bookings reschedules the reminders once the profile has updated
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Class Reminders</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.introText}>
+          Choose when to be reminded before your booked classes and retreats. Reminders for
+          online classes include the meeting link.
+        </Text>
+
+        {(Platform.OS === 'web' || !permissionGranted) && (
+          <View style={styles.permissionNotice}>
+            <BellOff size={20} color="#FF9800" />
+            <Text style={styles.permissionText}>
+              {Platform.OS === 'web'
+                ? 'Reminders are only sent by the mobile app.'
+                : 'Notifications are turned off for this app. Allow them in your device settings to get reminders.'
+              }
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.optionsCard}>
+          {REMINDER_OFFSET_OPTIONS.map((offset, index) => {
+            const selected = offsets.includes(offset);
+
+            return (
+              <TouchableOpacity
+                key={offset}
+                style={[styles.optionRow, index > 0 && styles.optionRowBorder]}
+                onPress={() => toggleOffset(offset)}
+              >
+                <Text style={styles.optionText}>
+                  {ReminderService.formatOffset(offset)} before
+                </Text>
+                {selected ? (
+                  <CheckCircle size={22} color="#8B7355" />
+                ) : (
+                  <Circle size={22} color="#CCC" />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {offsets.length === 0 && (
+          <Text style={styles.helpText}>You won't get any class reminders.</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={saveOffsets}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  permissionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFF3E0',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  permissionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FF9800',
+    lineHeight: 20,
+  },
+  optionsCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  optionRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
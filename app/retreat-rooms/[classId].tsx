@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  AccommodationService,
+  type RetreatAccommodation,
+  type RoomListEntry,
+} from '@/lib/accommodationService';
+import { ArrowLeft, BedDouble, User } from 'lucide-react-native';
+
+type RoomGroup = {
+  key: string;
+  title: string;
+  capacity: number | null;
+  guests: RoomListEntry[];
+};
+
+export default function RetreatRoomsScreen() {
+  const { classId } = useLocalSearchParams<{ classId: string }>();
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [retreatTitle, setRetreatTitle] = useState('');
+  const [accommodations, setAccommodations] = useState<RetreatAccommodation[]>([]);
+  const [guests, setGuests] = useState<RoomListEntry[]>([]);
+  // Rooms as typed, saved when the field loses focus
+  const [roomDrafts, setRoomDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (classId) {
+      fetchRoomList();
+    }
+  }, [classId]);
+
+  const fetchRoomList = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('yoga_classes')
+        .select('title')
+        .eq('id', classId)
+        .single();
+
+      if (error) throw error;
+
+      const [options, roomList] = await Promise.all([
+        AccommodationService.getAccommodations(classId),
+        AccommodationService.getRoomList(classId),
+      ]);
+
+      setRetreatTitle(data.title);
+      setAccommodations(options);
+      setGuests(roomList);
+      setRoomDrafts(Object.fromEntries(roomList.map(guest => [guest.id, guest.room_assignment ?? ''])));
+    } catch (error) {
+      console.error('Error fetching room list:', error);
+      Alert.alert('Error', 'Failed to load the guests of this retreat');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRoom = async (guest: RoomListEntry) => {
+    if (!profile?.id) return;
+
+    const room = (roomDrafts[guest.id] ?? '').trim();
+    if (room === (guest.room_assignment ?? '')) return;
+
+    setSavingId(guest.id);
+    try {
+      await AccommodationService.assignRoom(guest.id, profile.id, room);
+      setGuests(prev => prev.map(g => g.id === guest.id ? { ...g, room_assignment: room || null } : g));
+      setRoomDrafts(prev => ({ ...prev, [guest.id]: room }));
+    } catch (error) {
+      console.error('Error assigning room:', error);
+      Alert.alert('Error', 'Failed to save the room. Please try again.');
+      setRoomDrafts(prev => ({ ...prev, [guest.id]: guest.room_assignment ?? '' }));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Guests grouped by the accommodation they booked, in the retreat's order
+  const groups: RoomGroup[] = accommodations.map(option => ({
+    key: option.id,
+    title: option.name,
+    capacity: option.capacity,
+    guests: guests.filter(guest => guest.accommodation_id === option.id),
+  }));
+  const unplacedGuests = guests.filter(guest => !accommodations.some(option => option.id === guest.accommodation_id));
+  if (unplacedGuests.length > 0) {
+    groups.push({
+      key: 'none',
+      title: accommodations.length > 0 ? 'No accommodation chosen' : 'Guests',
+      capacity: null,
+      guests: unplacedGuests,
+    });
+  }
+
+  const assignedCount = guests.filter(guest => guest.room_assignment).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Rooms</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#8B7355" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.retreatInfo}>
+            <Text style={styles.retreatName}>{retreatTitle}</Text>
+            <Text style={styles.assignedCount}>
+              {assignedCount}/{guests.length} in a room
+            </Text>
+          </View>
+
+          {guests.length === 0 ? (
+            <View style={styles.emptyState}>
+              <BedDouble size={32} color="#CCC" />
+              <Text style={styles.emptyText}>Guests show up here once they have paid.</Text>
+            </View>
+          ) : (
+            groups.map(group => (
+              <View key={group.key} style={styles.group}>
+                <View style={styles.groupHeader}>
+                  <Text style={styles.sectionTitle}>{group.title}</Text>
+                  {group.capacity !== null && (
+                    <Text style={styles.groupCount}>{group.guests.length}/{group.capacity} guests</Text>
+                  )}
+                </View>
+
+                {group.guests.length === 0 ? (
+                  <Text style={styles.groupEmpty}>No guests yet</Text>
+                ) : (
+                  group.guests.map(guest => (
+                    <View key={guest.id} style={styles.guestCard}>
+                      <View style={styles.guestAvatar}>
+                        <User size={20} color="white" />
+                      </View>
+                      <View style={styles.guestDetails}>
+                        <Text style={styles.guestName}>{guest.profiles.full_name}</Text>
+                        <Text style={styles.guestEmail}>{guest.profiles.email}</Text>
+                      </View>
+                      {savingId === guest.id ? (
+                        <ActivityIndicator size="small" color="#8B7355" style={styles.roomInput} />
+                      ) : (
+                        <TextInput
+                          style={styles.roomInput}
+                          value={roomDrafts[guest.id] ?? ''}
+                          onChangeText={(text) => setRoomDrafts(prev => ({ ...prev, [guest.id]: text }))}
+                          onEndEditing={() => saveRoom(guest)}
+                          placeholder="Room"
+                          returnKeyType="done"
+                        />
+                      )}
+                    </View>
+                  ))
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  retreatInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  retreatName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  assignedCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  groupCount: {
+    fontSize: 12,
+    color: '#666',
+  },
+  groupEmpty: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  guestCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  guestAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#8B7355',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  guestDetails: {
+    flex: 1,
+  },
+  guestName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 2,
+  },
+  guestEmail: {
+    fontSize: 12,
+    color: '#666',
+  },
+  roomInput: {
+    width: 80,
+    backgroundColor: '#F8F8F8',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,518 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReviewService, type RatingSummary, type ReviewWithDetails } from '@/lib/reviewService';
+import StarRating from '@/components/StarRating';
+import { ArrowLeft, MessageSquare, Flag } from 'lucide-react-native';
+
+const FLAG_REASONS = ['Inappropriate', 'Not about my class'];
+
+export default function ReviewsScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [reviews, setReviews] = useState<ReviewWithDetails[]>([]);
+  const [rating, setRating] = useState<RatingSummary | null>(null);
+  const [classTypeRatings, setClassTypeRatings] = useState<Record<string, RatingSummary>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchReviews();
+    }
+  }, [profile]);
+
+  const fetchReviews = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const [reviewData, teacherRatings, typeRatings] = await Promise.all([
+        ReviewService.getTeacherReviews(profile.id),
+        ReviewService.getTeacherRatings([profile.id]),
+        ReviewService.getClassTypeRatings(profile.id),
+      ]);
+      setReviews(reviewData);
+      setRating(teacherRatings[profile.id] ?? null);
+      setClassTypeRatings(typeRatings);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchReviews();
+  };
+
+  const startReply = (review: ReviewWithDetails) => {
+    setReplyingId(review.id);
+    setReplyText(review.teacher_reply ?? '');
+  };
+
+  const saveReply = async () => {
+    if (!profile?.id || !replyingId) return;
+
+    if (!replyText.trim()) {
+      Alert.alert('Empty Reply', 'Please write a reply first.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await ReviewService.replyToReview(replyingId, profile.id, replyText);
+      setReplyingId(null);
+      setReplyText('');
+      fetchReviews();
+    } catch (error) {
+      console.error('Error replying to review:', error);
+      Alert.alert('Error', 'Failed to save your reply. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const flagReview = (review: ReviewWithDetails) => {
+    if (!profile?.id) return;
+
+    Alert.alert(
+      'Flag Review',
+      'A moderator will look at the review. Until then it stays visible and counts towards your rating. Why are you flagging this review?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...FLAG_REASONS.map(reason => ({
+          text: reason,
+          onPress: async () => {
+            try {
+              await ReviewService.flagReview(review.id, profile.id, reason);
+              fetchReviews();
+            } catch (error) {
+              console.error('Error flagging review:', error);
+              Alert.alert('Error', 'Failed to flag the review. Please try again.');
+            }
+          },
+        })),
+      ]
+    );
+  };
+
+  const unflagReview = async (review: ReviewWithDetails) => {
+    if (!profile?.id) return;
+
+    try {
+      await ReviewService.unflagReview(review.id, profile.id);
+      fetchReviews();
+    } catch (error) {
+      console.error('Error withdrawing flag:', error);
+      Alert.alert('Error', 'Failed to withdraw the flag. Please try again.');
+    }
+  };
+
+  const renderReview = (review: ReviewWithDetails) => {
+    const isFlagged = review.status === 'flagged';
+    const isRemoved = review.status === 'removed';
+    const isReplying = replyingId === review.id;
+
+    return (
+      <View key={review.id} style={[styles.reviewCard, isRemoved && styles.reviewCardFlagged]}>
+        <View style={styles.reviewHeader}>
+          <StarRating rating={review.rating} size={14} />
+          {(isFlagged || isRemoved) && (
+            <View style={styles.flaggedBadge}>
+              <Text style={styles.flaggedBadgeText}>{isRemoved ? 'Removed' : 'Flagged'}</Text>
+            </View>
+          )}
+          <Text style={styles.reviewDate}>{new Date(review.created_at).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.reviewMeta}>
+          {review.profiles?.full_name || 'Student'} • {review.yoga_classes?.title || review.class_type}
+        </Text>
+        {review.comment && <Text style={styles.reviewComment}>{review.comment}</Text>}
+        {(isFlagged || isRemoved) && review.flag_reason && (
+          <Text style={styles.flagReasonText}>Flagged as: {review.flag_reason}</Text>
+        )}
+
+        {review.teacher_reply && !isReplying && (
+          <View style={styles.replyContainer}>
+            <Text style={styles.replyLabel}>Your reply</Text>
+            <Text style={styles.replyText}>{review.teacher_reply}</Text>
+          </View>
+        )}
+
+        {isReplying ? (
+          <View style={styles.replyForm}>
+            <TextInput
+              style={styles.input}
+              value={replyText}
+              onChangeText={setReplyText}
+              placeholder="Write a public reply..."
+              multiline
+              maxLength={1000}
+              editable={!saving}
+            />
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setReplyingId(null)}
+                disabled={saving}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                onPress={saveReply}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Post Reply</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.reviewActions}>
+            <TouchableOpacity style={styles.reviewAction} onPress={() => startReply(review)}>
+              <MessageSquare size={16} color="#8B7355" />
+              <Text style={styles.reviewActionText}>{review.teacher_reply ? 'Edit Reply' : 'Reply'}</Text>
+            </TouchableOpacity>
+            {review.status === 'published' && (
+              <TouchableOpacity style={styles.reviewAction} onPress={() => flagReview(review)}>
+                <Flag size={16} color="#FF6B6B" />
+                <Text style={[styles.reviewActionText, styles.flagActionText]}>Flag</Text>
+              </TouchableOpacity>
+            )}
+            {isFlagged && (
+              <TouchableOpacity style={styles.reviewAction} onPress={() => unflagReview(review)}>
+                <Flag size={16} color="#8B7355" />
+                <Text style={styles.reviewActionText}>Withdraw Flag</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  // Only teachers receive reviews
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reviews</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading reviews...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryRating}>
+              {rating ? rating.average_rating.toFixed(1) : '–'}
+            </Text>
+            <StarRating rating={rating?.average_rating ?? 0} size={18} />
+            <Text style={styles.summaryCount}>{ReviewService.formatRating(rating)}</Text>
+
+            {Object.keys(classTypeRatings).length > 0 && (
+              <View style={styles.typeRatings}>
+                {Object.entries(classTypeRatings).map(([classType, summary]) => (
+                  <View key={classType} style={styles.typeRatingRow}>
+                    <Text style={styles.typeRatingName}>{classType}</Text>
+                    <Text style={styles.typeRatingValue}>{ReviewService.formatRating(summary)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
+          {reviews.length > 0 ? (
+            reviews.map(renderReview)
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No reviews yet.</Text>
+              <Text style={styles.emptySubtext}>
+                Students can review your classes once they have attended them.
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    alignItems: 'center',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  summaryRating: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 4,
+  },
+  summaryCount: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  typeRatings: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    gap: 8,
+  },
+  typeRatingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  typeRatingName: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  typeRatingValue: {
+    fontSize: 14,
+    color: '#666',
+  },
+  reviewCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  reviewCardFlagged: {
+    opacity: 0.7,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  flaggedBadge: {
+    backgroundColor: '#FF9800',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  flaggedBadgeText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '500',
+  },
+  reviewDate: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 'auto',
+  },
+  reviewMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  flagReasonText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 8,
+  },
+  replyContainer: {
+    backgroundColor: '#F4EDE4',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  replyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B7355',
+    marginBottom: 4,
+  },
+  replyText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  reviewAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  reviewActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  flagActionText: {
+    color: '#FF6B6B',
+  },
+  replyForm: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyState: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 4,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { TeacherProfileService, SOCIAL_PLATFORMS, type SocialLinks } from '@/lib/teacherProfileService';
+import { ArrowLeft, Eye } from 'lucide-react-native';
+
+export default function TeacherProfileSettingsScreen() {
+  const { profile, updateProfile } = useAuth();
+  const router = useRouter();
+  const [bio, setBio] = useState(profile?.bio ?? '');
+  const [yearsExperience, setYearsExperience] = useState(profile?.years_experience?.toString() ?? '');
+  const [specialties, setSpecialties] = useState((profile?.specialties ?? []).join(', '));
+  const [certifications, setCertifications] = useState((profile?.certifications ?? []).join(', '));
+  const [socialLinks, setSocialLinks] = useState<SocialLinks>(profile?.social_links ?? {});
+  const [saving, setSaving] = useState(false);
+
+  const saveProfile = async () => {
+    const years = yearsExperience.trim() ? parseInt(yearsExperience) : null;
+
+    if (years !== null && (isNaN(years) || years < 0 || years > 80)) {
+      Alert.alert('Invalid Profile', 'Please enter your years of experience as a number.');
+      return;
+    }
+
+    const links: SocialLinks = {};
+    SOCIAL_PLATFORMS.forEach(({ key }) => {
+      const link = TeacherProfileService.normalizeLink(key, socialLinks[key] ?? '');
+      if (link) links[key] = link;
+    });
+
+    const invalidLink = SOCIAL_PLATFORMS.find(({ key }) => links[key] && !TeacherProfileService.isSafeLink(links[key]!));
+    if (invalidLink) {
+      Alert.alert('Invalid Profile', `Please enter a valid ${invalidLink.label} link.`);
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = await updateProfile({
+      bio: bio.trim() || null,
+      years_experience: years,
+      specialties: TeacherProfileService.parseList(specialties),
+      certifications: TeacherProfileService.parseList(certifications),
+      social_links: links,
+    });
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving teacher profile:', error);
+      Alert.alert('Error', 'Failed to save your profile. Please try again.');
+      return;
+    }
+
+    router.back();
+  };
+
+  // Only teachers have a public profile
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Teacher Profile</Text>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={() => router.push(`/teacher/${profile.id}`)}
+        >
+          <Eye size={22} color="#8B7355" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.introText}>
+          Students see this on your public teacher page, together with your upcoming
+          classes and reviews.
+        </Text>
+
+        <View style={styles.formCard}>
+          <Text style={styles.label}>Bio</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={bio}
+            onChangeText={setBio}
+            placeholder="Tell students about your teaching"
+            multiline
+            maxLength={2000}
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Years of Experience</Text>
+          <TextInput
+            style={styles.input}
+            value={yearsExperience}
+            onChangeText={setYearsExperience}
+            keyboardType="numeric"
+            placeholder="e.g. 8"
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Specialties</Text>
+          <TextInput
+            style={styles.input}
+            value={specialties}
+            onChangeText={setSpecialties}
+            placeholder="e.g. Vinyasa, Yin, Pranayama"
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Certifications</Text>
+          <TextInput
+            style={styles.input}
+            value={certifications}
+            onChangeText={setCertifications}
+            placeholder="e.g. RYT-500, Yin Yoga Teacher Training"
+            editable={!saving}
+          />
+          <Text style={styles.helpText}>Separate specialties and certifications with commas.</Text>
+        </View>
+
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>Links</Text>
+          {SOCIAL_PLATFORMS.map(({ key, label }) => (
+            <View key={key}>
+              <Text style={styles.label}>{label}</Text>
+              <TextInput
+                style={styles.input}
+                value={socialLinks[key] ?? ''}
+                onChangeText={(value) => setSocialLinks(prev => ({ ...prev, [key]: value }))}
+                placeholder={key === 'instagram' ? '@yourhandle' : 'https://'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                editable={!saving}
+              />
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={saveProfile}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save Profile</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  textArea: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
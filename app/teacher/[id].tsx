@@ -0,0 +1,595 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Linking,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  TeacherProfileService,
+  SOCIAL_PLATFORMS,
+  type TeacherProfile,
+  type TeacherStats,
+  type TeacherScheduleItem,
+} from '@/lib/teacherProfileService';
+import { ReviewService, type RatingSummary, type ReviewWithDetails } from '@/lib/reviewService';
+import { FollowService } from '@/lib/followService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
+import TeacherCard from '@/components/TeacherCard';
+import StarRating from '@/components/StarRating';
+import { ArrowLeft, Award, Calendar, Clock, ExternalLink, Tent, ChevronRight, UserPlus, UserCheck } from 'lucide-react-native';
+
+export default function TeacherProfileScreen() {
+  const params = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { profile } = useAuth();
+  const [teacher, setTeacher] = useState<TeacherProfile | null>(null);
+  const [stats, setStats] = useState<TeacherStats | null>(null);
+  const [schedule, setSchedule] = useState<TeacherScheduleItem[]>([]);
+  const [pricingRules, setPricingRules] = useState<Record<string, PricingRule[]>>({});
+  const [rating, setRating] = useState<RatingSummary | null>(null);
+  const [reviews, setReviews] = useState<ReviewWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [following, setFollowing] = useState(false);
+  const [updatingFollow, setUpdatingFollow] = useState(false);
+
+  const id = typeof params.id === 'string' ? params.id : null;
+
+  useEffect(() => {
+    if (id) {
+      fetchTeacher();
+    } else {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const fetchTeacher = async () => {
+    if (!id) return;
+
+    try {
+      const [profileData, statsData, scheduleData, ratings, reviewData] = await Promise.all([
+        TeacherProfileService.getTeacherProfile(id),
+        TeacherProfileService.getTeacherStats(id),
+        TeacherProfileService.getUpcomingSchedule(id),
+        ReviewService.getTeacherRatings([id]),
+        ReviewService.getTeacherReviews(id, 10),
+      ]);
+      setTeacher(profileData);
+      setStats(statsData);
+      setSchedule(scheduleData);
+      setRating(ratings[id] ?? null);
+      // Teachers viewing their own page also get their removed reviews back
+      setReviews(reviewData.filter(review => review.status !== 'removed').slice(0, 5));
+      setPricingRules(await PricingService.getPricingRules(scheduleData.map(item => item.id)));
+
+      if (profile?.role === 'student') {
+        const followedIds = await FollowService.getFollowedTeacherIds(profile.id);
+        setFollowing(followedIds.includes(id));
+      }
+    } catch (error) {
+      console.error('Error fetching teacher profile:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchTeacher();
+  };
+
+  const toggleFollow = async () => {
+    if (!profile?.id || !id) return;
+
+    setUpdatingFollow(true);
+    try {
+      if (following) {
+        await FollowService.unfollowTeacher(profile.id, id);
+      } else {
+        await FollowService.followTeacher(profile.id, id);
+      }
+      setFollowing(!following);
+      setStats(prev => prev && {
+        ...prev,
+        follower_count: prev.follower_count + (following ? -1 : 1),
+      });
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      Alert.alert('Error', 'Failed to update. Please try again.');
+    } finally {
+      setUpdatingFollow(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTime = (timeString: string) => {
+    const [hours, minutes] = timeString.split(':');
+    const date = new Date();
+    date.setHours(parseInt(hours), parseInt(minutes));
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
+  const openLink = async (url: string) => {
+    // Links are checked when saved, but never open anything but a web page
+    if (!TeacherProfileService.isSafeLink(url)) return;
+
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('Error opening link:', error);
+    }
+  };
+
+  const renderScheduleItem = (item: TeacherScheduleItem) => (
+    <TouchableOpacity
+      key={item.id}
+      style={styles.scheduleItem}
+      onPress={() => router.push(`/class-detail/${item.id}`)}
+    >
+      <View style={styles.scheduleInfo}>
+        <Text style={styles.scheduleTitle}>{item.title}</Text>
+        <View style={styles.scheduleMeta}>
+          <Calendar size={12} color="#666" />
+          <Text style={styles.scheduleMetaText}>
+            {item.is_retreat && item.retreat_end_date
+              ? `${formatDate(item.date)} - ${formatDate(item.retreat_end_date)}`
+              : formatDate(item.date)
+            }
+          </Text>
+          <Clock size={12} color="#666" />
+          <Text style={styles.scheduleMetaText}>{formatTime(item.time)}</Text>
+        </View>
+        <Text style={styles.scheduleType}>{item.type} • {item.level}</Text>
+      </View>
+      <Text style={styles.schedulePrice}>
+        {PricingService.formatPrice(PricingService.calculatePrice(item, pricingRules[item.id] || []))}
+      </Text>
+      <ChevronRight size={20} color="#CCC" />
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading teacher...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!teacher) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Teacher not found</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const classes = schedule.filter(item => !item.is_retreat);
+  const retreats = schedule.filter(item => item.is_retreat);
+  const socialLinks = SOCIAL_PLATFORMS.filter(({ key }) => teacher.social_links?.[key]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Teacher</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <TeacherCard
+          teacher={teacher}
+          classCount={stats?.classes_taught ?? 0}
+          rating={rating?.average_rating ?? null}
+          reviewCount={rating?.review_count ?? 0}
+          specialties={teacher.specialties ?? []}
+        />
+
+        {profile?.role === 'student' && (
+          <TouchableOpacity
+            style={[styles.followButton, following && styles.followingButton]}
+            onPress={toggleFollow}
+            disabled={updatingFollow}
+          >
+            {updatingFollow ? (
+              <ActivityIndicator size="small" color={following ? '#8B7355' : 'white'} />
+            ) : (
+              <>
+                {following ? (
+                  <UserCheck size={18} color="#8B7355" />
+                ) : (
+                  <UserPlus size={18} color="white" />
+                )}
+                <Text style={[styles.followButtonText, following && styles.followingButtonText]}>
+                  {following ? 'Following' : 'Follow'}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Stats */}
+        {stats && (
+          <View style={styles.statsRow}>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{stats.follower_count}</Text>
+              <Text style={styles.statLabel}>Followers</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{stats.students_taught}</Text>
+              <Text style={styles.statLabel}>Students</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{stats.retreats_hosted}</Text>
+              <Text style={styles.statLabel}>Retreats</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{teacher.years_experience ?? '–'}</Text>
+              <Text style={styles.statLabel}>Years Teaching</Text>
+            </View>
+          </View>
+        )}
+
+        {/* About */}
+        {(teacher.bio || teacher.certifications?.length > 0 || socialLinks.length > 0) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>About {teacher.full_name}</Text>
+            {teacher.bio && <Text style={styles.bio}>{teacher.bio}</Text>}
+
+            {teacher.certifications?.length > 0 && (
+              <View style={styles.certifications}>
+                {teacher.certifications.map((certification) => (
+                  <View key={certification} style={styles.certificationItem}>
+                    <Award size={16} color="#8B7355" />
+                    <Text style={styles.certificationText}>{certification}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {socialLinks.length > 0 && (
+              <View style={styles.socialLinks}>
+                {socialLinks.map(({ key, label }) => (
+                  <TouchableOpacity
+                    key={key}
+                    style={styles.socialLink}
+                    onPress={() => openLink(teacher.social_links[key]!)}
+                  >
+                    <ExternalLink size={14} color="#8B7355" />
+                    <Text style={styles.socialLinkText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Upcoming Classes */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Upcoming Classes</Text>
+          {classes.length > 0 ? (
+            classes.map(renderScheduleItem)
+          ) : (
+            <Text style={styles.emptyText}>No upcoming classes scheduled.</Text>
+          )}
+        </View>
+
+        {/* Upcoming Retreats */}
+        {retreats.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionTitleRow}>
+              <Tent size={18} color="#8B7355" />
+              <Text style={styles.sectionTitleInline}>Upcoming Retreats</Text>
+            </View>
+            {retreats.map(renderScheduleItem)}
+          </View>
+        )}
+
+        {/* Reviews */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reviews</Text>
+          {reviews.length > 0 ? (
+            reviews.map((review, index) => (
+              <View key={review.id} style={[styles.reviewItem, index > 0 && styles.reviewItemBorder]}>
+                <View style={styles.reviewHeader}>
+                  <StarRating rating={review.rating} size={14} />
+                  <Text style={styles.reviewMeta}>
+                    {review.profiles?.full_name || 'Student'} • {review.class_type}
+                  </Text>
+                </View>
+                {review.comment && <Text style={styles.reviewComment}>{review.comment}</Text>}
+                {review.teacher_reply && (
+                  <View style={styles.reviewReply}>
+                    <Text style={styles.reviewReplyLabel}>Reply from {teacher.full_name}</Text>
+                    <Text style={styles.reviewReplyText}>{review.teacher_reply}</Text>
+                  </View>
+                )}
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>No reviews yet.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  backButton: {
+    backgroundColor: '#8B7355',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  backButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  followButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  followingButton: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#8B7355',
+  },
+  followButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  followingButtonText: {
+    color: '#8B7355',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingVertical: 16,
+    marginBottom: 16,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#8B7355',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitleInline: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  bio: {
+    fontSize: 15,
+    color: '#666',
+    lineHeight: 22,
+  },
+  certifications: {
+    marginTop: 12,
+    gap: 8,
+  },
+  certificationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  certificationText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  socialLinks: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  socialLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#F4EDE4',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  socialLinkText: {
+    fontSize: 13,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  scheduleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  scheduleInfo: {
+    flex: 1,
+  },
+  scheduleTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 4,
+  },
+  scheduleMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  scheduleMetaText: {
+    fontSize: 12,
+    color: '#666',
+    marginRight: 8,
+  },
+  scheduleType: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  schedulePrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#8B7355',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  reviewItem: {
+    paddingVertical: 12,
+  },
+  reviewItemBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  reviewMeta: {
+    fontSize: 12,
+    color: '#999',
+    flex: 1,
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  reviewReply: {
+    backgroundColor: '#F4EDE4',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  reviewReplyLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B7355',
+    marginBottom: 4,
+  },
+  reviewReplyText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,9 @@
+import { Stack } from 'expo-router';
+
+export default function TeacherLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="[id]" />
+    </Stack>
+  );
+}
\ No newline at end of file
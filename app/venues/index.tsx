@@ -0,0 +1,595 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { VenueService, type Venue, type VenueInput } from '@/lib/venueService';
+import { LocationService } from '@/lib/locationService';
+import { ArrowLeft, Plus, Trash2, Pencil, MapPin, Users, Accessibility, Camera, X } from 'lucide-react-native';
+
+interface VenueForm {
+  id?: string;
+  name: string;
+  address: string;
+  capacity: string;
+  accessibility_notes: string;
+  photos: string[];
+}
+
+const EMPTY_FORM: VenueForm = {
+  name: '',
+  address: '',
+  capacity: '20',
+  accessibility_notes: '',
+  photos: [],
+};
+
+const MAX_PHOTOS = 6;
+
+export default function VenuesScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<VenueForm | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchVenues();
+    }
+  }, [profile]);
+
+  const fetchVenues = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setVenues(await VenueService.getOwnerVenues(profile.id));
+    } catch (error) {
+      console.error('Error fetching venues:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editVenue = (venue: Venue) => {
+    setForm({
+      id: venue.id,
+      name: venue.name,
+      address: venue.address,
+      capacity: venue.capacity.toString(),
+      accessibility_notes: venue.accessibility_notes || '',
+      photos: venue.photos,
+    });
+  };
+
+  const addPhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant camera roll permissions to add a photo.');
+      return;
+    }
+
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        const uri = result.assets[0].uri;
+        setForm(prev => prev && { ...prev, photos: [...prev.photos, uri] });
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to pick image. Please try again.');
+    }
+  };
+
+  const validateForm = (venueForm: VenueForm): Omit<VenueInput, 'latitude' | 'longitude'> | null => {
+    if (!venueForm.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the venue a name.');
+      return null;
+    }
+
+    if (!venueForm.address.trim()) {
+      Alert.alert('Missing Address', 'Please enter the venue address.');
+      return null;
+    }
+
+    const capacity = parseInt(venueForm.capacity);
+    if (isNaN(capacity) || capacity < 1) {
+      Alert.alert('Invalid Capacity', 'Room capacity must be at least 1 student.');
+      return null;
+    }
+
+    return {
+      name: venueForm.name.trim(),
+      address: venueForm.address.trim(),
+      capacity,
+      accessibility_notes: venueForm.accessibility_notes.trim() || null,
+      photos: venueForm.photos,
+    };
+  };
+
+  const saveVenue = async () => {
+    if (!profile?.id || !form) return;
+
+    const fields = validateForm(form);
+    if (!fields) return;
+
+    setSaving(true);
+    try {
+      // Only look the address up again when it changed
+      const existing = venues.find(venue => venue.id === form.id);
+      const coordinate = existing && existing.address === fields.address && existing.latitude != null
+        ? { latitude: existing.latitude, longitude: existing.longitude }
+        : await LocationService.getCoordinates(fields.address);
+
+      const venue: VenueInput = {
+        ...fields,
+        latitude: coordinate?.latitude ?? null,
+        longitude: coordinate?.longitude ?? null,
+      };
+
+      if (form.id) {
+        await VenueService.updateVenue(form.id, profile.id, venue);
+      } else {
+        await VenueService.createVenue(profile.id, venue);
+      }
+
+      setForm(null);
+      fetchVenues();
+    } catch (error) {
+      console.error('Error saving venue:', error);
+      Alert.alert('Error', 'Failed to save the venue. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteVenue = (venue: Venue) => {
+    Alert.alert(
+      'Remove Venue',
+      `Remove "${venue.name}"? Classes already scheduled there are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (!profile?.id) return;
+
+            try {
+              await VenueService.archiveVenue(venue.id, profile.id);
+              fetchVenues();
+            } catch (error) {
+              console.error('Error removing venue:', error);
+              Alert.alert('Error', 'Failed to remove the venue. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = (venueForm: VenueForm) => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{venueForm.id ? 'Edit Venue' : 'New Venue'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={venueForm.name}
+        onChangeText={(name) => setForm(prev => prev && { ...prev, name })}
+        placeholder="e.g. Main Studio - Room 2"
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Address</Text>
+      <TextInput
+        style={styles.input}
+        value={venueForm.address}
+        onChangeText={(address) => setForm(prev => prev && { ...prev, address })}
+        placeholder="Street, city"
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Room Capacity</Text>
+      <Text style={styles.helpText}>
+        Classes at this venue can't take more students than this.
+      </Text>
+      <TextInput
+        style={[styles.input, styles.capacityInput]}
+        value={venueForm.capacity}
+        onChangeText={(capacity) => setForm(prev => prev && { ...prev, capacity })}
+        keyboardType="numeric"
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Accessibility Notes</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={venueForm.accessibility_notes}
+        onChangeText={(accessibility_notes) => setForm(prev => prev && { ...prev, accessibility_notes })}
+        placeholder="e.g. Step-free entrance, lift to 2nd floor"
+        multiline
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Photos</Text>
+      <View style={styles.photoGrid}>
+        {venueForm.photos.map((photo, index) => (
+          <View key={`${photo}-${index}`} style={styles.photoWrapper}>
+            <Image source={{ uri: photo }} style={styles.photo} />
+            <TouchableOpacity
+              style={styles.removePhotoButton}
+              onPress={() => setForm(prev => prev && {
+                ...prev,
+                photos: prev.photos.filter((_, i) => i !== index),
+              })}
+              disabled={saving}
+            >
+              <X size={12} color="white" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {venueForm.photos.length < MAX_PHOTOS && (
+          <TouchableOpacity style={styles.addPhotoButton} onPress={addPhoto} disabled={saving}>
+            <Camera size={20} color="#8B7355" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setForm(null)}
+          disabled={saving}
+        >
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={saveVenue}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  // Only teachers manage venues
+  if (profile?.role !== 'teacher') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This feature is only available for teachers.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Venues</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading venues...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.introText}>
+            Pick a venue when creating a class to fill in its address. Classes at a venue
+            can't exceed its room capacity or overlap with another class in the same room.
+          </Text>
+
+          {venues.map((venue) => (
+            <View key={venue.id} style={styles.venueCard}>
+              {venue.photos.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.venuePhotos}>
+                  {venue.photos.map((photo, index) => (
+                    <Image key={`${photo}-${index}`} source={{ uri: photo }} style={styles.venuePhoto} />
+                  ))}
+                </ScrollView>
+              )}
+              <Text style={styles.venueName}>{venue.name}</Text>
+              <View style={styles.venueDetail}>
+                <MapPin size={14} color="#666" />
+                <Text style={styles.venueDetailText}>{venue.address}</Text>
+              </View>
+              <View style={styles.venueDetail}>
+                <Users size={14} color="#666" />
+                <Text style={styles.venueDetailText}>Room for {venue.capacity} students</Text>
+              </View>
+              {!!venue.accessibility_notes && (
+                <View style={styles.venueDetail}>
+                  <Accessibility size={14} color="#666" />
+                  <Text style={styles.venueDetailText}>{venue.accessibility_notes}</Text>
+                </View>
+              )}
+              <View style={styles.venueActions}>
+                <TouchableOpacity style={styles.venueAction} onPress={() => editVenue(venue)}>
+                  <Pencil size={16} color="#8B7355" />
+                  <Text style={styles.venueActionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.venueAction} onPress={() => deleteVenue(venue)}>
+                  <Trash2 size={16} color="#FF6B6B" />
+                  <Text style={[styles.venueActionText, styles.deleteText]}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {form ? (
+            renderForm(form)
+          ) : (
+            <TouchableOpacity style={styles.newVenueButton} onPress={() => setForm(EMPTY_FORM)}>
+              <Plus size={20} color="white" />
+              <Text style={styles.newVenueText}>New Venue</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F4EDE4',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  venueCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  venuePhotos: {
+    marginBottom: 12,
+  },
+  venuePhoto: {
+    width: 120,
+    height: 90,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  venueName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  venueDetail: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginBottom: 4,
+  },
+  venueDetailText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  venueActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  venueAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  venueActionText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#FF6B6B',
+  },
+  newVenueButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#8B7355',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  newVenueText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  formCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+  },
+  capacityInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  multilineInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  photoWrapper: {
+    position: 'relative',
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#FF6B6B',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addPhotoButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#8B7355',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
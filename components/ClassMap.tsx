@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import MapView, { Marker, type Region } from 'react-native-maps';
+import type { SearchResultItem } from '@/lib/classSearchService';
+
+interface ClassMapProps {
+  items: SearchResultItem[];
+  onSelect: (classId: string) => void;
+}
+
+type MappedItem = SearchResultItem & { latitude: number; longitude: number };
+
+interface PinCluster {
+  key: string;
+  latitude: number;
+  longitude: number;
+  items: MappedItem[];
+}
+
+const DEFAULT_REGION: Region = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  latitudeDelta: 0.2,
+  longitudeDelta: 0.2,
+};
+
+// Pins closer than 1/8 of the visible map are grouped together
+const CLUSTER_GRID_SIZE = 8;
+
+const hasCoordinates = (item: SearchResultItem): item is MappedItem =>
+  item.latitude != null && item.longitude != null;
+
+// Fit every pin on screen, with some padding around the edges
+const getRegionForItems = (items: MappedItem[]): Region => {
+  if (items.length === 0) return DEFAULT_REGION;
+
+  const latitudes = items.map(item => item.latitude);
+  const longitudes = items.map(item => item.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.02),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.4, 0.02),
+  };
+};
+
+const clusterItems = (items: MappedItem[], region: Region): PinCluster[] => {
+  const cellLat = region.latitudeDelta / CLUSTER_GRID_SIZE;
+  const cellLng = region.longitudeDelta / CLUSTER_GRID_SIZE;
+  const cells = new Map<string, MappedItem[]>();
+
+  items.forEach(item => {
+    const key = `${Math.floor(item.latitude / cellLat)}:${Math.floor(item.longitude / cellLng)}`;
+    cells.set(key, [...(cells.get(key) || []), item]);
+  });
+
+  return Array.from(cells.entries()).map(([key, cellItems]) => ({
+    key,
+    latitude: cellItems.reduce((sum, item) => sum + item.latitude, 0) / cellItems.length,
+    longitude: cellItems.reduce((sum, item) => sum + item.longitude, 0) / cellItems.length,
+    items: cellItems,
+  }));
+};
+
+export default function ClassMap({ items, onSelect }: ClassMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const mappedItems = useMemo(() => items.filter(hasCoordinates), [items]);
+  const [region, setRegion] = useState<Region>(() => getRegionForItems(mappedItems));
+  const clusters = useMemo(() => clusterItems(mappedItems, region), [mappedItems, region]);
+
+  // Refit when a new search replaces the results
+  const firstItemId = mappedItems[0]?.id;
+  useEffect(() => {
+    if (!firstItemId) return;
+    mapRef.current?.animateToRegion(getRegionForItems(mappedItems));
+  }, [firstItemId]);
+
+  const handleClusterPress = (cluster: PinCluster) => {
+    mapRef.current?.fitToCoordinates(cluster.items, {
+      edgePadding: { top: 80, right: 80, bottom: 80, left: 80 },
+      animated: true,
+    });
+  };
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={styles.map}
+      initialRegion={region}
+      onRegionChangeComplete={setRegion}
+      showsUserLocation
+    >
+      {clusters.map(cluster => {
+        if (cluster.items.length === 1) {
+          const item = cluster.items[0];
+          return (
+            <Marker
+              key={item.id}
+              coordinate={item}
+              title={item.title}
+              description={item.location}
+              pinColor={item.is_retreat ? '#8B7355' : '#C4896F'}
+              onCalloutPress={() => onSelect(item.id)}
+            />
+          );
+        }
+
+        return (
+          <Marker
+            key={cluster.key}
+            coordinate={cluster}
+            onPress={() => handleClusterPress(cluster)}
+            tracksViewChanges={false}
+          >
+            <View style={styles.cluster}>
+              <Text style={styles.clusterText}>{cluster.items.length}</Text>
+            </View>
+          </Marker>
+        );
+      })}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    backgroundColor: '#C4896F',
+    borderWidth: 3,
+    borderColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: 'white',
+  },
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+import type { SearchResultItem } from '@/lib/classSearchService';
+
+interface ClassMapProps {
+  items: SearchResultItem[];
+  onSelect: (classId: string) => void;
+}
+
+// react-native-maps has no web support
+export default function ClassMap(_props: ClassMapProps) {
+  return (
+    <View style={styles.container}>
+      <MapPin size={32} color="#C4896F" />
+      <Text style={styles.title}>Map view is available in the mobile app</Text>
+      <Text style={styles.subtitle}>Switch back to the list to browse classes here.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 40,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -14,21 +14,28 @@ import {
   Image,
   ActivityIndicator,
 } from 'react-native';
-import { X, Calendar, Clock, MapPin, DollarSign, Camera, Check } from 'lucide-react-native';
+import { X, Calendar, Clock, MapPin, DollarSign, Camera, Check, Repeat } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import LocationSelector from './LocationSelector';
+import type { LocationCoordinate } from '@/lib/locationService';
+import type { Venue } from '@/lib/venueService';
+import type { CancellationPolicy } from '@/lib/cancellationPolicyService';
+import { ClassSeriesService, WEEKDAY_LABELS, type SeriesScope } from '@/lib/classSeriesService';
+import type { Database } from '@/lib/supabase';
+
+type YogaClass = Database['public']['Tables']['yoga_classes']['Row'];
 
 interface CreateClassModalProps {
   visible: boolean;
   onClose: () => void;
   onSubmit: (classData: any) => Promise<void>;
   loading: boolean;
-}
-
-interface LocationCoordinate {
-  latitude: number;
-  longitude: number;
+  cancellationPolicies?: CancellationPolicy[];
+  /** When set, the modal edits this class instead of creating a new one */
+  initialClass?: YogaClass | null;
+  /** Which instances of the class's series an edit applies to */
+  editScope?: SeriesScope;
 }
 
 const YOGA_TYPES = [
@@ -61,7 +68,15 @@ const LEVEL_OPTIONS = [
   { label: 'Advanced', value: 'advanced' },
 ];
 
-export default function CreateClassModal({ visible, onClose, onSubmit, loading }: CreateClassModalProps) {
+export default function CreateClassModal({
+  visible,
+  onClose,
+  onSubmit,
+  loading,
+  cancellationPolicies = [],
+  initialClass = null,
+  editScope = 'single',
+}: CreateClassModalProps) {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -73,10 +88,19 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
     isOnline: false,
     location: 'Studio A',
     locationCoordinate: null as LocationCoordinate | null,
+    venueId: null as string | null,
+    venueCapacity: null as number | null,
     meetingLink: '',
     price: 25,
     maxParticipants: 10,
     image: null as string | null,
+    cancellationPolicyId: null as string | null,
+    repeat: false,
+    repeatWeekdays: [] as number[],
+    repeatIntervalWeeks: 1,
+    repeatEndMode: 'count' as 'count' | 'date',
+    repeatCount: 8,
+    repeatUntil: new Date(Date.now() + 8 * 7 * 24 * 60 * 60 * 1000), // 8 weeks
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -85,6 +109,51 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
   const [showTypeDropdown, setShowTypeDropdown] = useState(false);
   const [showLevelDropdown, setShowLevelDropdown] = useState(false);
   const [showDurationDropdown, setShowDurationDropdown] = useState(false);
+  const [showPolicyDropdown, setShowPolicyDropdown] = useState(false);
+  const [showRepeatUntilPicker, setShowRepeatUntilPicker] = useState(false);
+
+  const isEditing = !!initialClass;
+  // Series-wide edits keep each instance on its own date
+  const canEditDate = !isEditing || editScope === 'single' || !initialClass?.series_id;
+  const bookedCount = initialClass?.current_participants ?? 0;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    if (!initialClass) {
+      resetForm();
+      return;
+    }
+
+    const [hours, minutes] = initialClass.time.split(':');
+    const time = new Date();
+    time.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    const isOnline = initialClass.location.toLowerCase() === 'online';
+
+    setFormData(prev => ({
+      ...prev,
+      title: initialClass.title,
+      description: initialClass.description || '',
+      type: initialClass.type,
+      date: new Date(`${initialClass.date}T00:00:00`),
+      time,
+      duration: initialClass.duration,
+      level: initialClass.level,
+      isOnline,
+      location: isOnline ? 'Studio A' : initialClass.location,
+      locationCoordinate: !isOnline && initialClass.latitude != null && initialClass.longitude != null
+        ? { latitude: initialClass.latitude, longitude: initialClass.longitude }
+        : null,
+      venueId: isOnline ? null : initialClass.venue_id,
+      venueCapacity: null,
+      meetingLink: initialClass.meeting_link || '',
+      price: Number(initialClass.price),
+      maxParticipants: initialClass.max_participants,
+      image: initialClass.image_url || null,
+      cancellationPolicyId: initialClass.cancellation_policy_id ?? null,
+      repeat: false,
+    }));
+  }, [visible, initialClass]);
   const [imageLoading, setImageLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState(1); // 1: Basic Info, 2: Location, 3: Details
 
@@ -109,6 +178,10 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
 
     if (formData.maxParticipants < 1 || formData.maxParticipants > 50) {
       newErrors.maxParticipants = 'Max participants must be between 1 and 50';
+    } else if (bookedCount > formData.maxParticipants) {
+      newErrors.maxParticipants = `${bookedCount} students are already booked`;
+    } else if (!formData.isOnline && formData.venueCapacity !== null && formData.maxParticipants > formData.venueCapacity) {
+      newErrors.maxParticipants = `The venue only has room for ${formData.venueCapacity} students`;
     }
 
     if (!formData.isOnline && !formData.location.trim()) {
@@ -124,10 +197,20 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
     classDateTime.setHours(formData.time.getHours(), formData.time.getMinutes());
     const minDateTime = new Date(Date.now() + 60 * 60 * 1000);
 
-    if (classDateTime < minDateTime) {
+    if (canEditDate && classDateTime < minDateTime) {
       newErrors.datetime = 'Class must be scheduled at least 1 hour from now';
     }
 
+    if (formData.repeat) {
+      if (formData.repeatWeekdays.length === 0) {
+        newErrors.repeat = 'Pick at least one day to repeat on';
+      } else if (formData.repeatEndMode === 'count' && (formData.repeatCount < 1 || formData.repeatCount > 52)) {
+        newErrors.repeat = 'A series can have between 1 and 52 classes';
+      } else if (formData.repeatEndMode === 'date' && formData.repeatUntil < formData.date) {
+        newErrors.repeat = 'The series must end after the first class';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -147,10 +230,24 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
       duration: formData.duration,
       level: formData.level,
       location: formData.isOnline ? 'Online' : formData.location.trim(),
+      latitude: formData.isOnline ? null : formData.locationCoordinate?.latitude ?? null,
+      longitude: formData.isOnline ? null : formData.locationCoordinate?.longitude ?? null,
+      venue_id: formData.isOnline ? null : formData.venueId,
       price: formData.price,
       max_participants: formData.maxParticipants,
       meeting_link: formData.isOnline ? formData.meetingLink.trim() : null,
       image_url: formData.image,
+      cancellation_policy_id: formData.cancellationPolicyId,
+      recurrence: formData.repeat && !isEditing
+        ? {
+            weekdays: formData.repeatWeekdays,
+            interval_weeks: formData.repeatIntervalWeeks,
+            occurrence_count: formData.repeatEndMode === 'count' ? formData.repeatCount : null,
+            until_date: formData.repeatEndMode === 'date'
+              ? formData.repeatUntil.toISOString().split('T')[0]
+              : null,
+          }
+        : null,
     };
 
     await onSubmit(submitData);
@@ -202,6 +299,14 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
     }
   };
 
+  const handleVenueChange = (venue: Venue | null) => {
+    setFormData(prev => ({
+      ...prev,
+      venueId: venue?.id ?? null,
+      venueCapacity: venue?.capacity ?? null,
+    }));
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -214,10 +319,19 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
       isOnline: false,
       location: 'Studio A',
       locationCoordinate: null,
+      venueId: null,
+      venueCapacity: null,
       meetingLink: '',
       price: 25,
       maxParticipants: 10,
       image: null,
+      cancellationPolicyId: null,
+      repeat: false,
+      repeatWeekdays: [],
+      repeatIntervalWeeks: 1,
+      repeatEndMode: 'count',
+      repeatCount: 8,
+      repeatUntil: new Date(Date.now() + 8 * 7 * 24 * 60 * 60 * 1000),
     });
     setErrors({});
     setCurrentStep(1);
@@ -434,6 +548,8 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
           selectedLocation={formData.locationCoordinate}
           locationAddress={formData.location}
           onLocationChange={handleLocationChange}
+          venueId={formData.venueId}
+          onVenueChange={handleVenueChange}
         />
       )}
     </ScrollView>
@@ -446,9 +562,9 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
         <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
           <Text style={styles.label}>Date</Text>
           <TouchableOpacity
-            style={styles.dateTimeButton}
+            style={[styles.dateTimeButton, !canEditDate && styles.dateTimeButtonDisabled]}
             onPress={() => setShowDatePicker(true)}
-            disabled={loading}
+            disabled={loading || !canEditDate}
           >
             <Calendar size={16} color="#666" />
             <Text style={styles.dateTimeText}>
@@ -473,6 +589,148 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
       </View>
 
       {errors.datetime && <Text style={styles.errorText}>{errors.datetime}</Text>}
+      {!canEditDate && (
+        <Text style={styles.hintText}>
+          Each class in the series keeps its own date. Edit a single class to move it.
+        </Text>
+      )}
+      {bookedCount > 0 && (
+        <Text style={styles.hintText}>
+          Booked students will be told about any change to the date, time or location.
+        </Text>
+      )}
+
+      {/* Repeat */}
+      {!isEditing && (
+        <View style={styles.inputGroup}>
+          <TouchableOpacity
+            style={styles.repeatToggle}
+            onPress={() => setFormData(prev => ({
+              ...prev,
+              repeat: !prev.repeat,
+              repeatWeekdays: prev.repeatWeekdays.length > 0 ? prev.repeatWeekdays : [prev.date.getDay()],
+            }))}
+            disabled={loading}
+          >
+            <Repeat size={16} color={formData.repeat ? '#C4896F' : '#666'} />
+            <Text style={[styles.label, styles.repeatToggleLabel]}>Repeat weekly</Text>
+            <View style={[styles.checkbox, formData.repeat && styles.checkboxChecked]}>
+              {formData.repeat && <Check size={12} color="white" />}
+            </View>
+          </TouchableOpacity>
+
+          {formData.repeat && (
+            <>
+              <View style={styles.weekdayRow}>
+                {WEEKDAY_LABELS.map((label, day) => {
+                  const selected = formData.repeatWeekdays.includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={label}
+                      style={[styles.weekdayChip, selected && styles.weekdayChipSelected]}
+                      onPress={() => setFormData(prev => ({
+                        ...prev,
+                        repeatWeekdays: selected
+                          ? prev.repeatWeekdays.filter(d => d !== day)
+                          : [...prev.repeatWeekdays, day],
+                      }))}
+                      disabled={loading}
+                    >
+                      <Text style={[styles.weekdayChipText, selected && styles.weekdayChipTextSelected]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.row}>
+                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                  <Text style={styles.label}>Every N weeks</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.repeatIntervalWeeks.toString()}
+                    onChangeText={(text) => {
+                      const repeatIntervalWeeks = Math.min(Math.max(parseInt(text) || 1, 1), 12);
+                      setFormData(prev => ({ ...prev, repeatIntervalWeeks }));
+                    }}
+                    keyboardType="numeric"
+                    editable={!loading}
+                  />
+                </View>
+
+                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                  <Text style={styles.label}>Ends</Text>
+                  <View style={styles.modeToggle}>
+                    {(['count', 'date'] as const).map((mode) => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[
+                          styles.modeButton,
+                          formData.repeatEndMode === mode && styles.modeButtonActive
+                        ]}
+                        onPress={() => setFormData(prev => ({ ...prev, repeatEndMode: mode }))}
+                        disabled={loading}
+                      >
+                        <Text style={[
+                          styles.modeButtonText,
+                          formData.repeatEndMode === mode && styles.modeButtonTextActive
+                        ]}>
+                          {mode === 'count' ? 'After' : 'On'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              </View>
+
+              {formData.repeatEndMode === 'count' ? (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Number of classes</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.repeatCount.toString()}
+                    onChangeText={(text) => {
+                      const repeatCount = parseInt(text) || 0;
+                      setFormData(prev => ({ ...prev, repeatCount }));
+                      if (errors.repeat) setErrors(prev => ({ ...prev, repeat: '' }));
+                    }}
+                    keyboardType="numeric"
+                    placeholder="8"
+                    editable={!loading}
+                  />
+                </View>
+              ) : (
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Last class on or before</Text>
+                  <TouchableOpacity
+                    style={styles.dateTimeButton}
+                    onPress={() => setShowRepeatUntilPicker(true)}
+                    disabled={loading}
+                  >
+                    <Calendar size={16} color="#666" />
+                    <Text style={styles.dateTimeText}>
+                      {formData.repeatUntil.toLocaleDateString()}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {formData.repeatWeekdays.length > 0 && (
+                <Text style={styles.hintText}>
+                  {ClassSeriesService.describeRule({
+                    weekdays: formData.repeatWeekdays,
+                    interval_weeks: formData.repeatIntervalWeeks,
+                    occurrence_count: formData.repeatEndMode === 'count' ? formData.repeatCount : null,
+                    until_date: formData.repeatEndMode === 'date' ? formData.repeatUntil.toISOString() : null,
+                  })}
+                </Text>
+              )}
+              {errors.repeat && <Text style={styles.errorText}>{errors.repeat}</Text>}
+            </>
+          )}
+        </View>
+      )}
 
       {/* Duration */}
       <View style={styles.inputGroup}>
@@ -545,6 +803,39 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
         </View>
       </View>
 
+      {/* Cancellation Policy */}
+      {cancellationPolicies.length > 0 && (
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Cancellation Policy</Text>
+          <TouchableOpacity
+            style={styles.dropdown}
+            onPress={() => setShowPolicyDropdown(!showPolicyDropdown)}
+            disabled={loading}
+          >
+            <Text style={styles.dropdownText}>
+              {cancellationPolicies.find(p => p.id === formData.cancellationPolicyId)?.name || 'My default policy'}
+            </Text>
+          </TouchableOpacity>
+          {showPolicyDropdown && (
+            <View style={styles.dropdownOptions}>
+              {[null, ...cancellationPolicies].map((policy) => (
+                <TouchableOpacity
+                  key={policy?.id ?? 'default'}
+                  style={styles.dropdownOption}
+                  onPress={() => {
+                    setFormData(prev => ({ ...prev, cancellationPolicyId: policy?.id ?? null }));
+                    setShowPolicyDropdown(false);
+                  }}
+                >
+                  <Text style={styles.dropdownOptionText}>{policy?.name ?? 'My default policy'}</Text>
+                  {formData.cancellationPolicyId === (policy?.id ?? null) && <Check size={16} color="#C4896F" />}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Image Upload */}
       <View style={styles.inputGroup}>
         <Text style={styles.label}>Class Image (Optional)</Text>
@@ -590,7 +881,7 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
             <TouchableOpacity onPress={handleClose} disabled={loading}>
               <X size={24} color="#333" />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Create Class</Text>
+            <Text style={styles.headerTitle}>{isEditing ? 'Edit Class' : 'Create Class'}</Text>
             {currentStep === 3 ? (
               <TouchableOpacity 
                 onPress={handleSubmit} 
@@ -600,7 +891,7 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
                 {loading ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
-                  <Text style={styles.saveButtonText}>Create</Text>
+                  <Text style={styles.saveButtonText}>{isEditing ? 'Save' : 'Create'}</Text>
                 )}
               </TouchableOpacity>
             ) : (
@@ -658,6 +949,23 @@ export default function CreateClassModal({ visible, onClose, onSubmit, loading }
             />
           )}
 
+          {showRepeatUntilPicker && (
+            <DateTimePicker
+              value={formData.repeatUntil}
+              mode="date"
+              display="default"
+              minimumDate={formData.date}
+              maximumDate={new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)}
+              onChange={(event, selectedDate) => {
+                setShowRepeatUntilPicker(false);
+                if (selectedDate) {
+                  setFormData(prev => ({ ...prev, repeatUntil: selectedDate }));
+                  if (errors.repeat) setErrors(prev => ({ ...prev, repeat: '' }));
+                }
+              }}
+            />
+          )}
+
           {showTimePicker && (
             <DateTimePicker
               value={formData.time}
@@ -883,10 +1191,69 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  dateTimeButtonDisabled: {
+    opacity: 0.5,
+  },
   dateTimeText: {
     fontSize: 16,
     color: '#333',
   },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  repeatToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  repeatToggleLabel: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#C4896F',
+    borderColor: '#C4896F',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  weekdayChip: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayChipSelected: {
+    backgroundColor: '#C4896F',
+    borderColor: '#C4896F',
+  },
+  weekdayChipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  weekdayChipTextSelected: {
+    color: 'white',
+  },
   modeToggle: {
     flexDirection: 'row',
     backgroundColor: 'white',
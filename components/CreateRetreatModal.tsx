@@ -14,9 +14,11 @@ import {
   Image,
   ActivityIndicator,
 } from 'react-native';
-import { X, Calendar, MapPin, Globe, Camera, Plus, Minus } from 'lucide-react-native';
+import { X, ArrowLeft, Calendar, MapPin, Globe, Camera, Plus, Minus } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { LocationService } from '@/lib/locationService';
+import { RetreatItineraryService } from '@/lib/retreatItineraryService';
 
 interface CreateRetreatModalProps {
   visible: boolean;
@@ -36,6 +38,24 @@ const RETREAT_TYPES = [
   'Silent Retreat',
 ];
 
+interface AccommodationDraft {
+  name: string;
+  description: string;
+  price: number;
+  /** 0 when the option has no early bird price */
+  earlyBirdPrice: number;
+  capacity: number;
+}
+
+interface SessionDraft {
+  day_number: number;
+  start_time: string;
+  end_time: string;
+  title: string;
+  leader: string;
+  location: string;
+}
+
 export default function CreateRetreatModal({ visible, onClose, onSubmit, loading }: CreateRetreatModalProps) {
   const [formData, setFormData] = useState({
     title: '',
@@ -52,9 +72,17 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
     price: 400,
     earlyBirdPrice: 350,
     earlyBirdDeadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // 3 days from now
+    depositPercent: 0, // 0: paid in full at booking
+    installmentCount: 1,
+    balanceDueDays: 30,
     level: 'beginner' as 'beginner' | 'intermediate' | 'advanced',
+    accommodations: [] as AccommodationDraft[],
+    sessions: [] as SessionDraft[],
   });
 
+  const [currentStep, setCurrentStep] = useState(1); // 1: Details, 2: Itinerary
+  const [selectedDay, setSelectedDay] = useState(1);
+
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
@@ -89,31 +117,136 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
       newErrors.capacity = 'Capacity must be between 5 and 50';
     }
 
-    if (formData.price <= 0) {
-      newErrors.price = 'Price must be greater than 0';
-    }
+    // Retreats with accommodation options are priced per option
+    if (formData.accommodations.length === 0) {
+      if (formData.price <= 0) {
+        newErrors.price = 'Price must be greater than 0';
+      }
 
-    if (formData.earlyBirdPrice >= formData.price) {
-      newErrors.earlyBirdPrice = 'Early bird price must be less than regular price';
+      if (formData.earlyBirdPrice >= formData.price) {
+        newErrors.earlyBirdPrice = 'Early bird price must be less than regular price';
+      }
     }
 
+    formData.accommodations.forEach((option, index) => {
+      const key = `accommodation-${index}`;
+
+      if (!option.name.trim()) {
+        newErrors[key] = 'Accommodation name is required';
+      } else if (option.price <= 0) {
+        newErrors[key] = 'Price must be greater than 0';
+      } else if (option.earlyBirdPrice > 0 && option.earlyBirdPrice >= option.price) {
+        newErrors[key] = 'Early bird price must be less than regular price';
+      } else if (option.capacity < 1 || option.capacity > formData.capacity) {
+        newErrors[key] = `Guests must be between 1 and the retreat capacity of ${formData.capacity}`;
+      }
+    });
+
     if (formData.earlyBirdDeadline >= formData.startDate) {
       newErrors.earlyBirdDeadline = 'Early bird deadline must be before retreat start date';
     }
 
+    if (formData.depositPercent > 0) {
+      const balanceDueDate = new Date(formData.startDate);
+      balanceDueDate.setDate(balanceDueDate.getDate() - formData.balanceDueDays);
+
+      if (formData.depositPercent >= 100) {
+        newErrors.depositPercent = 'Deposit must be less than 100%';
+      } else if (formData.installmentCount < 1 || formData.installmentCount > 12) {
+        newErrors.installmentCount = 'Installments must be between 1 and 12';
+      } else if (balanceDueDate <= new Date()) {
+        newErrors.balanceDueDays = 'The balance would be due before today';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = async () => {
+  const getDayCount = () =>
+    RetreatItineraryService.getDayCount(
+      formData.startDate.toISOString().split('T')[0],
+      formData.endDate.toISOString().split('T')[0]
+    );
+
+  const validateItinerary = () => {
+    const newErrors: Record<string, string> = {};
+    const dayCount = getDayCount();
+
+    formData.sessions.forEach((session, index) => {
+      const key = `session-${index}`;
+
+      if (session.day_number > dayCount) {
+        newErrors[key] = `Day ${session.day_number} is after the retreat ends`;
+      } else if (!session.title.trim()) {
+        newErrors[key] = 'Session title is required';
+      } else if (!RetreatItineraryService.isValidTime(session.start_time)) {
+        newErrors[key] = 'Start time must be in HH:MM format';
+      } else if (session.end_time && !RetreatItineraryService.isValidTime(session.end_time)) {
+        newErrors[key] = 'End time must be in HH:MM format';
+      } else if (session.end_time && session.end_time <= session.start_time) {
+        newErrors[key] = 'End time must be after start time';
+      }
+    });
+
+    setErrors(newErrors);
+
+    // Show the first day with a problem
+    const firstError = formData.sessions.findIndex((_, index) => newErrors[`session-${index}`]);
+    if (firstError !== -1) {
+      setSelectedDay(formData.sessions[firstError].day_number);
+    }
+
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleNext = () => {
     if (!validateForm()) return;
 
-    // Calculate retreat duration in days
-    const durationInDays = Math.ceil((formData.endDate.getTime() - formData.startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
-    // For retreats, we'll use a standard daily session duration (e.g., 2 hours = 120 minutes)
-    // The actual retreat duration is tracked by start/end dates
-    const dailySessionDuration = 120; // 2 hours per day
+    setCurrentStep(2);
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      setCurrentStep(1);
+      return;
+    }
+    if (!validateItinerary()) return;
+
+    const accommodations = formData.accommodations.map(option => ({
+      name: option.name.trim(),
+      description: option.description.trim() || null,
+      price: option.price,
+      early_bird_price: option.earlyBirdPrice > 0 ? option.earlyBirdPrice : null,
+      capacity: option.capacity,
+    }));
+
+    // Listings show the cheapest accommodation as the retreat's price
+    let price = formData.price;
+    let earlyBirdPrice: number | null = formData.earlyBirdPrice;
+    if (accommodations.length > 0) {
+      price = Math.min(...accommodations.map(option => option.price));
+      earlyBirdPrice = Math.min(...accommodations.map(option => option.early_bird_price ?? option.price));
+      if (earlyBirdPrice >= price) earlyBirdPrice = null;
+    }
+
+    const itinerary = formData.sessions.map(session => ({
+      day_number: session.day_number,
+      start_time: session.start_time,
+      end_time: session.end_time || null,
+      title: session.title.trim(),
+      leader: session.leader.trim() || null,
+      location: session.location.trim() || null,
+    }));
+
+    // The daily duration spans the busiest day of the itinerary, with a 2 hour
+    // default when no sessions are planned. Start/end dates track the whole retreat.
+    const dailySessionDuration = Math.max(60, RetreatItineraryService.getDailyDuration(itinerary) || 120);
+
+    // Pin the retreat on the map when its address can be found
+    const coordinate = formData.isVirtual
+      ? null
+      : await LocationService.getCoordinates(formData.location);
 
     const retreatData = {
       title: formData.title.trim(),
@@ -122,18 +255,25 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
       date: formData.startDate.toISOString().split('T')[0],
       retreat_end_date: formData.endDate.toISOString().split('T')[0],
       time: formData.time.toTimeString().split(' ')[0].substring(0, 5),
-      duration: dailySessionDuration, // Use standard daily session duration
+      duration: dailySessionDuration,
       level: formData.level,
       is_retreat: true,
       is_virtual: formData.isVirtual,
       location: formData.isVirtual ? 'Virtual Retreat' : formData.location.trim(),
+      latitude: coordinate?.latitude ?? null,
+      longitude: coordinate?.longitude ?? null,
       retreat_image_url: formData.retreatImage,
       retreat_highlights: formData.highlights.filter(h => h.trim()),
       retreat_capacity: formData.capacity,
       max_participants: formData.capacity,
-      price: formData.price,
-      early_bird_price: formData.earlyBirdPrice,
+      price,
+      early_bird_price: earlyBirdPrice,
       early_bird_deadline: formData.earlyBirdDeadline.toISOString().split('T')[0],
+      deposit_percent: formData.depositPercent > 0 ? formData.depositPercent : null,
+      installment_count: formData.installmentCount,
+      balance_due_days: formData.balanceDueDays,
+      accommodations,
+      itinerary,
     };
 
     await onSubmit(retreatData);
@@ -196,6 +336,75 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
     }));
   };
 
+  const addAccommodation = () => {
+    setFormData(prev => ({
+      ...prev,
+      accommodations: [
+        ...prev.accommodations,
+        { name: '', description: '', price: prev.price, earlyBirdPrice: 0, capacity: prev.capacity },
+      ]
+    }));
+  };
+
+  const removeAccommodation = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      accommodations: prev.accommodations.filter((_, i) => i !== index)
+    }));
+    // Error keys follow option positions, so clear them rather than misplace them
+    setErrors(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => !key.startsWith('accommodation-'))
+    ));
+  };
+
+  const updateAccommodation = (index: number, changes: Partial<AccommodationDraft>) => {
+    setFormData(prev => ({
+      ...prev,
+      accommodations: prev.accommodations.map((a, i) => i === index ? { ...a, ...changes } : a)
+    }));
+    if (errors[`accommodation-${index}`]) setErrors(prev => ({ ...prev, [`accommodation-${index}`]: '' }));
+  };
+
+  const addSession = (dayNumber: number) => {
+    setFormData(prev => {
+      const daySessions = prev.sessions.filter(s => s.day_number === dayNumber);
+      const lastSession = daySessions[daySessions.length - 1];
+
+      return {
+        ...prev,
+        sessions: [
+          ...prev.sessions,
+          {
+            day_number: dayNumber,
+            // Pick up where the day's last session ends
+            start_time: lastSession?.end_time || '',
+            end_time: '',
+            title: '',
+            leader: '',
+            location: '',
+          },
+        ],
+      };
+    });
+  };
+
+  const removeSession = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      sessions: prev.sessions.filter((_, i) => i !== index)
+    }));
+    // Error keys follow session positions, so clear them rather than misplace them
+    setErrors({});
+  };
+
+  const updateSession = (index: number, field: keyof Omit<SessionDraft, 'day_number'>, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      sessions: prev.sessions.map((s, i) => i === index ? { ...s, [field]: value } : s)
+    }));
+    if (errors[`session-${index}`]) setErrors(prev => ({ ...prev, [`session-${index}`]: '' }));
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -212,9 +421,16 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
       price: 400,
       earlyBirdPrice: 350,
       earlyBirdDeadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+      depositPercent: 0,
+      installmentCount: 1,
+      balanceDueDays: 30,
       level: 'beginner',
+      accommodations: [],
+      sessions: [],
     });
     setErrors({});
+    setCurrentStep(1);
+    setSelectedDay(1);
   };
 
   const handleClose = () => {
@@ -227,6 +443,148 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
     return days;
   };
 
+  const renderItineraryStep = () => {
+    const dayCount = getDayCount();
+    // Sessions left behind after the dates were shortened stay visible until moved or removed
+    const shownDays = Math.max(dayCount, ...formData.sessions.map(s => s.day_number));
+    const day = Math.min(selectedDay, shownDays);
+    const dayDate = new Date(formData.startDate);
+    dayDate.setDate(dayDate.getDate() + day - 1);
+
+    return (
+      <ScrollView 
+        style={styles.content} 
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Daily Schedule</Text>
+          <Text style={styles.sectionDescription}>
+            Plan the sessions of each day. Days without sessions are shown as free days.
+          </Text>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.typeOptions}>
+            {Array.from({ length: shownDays }, (_, index) => index + 1).map((dayNumber) => {
+              const sessionCount = formData.sessions.filter(s => s.day_number === dayNumber).length;
+              return (
+                <TouchableOpacity
+                  key={dayNumber}
+                  style={[
+                    styles.typeOption,
+                    day === dayNumber && styles.typeOptionActive,
+                    dayNumber > dayCount && styles.dayOptionInvalid,
+                  ]}
+                  onPress={() => setSelectedDay(dayNumber)}
+                  disabled={loading}
+                >
+                  <Text style={[
+                    styles.typeOptionText,
+                    day === dayNumber && styles.typeOptionTextActive
+                  ]}>
+                    Day {dayNumber}{sessionCount > 0 ? ` · ${sessionCount}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Day {day} · {dayDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </Text>
+          {day > dayCount && (
+            <Text style={styles.errorText}>
+              This day is after the retreat ends. Remove its sessions or extend the end date.
+            </Text>
+          )}
+
+          {formData.sessions.map((session, index) => session.day_number === day && (
+            <View key={index} style={styles.sessionCard}>
+              <View style={styles.sessionCardHeader}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }, errors[`session-${index}`] && styles.inputError]}
+                  value={session.title}
+                  onChangeText={(text) => updateSession(index, 'title', text)}
+                  placeholder="Session title, e.g. Morning Vinyasa"
+                  editable={!loading}
+                />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => removeSession(index)}
+                  disabled={loading}
+                >
+                  <Minus size={16} color="#FF6B6B" />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.row}>
+                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                  <Text style={styles.label}>Start</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={session.start_time}
+                    onChangeText={(text) => updateSession(index, 'start_time', text)}
+                    placeholder="07:00"
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={5}
+                    editable={!loading}
+                  />
+                </View>
+                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                  <Text style={styles.label}>End (optional)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={session.end_time}
+                    onChangeText={(text) => updateSession(index, 'end_time', text)}
+                    placeholder="08:30"
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={5}
+                    editable={!loading}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.row}>
+                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                  <Text style={styles.label}>Leader</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={session.leader}
+                    onChangeText={(text) => updateSession(index, 'leader', text)}
+                    placeholder="You"
+                    editable={!loading}
+                  />
+                </View>
+                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                  <Text style={styles.label}>Where</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={session.location}
+                    onChangeText={(text) => updateSession(index, 'location', text)}
+                    placeholder="Main shala"
+                    editable={!loading}
+                  />
+                </View>
+              </View>
+
+              {errors[`session-${index}`] && (
+                <Text style={styles.errorText}>{errors[`session-${index}`]}</Text>
+              )}
+            </View>
+          ))}
+
+          {day <= dayCount && (
+            <TouchableOpacity style={styles.addButton} onPress={() => addSession(day)} disabled={loading}>
+              <Plus size={16} color="#C4896F" />
+              <Text style={styles.addButtonText}>Add Session</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    );
+  };
+
   return (
     <Modal
       visible={visible}
@@ -241,355 +599,529 @@ export default function CreateRetreatModal({ visible, onClose, onSubmit, loading
         >
           {/* Header */}
           <View style={styles.header}>
-            <TouchableOpacity onPress={handleClose} disabled={loading}>
-              <X size={24} color="#333" />
-            </TouchableOpacity>
-            <Text style={styles.headerTitle}>Create Retreat</Text>
+            {currentStep === 1 ? (
+              <TouchableOpacity onPress={handleClose} disabled={loading}>
+                <X size={24} color="#333" />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={() => setCurrentStep(1)} disabled={loading}>
+                <ArrowLeft size={24} color="#333" />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.headerTitle}>
+              {currentStep === 1 ? 'Create Retreat' : 'Itinerary'}
+            </Text>
             <TouchableOpacity 
-              onPress={handleSubmit} 
+              onPress={currentStep === 1 ? handleNext : handleSubmit} 
               disabled={loading}
               style={[styles.createButton, loading && styles.createButtonDisabled]}
             >
               {loading ? (
                 <ActivityIndicator size="small" color="white" />
               ) : (
-                <Text style={styles.createButtonText}>Create</Text>
+                <Text style={styles.createButtonText}>{currentStep === 1 ? 'Next' : 'Create'}</Text>
               )}
             </TouchableOpacity>
           </View>
 
-          <ScrollView 
-            style={styles.content} 
-            showsVerticalScrollIndicator={false}
-            contentContainerStyle={styles.scrollContent}
-          >
-            {/* Retreat Preview Card */}
-            <View style={styles.previewCard}>
-              <View style={styles.previewImageContainer}>
-                {formData.retreatImage ? (
-                  <Image source={{ uri: formData.retreatImage }} style={styles.previewImage} />
-                ) : (
-                  <View style={styles.previewImagePlaceholder}>
-                    <Camera size={32} color="#999" />
-                    <Text style={styles.previewImageText}>Retreat Banner</Text>
-                  </View>
-                )}
-                <View style={styles.previewOverlay}>
-                  <View style={styles.durationBadge}>
-                    <Text style={styles.durationText}>{getDuration()}-Day Retreat</Text>
+          {currentStep === 1 ? (
+            <ScrollView 
+              style={styles.content} 
+              showsVerticalScrollIndicator={false}
+              contentContainerStyle={styles.scrollContent}
+            >
+              {/* Retreat Preview Card */}
+              <View style={styles.previewCard}>
+                <View style={styles.previewImageContainer}>
+                  {formData.retreatImage ? (
+                    <Image source={{ uri: formData.retreatImage }} style={styles.previewImage} />
+                  ) : (
+                    <View style={styles.previewImagePlaceholder}>
+                      <Camera size={32} color="#999" />
+                      <Text style={styles.previewImageText}>Retreat Banner</Text>
+                    </View>
+                  )}
+                  <View style={styles.previewOverlay}>
+                    <View style={styles.durationBadge}>
+                      <Text style={styles.durationText}>{getDuration()}-Day Retreat</Text>
+                    </View>
                   </View>
                 </View>
+                <View style={styles.previewContent}>
+                  <Text style={styles.previewTitle}>
+                    {formData.title || 'Retreat Title'}
+                  </Text>
+                  <Text style={styles.previewLocation}>
+                    {formData.isVirtual ? '🌐 Virtual' : `📍 ${formData.location || 'Location'}`}
+                  </Text>
+                </View>
               </View>
-              <View style={styles.previewContent}>
-                <Text style={styles.previewTitle}>
-                  {formData.title || 'Retreat Title'}
-                </Text>
-                <Text style={styles.previewLocation}>
-                  {formData.isVirtual ? '🌐 Virtual' : `📍 ${formData.location || 'Location'}`}
-                </Text>
-              </View>
-            </View>
 
-            {/* Basic Information */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Basic Information</Text>
-              
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Retreat Title *</Text>
-                <TextInput
-                  style={[styles.input, errors.title && styles.inputError]}
-                  value={formData.title}
-                  onChangeText={(text) => {
-                    setFormData(prev => ({ ...prev, title: text }));
-                    if (errors.title) setErrors(prev => ({ ...prev, title: '' }));
-                  }}
-                  placeholder="e.g. Mindfulness Escape in Santorini"
-                  editable={!loading}
-                />
-                {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
-              </View>
+              {/* Basic Information */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Basic Information</Text>
 
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Description *</Text>
-                <TextInput
-                  style={[styles.textArea, errors.description && styles.inputError]}
-                  value={formData.description}
-                  onChangeText={(text) => {
-                    setFormData(prev => ({ ...prev, description: text }));
-                    if (errors.description) setErrors(prev => ({ ...prev, description: '' }));
-                  }}
-                  placeholder="Describe your retreat experience, what participants can expect..."
-                  multiline
-                  numberOfLines={4}
-                  textAlignVertical="top"
-                  editable={!loading}
-                />
-                {errors.description && <Text style={styles.errorText}>{errors.description}</Text>}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Retreat Title *</Text>
+                  <TextInput
+                    style={[styles.input, errors.title && styles.inputError]}
+                    value={formData.title}
+                    onChangeText={(text) => {
+                      setFormData(prev => ({ ...prev, title: text }));
+                      if (errors.title) setErrors(prev => ({ ...prev, title: '' }));
+                    }}
+                    placeholder="e.g. Mindfulness Escape in Santorini"
+                    editable={!loading}
+                  />
+                  {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Description *</Text>
+                  <TextInput
+                    style={[styles.textArea, errors.description && styles.inputError]}
+                    value={formData.description}
+                    onChangeText={(text) => {
+                      setFormData(prev => ({ ...prev, description: text }));
+                      if (errors.description) setErrors(prev => ({ ...prev, description: '' }));
+                    }}
+                    placeholder="Describe your retreat experience, what participants can expect..."
+                    multiline
+                    numberOfLines={4}
+                    textAlignVertical="top"
+                    editable={!loading}
+                  />
+                  {errors.description && <Text style={styles.errorText}>{errors.description}</Text>}
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Retreat Type</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.typeOptions}>
+                    {RETREAT_TYPES.map((type) => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[
+                          styles.typeOption,
+                          formData.type === type && styles.typeOptionActive
+                        ]}
+                        onPress={() => setFormData(prev => ({ ...prev, type }))}
+                      >
+                        <Text style={[
+                          styles.typeOptionText,
+                          formData.type === type && styles.typeOptionTextActive
+                        ]}>
+                          {type}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
               </View>
 
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Retreat Type</Text>
-                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.typeOptions}>
-                  {RETREAT_TYPES.map((type) => (
+              {/* Dates & Time */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Schedule</Text>
+
+                <View style={styles.row}>
+                  <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                    <Text style={styles.label}>Start Date</Text>
                     <TouchableOpacity
-                      key={type}
-                      style={[
-                        styles.typeOption,
-                        formData.type === type && styles.typeOptionActive
-                      ]}
-                      onPress={() => setFormData(prev => ({ ...prev, type }))}
+                      style={styles.dateButton}
+                      onPress={() => setShowStartDatePicker(true)}
+                      disabled={loading}
                     >
-                      <Text style={[
-                        styles.typeOptionText,
-                        formData.type === type && styles.typeOptionTextActive
-                      ]}>
-                        {type}
+                      <Calendar size={16} color="#666" />
+                      <Text style={styles.dateText}>
+                        {formData.startDate.toLocaleDateString()}
                       </Text>
                     </TouchableOpacity>
-                  ))}
-                </ScrollView>
-              </View>
-            </View>
+                  </View>
 
-            {/* Dates & Time */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Schedule</Text>
-              
-              <View style={styles.row}>
-                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
-                  <Text style={styles.label}>Start Date</Text>
+                  <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                    <Text style={styles.label}>End Date</Text>
+                    <TouchableOpacity
+                      style={[styles.dateButton, errors.endDate && styles.inputError]}
+                      onPress={() => setShowEndDatePicker(true)}
+                      disabled={loading}
+                    >
+                      <Calendar size={16} color="#666" />
+                      <Text style={styles.dateText}>
+                        {formData.endDate.toLocaleDateString()}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                {errors.endDate && <Text style={styles.errorText}>{errors.endDate}</Text>}
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Start Time</Text>
                   <TouchableOpacity
                     style={styles.dateButton}
-                    onPress={() => setShowStartDatePicker(true)}
+                    onPress={() => setShowTimePicker(true)}
                     disabled={loading}
                   >
                     <Calendar size={16} color="#666" />
                     <Text style={styles.dateText}>
-                      {formData.startDate.toLocaleDateString()}
+                      {formData.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                     </Text>
                   </TouchableOpacity>
                 </View>
+              </View>
 
-                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
-                  <Text style={styles.label}>End Date</Text>
+              {/* Location */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Location</Text>
+
+                <View style={styles.modeToggle}>
                   <TouchableOpacity
-                    style={[styles.dateButton, errors.endDate && styles.inputError]}
-                    onPress={() => setShowEndDatePicker(true)}
+                    style={[
+                      styles.modeButton,
+                      !formData.isVirtual && styles.modeButtonActive
+                    ]}
+                    onPress={() => setFormData(prev => ({ ...prev, isVirtual: false }))}
                     disabled={loading}
                   >
-                    <Calendar size={16} color="#666" />
-                    <Text style={styles.dateText}>
-                      {formData.endDate.toLocaleDateString()}
+                    <MapPin size={16} color={!formData.isVirtual ? 'white' : '#666'} />
+                    <Text style={[
+                      styles.modeButtonText,
+                      !formData.isVirtual && styles.modeButtonTextActive
+                    ]}>
+                      Physical
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.modeButton,
+                      formData.isVirtual && styles.modeButtonActive
+                    ]}
+                    onPress={() => setFormData(prev => ({ ...prev, isVirtual: true }))}
+                    disabled={loading}
+                  >
+                    <Globe size={16} color={formData.isVirtual ? 'white' : '#666'} />
+                    <Text style={[
+                      styles.modeButtonText,
+                      formData.isVirtual && styles.modeButtonTextActive
+                    ]}>
+                      Virtual
                     </Text>
                   </TouchableOpacity>
                 </View>
-              </View>
-              {errors.endDate && <Text style={styles.errorText}>{errors.endDate}</Text>}
 
-              <View style={styles.inputGroup}>
-                <Text style={styles.label}>Start Time</Text>
-                <TouchableOpacity
-                  style={styles.dateButton}
-                  onPress={() => setShowTimePicker(true)}
-                  disabled={loading}
-                >
-                  <Calendar size={16} color="#666" />
-                  <Text style={styles.dateText}>
-                    {formData.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </Text>
-                </TouchableOpacity>
+                {!formData.isVirtual && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>Venue Location *</Text>
+                    <TextInput
+                      style={[styles.input, errors.location && styles.inputError]}
+                      value={formData.location}
+                      onChangeText={(text) => {
+                        setFormData(prev => ({ ...prev, location: text }));
+                        if (errors.location) setErrors(prev => ({ ...prev, location: '' }));
+                      }}
+                      placeholder="e.g. Santorini, Greece"
+                      editable={!loading}
+                    />
+                    {errors.location && <Text style={styles.errorText}>{errors.location}</Text>}
+                  </View>
+                )}
               </View>
-            </View>
 
-            {/* Location */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Location</Text>
-              
-              <View style={styles.modeToggle}>
-                <TouchableOpacity
-                  style={[
-                    styles.modeButton,
-                    !formData.isVirtual && styles.modeButtonActive
-                  ]}
-                  onPress={() => setFormData(prev => ({ ...prev, isVirtual: false }))}
-                  disabled={loading}
-                >
-                  <MapPin size={16} color={!formData.isVirtual ? 'white' : '#666'} />
-                  <Text style={[
-                    styles.modeButtonText,
-                    !formData.isVirtual && styles.modeButtonTextActive
-                  ]}>
-                    Physical
-                  </Text>
-                </TouchableOpacity>
+              {/* Retreat Image */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Retreat Banner</Text>
                 <TouchableOpacity
-                  style={[
-                    styles.modeButton,
-                    formData.isVirtual && styles.modeButtonActive
-                  ]}
-                  onPress={() => setFormData(prev => ({ ...prev, isVirtual: true }))}
-                  disabled={loading}
+                  style={styles.imageUpload}
+                  onPress={pickImage}
+                  disabled={loading || imageLoading}
                 >
-                  <Globe size={16} color={formData.isVirtual ? 'white' : '#666'} />
-                  <Text style={[
-                    styles.modeButtonText,
-                    formData.isVirtual && styles.modeButtonTextActive
-                  ]}>
-                    Virtual
-                  </Text>
+                  {formData.retreatImage ? (
+                    <Image source={{ uri: formData.retreatImage }} style={styles.imagePreview} />
+                  ) : (
+                    <View style={styles.imageUploadPlaceholder}>
+                      {imageLoading ? (
+                        <ActivityIndicator size="small" color="#C4896F" />
+                      ) : (
+                        <>
+                          <Camera size={24} color="#666" />
+                          <Text style={styles.imageUploadText}>Add Banner Image</Text>
+                          <Text style={styles.imageUploadSubtext}>1200x630px, Max 2MB</Text>
+                        </>
+                      )}
+                    </View>
+                  )}
                 </TouchableOpacity>
               </View>
 
-              {!formData.isVirtual && (
-                <View style={styles.inputGroup}>
-                  <Text style={styles.label}>Venue Location *</Text>
-                  <TextInput
-                    style={[styles.input, errors.location && styles.inputError]}
-                    value={formData.location}
-                    onChangeText={(text) => {
-                      setFormData(prev => ({ ...prev, location: text }));
-                      if (errors.location) setErrors(prev => ({ ...prev, location: '' }));
-                    }}
-                    placeholder="e.g. Santorini, Greece"
-                    editable={!loading}
-                  />
-                  {errors.location && <Text style={styles.errorText}>{errors.location}</Text>}
-                </View>
-              )}
-            </View>
-
-            {/* Retreat Image */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Retreat Banner</Text>
-              <TouchableOpacity
-                style={styles.imageUpload}
-                onPress={pickImage}
-                disabled={loading || imageLoading}
-              >
-                {formData.retreatImage ? (
-                  <Image source={{ uri: formData.retreatImage }} style={styles.imagePreview} />
-                ) : (
-                  <View style={styles.imageUploadPlaceholder}>
-                    {imageLoading ? (
-                      <ActivityIndicator size="small" color="#C4896F" />
-                    ) : (
-                      <>
-                        <Camera size={24} color="#666" />
-                        <Text style={styles.imageUploadText}>Add Banner Image</Text>
-                        <Text style={styles.imageUploadSubtext}>1200x630px, Max 2MB</Text>
-                      </>
+              {/* Highlights */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Retreat Highlights</Text>
+                {formData.highlights.map((highlight, index) => (
+                  <View key={index} style={styles.highlightRow}>
+                    <TextInput
+                      style={[styles.input, { flex: 1 }]}
+                      value={highlight}
+                      onChangeText={(text) => updateHighlight(index, text)}
+                      placeholder={`Highlight ${index + 1}`}
+                      editable={!loading}
+                    />
+                    {formData.highlights.length > 1 && (
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => removeHighlight(index)}
+                      >
+                        <Minus size={16} color="#FF6B6B" />
+                      </TouchableOpacity>
                     )}
                   </View>
+                ))}
+                {formData.highlights.length < 5 && (
+                  <TouchableOpacity style={styles.addButton} onPress={addHighlight}>
+                    <Plus size={16} color="#C4896F" />
+                    <Text style={styles.addButtonText}>Add Highlight</Text>
+                  </TouchableOpacity>
                 )}
-              </TouchableOpacity>
-            </View>
+                {errors.highlights && <Text style={styles.errorText}>{errors.highlights}</Text>}
+              </View>
 
-            {/* Highlights */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Retreat Highlights</Text>
-              {formData.highlights.map((highlight, index) => (
-                <View key={index} style={styles.highlightRow}>
-                  <TextInput
-                    style={[styles.input, { flex: 1 }]}
-                    value={highlight}
-                    onChangeText={(text) => updateHighlight(index, text)}
-                    placeholder={`Highlight ${index + 1}`}
-                    editable={!loading}
-                  />
-                  {formData.highlights.length > 1 && (
+              {/* Pricing & Capacity */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Pricing & Capacity</Text>
+
+                <View style={styles.row}>
+                  <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                    <Text style={styles.label}>Capacity</Text>
+                    <TextInput
+                      style={[styles.input, errors.capacity && styles.inputError]}
+                      value={formData.capacity.toString()}
+                      onChangeText={(text) => {
+                        const capacity = parseInt(text) || 5;
+                        setFormData(prev => ({ ...prev, capacity }));
+                        if (errors.capacity) setErrors(prev => ({ ...prev, capacity: '' }));
+                      }}
+                      keyboardType="numeric"
+                      placeholder="20"
+                      editable={!loading}
+                    />
+                    {errors.capacity && <Text style={styles.errorText}>{errors.capacity}</Text>}
+                  </View>
+
+                  {formData.accommodations.length === 0 && (
+                    <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                      <Text style={styles.label}>Regular Price (€)</Text>
+                      <TextInput
+                        style={[styles.input, errors.price && styles.inputError]}
+                        value={formData.price.toString()}
+                        onChangeText={(text) => {
+                          const price = parseInt(text) || 0;
+                          setFormData(prev => ({ ...prev, price }));
+                          if (errors.price) setErrors(prev => ({ ...prev, price: '' }));
+                        }}
+                        keyboardType="numeric"
+                        placeholder="400"
+                        editable={!loading}
+                      />
+                      {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
+                    </View>
+                  )}
+                </View>
+
+                <View style={styles.row}>
+                  {formData.accommodations.length === 0 && (
+                    <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
+                      <Text style={styles.label}>Early Bird Price (€)</Text>
+                      <TextInput
+                        style={[styles.input, errors.earlyBirdPrice && styles.inputError]}
+                        value={formData.earlyBirdPrice.toString()}
+                        onChangeText={(text) => {
+                          const price = parseInt(text) || 0;
+                          setFormData(prev => ({ ...prev, earlyBirdPrice: price }));
+                          if (errors.earlyBirdPrice) setErrors(prev => ({ ...prev, earlyBirdPrice: '' }));
+                        }}
+                        keyboardType="numeric"
+                        placeholder="350"
+                        editable={!loading}
+                      />
+                      {errors.earlyBirdPrice && <Text style={styles.errorText}>{errors.earlyBirdPrice}</Text>}
+                    </View>
+                  )}
+
+                  <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
+                    <Text style={styles.label}>Early Bird Deadline</Text>
                     <TouchableOpacity
-                      style={styles.removeButton}
-                      onPress={() => removeHighlight(index)}
+                      style={[styles.dateButton, errors.earlyBirdDeadline && styles.inputError]}
+                      onPress={() => setShowEarlyBirdDatePicker(true)}
+                      disabled={loading}
                     >
-                      <Minus size={16} color="#FF6B6B" />
+                      <Calendar size={16} color="#666" />
+                      <Text style={styles.dateText}>
+                        {formData.earlyBirdDeadline.toLocaleDateString()}
+                      </Text>
                     </TouchableOpacity>
-                  )}
+                    {errors.earlyBirdDeadline && <Text style={styles.errorText}>{errors.earlyBirdDeadline}</Text>}
+                  </View>
                 </View>
-              ))}
-              {formData.highlights.length < 5 && (
-                <TouchableOpacity style={styles.addButton} onPress={addHighlight}>
+              </View>
+
+              {/* Accommodation */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Accommodation</Text>
+                <Text style={styles.sectionDescription}>
+                  {formData.accommodations.length === 0
+                    ? 'Sell dorms, twin or private rooms at their own prices. Without options every guest pays the price above.'
+                    : 'Guests pick one of these when booking. Each option is capped at its own number of guests.'}
+                </Text>
+
+                {formData.accommodations.map((option, index) => (
+                  <View key={index} style={styles.sessionCard}>
+                    <View style={styles.sessionCardHeader}>
+                      <TextInput
+                        style={[styles.input, { flex: 1 }, errors[`accommodation-${index}`] && styles.inputError]}
+                        value={option.name}
+                        onChangeText={(text) => updateAccommodation(index, { name: text })}
+                        placeholder="e.g. Shared dorm, Private room"
+                        editable={!loading}
+                      />
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => removeAccommodation(index)}
+                        disabled={loading}
+                      >
+                        <Minus size={16} color="#FF6B6B" />
+                      </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                      <TextInput
+                        style={styles.input}
+                        value={option.description}
+                        onChangeText={(text) => updateAccommodation(index, { description: text })}
+                        placeholder="Description (optional)"
+                        editable={!loading}
+                      />
+                    </View>
+
+                    <View style={styles.row}>
+                      <View style={[styles.inputGroup, { flex: 1, marginRight: 6 }]}>
+                        <Text style={styles.label}>Price (€)</Text>
+                        <TextInput
+                          style={styles.input}
+                          value={option.price.toString()}
+                          onChangeText={(text) => updateAccommodation(index, { price: parseInt(text) || 0 })}
+                          keyboardType="numeric"
+                          editable={!loading}
+                        />
+                      </View>
+                      <View style={[styles.inputGroup, { flex: 1, marginHorizontal: 6 }]}>
+                        <Text style={styles.label}>Early Bird (€)</Text>
+                        <TextInput
+                          style={styles.input}
+                          value={option.earlyBirdPrice > 0 ? option.earlyBirdPrice.toString() : ''}
+                          onChangeText={(text) => updateAccommodation(index, { earlyBirdPrice: parseInt(text) || 0 })}
+                          keyboardType="numeric"
+                          placeholder="None"
+                          editable={!loading}
+                        />
+                      </View>
+                      <View style={[styles.inputGroup, { flex: 1, marginLeft: 6 }]}>
+                        <Text style={styles.label}>Guests</Text>
+                        <TextInput
+                          style={styles.input}
+                          value={option.capacity.toString()}
+                          onChangeText={(text) => updateAccommodation(index, { capacity: parseInt(text) || 0 })}
+                          keyboardType="numeric"
+                          editable={!loading}
+                        />
+                      </View>
+                    </View>
+
+                    {errors[`accommodation-${index}`] && (
+                      <Text style={styles.errorText}>{errors[`accommodation-${index}`]}</Text>
+                    )}
+                  </View>
+                ))}
+
+                <TouchableOpacity style={styles.addButton} onPress={addAccommodation} disabled={loading}>
                   <Plus size={16} color="#C4896F" />
-                  <Text style={styles.addButtonText}>Add Highlight</Text>
+                  <Text style={styles.addButtonText}>Add Accommodation Option</Text>
                 </TouchableOpacity>
-              )}
-              {errors.highlights && <Text style={styles.errorText}>{errors.highlights}</Text>}
-            </View>
+              </View>
 
-            {/* Pricing & Capacity */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Pricing & Capacity</Text>
-              
-              <View style={styles.row}>
-                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
-                  <Text style={styles.label}>Capacity</Text>
-                  <TextInput
-                    style={[styles.input, errors.capacity && styles.inputError]}
-                    value={formData.capacity.toString()}
-                    onChangeText={(text) => {
-                      const capacity = parseInt(text) || 5;
-                      setFormData(prev => ({ ...prev, capacity }));
-                      if (errors.capacity) setErrors(prev => ({ ...prev, capacity: '' }));
-                    }}
-                    keyboardType="numeric"
-                    placeholder="20"
-                    editable={!loading}
-                  />
-                  {errors.capacity && <Text style={styles.errorText}>{errors.capacity}</Text>}
-                </View>
+              {/* Payment Plan */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Payment Plan</Text>
+                <Text style={styles.sectionDescription}>
+                  {formData.depositPercent > 0
+                    ? 'Guests can pay a deposit when booking and the rest in installments. Spots whose balance is not paid in time are released.'
+                    : 'Guests pay in full when booking. Set a deposit to let them pay the rest in installments.'}
+                </Text>
 
-                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
-                  <Text style={styles.label}>Regular Price (€)</Text>
-                  <TextInput
-                    style={[styles.input, errors.price && styles.inputError]}
-                    value={formData.price.toString()}
-                    onChangeText={(text) => {
-                      const price = parseInt(text) || 0;
-                      setFormData(prev => ({ ...prev, price }));
-                      if (errors.price) setErrors(prev => ({ ...prev, price: '' }));
-                    }}
-                    keyboardType="numeric"
-                    placeholder="400"
-                    editable={!loading}
-                  />
-                  {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
-                </View>
-              </View>
+                <View style={styles.row}>
+                  <View style={[styles.inputGroup, { flex: 1, marginRight: 6 }]}>
+                    <Text style={styles.label}>Deposit (%)</Text>
+                    <TextInput
+                      style={[styles.input, errors.depositPercent && styles.inputError]}
+                      value={formData.depositPercent > 0 ? formData.depositPercent.toString() : ''}
+                      onChangeText={(text) => {
+                        const depositPercent = parseInt(text) || 0;
+                        setFormData(prev => ({ ...prev, depositPercent }));
+                        if (errors.depositPercent) setErrors(prev => ({ ...prev, depositPercent: '' }));
+                      }}
+                      keyboardType="numeric"
+                      placeholder="None"
+                      editable={!loading}
+                    />
+                  </View>
 
-              <View style={styles.row}>
-                <View style={[styles.inputGroup, { flex: 1, marginRight: 10 }]}>
-                  <Text style={styles.label}>Early Bird Price (€)</Text>
-                  <TextInput
-                    style={[styles.input, errors.earlyBirdPrice && styles.inputError]}
-                    value={formData.earlyBirdPrice.toString()}
-                    onChangeText={(text) => {
-                      const price = parseInt(text) || 0;
-                      setFormData(prev => ({ ...prev, earlyBirdPrice: price }));
-                      if (errors.earlyBirdPrice) setErrors(prev => ({ ...prev, earlyBirdPrice: '' }));
-                    }}
-                    keyboardType="numeric"
-                    placeholder="350"
-                    editable={!loading}
-                  />
-                  {errors.earlyBirdPrice && <Text style={styles.errorText}>{errors.earlyBirdPrice}</Text>}
+                  {formData.depositPercent > 0 && (
+                    <>
+                      <View style={[styles.inputGroup, { flex: 1, marginHorizontal: 6 }]}>
+                        <Text style={styles.label}>Installments</Text>
+                        <TextInput
+                          style={[styles.input, errors.installmentCount && styles.inputError]}
+                          value={formData.installmentCount.toString()}
+                          onChangeText={(text) => {
+                            const installmentCount = parseInt(text) || 0;
+                            setFormData(prev => ({ ...prev, installmentCount }));
+                            if (errors.installmentCount) setErrors(prev => ({ ...prev, installmentCount: '' }));
+                          }}
+                          keyboardType="numeric"
+                          placeholder="1"
+                          editable={!loading}
+                        />
+                      </View>
+                      <View style={[styles.inputGroup, { flex: 1, marginLeft: 6 }]}>
+                        <Text style={styles.label}>Days Before</Text>
+                        <TextInput
+                          style={[styles.input, errors.balanceDueDays && styles.inputError]}
+                          value={formData.balanceDueDays.toString()}
+                          onChangeText={(text) => {
+                            const balanceDueDays = parseInt(text) || 0;
+                            setFormData(prev => ({ ...prev, balanceDueDays }));
+                            if (errors.balanceDueDays) setErrors(prev => ({ ...prev, balanceDueDays: '' }));
+                          }}
+                          keyboardType="numeric"
+                          placeholder="30"
+                          editable={!loading}
+                        />
+                      </View>
+                    </>
+                  )}
                 </View>
 
-                <View style={[styles.inputGroup, { flex: 1, marginLeft: 10 }]}>
-                  <Text style={styles.label}>Early Bird Deadline</Text>
-                  <TouchableOpacity
-                    style={[styles.dateButton, errors.earlyBirdDeadline && styles.inputError]}
-                    onPress={() => setShowEarlyBirdDatePicker(true)}
-                    disabled={loading}
-                  >
-                    <Calendar size={16} color="#666" />
-                    <Text style={styles.dateText}>
-                      {formData.earlyBirdDeadline.toLocaleDateString()}
-                    </Text>
-                  </TouchableOpacity>
-                  {errors.earlyBirdDeadline && <Text style={styles.errorText}>{errors.earlyBirdDeadline}</Text>}
-                </View>
+                {(errors.depositPercent || errors.installmentCount || errors.balanceDueDays) && (
+                  <Text style={styles.errorText}>
+                    {errors.depositPercent || errors.installmentCount || errors.balanceDueDays}
+                  </Text>
+                )}
+                {formData.depositPercent > 0 && (
+                  <Text style={[styles.sectionDescription, { marginTop: 8, marginBottom: 0 }]}>
+                    The last installment is due {formData.balanceDueDays} days before the retreat starts.
+                  </Text>
+                )}
               </View>
-            </View>
-          </ScrollView>
+            </ScrollView>
+          ) : (
+            renderItineraryStep()
+          )}
 
           {/* Date/Time Pickers */}
           {showStartDatePicker && (
@@ -907,6 +1439,30 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  dayOptionInvalid: {
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  sessionCard: {
+    backgroundColor: '#FAFAFA',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+    padding: 12,
+    marginBottom: 12,
+  },
+  sessionCardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
   highlightRow: {
     flexDirection: 'row',
     alignItems: 'center',
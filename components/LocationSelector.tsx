@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,124 +10,75 @@ import {
   ActivityIndicator,
   Dimensions,
 } from 'react-native';
-import { MapPin, Search, Navigation, Globe } from 'lucide-react-native';
+import { MapPin, Search, Navigation, Globe, Building2, Users, Accessibility } from 'lucide-react-native';
 import * as Location from 'expo-location';
-
-// Web-compatible map component
-const WebMapView = ({ location, onLocationSelect }: { 
-  location: LocationCoordinate | null; 
-  onLocationSelect: (coordinate: LocationCoordinate) => void;
-}) => {
-  const [mapLoaded, setMapLoaded] = useState(false);
-
-  useEffect(() => {
-    // Simulate map loading for web
-    const timer = setTimeout(() => setMapLoaded(true), 1000);
-    return () => clearTimeout(timer);
-  }, []);
-
-  if (!mapLoaded) {
-    return (
-      <View style={styles.mapPlaceholder}>
-        <ActivityIndicator size="large" color="#C4896F" />
-        <Text style={styles.mapPlaceholderText}>Loading Map...</Text>
-      </View>
-    );
-  }
-
-  return (
-    <View style={styles.webMapContainer}>
-      <View style={styles.webMapPlaceholder}>
-        <MapPin size={32} color="#C4896F" />
-        <Text style={styles.webMapText}>Interactive Map</Text>
-        <Text style={styles.webMapSubtext}>
-          {location 
-            ? `Selected: ${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`
-            : 'Tap to select location'
-          }
-        </Text>
-        <TouchableOpacity
-          style={styles.webMapButton}
-          onPress={() => {
-            // Simulate location selection for web demo
-            const demoLocation = {
-              latitude: 37.7749 + (Math.random() - 0.5) * 0.01,
-              longitude: -122.4194 + (Math.random() - 0.5) * 0.01,
-            };
-            onLocationSelect(demoLocation);
-          }}
-        >
-          <Text style={styles.webMapButtonText}>Select Demo Location</Text>
-        </TouchableOpacity>
-      </View>
-    </View>
-  );
-};
-
-// Native map component (placeholder for when running on mobile)
-const NativeMapView = ({ location, onLocationSelect }: { 
-  location: LocationCoordinate | null; 
-  onLocationSelect: (coordinate: LocationCoordinate) => void;
-}) => {
-  // This would use react-native-maps on native platforms
-  return (
-    <View style={styles.mapContainer}>
-      <Text style={styles.nativeMapText}>
-        Native Map View would be rendered here on mobile devices
-      </Text>
-      <TouchableOpacity
-        style={styles.nativeMapButton}
-        onPress={() => {
-          const demoLocation = {
-            latitude: 37.7749,
-            longitude: -122.4194,
-          };
-          onLocationSelect(demoLocation);
-        }}
-      >
-        <Text style={styles.nativeMapButtonText}>Select Location</Text>
-      </TouchableOpacity>
-    </View>
-  );
-};
-
-interface LocationCoordinate {
-  latitude: number;
-  longitude: number;
-}
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { LocationService, type LocationCoordinate } from '@/lib/locationService';
+import { VenueService, type Venue } from '@/lib/venueService';
+import PinMap from './PinMap';
 
 interface LocationSelectorProps {
   isOnline: boolean;
   selectedLocation: LocationCoordinate | null;
   locationAddress: string;
   onLocationChange: (location: LocationCoordinate | null, address: string) => void;
+  /** Venue the class takes place in, if any */
+  venueId?: string | null;
+  onVenueChange?: (venue: Venue | null) => void;
 }
 
-const PREDEFINED_LOCATIONS = [
-  { name: 'Studio A - Main Hall', address: '123 Wellness St, Downtown' },
-  { name: 'Studio B - Quiet Room', address: '123 Wellness St, Downtown' },
-  { name: 'Outdoor Pavilion', address: '456 Park Ave, Central Park' },
-  { name: 'Community Center', address: '789 Community Blvd, Midtown' },
-  { name: 'Beach Yoga Spot', address: '321 Ocean Drive, Beachfront' },
-];
-
 export default function LocationSelector({
   isOnline,
   selectedLocation,
   locationAddress,
   onLocationChange,
+  venueId = null,
+  onVenueChange,
 }: LocationSelectorProps) {
+  const { profile } = useAuth();
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState(locationAddress);
   const [isSearching, setIsSearching] = useState(false);
-  const [searchResults, setSearchResults] = useState<typeof PREDEFINED_LOCATIONS>([]);
+  const [searchResults, setSearchResults] = useState<Venue[]>([]);
   const [showResults, setShowResults] = useState(false);
+  const [ownVenues, setOwnVenues] = useState<Venue[]>([]);
+  const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
   const [locationPermission, setLocationPermission] = useState<Location.PermissionStatus | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  // Only the latest pin may set the looked-up address
+  const pinRequestId = useRef(0);
+  const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     checkLocationPermission();
   }, []);
 
+  useEffect(() => {
+    if (profile?.id) {
+      fetchOwnVenues();
+    }
+  }, [profile]);
+
+  // Keep the venue card in sync when the class is loaded for editing
+  useEffect(() => {
+    if (!venueId) {
+      setSelectedVenue(null);
+    } else if (selectedVenue?.id !== venueId) {
+      setSelectedVenue(ownVenues.find(venue => venue.id === venueId) || null);
+    }
+  }, [venueId, ownVenues]);
+
+  const fetchOwnVenues = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setOwnVenues(await VenueService.getOwnerVenues(profile.id));
+    } catch (error) {
+      console.error('Error fetching venues:', error);
+    }
+  };
+
   useEffect(() => {
     setSearchQuery(locationAddress);
   }, [locationAddress]);
@@ -181,12 +132,9 @@ export default function LocationSelector({
         longitude: location.coords.longitude,
       };
 
-      // Reverse geocode to get address
-      const addresses = await Location.reverseGeocodeAsync(coordinate);
-      const address = addresses[0] 
-        ? `${addresses[0].street || ''} ${addresses[0].city || ''} ${addresses[0].region || ''}`.trim()
-        : `${coordinate.latitude.toFixed(4)}, ${coordinate.longitude.toFixed(4)}`;
+      const address = await LocationService.getAddress(coordinate);
 
+      clearVenue();
       onLocationChange(coordinate, address);
       setSearchQuery(address);
     } catch (error) {
@@ -199,39 +147,74 @@ export default function LocationSelector({
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
-    setIsSearching(true);
 
-    // Simulate search delay
-    setTimeout(() => {
-      if (query.trim()) {
-        const filtered = PREDEFINED_LOCATIONS.filter(location =>
-          location.name.toLowerCase().includes(query.toLowerCase()) ||
-          location.address.toLowerCase().includes(query.toLowerCase())
-        );
-        setSearchResults(filtered);
-        setShowResults(true);
-      } else {
+    if (searchTimeout.current) {
+      clearTimeout(searchTimeout.current);
+    }
+
+    if (!query.trim() || !profile?.id) {
+      setSearchResults([]);
+      setShowResults(false);
+      setIsSearching(false);
+      return;
+    }
+
+    // Wait for the teacher to stop typing before searching
+    setIsSearching(true);
+    searchTimeout.current = setTimeout(async () => {
+      try {
+        setSearchResults(await VenueService.searchVenues(profile.id, query));
+      } catch (error) {
+        console.error('Error searching venues:', error);
         setSearchResults([]);
-        setShowResults(false);
+      } finally {
+        setShowResults(true);
+        setIsSearching(false);
       }
-      setIsSearching(false);
     }, 300);
   };
 
-  const selectPredefinedLocation = (location: typeof PREDEFINED_LOCATIONS[0]) => {
-    // Generate demo coordinates for predefined locations
-    const demoCoordinate = {
-      latitude: 37.7749 + (Math.random() - 0.5) * 0.1,
-      longitude: -122.4194 + (Math.random() - 0.5) * 0.1,
-    };
+  const clearVenue = () => {
+    if (!selectedVenue && !venueId) return;
+
+    setSelectedVenue(null);
+    onVenueChange?.(null);
+  };
+
+  const selectVenue = async (venue: Venue) => {
+    const address = `${venue.name}, ${venue.address}`;
+    setSearchQuery(address);
+    setShowResults(false);
+    setSelectedVenue(venue);
+    onVenueChange?.(venue);
+
+    const coordinate = venue.latitude != null && venue.longitude != null
+      ? { latitude: venue.latitude, longitude: venue.longitude }
+      : await LocationService.getCoordinates(venue.address);
+    onLocationChange(coordinate, address);
+  };
 
-    onLocationChange(demoCoordinate, location.address);
-    setSearchQuery(location.address);
+  // Use whatever was typed as a plain address, outside of any venue
+  const selectTypedAddress = async () => {
+    const address = searchQuery.trim();
     setShowResults(false);
+    clearVenue();
+
+    const coordinate = await LocationService.getCoordinates(address);
+    onLocationChange(coordinate, address);
   };
 
-  const handleMapLocationSelect = (coordinate: LocationCoordinate) => {
-    const address = `${coordinate.latitude.toFixed(4)}, ${coordinate.longitude.toFixed(4)}`;
+  const handleMapLocationSelect = async (coordinate: LocationCoordinate) => {
+    // Place the pin right away; the address follows once it's looked up
+    const requestId = ++pinRequestId.current;
+    const fallback = `${coordinate.latitude.toFixed(4)}, ${coordinate.longitude.toFixed(4)}`;
+    clearVenue();
+    onLocationChange(coordinate, fallback);
+    setSearchQuery(fallback);
+
+    const address = await LocationService.getAddress(coordinate);
+    if (requestId !== pinRequestId.current) return;
+
     onLocationChange(coordinate, address);
     setSearchQuery(address);
   };
@@ -259,7 +242,7 @@ export default function LocationSelector({
             style={styles.searchInput}
             value={searchQuery}
             onChangeText={handleSearch}
-            placeholder="Search for location or enter address..."
+            placeholder="Search your venues or enter an address..."
             placeholderTextColor="#999"
           />
           {isSearching && <ActivityIndicator size="small" color="#C4896F" />}
@@ -279,38 +262,43 @@ export default function LocationSelector({
       </View>
 
       {/* Search Results */}
-      {showResults && searchResults.length > 0 && (
+      {showResults && (
         <View style={styles.searchResults}>
-          {searchResults.map((location, index) => (
+          {searchResults.map((venue) => (
             <TouchableOpacity
-              key={index}
+              key={venue.id}
               style={styles.searchResultItem}
-              onPress={() => selectPredefinedLocation(location)}
+              onPress={() => selectVenue(venue)}
             >
-              <MapPin size={16} color="#C4896F" />
+              <Building2 size={16} color="#C4896F" />
               <View style={styles.searchResultText}>
-                <Text style={styles.searchResultName}>{location.name}</Text>
-                <Text style={styles.searchResultAddress}>{location.address}</Text>
+                <Text style={styles.searchResultName}>{venue.name}</Text>
+                <Text style={styles.searchResultAddress}>
+                  {venue.address} • Room for {venue.capacity}
+                </Text>
               </View>
             </TouchableOpacity>
           ))}
+          <TouchableOpacity
+            style={styles.searchResultItem}
+            onPress={selectTypedAddress}
+          >
+            <MapPin size={16} color="#C4896F" />
+            <View style={styles.searchResultText}>
+              <Text style={styles.searchResultName}>Use this address</Text>
+              <Text style={styles.searchResultAddress}>{searchQuery.trim()}</Text>
+            </View>
+          </TouchableOpacity>
         </View>
       )}
 
       {/* Map View */}
       <View style={styles.mapSection}>
         <Text style={styles.mapTitle}>Select on Map</Text>
-        {Platform.OS === 'web' ? (
-          <WebMapView
-            location={selectedLocation}
-            onLocationSelect={handleMapLocationSelect}
-          />
-        ) : (
-          <NativeMapView
-            location={selectedLocation}
-            onLocationSelect={handleMapLocationSelect}
-          />
-        )}
+        <PinMap
+          location={selectedLocation}
+          onLocationSelect={handleMapLocationSelect}
+        />
       </View>
 
       {/* Selected Location Info */}
@@ -327,20 +315,55 @@ export default function LocationSelector({
         </View>
       )}
 
+      {/* Selected Venue Info */}
+      {selectedVenue && (
+        <View style={styles.venueInfo}>
+          <View style={styles.venueInfoRow}>
+            <Users size={14} color="#8B7355" />
+            <Text style={styles.venueInfoText}>Room for {selectedVenue.capacity} students</Text>
+          </View>
+          {!!selectedVenue.accessibility_notes && (
+            <View style={styles.venueInfoRow}>
+              <Accessibility size={14} color="#8B7355" />
+              <Text style={styles.venueInfoText}>{selectedVenue.accessibility_notes}</Text>
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Quick Location Options */}
       <View style={styles.quickOptions}>
-        <Text style={styles.quickOptionsTitle}>Quick Select</Text>
-        <View style={styles.quickOptionsGrid}>
-          {PREDEFINED_LOCATIONS.slice(0, 4).map((location, index) => (
-            <TouchableOpacity
-              key={index}
-              style={styles.quickOptionButton}
-              onPress={() => selectPredefinedLocation(location)}
-            >
-              <Text style={styles.quickOptionText}>{location.name}</Text>
-            </TouchableOpacity>
-          ))}
+        <View style={styles.quickOptionsHeader}>
+          <Text style={styles.quickOptionsTitle}>Your Venues</Text>
+          <TouchableOpacity onPress={() => router.push('/venues')}>
+            <Text style={styles.manageVenuesText}>Manage</Text>
+          </TouchableOpacity>
         </View>
+        {ownVenues.length > 0 ? (
+          <View style={styles.quickOptionsGrid}>
+            {ownVenues.map((venue) => (
+              <TouchableOpacity
+                key={venue.id}
+                style={[
+                  styles.quickOptionButton,
+                  venue.id === venueId && styles.quickOptionButtonActive
+                ]}
+                onPress={() => selectVenue(venue)}
+              >
+                <Text style={[
+                  styles.quickOptionText,
+                  venue.id === venueId && styles.quickOptionTextActive
+                ]}>
+                  {venue.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.noVenuesText}>
+            Add your studios and rooms as venues to pick them here.
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -444,83 +467,6 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 12,
   },
-  mapContainer: {
-    height: 200,
-    backgroundColor: 'white',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  mapPlaceholder: {
-    height: 200,
-    backgroundColor: '#F5F5F5',
-    borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 8,
-  },
-  mapPlaceholderText: {
-    fontSize: 16,
-    color: '#666',
-  },
-  webMapContainer: {
-    height: 200,
-    backgroundColor: 'white',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
-    overflow: 'hidden',
-  },
-  webMapPlaceholder: {
-    flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 8,
-    backgroundColor: '#F8F8F8',
-  },
-  webMapText: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#333',
-  },
-  webMapSubtext: {
-    fontSize: 14,
-    color: '#666',
-    textAlign: 'center',
-    paddingHorizontal: 20,
-  },
-  webMapButton: {
-    backgroundColor: '#C4896F',
-    borderRadius: 8,
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    marginTop: 8,
-  },
-  webMapButtonText: {
-    fontSize: 14,
-    color: 'white',
-    fontWeight: '500',
-  },
-  nativeMapText: {
-    fontSize: 16,
-    color: '#666',
-    textAlign: 'center',
-    paddingHorizontal: 20,
-    marginBottom: 16,
-  },
-  nativeMapButton: {
-    backgroundColor: '#C4896F',
-    borderRadius: 8,
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-  },
-  nativeMapButtonText: {
-    fontSize: 14,
-    color: 'white',
-    fontWeight: '500',
-  },
   selectedLocationInfo: {
     backgroundColor: '#E8F5E8',
     borderRadius: 12,
@@ -551,11 +497,25 @@ const styles = StyleSheet.create({
   quickOptions: {
     marginTop: 8,
   },
+  quickOptionsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
   quickOptionsTitle: {
     fontSize: 16,
     fontWeight: '500',
     color: '#333',
-    marginBottom: 12,
+  },
+  manageVenuesText: {
+    fontSize: 14,
+    color: '#C4896F',
+    fontWeight: '600',
+  },
+  noVenuesText: {
+    fontSize: 14,
+    color: '#999',
   },
   quickOptionsGrid: {
     flexDirection: 'row',
@@ -571,9 +531,34 @@ const styles = StyleSheet.create({
     borderColor: '#E0E0E0',
     minWidth: (width - 60) / 2,
   },
+  quickOptionButtonActive: {
+    backgroundColor: '#C4896F',
+    borderColor: '#C4896F',
+  },
   quickOptionText: {
     fontSize: 12,
     color: '#666',
     textAlign: 'center',
   },
+  quickOptionTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  venueInfo: {
+    backgroundColor: '#F5F0EB',
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+    marginBottom: 16,
+  },
+  venueInfoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  venueInfoText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#8B7355',
+  },
 });
\ No newline at end of file
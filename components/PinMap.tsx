@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import MapView, { Marker, type MapPressEvent, type MarkerDragStartEndEvent, type Region } from 'react-native-maps';
+import type { LocationCoordinate } from '@/lib/locationService';
+
+interface PinMapProps {
+  location: LocationCoordinate | null;
+  onLocationSelect: (coordinate: LocationCoordinate) => void;
+}
+
+// Shown until a pin is placed
+const DEFAULT_REGION: Region = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  latitudeDelta: 0.2,
+  longitudeDelta: 0.2,
+};
+
+const PIN_DELTA = 0.01;
+
+export default function PinMap({ location, onLocationSelect }: PinMapProps) {
+  const mapRef = useRef<MapView>(null);
+
+  // Follow pins set from outside the map, e.g. search results or current location
+  useEffect(() => {
+    if (!location) return;
+
+    mapRef.current?.animateToRegion({
+      ...location,
+      latitudeDelta: PIN_DELTA,
+      longitudeDelta: PIN_DELTA,
+    });
+  }, [location?.latitude, location?.longitude]);
+
+  const handlePress = (event: MapPressEvent) => {
+    onLocationSelect(event.nativeEvent.coordinate);
+  };
+
+  const handleDragEnd = (event: MarkerDragStartEndEvent) => {
+    onLocationSelect(event.nativeEvent.coordinate);
+  };
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={location
+          ? { ...location, latitudeDelta: PIN_DELTA, longitudeDelta: PIN_DELTA }
+          : DEFAULT_REGION
+        }
+        onPress={handlePress}
+        showsUserLocation
+      >
+        {location && (
+          <Marker
+            coordinate={location}
+            draggable
+            onDragEnd={handleDragEnd}
+            pinColor="#C4896F"
+          />
+        )}
+      </MapView>
+      <Text style={styles.hint}>
+        {location ? 'Drag the pin to adjust the location' : 'Tap the map to drop a pin'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#F8F8F8',
+  },
+  map: {
+    height: 220,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+import type { LocationCoordinate } from '@/lib/locationService';
+
+interface PinMapProps {
+  location: LocationCoordinate | null;
+  onLocationSelect: (coordinate: LocationCoordinate) => void;
+}
+
+// react-native-maps has no web support, so the browser gets coordinate fields instead
+export default function PinMap({ location, onLocationSelect }: PinMapProps) {
+  const [latitude, setLatitude] = useState(location ? location.latitude.toString() : '');
+  const [longitude, setLongitude] = useState(location ? location.longitude.toString() : '');
+
+  useEffect(() => {
+    setLatitude(location ? location.latitude.toString() : '');
+    setLongitude(location ? location.longitude.toString() : '');
+  }, [location?.latitude, location?.longitude]);
+
+  const handleSubmit = () => {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+
+    if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return;
+    onLocationSelect({ latitude: lat, longitude: lng });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <MapPin size={20} color="#C4896F" />
+        <Text style={styles.title}>Map pins are available in the mobile app</Text>
+      </View>
+      <Text style={styles.subtitle}>Enter the coordinates of the location instead</Text>
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          value={latitude}
+          onChangeText={setLatitude}
+          onBlur={handleSubmit}
+          placeholder="Latitude"
+          placeholderTextColor="#999"
+          keyboardType="numeric"
+        />
+        <TextInput
+          style={styles.input}
+          value={longitude}
+          onChangeText={setLongitude}
+          onBlur={handleSubmit}
+          placeholder="Longitude"
+          placeholderTextColor="#999"
+          keyboardType="numeric"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F8F8F8',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    padding: 16,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+});
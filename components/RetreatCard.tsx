@@ -1,7 +1,10 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
-import { Calendar, MapPin, Globe, Users, Clock } from 'lucide-react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import { Calendar, MapPin, Globe, Users, Clock, ChevronDown, ChevronUp } from 'lucide-react-native';
+import { RetreatItineraryService, type RetreatSession } from '@/lib/retreatItineraryService';
+import { PricingService, type PricingRule } from '@/lib/pricingService';
 import TeacherAvatar from './TeacherAvatar';
+import RetreatItinerary from './RetreatItinerary';
 
 interface RetreatCardProps {
   retreat: {
@@ -28,11 +31,18 @@ interface RetreatCardProps {
       avatar_url?: string;
     };
   };
+  /** Discounts the retreat is sold with */
+  pricingRules?: PricingRule[];
   onPress?: () => void;
   compact?: boolean;
 }
 
-export default function RetreatCard({ retreat, onPress, compact = false }: RetreatCardProps) {
+export default function RetreatCard({ retreat, pricingRules = [], onPress, compact = false }: RetreatCardProps) {
+  const [showItinerary, setShowItinerary] = useState(false);
+  // Loaded the first time the itinerary is opened
+  const [itinerary, setItinerary] = useState<RetreatSession[] | null>(null);
+  const [itineraryLoading, setItineraryLoading] = useState(false);
+
   const getDuration = () => {
     if (!retreat.retreat_end_date) return 1;
     const start = new Date(retreat.date);
@@ -57,15 +67,23 @@ export default function RetreatCard({ retreat, onPress, compact = false }: Retre
     }
   };
 
-  const isEarlyBirdActive = () => {
-    if (!retreat.early_bird_deadline) return false;
-    return new Date(retreat.early_bird_deadline) >= new Date();
-  };
+  const pricing = PricingService.calculatePrice(retreat, pricingRules);
+  // The early bird or last-minute window on offer today
+  const discount = pricing.adjustments[0];
+
+  const toggleItinerary = async () => {
+    setShowItinerary(!showItinerary);
+    if (showItinerary || itinerary) return;
 
-  const getCurrentPrice = () => {
-    return isEarlyBirdActive() && retreat.early_bird_price 
-      ? retreat.early_bird_price 
-      : retreat.price;
+    setItineraryLoading(true);
+    try {
+      setItinerary(await RetreatItineraryService.getItinerary(retreat.id));
+    } catch (error) {
+      console.error('Error fetching retreat itinerary:', error);
+      setShowItinerary(false);
+    } finally {
+      setItineraryLoading(false);
+    }
   };
 
   const teacherName = retreat.profiles?.full_name || 'Unknown Teacher';
@@ -94,7 +112,7 @@ export default function RetreatCard({ retreat, onPress, compact = false }: Retre
           <Text style={styles.compactLocation} numberOfLines={1}>
             {retreat.is_virtual ? '🌐 Virtual' : `📍 ${retreat.location}`}
           </Text>
-          <Text style={styles.compactPrice}>€{getCurrentPrice()}</Text>
+          <Text style={styles.compactPrice}>{PricingService.formatPrice(pricing)}</Text>
         </View>
       </TouchableOpacity>
     );
@@ -114,9 +132,9 @@ export default function RetreatCard({ retreat, onPress, compact = false }: Retre
           <View style={styles.durationBadge}>
             <Text style={styles.durationText}>{getDuration()}-Day Retreat</Text>
           </View>
-          {isEarlyBirdActive() && (
+          {discount && (
             <View style={styles.earlyBirdBadge}>
-              <Text style={styles.earlyBirdText}>Early Bird</Text>
+              <Text style={styles.earlyBirdText}>{discount.label}</Text>
             </View>
           )}
         </View>
@@ -188,12 +206,38 @@ export default function RetreatCard({ retreat, onPress, compact = false }: Retre
           </View>
         )}
 
+        {/* Itinerary */}
+        <TouchableOpacity style={styles.itineraryToggle} onPress={toggleItinerary}>
+          <Text style={styles.itineraryToggleText}>
+            {showItinerary ? 'Hide itinerary' : 'Show itinerary'}
+          </Text>
+          {showItinerary ? (
+            <ChevronUp size={16} color="#8B7355" />
+          ) : (
+            <ChevronDown size={16} color="#8B7355" />
+          )}
+        </TouchableOpacity>
+        {showItinerary && (
+          <View style={styles.itinerary}>
+            {itineraryLoading ? (
+              <ActivityIndicator size="small" color="#8B7355" />
+            ) : itinerary && itinerary.length > 0 ? (
+              <RetreatItinerary
+                days={RetreatItineraryService.groupByDay(itinerary, retreat.date, retreat.retreat_end_date)}
+                compact
+              />
+            ) : (
+              <Text style={styles.noItinerary}>The schedule hasn't been published yet.</Text>
+            )}
+          </View>
+        )}
+
         <View style={styles.footer}>
           <View style={styles.priceContainer}>
-            {isEarlyBirdActive() && retreat.early_bird_price && (
-              <Text style={styles.originalPrice}>€{retreat.price}</Text>
+            {discount && (
+              <Text style={styles.originalPrice}>{PricingService.formatAmount(pricing.base_price)}</Text>
             )}
-            <Text style={styles.price}>€{getCurrentPrice()}</Text>
+            <Text style={styles.price}>{PricingService.formatPrice(pricing)}</Text>
           </View>
           <View style={styles.levelBadge}>
             <Text style={styles.levelText}>{retreat.level}</Text>
@@ -362,6 +406,25 @@ const styles = StyleSheet.create({
     color: '#8B7355',
     fontWeight: '500',
   },
+  itineraryToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  itineraryToggleText: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  itinerary: {
+    marginBottom: 16,
+  },
+  noItinerary: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Clock, User, MapPin } from 'lucide-react-native';
+import {
+  RetreatItineraryService,
+  type ItineraryDay,
+  type RetreatSessionInput,
+} from '@/lib/retreatItineraryService';
+
+interface RetreatItineraryProps {
+  days: ItineraryDay<RetreatSessionInput>[];
+  /** Hide session leaders and locations to keep cards short */
+  compact?: boolean;
+}
+
+export default function RetreatItinerary({ days, compact = false }: RetreatItineraryProps) {
+  return (
+    <View style={styles.container}>
+      {days.map((day) => (
+        <View key={day.day_number} style={styles.day}>
+          <View style={styles.dayHeader}>
+            <Text style={styles.dayNumber}>Day {day.day_number}</Text>
+            <Text style={styles.dayDate}>
+              {day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+            </Text>
+          </View>
+
+          {day.sessions.length === 0 ? (
+            <Text style={styles.freeDay}>Free day</Text>
+          ) : (
+            day.sessions.map((session, index) => (
+              <View key={`${session.start_time}-${index}`} style={styles.session}>
+                <View style={styles.sessionTime}>
+                  <Clock size={12} color="#8B7355" />
+                  <Text style={styles.sessionTimeText}>
+                    {RetreatItineraryService.formatSessionTime(session)}
+                  </Text>
+                </View>
+                <View style={styles.sessionBody}>
+                  <Text style={styles.sessionTitle}>{session.title}</Text>
+                  {!compact && !!session.leader && (
+                    <View style={styles.sessionDetail}>
+                      <User size={12} color="#999" />
+                      <Text style={styles.sessionDetailText}>{session.leader}</Text>
+                    </View>
+                  )}
+                  {!compact && !!session.location && (
+                    <View style={styles.sessionDetail}>
+                      <MapPin size={12} color="#999" />
+                      <Text style={styles.sessionDetailText}>{session.location}</Text>
+                    </View>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  day: {
+    borderLeftWidth: 2,
+    borderLeftColor: '#E8DDD0',
+    paddingLeft: 12,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+    marginBottom: 8,
+  },
+  dayNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  dayDate: {
+    fontSize: 13,
+    color: '#999',
+  },
+  freeDay: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  session: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  sessionTime: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    width: 110,
+  },
+  sessionTimeText: {
+    fontSize: 13,
+    color: '#8B7355',
+    fontWeight: '500',
+  },
+  sessionBody: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  sessionDetail: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  sessionDetailText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import StarRating from './StarRating';
+import type { Review } from '@/lib/reviewService';
+
+interface ReviewModalProps {
+  visible: boolean;
+  classTitle: string;
+  teacherName: string;
+  /** The student's earlier review, when editing */
+  existingReview?: Review | null;
+  submitting?: boolean;
+  onSubmit: (rating: number, comment: string) => void;
+  onClose: () => void;
+}
+
+const RATING_LABELS = ['', 'Poor', 'Fair', 'Good', 'Very good', 'Excellent'];
+
+export default function ReviewModal({
+  visible,
+  classTitle,
+  teacherName,
+  existingReview,
+  submitting = false,
+  onSubmit,
+  onClose
+}: ReviewModalProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setRating(existingReview?.rating ?? 0);
+      setComment(existingReview?.comment ?? '');
+    }
+  }, [visible, existingReview]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{existingReview ? 'Edit Your Review' : 'Leave a Review'}</Text>
+          <Text style={styles.subtitle}>{classTitle} with {teacherName}</Text>
+
+          <View style={styles.ratingRow}>
+            <StarRating rating={rating} size={32} onChange={setRating} />
+            <Text style={styles.ratingLabel}>{RATING_LABELS[rating]}</Text>
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={comment}
+            onChangeText={setComment}
+            placeholder="What did you think of the class? (optional)"
+            multiline
+            maxLength={1000}
+            editable={!submitting}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={onClose}
+              disabled={submitting}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (rating === 0 || submitting) && styles.buttonDisabled]}
+              onPress={() => onSubmit(rating, comment.trim())}
+              disabled={rating === 0 || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Submit</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+  },
+  ratingRow: {
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 20,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    color: '#8B7355',
+    fontWeight: '500',
+    minHeight: 18,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#F8F8F8',
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#8B7355',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
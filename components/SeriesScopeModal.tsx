@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import type { SeriesScope } from '@/lib/classSeriesService';
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  title: string;
+  /** Verb for the options, e.g. "Edit" or "Delete" */
+  actionLabel: string;
+  destructive?: boolean;
+  onSelect: (scope: SeriesScope) => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: SeriesScope; label: string }[] = [
+  { scope: 'single', label: 'This class only' },
+  { scope: 'following', label: 'This and following classes' },
+  { scope: 'all', label: 'All upcoming classes in the series' },
+];
+
+export default function SeriesScopeModal({
+  visible,
+  title,
+  actionLabel,
+  destructive = false,
+  onSelect,
+  onClose
+}: SeriesScopeModalProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.subtitle}>This class is part of a recurring series.</Text>
+
+          {SCOPE_OPTIONS.map(({ scope, label }) => (
+            <TouchableOpacity
+              key={scope}
+              style={styles.option}
+              onPress={() => onSelect(scope)}
+            >
+              <Text style={[styles.optionText, destructive && styles.destructiveText]}>
+                {actionLabel} {label.charAt(0).toLowerCase() + label.slice(1)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelOption} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  option: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#C4896F',
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: '#FF6B6B',
+  },
+  cancelOption: {
+    paddingVertical: 14,
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Star } from 'lucide-react-native';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  /** Makes the stars tappable */
+  onChange?: (rating: number) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+export default function StarRating({ rating, size = 16, onChange }: StarRatingProps) {
+  return (
+    <View style={[styles.container, onChange && styles.editableContainer]}>
+      {STARS.map((star) => {
+        const filled = star <= Math.round(rating);
+        const icon = (
+          <Star
+            size={size}
+            color={filled ? '#FFD700' : '#CCC'}
+            fill={filled ? '#FFD700' : 'transparent'}
+          />
+        );
+
+        return onChange ? (
+          <TouchableOpacity key={star} onPress={() => onChange(star)} hitSlop={4}>
+            {icon}
+          </TouchableOpacity>
+        ) : (
+          <View key={star}>{icon}</View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  editableContainer: {
+    gap: 8,
+  },
+});
@@ -13,7 +13,8 @@ interface TeacherProfile {
 interface TeacherCardProps {
   teacher: TeacherProfile;
   classCount?: number;
-  rating?: number;
+  /** Average of the teacher's published reviews */
+  rating?: number | null;
   reviewCount?: number;
   specialties?: string[];
   onPress?: () => void;
@@ -23,12 +24,14 @@ interface TeacherCardProps {
 export default function TeacherCard({
   teacher,
   classCount = 0,
-  rating = 4.8,
-  reviewCount = 127,
-  specialties = ['Hatha', 'Vinyasa'],
+  rating = null,
+  reviewCount = 0,
+  specialties = [],
   onPress,
   compact = false
 }: TeacherCardProps) {
+  const hasReviews = rating !== null && reviewCount > 0;
+
   if (compact) {
     return (
       <TouchableOpacity 
@@ -47,8 +50,8 @@ export default function TeacherCard({
             {teacher.full_name}
           </Text>
           <View style={styles.compactRating}>
-            <Star size={12} color="#FFD700" fill="#FFD700" />
-            <Text style={styles.compactRatingText}>{rating}</Text>
+            <Star size={12} color="#FFD700" fill={hasReviews ? '#FFD700' : 'transparent'} />
+            <Text style={styles.compactRatingText}>{hasReviews ? rating.toFixed(1) : 'New'}</Text>
           </View>
         </View>
       </TouchableOpacity>
@@ -73,9 +76,12 @@ export default function TeacherCard({
           <Text style={styles.name}>{teacher.full_name}</Text>
           
           <View style={styles.rating}>
-            <Star size={16} color="#FFD700" fill="#FFD700" />
+            <Star size={16} color="#FFD700" fill={hasReviews ? '#FFD700' : 'transparent'} />
             <Text style={styles.ratingText}>
-              {rating} ({reviewCount} reviews)
+              {hasReviews
+                ? `${rating.toFixed(1)} (${reviewCount} ${reviewCount === 1 ? 'review' : 'reviews'})`
+                : 'No reviews yet'
+              }
             </Text>
           </View>
           
@@ -0,0 +1,112 @@
+/**
+ * Accommodation Service
+ * Handles the room options a retreat is sold with and the room list of its guests
+ */
+
+import { supabase } from './supabase';
+
+export interface RetreatAccommodation {
+  id: string;
+  retreat_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  early_bird_price: number | null;
+  /** Guests the option sleeps across all its rooms */
+  capacity: number;
+  sort_order: number;
+  /** Capacity less paid guests and held spots */
+  spots_left: number;
+}
+
+export type AccommodationInput = Pick<
+  RetreatAccommodation,
+  'name' | 'description' | 'price' | 'early_bird_price' | 'capacity'
+>;
+
+export interface RoomListEntry {
+  id: string;
+  student_id: string;
+  accommodation_id: string | null;
+  room_assignment: string | null;
+  profiles: {
+    full_name: string;
+    email: string;
+  };
+}
+
+export class AccommodationService {
+  /**
+   * Get a retreat's accommodation options with the spots left in each
+   */
+  static async getAccommodations(retreatId: string): Promise<RetreatAccommodation[]> {
+    const { data, error } = await supabase.rpc('get_retreat_accommodations', {
+      p_retreat_id: retreatId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Pick or change the accommodation of a booking that hasn't been paid yet
+   */
+  static async chooseAccommodation(
+    bookingId: string,
+    studentId: string,
+    accommodationId: string
+  ): Promise<void> {
+    const { error } = await supabase.rpc('choose_booking_accommodation', {
+      p_booking_id: bookingId,
+      p_student_id: studentId,
+      p_accommodation_id: accommodationId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Get the guests of a retreat who paid in full or a deposit, with their accommodation and room
+   */
+  static async getRoomList(retreatId: string): Promise<RoomListEntry[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        profiles!bookings_student_id_fkey (
+          full_name,
+          email
+        )
+      `)
+      .eq('class_id', retreatId)
+      .eq('status', 'confirmed')
+      .in('payment_status', ['completed', 'partially_paid'])
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Put a guest in a room. An empty room clears the assignment.
+   */
+  static async assignRoom(bookingId: string, teacherId: string, room: string): Promise<void> {
+    const { error } = await supabase.rpc('assign_retreat_room', {
+      p_booking_id: bookingId,
+      p_teacher_id: teacherId,
+      p_room: room
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
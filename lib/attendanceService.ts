@@ -0,0 +1,121 @@
+/**
+ * Attendance Service
+ * Handles QR check-in at the studio and the attendance list of a class
+ */
+
+import { supabase } from './supabase';
+
+export type AttendanceStatus = 'checked_in' | 'no_show';
+
+export interface AttendanceEntry {
+  id: string;
+  student_id: string;
+  payment_status: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+  attendance: AttendanceStatus | null;
+  checked_in_at: string | null;
+  profiles: {
+    full_name: string;
+    email: string;
+  };
+}
+
+const CHECK_IN_PREFIX = 'yogify-checkin:';
+
+export class AttendanceService {
+  /**
+   * Contents of the QR code a student shows at the studio
+   */
+  static getCheckInPayload(checkInCode: string): string {
+    return `${CHECK_IN_PREFIX}${checkInCode}`;
+  }
+
+  /**
+   * Read the check-in code from a scanned QR code, or null when it isn't one of ours
+   */
+  static parseCheckInPayload(data: string): string | null {
+    if (!data.startsWith(CHECK_IN_PREFIX)) return null;
+
+    const code = data.slice(CHECK_IN_PREFIX.length);
+    return /^[0-9a-f-]{36}$/i.test(code) ? code : null;
+  }
+
+  /**
+   * Get the booked students of a class with their attendance
+   */
+  static async getClassAttendance(classId: string): Promise<AttendanceEntry[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        profiles!bookings_student_id_fkey (
+          full_name,
+          email
+        )
+      `)
+      .eq('class_id', classId)
+      .eq('status', 'confirmed')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Check a student in with the code from their QR code
+   */
+  static async checkIn(
+    classId: string,
+    teacherId: string,
+    checkInCode: string
+  ): Promise<{ booking_id: string; student_name: string }> {
+    const { data, error } = await supabase.rpc('check_in_booking', {
+      p_class_id: classId,
+      p_teacher_id: teacherId,
+      p_check_in_code: checkInCode
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Set or correct a student's attendance by hand
+   */
+  static async markAttendance(
+    bookingId: string,
+    teacherId: string,
+    attendance: AttendanceStatus
+  ): Promise<void> {
+    const { error } = await supabase.rpc('mark_attendance', {
+      p_booking_id: bookingId,
+      p_teacher_id: teacherId,
+      p_attendance: attendance
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Mark every paid student who hasn't checked in as a no-show
+   */
+  static async markRemainingNoShows(classId: string, teacherId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_remaining_no_shows', {
+      p_class_id: classId,
+      p_teacher_id: teacherId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Cancellation Policy Service
+ * Manages teacher cancellation policies and the refunds they grant
+ */
+
+import { supabase } from './supabase';
+
+export interface RefundTier {
+  /** Minimum notice, in hours before the class starts */
+  hours_before: number;
+  refund_percent: number;
+}
+
+export interface CancellationPolicy {
+  id: string;
+  teacher_id: string;
+  name: string;
+  tiers: RefundTier[];
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundQuote {
+  booking_id: string;
+  payment_id: string | null;
+  policy_id: string | null;
+  policy_name: string | null;
+  tiers: RefundTier[];
+  hours_before_class: number;
+  amount_paid: number;
+  refund_percent: number;
+  refund_amount: number;
+  currency: string;
+  /** Set when the booking was paid with a class credit */
+  pack_purchase_id: string | null;
+  credit_returned: boolean;
+}
+
+export class CancellationPolicyService {
+  /**
+   * Get all cancellation policies of a teacher, default first
+   */
+  static async getTeacherPolicies(teacherId: string): Promise<CancellationPolicy[]> {
+    const { data, error } = await supabase
+      .from('cancellation_policies')
+      .select('*')
+      .eq('teacher_id', teacherId)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or update a policy; tiers are stored with the longest notice first
+   */
+  static async savePolicy(
+    teacherId: string,
+    policy: { id?: string; name: string; tiers: RefundTier[] }
+  ): Promise<CancellationPolicy> {
+    const tiers = this.sortTiers(policy.tiers);
+
+    const query = policy.id
+      ? supabase
+          .from('cancellation_policies')
+          .update({ name: policy.name, tiers })
+          .eq('id', policy.id)
+          .eq('teacher_id', teacherId)
+      : supabase
+          .from('cancellation_policies')
+          .insert({ teacher_id: teacherId, name: policy.name, tiers });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a policy; classes using it fall back to the teacher's default
+   */
+  static async deletePolicy(policyId: string, teacherId: string): Promise<void> {
+    const { error } = await supabase
+      .from('cancellation_policies')
+      .delete()
+      .eq('id', policyId)
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Make a policy the default for all of the teacher's classes without their own
+   */
+  static async setDefaultPolicy(policyId: string, teacherId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('set_default_cancellation_policy', {
+      p_policy_id: policyId,
+      p_teacher_id: teacherId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Preview the refund a student would get for cancelling now
+   */
+  static async getRefundQuote(bookingId: string, studentId: string): Promise<RefundQuote> {
+    const { data, error } = await supabase.rpc('get_refund_quote', {
+      p_booking_id: bookingId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      ...data,
+      amount_paid: Number(data.amount_paid),
+      refund_percent: Number(data.refund_percent),
+      refund_amount: Number(data.refund_amount),
+      hours_before_class: Number(data.hours_before_class)
+    };
+  }
+
+  /**
+   * Sort tiers so the longest notice period comes first
+   */
+  static sortTiers(tiers: RefundTier[]): RefundTier[] {
+    return [...tiers].sort((a, b) => b.hours_before - a.hours_before);
+  }
+
+  /**
+   * Human-readable summary of a policy, e.g. "100% refund 24h+ before · 50% refund 6h+ before"
+   */
+  static describeTiers(tiers: RefundTier[]): string {
+    if (tiers.length === 0) {
+      return 'No refunds';
+    }
+
+    return this.sortTiers(tiers)
+      .map(tier => `${tier.refund_percent}% refund ${tier.hours_before}h+ before`)
+      .join(' · ');
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Class Change Service
+ * Cancels classes and reads the notices students get when a teacher moves or
+ * cancels a class they have booked
+ */
+
+import { supabase } from './supabase';
+
+export type ClassChangeField = 'date' | 'time' | 'location' | 'meeting_link';
+
+export type ClassChanges = Partial<Record<ClassChangeField, { old: string | null; new: string | null }>>;
+
+export interface ClassChangeNotice {
+  id: string;
+  class_id: string;
+  booking_id: string;
+  student_id: string;
+  changes: ClassChanges;
+  kind: 'changed' | 'cancelled';
+  dismissed_at: string | null;
+  created_at: string;
+}
+
+export interface ClassCancellationNotice extends ClassChangeNotice {
+  yoga_classes: {
+    title: string;
+    date: string;
+    time: string;
+    is_retreat?: boolean;
+    cancellation_reason: string | null;
+  };
+  bookings: {
+    payment_status: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+    pack_purchase_id: string | null;
+    membership_id: string | null;
+  };
+}
+
+export class ClassChangeService {
+  /**
+   * Cancel a single class. Every booking is cancelled and refunded in full.
+   */
+  static async cancelClass(
+    classId: string,
+    teacherId: string,
+    reason?: string
+  ): Promise<{ class_id: string; booking_count: number }> {
+    const { data, error } = await supabase.rpc('cancel_class', {
+      p_class_id: classId,
+      p_teacher_id: teacherId,
+      p_reason: reason ?? null
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a student's notices that haven't been dismissed, merged per booking
+   */
+  static async getOpenChanges(studentId: string): Promise<Record<string, ClassChanges>> {
+    const { data, error } = await supabase
+      .from('class_change_notices')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('kind', 'changed')
+      .is('dismissed_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    // Later edits overwrite the new value but keep the value the student originally booked
+    const changesByBooking: Record<string, ClassChanges> = {};
+    (data || []).forEach((notice: ClassChangeNotice) => {
+      const merged = changesByBooking[notice.booking_id] || {};
+      (Object.keys(notice.changes) as ClassChangeField[]).forEach((field) => {
+        const change = notice.changes[field]!;
+        const old = field in merged ? merged[field]!.old : change.old;
+
+        if (old === change.new) {
+          delete merged[field];
+        } else {
+          merged[field] = { old, new: change.new };
+        }
+      });
+
+      if (Object.keys(merged).length > 0) {
+        changesByBooking[notice.booking_id] = merged;
+      } else {
+        delete changesByBooking[notice.booking_id];
+      }
+    });
+
+    return changesByBooking;
+  }
+
+  /**
+   * Get a student's notices about cancelled classes that haven't been dismissed, newest first
+   */
+  static async getOpenCancellations(studentId: string): Promise<ClassCancellationNotice[]> {
+    const { data, error } = await supabase
+      .from('class_change_notices')
+      .select(`
+        *,
+        yoga_classes (
+          title,
+          date,
+          time,
+          is_retreat,
+          cancellation_reason
+        ),
+        bookings (
+          payment_status,
+          pack_purchase_id,
+          membership_id
+        )
+      `)
+      .eq('student_id', studentId)
+      .eq('kind', 'cancelled')
+      .is('dismissed_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Dismiss the change and cancellation notices of a booking
+   */
+  static async dismissChanges(bookingId: string, studentId: string): Promise<void> {
+    const { error } = await supabase.rpc('dismiss_class_change_notices', {
+      p_booking_id: bookingId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
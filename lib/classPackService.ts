@@ -0,0 +1,191 @@
+/**
+ * Class Pack Service
+ * Manages the class packs teachers sell and the credits students redeem for bookings
+ */
+
+import { supabase } from './supabase';
+
+export interface ClassPack {
+  id: string;
+  teacher_id: string;
+  name: string;
+  class_count: number;
+  price: number;
+  validity_days: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PackPurchase {
+  id: string;
+  pack_id: string;
+  student_id: string;
+  teacher_id: string;
+  credits_total: number;
+  credits_remaining: number;
+  price: number;
+  validity_days: number;
+  status: 'pending' | 'active' | 'failed';
+  purchased_at?: string | null;
+  expires_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreditBalance extends PackPurchase {
+  class_packs: {
+    name: string;
+  };
+  profiles: {
+    full_name: string;
+  };
+}
+
+export class ClassPackService {
+  /**
+   * Get a teacher's packs, smallest first; students only see packs on sale
+   */
+  static async getTeacherPacks(teacherId: string, activeOnly = false): Promise<ClassPack[]> {
+    let query = supabase
+      .from('class_packs')
+      .select('*')
+      .eq('teacher_id', teacherId);
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('class_count', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or update a pack; existing purchases keep the terms they were bought with
+   */
+  static async savePack(
+    teacherId: string,
+    pack: { id?: string; name: string; class_count: number; price: number; validity_days: number }
+  ): Promise<ClassPack> {
+    const values = {
+      name: pack.name,
+      class_count: pack.class_count,
+      price: pack.price,
+      validity_days: pack.validity_days
+    };
+
+    const query = pack.id
+      ? supabase
+          .from('class_packs')
+          .update(values)
+          .eq('id', pack.id)
+          .eq('teacher_id', teacherId)
+      : supabase
+          .from('class_packs')
+          .insert({ teacher_id: teacherId, ...values });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Put a pack on sale or withdraw it; purchased credits stay valid either way
+   */
+  static async setPackActive(packId: string, teacherId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('class_packs')
+      .update({ is_active: isActive })
+      .eq('id', packId)
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Get a student's unexpired purchases that still have credits, soonest expiry first
+   */
+  static async getStudentCredits(studentId: string): Promise<CreditBalance[]> {
+    const { data, error } = await supabase
+      .from('pack_purchases')
+      .select(`
+        *,
+        class_packs (
+          name
+        ),
+        profiles!pack_purchases_teacher_id_fkey (
+          full_name
+        )
+      `)
+      .eq('student_id', studentId)
+      .eq('status', 'active')
+      .gt('credits_remaining', 0)
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Count the credits a student can spend on a teacher's classes
+   */
+  static async getAvailableCredits(studentId: string, teacherId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('pack_purchases')
+      .select('credits_remaining')
+      .eq('student_id', studentId)
+      .eq('teacher_id', teacherId)
+      .eq('status', 'active')
+      .gt('credits_remaining', 0)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).reduce((total, purchase) => total + purchase.credits_remaining, 0);
+  }
+
+  /**
+   * Book a class with the student's soonest-expiring credit for its teacher.
+   * The booking is confirmed and paid immediately.
+   */
+  static async bookWithCredit(studentId: string, classId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_booking_with_count', {
+      p_student_id: studentId,
+      p_class_id: classId,
+      p_use_credit: true
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Short description of a pack, e.g. "10 classes · valid 90 days"
+   */
+  static describePack(pack: Pick<ClassPack, 'class_count' | 'validity_days'>): string {
+    const classes = pack.class_count === 1 ? '1 class' : `${pack.class_count} classes`;
+    return `${classes} · valid ${pack.validity_days} days`;
+  }
+}
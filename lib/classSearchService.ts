@@ -0,0 +1,160 @@
+/**
+ * Class Search Service
+ * Searches and pages upcoming classes and retreats on the server for Explore
+ */
+
+import { supabase } from './supabase';
+import type { LocationCoordinate } from './locationService';
+
+export type FilterState = {
+  type: string;
+  level: string;
+  date: string;
+  mode: string; // 'all', 'in-person', 'virtual'
+  priceRange: [number, number];
+  duration: string; // 'all', '1-3', '4-7', '7+'
+  following: boolean; // Only teachers the student follows
+  radiusKm: number | null; // null = any distance
+  sortBy: 'date' | 'distance';
+};
+
+export const DEFAULT_FILTERS: FilterState = {
+  type: 'All',
+  level: 'All',
+  date: 'All',
+  mode: 'all',
+  priceRange: [0, 1000],
+  duration: 'all',
+  following: false,
+  radiusKm: null,
+  sortBy: 'date'
+};
+
+export const RADIUS_OPTIONS_KM = [2, 5, 10, 25, 50];
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export interface SearchResultItem {
+  id: string;
+  title: string;
+  description: string;
+  teacher_id: string;
+  date: string;
+  time: string;
+  duration: number;
+  max_participants: number;
+  current_participants: number;
+  price: number;
+  level: 'beginner' | 'intermediate' | 'advanced';
+  type: string;
+  location: string;
+  image_url?: string;
+  is_retreat?: boolean;
+  is_virtual?: boolean;
+  retreat_end_date?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  retreat_capacity?: number;
+  retreat_image_url?: string;
+  retreat_highlights?: string[];
+  early_bird_price?: number;
+  early_bird_deadline?: string;
+  sliding_scale_min?: number | null;
+  sliding_scale_max?: number | null;
+  /** Confirmed bookings right now */
+  participant_count: number;
+  /** Distance from the search origin, when one was given and the class has coordinates */
+  distance_km: number | null;
+  profiles: {
+    full_name: string;
+    avatar_url?: string;
+  };
+}
+
+export interface SearchPage {
+  items: SearchResultItem[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export class ClassSearchService {
+  /**
+   * Get one page of upcoming classes or retreats matching the filters and search text.
+   * Pass the followed teacher ids when the Following filter is on, and the
+   * student's location when filtering or sorting by distance.
+   */
+  static async searchClasses(
+    isRetreat: boolean,
+    filters: FilterState,
+    query: string,
+    offset: number = 0,
+    followedTeacherIds: string[] = [],
+    origin: LocationCoordinate | null = null
+  ): Promise<SearchPage> {
+    const { from, to } = this.getDateRange(filters.date);
+
+    const { data, error } = await supabase.rpc('search_classes', {
+      p_is_retreat: isRetreat,
+      p_query: query.trim() || null,
+      p_type: filters.type !== 'All' ? filters.type : null,
+      p_level: filters.level !== 'All' ? filters.level : null,
+      p_date_from: from,
+      p_date_to: to,
+      p_mode: filters.mode,
+      p_min_price: filters.priceRange[0],
+      p_max_price: filters.priceRange[1],
+      p_duration: isRetreat ? filters.duration : 'all',
+      p_teacher_ids: filters.following ? followedTeacherIds : null,
+      p_latitude: origin?.latitude ?? null,
+      p_longitude: origin?.longitude ?? null,
+      p_radius_km: origin ? filters.radiusKm : null,
+      p_sort: origin ? filters.sortBy : 'date',
+      p_limit: SEARCH_PAGE_SIZE,
+      p_offset: offset
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const items: SearchResultItem[] = data?.items || [];
+    const totalCount: number = data?.total_count || 0;
+
+    return {
+      items,
+      totalCount,
+      hasMore: offset + items.length < totalCount
+    };
+  }
+
+  /**
+   * Date range for the Explore date filter, in the device's time zone
+   */
+  static getDateRange(dateFilter: string): { from: string | null; to: string | null } {
+    const today = new Date();
+    const target = new Date(today);
+
+    switch (dateFilter) {
+      case 'Today':
+        return { from: this.formatDate(today), to: this.formatDate(today) };
+      case 'Tomorrow':
+        target.setDate(today.getDate() + 1);
+        return { from: this.formatDate(target), to: this.formatDate(target) };
+      case 'This Week':
+        target.setDate(today.getDate() + 7);
+        return { from: null, to: this.formatDate(target) };
+      case 'This Month':
+        target.setMonth(today.getMonth() + 1);
+        target.setDate(0); // Last day of current month
+        return { from: null, to: this.formatDate(target) };
+      default:
+        return { from: null, to: null };
+    }
+  }
+
+  private static formatDate(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
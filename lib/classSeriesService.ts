@@ -0,0 +1,110 @@
+/**
+ * Class Series Service
+ * Creates recurring weekly classes and edits or cancels their instances by scope
+ */
+
+import { supabase } from './supabase';
+
+/** Which instances of a series an edit or cancellation applies to */
+export type SeriesScope = 'single' | 'following' | 'all';
+
+export interface RecurrenceRule {
+  /** Days of the week the class repeats on, 0 = Sunday */
+  weekdays: number[];
+  interval_weeks: number;
+  until_date?: string | null;
+  occurrence_count?: number | null;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class ClassSeriesService {
+  /**
+   * Create a series and generate all of its class instances
+   */
+  static async createSeries(
+    teacherId: string,
+    classData: Record<string, unknown>,
+    startDate: string,
+    rule: RecurrenceRule
+  ): Promise<{ series_id: string; class_count: number }> {
+    const { data, error } = await supabase.rpc('create_class_series', {
+      p_teacher_id: teacherId,
+      p_class: classData,
+      p_start_date: startDate,
+      p_weekdays: rule.weekdays,
+      p_interval_weeks: rule.interval_weeks,
+      p_until_date: rule.until_date ?? null,
+      p_occurrence_count: rule.occurrence_count ?? null
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Apply changes to a class and, depending on scope, the rest of its series.
+   * The date is only changed when editing a single instance.
+   */
+  static async updateClasses(
+    classId: string,
+    teacherId: string,
+    scope: SeriesScope,
+    changes: Record<string, unknown>
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('update_series_classes', {
+      p_class_id: classId,
+      p_teacher_id: teacherId,
+      p_scope: scope,
+      p_changes: changes
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Cancel a class and, depending on scope, the rest of its upcoming series.
+   * Every booking is cancelled and refunded in full.
+   */
+  static async cancelClasses(
+    classId: string,
+    teacherId: string,
+    scope: SeriesScope,
+    reason?: string
+  ): Promise<{ class_count: number; booking_count: number }> {
+    const { data, error } = await supabase.rpc('cancel_series_classes', {
+      p_class_id: classId,
+      p_teacher_id: teacherId,
+      p_scope: scope,
+      p_reason: reason ?? null
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Wed · 8 classes"
+   */
+  static describeRule(rule: RecurrenceRule): string {
+    const days = [...rule.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+    const frequency = rule.interval_weeks === 1 ? 'Weekly' : `Every ${rule.interval_weeks} weeks`;
+    const end = rule.occurrence_count
+      ? `${rule.occurrence_count} classes`
+      : rule.until_date
+        ? `until ${new Date(rule.until_date).toLocaleDateString()}`
+        : '';
+
+    return `${frequency} on ${days}${end ? ` · ${end}` : ''}`;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Follow Service
+ * Lets students follow teachers and see what those teachers publish
+ */
+
+import { supabase } from './supabase';
+
+export class FollowService {
+  /**
+   * Follow a teacher. Following twice is a no-op.
+   */
+  static async followTeacher(studentId: string, teacherId: string): Promise<void> {
+    const { error } = await supabase
+      .from('teacher_follows')
+      .upsert(
+        { student_id: studentId, teacher_id: teacherId },
+        { onConflict: 'student_id,teacher_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async unfollowTeacher(studentId: string, teacherId: string): Promise<void> {
+    const { error } = await supabase
+      .from('teacher_follows')
+      .delete()
+      .eq('student_id', studentId)
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Get the ids of the teachers a student follows
+   */
+  static async getFollowedTeacherIds(studentId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('teacher_follows')
+      .select('teacher_id')
+      .eq('student_id', studentId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map((follow: { teacher_id: string }) => follow.teacher_id);
+  }
+
+  /**
+   * Get upcoming classes and retreats that followed teachers published recently,
+   * newest first
+   */
+  static async getFollowedTeachersNewClasses(studentId: string, sinceDays: number = 14, limit: number = 5) {
+    const teacherIds = await this.getFollowedTeacherIds(studentId);
+    if (teacherIds.length === 0) return [];
+
+    const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from('yoga_classes')
+      .select(`
+        *,
+        profiles!yoga_classes_teacher_id_fkey (
+          full_name,
+          avatar_url
+        )
+      `)
+      .in('teacher_id', teacherIds)
+      .eq('status', 'scheduled')
+      .gte('date', new Date().toISOString().split('T')[0])
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+}
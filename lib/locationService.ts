@@ -0,0 +1,86 @@
+/**
+ * Location Service
+ * Gets the device's current position, geocodes addresses and formats distances
+ */
+
+import { Platform } from 'react-native';
+import * as Location from 'expo-location';
+
+export interface LocationCoordinate {
+  latitude: number;
+  longitude: number;
+}
+
+export class LocationService {
+  /**
+   * Get the current position, asking for permission first if needed.
+   * Returns null when permission is denied.
+   */
+  static async getCurrentLocation(): Promise<LocationCoordinate | null> {
+    let { status } = await Location.getForegroundPermissionsAsync();
+
+    if (status !== 'granted') {
+      ({ status } = await Location.requestForegroundPermissionsAsync());
+    }
+
+    if (status !== 'granted') {
+      return null;
+    }
+
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Balanced,
+    });
+
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  }
+
+  /**
+   * Get a readable address for a point, falling back to its coordinates
+   */
+  static async getAddress(coordinate: LocationCoordinate): Promise<string> {
+    const fallback = `${coordinate.latitude.toFixed(4)}, ${coordinate.longitude.toFixed(4)}`;
+
+    // Geocoding isn't available in the browser
+    if (Platform.OS === 'web') return fallback;
+
+    try {
+      const [address] = await Location.reverseGeocodeAsync(coordinate);
+      if (!address) return fallback;
+
+      const street = [address.streetNumber, address.street].filter(Boolean).join(' ');
+      return [street, address.city, address.region].filter(Boolean).join(', ') || fallback;
+    } catch (error) {
+      console.error('Error reverse geocoding location:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Look up the coordinates of an address, or null when it can't be found
+   */
+  static async getCoordinates(address: string): Promise<LocationCoordinate | null> {
+    if (Platform.OS === 'web' || !address.trim()) return null;
+
+    try {
+      const [result] = await Location.geocodeAsync(address);
+      return result ? { latitude: result.latitude, longitude: result.longitude } : null;
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Format a distance, e.g. "800 m away" or "2.4 km away"
+   */
+  static formatDistance(distanceKm: number): string {
+    if (distanceKm < 1) {
+      return `${Math.max(Math.round(distanceKm * 1000 / 50) * 50, 50)} m away`;
+    }
+
+    return `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km away`;
+  }
+}
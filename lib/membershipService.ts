@@ -0,0 +1,155 @@
+/**
+ * Membership Service
+ * Manages teacher membership plans and the student memberships that cover bookings
+ */
+
+import { supabase } from './supabase';
+
+export interface MembershipPlan {
+  id: string;
+  teacher_id: string;
+  name: string;
+  price: number;
+  /** Classes covered per monthly period; null means unlimited */
+  classes_per_period: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MembershipStatus = 'pending' | 'active' | 'past_due' | 'cancelled';
+
+export interface StudentMembership {
+  id: string;
+  plan_id: string;
+  plan_name: string;
+  teacher_id: string;
+  teacher_name: string;
+  price: number;
+  classes_per_period: number | null;
+  /** Covered classes held in the current period */
+  classes_used: number;
+  status: MembershipStatus;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+}
+
+export class MembershipService {
+  /**
+   * Get a teacher's plans, cheapest first; students only see plans on sale
+   */
+  static async getTeacherPlans(teacherId: string, activeOnly = false): Promise<MembershipPlan[]> {
+    let query = supabase
+      .from('membership_plans')
+      .select('*')
+      .eq('teacher_id', teacherId);
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('price', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or update a plan; existing members keep the terms they signed up with
+   */
+  static async savePlan(
+    teacherId: string,
+    plan: { id?: string; name: string; price: number; classes_per_period: number | null }
+  ): Promise<MembershipPlan> {
+    const values = {
+      name: plan.name,
+      price: plan.price,
+      classes_per_period: plan.classes_per_period
+    };
+
+    const query = plan.id
+      ? supabase
+          .from('membership_plans')
+          .update(values)
+          .eq('id', plan.id)
+          .eq('teacher_id', teacherId)
+      : supabase
+          .from('membership_plans')
+          .insert({ teacher_id: teacherId, ...values });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Open a plan for signups or close it; current members are not affected
+   */
+  static async setPlanActive(planId: string, teacherId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('membership_plans')
+      .update({ is_active: isActive })
+      .eq('id', planId)
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Get a student's active and past-due memberships with their current usage
+   */
+  static async getStudentMemberships(studentId: string): Promise<StudentMembership[]> {
+    const { data, error } = await supabase.rpc('get_student_memberships', {
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map((membership: StudentMembership) => ({
+      ...membership,
+      price: Number(membership.price)
+    }));
+  }
+
+  /**
+   * Cancel a membership. Paid memberships stay active until the end of the period.
+   */
+  static async cancelMembership(
+    membershipId: string,
+    studentId: string
+  ): Promise<{ status: 'active' | 'cancelled'; ends_at: string }> {
+    const { data, error } = await supabase.rpc('cancel_membership', {
+      p_membership_id: membershipId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Short description of a plan, e.g. "8 classes/month" or "Unlimited classes/month"
+   */
+  static describePlan(plan: Pick<MembershipPlan, 'classes_per_period'>): string {
+    return plan.classes_per_period
+      ? `${plan.classes_per_period} ${plan.classes_per_period === 1 ? 'class' : 'classes'}/month`
+      : 'Unlimited classes/month';
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Notification Service
+ * Reads the in-app inbox and delivers new notifications over realtime
+ */
+
+import { supabase } from './supabase';
+
+export type NotificationType =
+  | 'booking_confirmed'
+  | 'payment_received'
+  | 'class_changed'
+  | 'class_cancelled'
+  | 'waitlist_promoted'
+  | 'new_booking'
+  | 'penalty_applied'
+  | 'new_review'
+  | 'review_reply'
+  | 'new_class'
+  | 'installment_overdue'
+  | 'booking_released';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  class_id?: string | null;
+  booking_id?: string | null;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export class NotificationService {
+  /**
+   * Get a user's most recent notifications, newest first
+   */
+  static async getNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  static async markAsRead(notificationId: string, userId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_notifications_read', {
+      p_user_id: userId,
+      p_notification_id: notificationId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_notifications_read', {
+      p_user_id: userId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Subscribe to a user's notifications. The scope keeps the channels of
+   * several screens watching the same user apart.
+   */
+  static subscribeToNotifications(
+    userId: string,
+    scope: string,
+    callback: () => void
+  ) {
+    const subscription = supabase
+      .channel(`notifications_${scope}_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        () => callback()
+      )
+      .subscribe();
+
+    return subscription;
+  }
+
+  /**
+   * Unsubscribe from notification changes
+   */
+  static unsubscribeFromNotifications(subscription: any) {
+    if (subscription) {
+      supabase.removeChannel(subscription);
+    }
+  }
+}
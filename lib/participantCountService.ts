@@ -126,7 +126,7 @@ export class ParticipantCountService {
       .select('*', { count: 'exact', head: true })
       .eq('class_id', classId)
       .eq('status', 'confirmed')
-      .eq('payment_status', 'completed');
+      .in('payment_status', ['completed', 'partially_paid']);
 
     if (error) {
       throw new Error(error.message);
@@ -203,6 +203,7 @@ export class ParticipantCountService {
     reason?: string;
     currentCount?: number;
     maxParticipants?: number;
+    canJoinWaitlist?: boolean;
   }> {
     try {
       // Check if student already has a booking
@@ -247,13 +248,23 @@ export class ParticipantCountService {
         };
       }
 
+      // Spots held for promoted waitlist students count as taken
+      const { data: heldSpots, error: heldError } = await supabase.rpc('get_held_spot_count', {
+        p_class_id: classId
+      });
+
+      if (heldError) {
+        throw heldError;
+      }
+
       // Check capacity
-      if (classData.current_participants >= classData.max_participants) {
+      if (classData.current_participants + (heldSpots || 0) >= classData.max_participants) {
         return {
           canBook: false,
           reason: 'Class is full',
           currentCount: classData.current_participants,
-          maxParticipants: classData.max_participants
+          maxParticipants: classData.max_participants,
+          canJoinWaitlist: true
         };
       }
 
@@ -272,7 +283,8 @@ export class ParticipantCountService {
   }
 
   /**
-   * Get participant count statistics for a teacher's classes
+   * Get participant count statistics for a teacher's classes. Attendance only
+   * covers paid bookings of classes that have already taken place.
    */
   static async getTeacherParticipantStats(teacherId: string): Promise<{
     totalClasses: number;
@@ -280,6 +292,10 @@ export class ParticipantCountService {
     averageParticipants: number;
     fullClasses: number;
     utilizationRate: number;
+    pastBookings: number;
+    attendedCount: number;
+    noShowCount: number;
+    attendanceRate: number;
   }> {
     const { data: classes, error } = await supabase
       .from('yoga_classes')
@@ -296,10 +312,30 @@ export class ParticipantCountService {
         totalParticipants: 0,
         averageParticipants: 0,
         fullClasses: 0,
-        utilizationRate: 0
+        utilizationRate: 0,
+        pastBookings: 0,
+        attendedCount: 0,
+        noShowCount: 0,
+        attendanceRate: 0
       };
     }
 
+    const { data: pastBookings, error: attendanceError } = await supabase
+      .from('bookings')
+      .select('attendance, yoga_classes!inner(teacher_id, date)')
+      .eq('yoga_classes.teacher_id', teacherId)
+      .lt('yoga_classes.date', new Date().toISOString().split('T')[0])
+      .eq('status', 'confirmed')
+      .eq('payment_status', 'completed');
+
+    if (attendanceError) {
+      throw new Error(attendanceError.message);
+    }
+
+    const pastBookingCount = pastBookings?.length || 0;
+    const attendedCount = pastBookings?.filter(booking => booking.attendance === 'checked_in').length || 0;
+    const noShowCount = pastBookings?.filter(booking => booking.attendance === 'no_show').length || 0;
+
     const totalClasses = classes.length;
     const totalParticipants = classes.reduce((sum, cls) => sum + cls.current_participants, 0);
     const totalCapacity = classes.reduce((sum, cls) => sum + cls.max_participants, 0);
@@ -310,7 +346,11 @@ export class ParticipantCountService {
       totalParticipants,
       averageParticipants: totalParticipants / totalClasses,
       fullClasses,
-      utilizationRate: totalCapacity > 0 ? (totalParticipants / totalCapacity) * 100 : 0
+      utilizationRate: totalCapacity > 0 ? (totalParticipants / totalCapacity) * 100 : 0,
+      pastBookings: pastBookingCount,
+      attendedCount,
+      noShowCount,
+      attendanceRate: pastBookingCount > 0 ? (attendedCount / pastBookingCount) * 100 : 0
     };
   }
 }
\ No newline at end of file
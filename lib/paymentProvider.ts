@@ -0,0 +1,131 @@
+/**
+ * Payment Provider abstraction
+ * Every payment method (card intents, wallets, the local mock) plugs in behind
+ * the PaymentProvider interface. Providers only collect and submit the payment;
+ * the booking is settled server-side when the provider's callback records it.
+ */
+
+import { supabase } from './supabase';
+
+export type PaymentStatus =
+  | 'requires_confirmation'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface PaymentIntent {
+  paymentId: string;
+  /** Exactly one of bookingId / packPurchaseId / membershipId is set */
+  bookingId: string | null;
+  packPurchaseId: string | null;
+  membershipId: string | null;
+  provider: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+}
+
+export interface PaymentMethodInput {
+  type: 'card' | 'wallet';
+  /** Provider-specific token for the collected payment method */
+  token: string;
+}
+
+export interface PaymentResult {
+  paymentId: string;
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  /**
+   * Collect a payment method from the student for an open intent, e.g. by
+   * presenting the provider's card sheet. Rejects if the student dismisses it.
+   */
+  collectPaymentMethod(intent: PaymentIntent): Promise<PaymentMethodInput>;
+
+  /**
+   * Submit the payment to the provider. Providers that settle asynchronously
+   * return `processing` and report the outcome through their webhook.
+   */
+  confirmPayment(
+    intent: PaymentIntent,
+    studentId: string,
+    method: PaymentMethodInput
+  ): Promise<PaymentResult>;
+}
+
+/**
+ * Deterministic local provider for development and demos.
+ * The token `mock_card_declined` is declined; any other token succeeds.
+ * Only registered in development builds; the server rejects it unless the
+ * local seed has enabled it.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  static readonly SUCCESS_TOKEN = 'mock_card_success';
+  static readonly DECLINED_TOKEN = 'mock_card_declined';
+
+  readonly id = 'mock';
+  readonly displayName = 'Demo Card';
+
+  async collectPaymentMethod(): Promise<PaymentMethodInput> {
+    return { type: 'card', token: MockPaymentProvider.SUCCESS_TOKEN };
+  }
+
+  async confirmPayment(
+    intent: PaymentIntent,
+    studentId: string,
+    method: PaymentMethodInput
+  ): Promise<PaymentResult> {
+    const { data, error } = await supabase.rpc('confirm_mock_payment', {
+      p_payment_id: intent.paymentId,
+      p_student_id: studentId,
+      p_payment_method: method.token
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      paymentId: data.payment_id,
+      status: data.status,
+      failureReason: data.failure_reason
+    };
+  }
+}
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Register a provider so it can be selected by id
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a registered provider. Development builds fall back to the mock
+ * provider when EXPO_PUBLIC_PAYMENT_PROVIDER is not set.
+ */
+export function getPaymentProvider(
+  providerId: string | undefined = process.env.EXPO_PUBLIC_PAYMENT_PROVIDER || (__DEV__ ? 'mock' : undefined)
+): PaymentProvider {
+  if (!providerId) {
+    throw new Error('No payment provider is configured');
+  }
+
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Payment provider "${providerId}" is not registered`);
+  }
+  return provider;
+}
+
+if (__DEV__) {
+  registerPaymentProvider(new MockPaymentProvider());
+}
@@ -0,0 +1,112 @@
+/**
+ * Payment Schedule Service
+ * Reads the deposit and installments of retreat bookings paid by plan
+ */
+
+import { supabase } from './supabase';
+
+export type PaymentPlan = 'full' | 'installments';
+
+export type InstallmentStatus = 'pending' | 'paid' | 'overdue';
+
+export interface PaymentInstallment {
+  id: string;
+  booking_id: string;
+  /** 0 is the deposit paid at booking time */
+  installment_number: number;
+  amount: number;
+  due_date: string;
+  status: InstallmentStatus;
+  payment_id?: string | null;
+  paid_at?: string | null;
+  created_at: string;
+}
+
+export type PlannedInstallment = Pick<PaymentInstallment, 'installment_number' | 'amount' | 'due_date'>;
+
+export class PaymentScheduleService {
+  /**
+   * Preview the deposit and installments an unpaid booking could be paid by.
+   * Empty when the retreat isn't sold by deposit or its balance deadline has passed.
+   */
+  static async getInstallmentPlan(bookingId: string, studentId: string): Promise<PlannedInstallment[]> {
+    const { data, error } = await supabase.rpc('get_installment_plan', {
+      p_booking_id: bookingId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map((installment: PlannedInstallment) => ({
+      ...installment,
+      amount: Number(installment.amount),
+    }));
+  }
+
+  /**
+   * Get the installments of the given bookings, keyed by booking
+   */
+  static async getSchedules(bookingIds: string[]): Promise<Record<string, PaymentInstallment[]>> {
+    if (bookingIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('payment_schedules')
+      .select('*')
+      .in('booking_id', bookingIds)
+      .order('installment_number', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const schedules: Record<string, PaymentInstallment[]> = {};
+    (data || []).forEach(installment => {
+      if (!schedules[installment.booking_id]) {
+        schedules[installment.booking_id] = [];
+      }
+      schedules[installment.booking_id].push({
+        ...installment,
+        amount: Number(installment.amount),
+      });
+    });
+
+    return schedules;
+  }
+
+  /**
+   * The installment the next payment pays for, if any is left
+   */
+  static getNextInstallment<T extends PlannedInstallment & { status?: InstallmentStatus }>(
+    schedule: T[]
+  ): T | null {
+    return schedule.find(installment => installment.status !== 'paid') ?? null;
+  }
+
+  /**
+   * Amount still to pay on a schedule
+   */
+  static getBalanceDue(schedule: PaymentInstallment[]): number {
+    return schedule
+      .filter(installment => installment.status !== 'paid')
+      .reduce((total, installment) => total + installment.amount, 0);
+  }
+
+  /**
+   * Whether an unpaid installment is past its due date
+   */
+  static isOverdue(installment: PaymentInstallment): boolean {
+    return installment.status === 'overdue'
+      || (installment.status === 'pending' && new Date(installment.due_date) <= new Date());
+  }
+
+  /**
+   * Label an installment, e.g. "Deposit" or "Installment 2 of 3"
+   */
+  static getInstallmentLabel(installment: PlannedInstallment, installmentCount: number): string {
+    return installment.installment_number === 0
+      ? 'Deposit'
+      : `Installment ${installment.installment_number} of ${installmentCount}`;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Payment Service
+ * Creates server-priced payment intents and runs them through a PaymentProvider
+ */
+
+import { supabase } from './supabase';
+import {
+  getPaymentProvider,
+  type PaymentIntent,
+  type PaymentProvider,
+  type PaymentResult,
+  type PaymentStatus,
+} from './paymentProvider';
+import type { PaymentPlan } from './paymentScheduleService';
+
+export class PaymentService {
+  private static readonly POLL_INTERVAL_MS = 1500;
+  private static readonly POLL_TIMEOUT_MS = 60000;
+
+  /**
+   * Open a payment for a pending booking; the amount is computed server-side.
+   * With the installment plan the first payment is the deposit, and a partially
+   * paid booking is charged its next installment whatever the plan.
+   */
+  static async createPaymentIntent(
+    bookingId: string,
+    studentId: string,
+    providerId: string,
+    plan: PaymentPlan = 'full'
+  ): Promise<PaymentIntent> {
+    const { data, error } = await supabase.rpc('create_payment_intent', {
+      p_booking_id: bookingId,
+      p_student_id: studentId,
+      p_provider: providerId,
+      p_plan: plan
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      paymentId: data.payment_id,
+      bookingId: data.booking_id,
+      packPurchaseId: null,
+      membershipId: null,
+      provider: data.provider,
+      amount: Number(data.amount),
+      currency: data.currency,
+      status: data.status
+    };
+  }
+
+  /**
+   * Open a payment for a class pack; the purchase is activated once it succeeds
+   */
+  static async createPackPaymentIntent(
+    packId: string,
+    studentId: string,
+    providerId: string
+  ): Promise<PaymentIntent> {
+    const { data, error } = await supabase.rpc('create_pack_payment_intent', {
+      p_pack_id: packId,
+      p_student_id: studentId,
+      p_provider: providerId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      paymentId: data.payment_id,
+      bookingId: null,
+      packPurchaseId: data.pack_purchase_id,
+      membershipId: null,
+      provider: data.provider,
+      amount: Number(data.amount),
+      currency: data.currency,
+      status: data.status
+    };
+  }
+
+  /**
+   * Open the first payment for a membership plan, or the renewal payment of a
+   * past-due membership; the period starts once it succeeds
+   */
+  static async createMembershipPaymentIntent(
+    target: { planId: string } | { membershipId: string },
+    studentId: string,
+    providerId: string
+  ): Promise<PaymentIntent> {
+    const { data, error } = 'planId' in target
+      ? await supabase.rpc('create_membership_payment_intent', {
+          p_plan_id: target.planId,
+          p_student_id: studentId,
+          p_provider: providerId
+        })
+      : await supabase.rpc('create_membership_renewal_intent', {
+          p_membership_id: target.membershipId,
+          p_student_id: studentId,
+          p_provider: providerId
+        });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      paymentId: data.payment_id,
+      bookingId: null,
+      packPurchaseId: null,
+      membershipId: data.membership_id,
+      provider: data.provider,
+      amount: Number(data.amount),
+      currency: data.currency,
+      status: data.status
+    };
+  }
+
+  /**
+   * Get the current status of a payment as recorded by the provider callback
+   */
+  static async getPaymentStatus(paymentId: string): Promise<PaymentResult> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, status, failure_reason')
+      .eq('id', paymentId)
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      paymentId: data.id,
+      status: data.status as PaymentStatus,
+      failureReason: data.failure_reason ?? undefined
+    };
+  }
+
+  /**
+   * Wait for an asynchronously settled payment to succeed or fail
+   */
+  static async waitForPaymentResult(paymentId: string): Promise<PaymentResult> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < this.POLL_TIMEOUT_MS) {
+      const result = await this.getPaymentStatus(paymentId);
+      if (result.status !== 'requires_confirmation' && result.status !== 'processing') {
+        return result;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.POLL_INTERVAL_MS));
+    }
+
+    return {
+      paymentId,
+      status: 'processing',
+      failureReason: 'Payment is still processing. Check My Bookings for the final status.'
+    };
+  }
+
+  /**
+   * Pay for a booking with the configured provider.
+   * Resolves with the verified result; the booking is only completed when it succeeded.
+   */
+  static async payForBooking(
+    bookingId: string,
+    studentId: string,
+    providerId?: string,
+    plan: PaymentPlan = 'full'
+  ): Promise<PaymentResult & { amount: number }> {
+    const provider = getPaymentProvider(providerId);
+    const intent = await this.createPaymentIntent(bookingId, studentId, provider.id, plan);
+
+    return this.confirmIntent(provider, intent, studentId);
+  }
+
+  /**
+   * Pay for a class pack with the configured provider.
+   * The credits are only granted when the result succeeded.
+   */
+  static async payForPack(
+    packId: string,
+    studentId: string,
+    providerId?: string
+  ): Promise<PaymentResult & { amount: number }> {
+    const provider = getPaymentProvider(providerId);
+    const intent = await this.createPackPaymentIntent(packId, studentId, provider.id);
+
+    return this.confirmIntent(provider, intent, studentId);
+  }
+
+  /**
+   * Subscribe to a membership plan, or renew a past-due membership, with the
+   * configured provider. The membership is only active when the result succeeded.
+   */
+  static async payForMembership(
+    target: { planId: string } | { membershipId: string },
+    studentId: string,
+    providerId?: string
+  ): Promise<PaymentResult & { amount: number }> {
+    const provider = getPaymentProvider(providerId);
+    const intent = await this.createMembershipPaymentIntent(target, studentId, provider.id);
+
+    return this.confirmIntent(provider, intent, studentId);
+  }
+
+  /**
+   * Mark a payment as handed to the provider, so its booking's hold is kept and
+   * the payment is not cancelled while the provider is charging it
+   */
+  private static async submitPayment(paymentId: string, studentId: string): Promise<void> {
+    const { error } = await supabase.rpc('submit_payment', {
+      p_payment_id: paymentId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Collect a payment method for an intent, submit it to the provider and wait
+   * for the verified outcome
+   */
+  private static async confirmIntent(
+    provider: PaymentProvider,
+    intent: PaymentIntent,
+    studentId: string
+  ): Promise<PaymentResult & { amount: number }> {
+    const method = await provider.collectPaymentMethod(intent);
+    await this.submitPayment(intent.paymentId, studentId);
+    let result = await provider.confirmPayment(intent, studentId, method);
+    if (result.status === 'processing' || result.status === 'requires_confirmation') {
+      result = await this.waitForPaymentResult(intent.paymentId);
+    }
+
+    return { ...result, amount: intent.amount };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Penalty Service
+ * Manages teacher no-show and late-cancel policies and the strikes students collect
+ */
+
+import { supabase } from './supabase';
+
+export type StrikeKind = 'no_show' | 'late_cancel';
+
+export interface PenaltyPolicy {
+  teacher_id: string;
+  /** Null when no-shows aren't penalised */
+  no_show_limit: number | null;
+  /** Null when late cancellations aren't penalised */
+  late_cancel_limit: number | null;
+  window_days: number;
+  penalty: 'booking_ban' | 'credit_forfeit';
+  ban_days: number;
+  is_active: boolean;
+}
+
+export type StrikeCounts = Record<StrikeKind, number>;
+
+export class PenaltyService {
+  /**
+   * Get a teacher's penalty policy, or null when they haven't set one up
+   */
+  static async getPolicy(teacherId: string): Promise<PenaltyPolicy | null> {
+    const { data, error } = await supabase
+      .from('penalty_policies')
+      .select('*')
+      .eq('teacher_id', teacherId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Create or update a teacher's penalty policy
+   */
+  static async savePolicy(policy: PenaltyPolicy): Promise<PenaltyPolicy> {
+    const { data, error } = await supabase
+      .from('penalty_policies')
+      .upsert(policy, { onConflict: 'teacher_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Count the strikes each student has collected in a teacher's classes within the
+   * policy window
+   */
+  static async getStrikeCounts(
+    teacherId: string,
+    studentIds: string[],
+    windowDays: number = 30
+  ): Promise<Record<string, StrikeCounts>> {
+    if (studentIds.length === 0) return {};
+
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from('student_strikes')
+      .select('student_id, kind')
+      .eq('teacher_id', teacherId)
+      .in('student_id', studentIds)
+      .gte('created_at', since.toISOString());
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const counts: Record<string, StrikeCounts> = {};
+    (data || []).forEach((strike: { student_id: string; kind: StrikeKind }) => {
+      const studentCounts = counts[strike.student_id] || { no_show: 0, late_cancel: 0 };
+      studentCounts[strike.kind] += 1;
+      counts[strike.student_id] = studentCounts;
+    });
+
+    return counts;
+  }
+
+  /**
+   * Readable message for a "Booking restricted until YYYY-MM-DD" error or restricted_until value
+   */
+  static getRestrictionMessage(restriction: string): string {
+    const match = restriction.match(/\d{4}-\d{2}-\d{2}/);
+    const until = match
+      ? new Date(match[0]).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+      : null;
+
+    return until
+      ? `After repeated no-shows or late cancellations you can't book with this teacher until ${until}.`
+      : 'After repeated no-shows or late cancellations you can\'t book with this teacher for now.';
+  }
+}
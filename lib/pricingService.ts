@@ -0,0 +1,317 @@
+/**
+ * Pricing Service
+ * Prices classes and retreats the same way as the calculate_price database function,
+ * so every screen shows the price a student will be charged
+ */
+
+import { supabase } from './supabase';
+
+export type PricingRuleType = 'early_bird' | 'last_minute' | 'concession';
+
+export type DiscountType = 'percent' | 'amount';
+
+export type Concession = 'student' | 'senior';
+
+export interface PricingRule {
+  id: string;
+  class_id: string;
+  rule_type: PricingRuleType;
+  /** Shown instead of the default name of the discount */
+  label: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  /** Last day of an early bird window */
+  ends_on: string | null;
+  /** A last-minute window opens this many days before the class */
+  days_before: number | null;
+  concession: Concession | null;
+}
+
+export type PricingRuleInput = Omit<PricingRule, 'id' | 'class_id'>;
+
+export interface PriceAdjustment {
+  kind: PricingRuleType | 'sliding_scale' | 'promo_code';
+  label: string;
+  /** Negative for discounts */
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  /** Price of the class, or of the accommodation option booked */
+  base_price: number;
+  price: number;
+  adjustments: PriceAdjustment[];
+  sliding_scale_min: number | null;
+  sliding_scale_max: number | null;
+}
+
+/**
+ * The fields of a class its price depends on
+ */
+export interface PricedClass {
+  date: string;
+  price: number;
+  early_bird_price?: number | null;
+  early_bird_deadline?: string | null;
+  sliding_scale_min?: number | null;
+  sliding_scale_max?: number | null;
+}
+
+export interface PriceOptions {
+  accommodation?: { price: number; early_bird_price: number | null } | null;
+  concession?: Concession | null;
+  /** Amount chosen on a sliding scale; ignored outside the scale */
+  chosenPrice?: number | null;
+  /** Code applied at checkout; its limits are checked by the server */
+  promoCode?: { code: string; discount_type: DiscountType; discount_value: number } | null;
+  /** Day to price at (YYYY-MM-DD), today by default */
+  on?: string;
+}
+
+export class PricingService {
+  private static readonly CONCESSION_LABELS: Record<Concession, string> = {
+    student: 'Student',
+    senior: 'Senior',
+  };
+
+  /**
+   * Get the pricing rules of the given classes, keyed by class
+   */
+  static async getPricingRules(classIds: string[]): Promise<Record<string, PricingRule[]>> {
+    if (classIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('pricing_rules')
+      .select('*')
+      .in('class_id', classIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rules: Record<string, PricingRule[]> = {};
+    (data || []).forEach(rule => {
+      if (!rules[rule.class_id]) {
+        rules[rule.class_id] = [];
+      }
+      rules[rule.class_id].push({
+        ...rule,
+        discount_value: Number(rule.discount_value),
+      });
+    });
+
+    return rules;
+  }
+
+  /**
+   * Price a class or one of its accommodation options. Early bird and last-minute
+   * windows don't stack: the biggest discount on offer applies, then the concession
+   * comes off what is left. A sliding-scale amount replaces the price, and a promo
+   * code comes off last.
+   */
+  static calculatePrice(
+    yogaClass: PricedClass,
+    rules: PricingRule[],
+    options: PriceOptions = {}
+  ): PriceBreakdown {
+    const on = options.on ?? new Date().toISOString().split('T')[0];
+    const basePrice = Number(options.accommodation ? options.accommodation.price : yogaClass.price);
+    const earlyBirdPrice = options.accommodation ? options.accommodation.early_bird_price : yogaClass.early_bird_price;
+    const daysToStart = Math.round((Date.parse(yogaClass.date) - Date.parse(on)) / (1000 * 60 * 60 * 24));
+    const adjustments: PriceAdjustment[] = [];
+    let price = basePrice;
+
+    const windows: PriceAdjustment[] = [];
+    if (earlyBirdPrice && yogaClass.early_bird_deadline && yogaClass.early_bird_deadline >= on) {
+      windows.push({ kind: 'early_bird', label: 'Early Bird', amount: -this.roundAmount(basePrice - earlyBirdPrice) });
+    }
+    rules.forEach(rule => {
+      const open = rule.rule_type === 'early_bird'
+        ? !!rule.ends_on && rule.ends_on >= on
+        : rule.rule_type === 'last_minute' && daysToStart >= 0 && daysToStart <= (rule.days_before ?? -1);
+      if (!open) return;
+
+      windows.push({
+        kind: rule.rule_type,
+        label: rule.label || (rule.rule_type === 'early_bird' ? 'Early Bird' : 'Last Minute'),
+        amount: -this.getDiscount(rule, basePrice),
+      });
+    });
+
+    const bestWindow = windows.reduce<PriceAdjustment | null>(
+      (best, window) => !best || window.amount < best.amount ? window : best,
+      null
+    );
+    if (bestWindow && bestWindow.amount < 0) {
+      price = this.roundAmount(price + bestWindow.amount);
+      adjustments.push(bestWindow);
+    }
+
+    const concessionRule = options.concession
+      ? rules.find(rule => rule.rule_type === 'concession' && rule.concession === options.concession)
+      : undefined;
+    if (concessionRule) {
+      const discount = this.getDiscount(concessionRule, price);
+      if (discount > 0) {
+        price = this.roundAmount(price - discount);
+        adjustments.push({
+          kind: 'concession',
+          label: concessionRule.label || this.getConcessionLabel(options.concession!),
+          amount: -discount,
+        });
+      }
+    }
+
+    const slidingScaleMin = yogaClass.sliding_scale_min ?? null;
+    const slidingScaleMax = yogaClass.sliding_scale_max ?? null;
+    const chosenPrice = options.chosenPrice;
+    if (chosenPrice != null && this.isWithinSlidingScale(yogaClass, chosenPrice) && chosenPrice !== price) {
+      adjustments.push({
+        kind: 'sliding_scale',
+        label: 'Pay What You Can',
+        amount: this.roundAmount(chosenPrice - price),
+      });
+      price = chosenPrice;
+    }
+
+    if (options.promoCode) {
+      const discount = this.getDiscount(options.promoCode, price);
+      if (discount > 0) {
+        price = this.roundAmount(price - discount);
+        adjustments.push({
+          kind: 'promo_code',
+          label: `Code ${options.promoCode.code}`,
+          amount: -discount,
+        });
+      }
+    }
+
+    return {
+      base_price: basePrice,
+      price,
+      adjustments,
+      sliding_scale_min: slidingScaleMin != null ? Number(slidingScaleMin) : null,
+      sliding_scale_max: slidingScaleMax != null ? Number(slidingScaleMax) : null,
+    };
+  }
+
+  /**
+   * Whether an amount can be paid on the class's sliding scale
+   */
+  static isWithinSlidingScale(yogaClass: PricedClass, amount: number): boolean {
+    if (yogaClass.sliding_scale_min == null || yogaClass.sliding_scale_max == null) return false;
+    return amount >= Number(yogaClass.sliding_scale_min) && amount <= Number(yogaClass.sliding_scale_max);
+  }
+
+  /**
+   * The concessions a class offers a price for
+   */
+  static getConcessions(rules: PricingRule[]): Concession[] {
+    return rules
+      .filter(rule => rule.rule_type === 'concession' && rule.concession)
+      .map(rule => rule.concession as Concession);
+  }
+
+  /**
+   * Display name of a concession, e.g. "Student"
+   */
+  static getConcessionLabel(concession: Concession): string {
+    return this.CONCESSION_LABELS[concession];
+  }
+
+  /**
+   * Format an amount in euros, without cents when there are none, e.g. "€25" or "-€7.50"
+   */
+  static formatAmount(amount: number): string {
+    const value = Math.abs(amount);
+    return `${amount < 0 ? '-' : ''}€${Number.isInteger(value) ? value : value.toFixed(2)}`;
+  }
+
+  /**
+   * The price to show on a listing: the range of a sliding scale, or the price
+   */
+  static formatPrice(breakdown: PriceBreakdown): string {
+    if (breakdown.sliding_scale_min != null && breakdown.sliding_scale_max != null) {
+      return `${this.formatAmount(breakdown.sliding_scale_min)}–${this.formatAmount(breakdown.sliding_scale_max)}`;
+    }
+    return this.formatAmount(breakdown.price);
+  }
+
+  /**
+   * Describe a rule for the teacher's pricing list, e.g. "20% off until 2025-08-01"
+   */
+  static describeRule(rule: PricingRuleInput): string {
+    const discount = rule.discount_type === 'percent'
+      ? `${rule.discount_value}% off`
+      : `${this.formatAmount(rule.discount_value)} off`;
+
+    switch (rule.rule_type) {
+      case 'early_bird':
+        return `${discount} until ${rule.ends_on}`;
+      case 'last_minute':
+        return `${discount} from ${rule.days_before} ${rule.days_before === 1 ? 'day' : 'days'} before`;
+      case 'concession':
+        return `${discount} for ${rule.concession === 'senior' ? 'seniors' : 'students'}`;
+    }
+  }
+
+  /**
+   * Pick the concession and sliding-scale amount of an unpaid booking.
+   * Returns the booking's price as the server computes it.
+   */
+  static async setBookingPricing(
+    bookingId: string,
+    studentId: string,
+    concession: Concession | null,
+    chosenPrice: number | null
+  ): Promise<PriceBreakdown> {
+    const { data, error } = await supabase.rpc('set_booking_pricing', {
+      p_booking_id: bookingId,
+      p_student_id: studentId,
+      p_concession: concession,
+      p_chosen_price: chosenPrice
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Replace the discounts and sliding scale a class is sold with.
+   * Returns the number of rules saved.
+   */
+  static async saveClassPricing(
+    classId: string,
+    teacherId: string,
+    slidingScale: { min: number; max: number } | null,
+    rules: PricingRuleInput[]
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('save_class_pricing', {
+      p_class_id: classId,
+      p_teacher_id: teacherId,
+      p_sliding_scale_min: slidingScale?.min ?? null,
+      p_sliding_scale_max: slidingScale?.max ?? null,
+      p_rules: rules
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  private static getDiscount(rule: Pick<PricingRule, 'discount_type' | 'discount_value'>, price: number): number {
+    return rule.discount_type === 'percent'
+      ? this.roundAmount(price * rule.discount_value / 100)
+      : Math.min(rule.discount_value, price);
+  }
+
+  private static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
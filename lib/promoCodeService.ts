@@ -0,0 +1,237 @@
+/**
+ * Promo Code Service
+ * Manages teacher promo codes and the codes students apply to a booking at checkout
+ */
+
+import { supabase } from './supabase';
+import { PricingService, type DiscountType } from './pricingService';
+
+export type PromoScope = 'all' | 'class' | 'retreats';
+
+export interface PromoCode {
+  id: string;
+  teacher_id: string;
+  /** Upper case; students may type it in any case */
+  code: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  scope: PromoScope;
+  /** The class a `class` code is limited to */
+  class_id: string | null;
+  /** Paid bookings the code can be used for; null means unlimited */
+  max_uses: number | null;
+  max_uses_per_student: number | null;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TeacherPromoCode extends PromoCode {
+  class_title: string | null;
+  /** Paid bookings the code was used for */
+  uses: number;
+  /** Discount given on successful payments */
+  discount_total: number;
+}
+
+export type PromoCodeInput = Pick<
+  PromoCode,
+  'code' | 'discount_type' | 'discount_value' | 'scope' | 'class_id' | 'max_uses' | 'max_uses_per_student' | 'expires_at'
+>;
+
+export class PromoCodeService {
+  private static readonly CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+
+  /**
+   * Get a teacher's codes, newest first, with how often they were used
+   */
+  static async getTeacherPromoCodes(teacherId: string): Promise<TeacherPromoCode[]> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('teacher_id', teacherId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const codes = data || [];
+    if (codes.length === 0) return [];
+
+    const codeIds = codes.map(code => code.id);
+    const classIds = codes.flatMap(code => code.class_id ? [code.class_id] : []);
+
+    const [classesResult, bookingsResult, paymentsResult] = await Promise.all([
+      classIds.length > 0
+        ? supabase.from('yoga_classes').select('id, title').in('id', classIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from('bookings')
+        .select('promo_code_id')
+        .in('promo_code_id', codeIds)
+        .eq('status', 'confirmed')
+        .in('payment_status', ['completed', 'partially_paid']),
+      supabase
+        .from('payments')
+        .select('promo_code_id, discount_amount')
+        .in('promo_code_id', codeIds)
+        .eq('status', 'succeeded'),
+    ]);
+
+    const queryError = classesResult.error || bookingsResult.error || paymentsResult.error;
+    if (queryError) {
+      throw new Error(queryError.message);
+    }
+
+    return codes.map(code => ({
+      ...code,
+      discount_value: Number(code.discount_value),
+      class_title: (classesResult.data || []).find(yogaClass => yogaClass.id === code.class_id)?.title ?? null,
+      uses: (bookingsResult.data || []).filter(booking => booking.promo_code_id === code.id).length,
+      discount_total: (paymentsResult.data || [])
+        .filter(payment => payment.promo_code_id === code.id)
+        .reduce((total, payment) => total + Number(payment.discount_amount), 0),
+    }));
+  }
+
+  /**
+   * Get a code applied to one of the student's bookings
+   */
+  static async getPromoCode(promoCodeId: string): Promise<PromoCode | null> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('id', promoCodeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data && { ...data, discount_value: Number(data.discount_value) };
+  }
+
+  static async savePromoCode(
+    teacherId: string,
+    promoCode: PromoCodeInput & { id?: string }
+  ): Promise<PromoCode> {
+    const values = {
+      code: this.normalizeCode(promoCode.code),
+      discount_type: promoCode.discount_type,
+      discount_value: promoCode.discount_value,
+      scope: promoCode.scope,
+      class_id: promoCode.scope === 'class' ? promoCode.class_id : null,
+      max_uses: promoCode.max_uses,
+      max_uses_per_student: promoCode.max_uses_per_student,
+      expires_at: promoCode.expires_at
+    };
+
+    const query = promoCode.id
+      ? supabase
+          .from('promo_codes')
+          .update(values)
+          .eq('id', promoCode.id)
+          .eq('teacher_id', teacherId)
+      : supabase
+          .from('promo_codes')
+          .insert({ teacher_id: teacherId, ...values });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      // Codes are unique per teacher
+      if (error.code === '23505') {
+        throw new Error(`You already have a promo code ${values.code}`);
+      }
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Let students use a code again, or stop them; bookings already paid keep their discount
+   */
+  static async setPromoCodeActive(promoCodeId: string, teacherId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('promo_codes')
+      .update({ is_active: isActive })
+      .eq('id', promoCodeId)
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Apply a code to an unpaid booking. The server checks the code's scope, expiry
+   * and usage limits; the code is returned so the price can show its discount.
+   */
+  static async applyPromoCode(bookingId: string, studentId: string, code: string): Promise<PromoCode> {
+    const { data, error } = await supabase.rpc('apply_promo_code', {
+      p_booking_id: bookingId,
+      p_student_id: studentId,
+      p_code: code
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const promoCode = await this.getPromoCode(data);
+    if (!promoCode) {
+      throw new Error('Promo code not found');
+    }
+
+    return promoCode;
+  }
+
+  static async removePromoCode(bookingId: string, studentId: string): Promise<void> {
+    const { error } = await supabase.rpc('remove_promo_code', {
+      p_booking_id: bookingId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Codes are stored in upper case without surrounding spaces
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * 3 to 20 letters, digits, dashes or underscores
+   */
+  static isValidCode(code: string): boolean {
+    return this.CODE_PATTERN.test(this.normalizeCode(code));
+  }
+
+  static isExpired(promoCode: Pick<PromoCode, 'expires_at'>): boolean {
+    return !!promoCode.expires_at && new Date(promoCode.expires_at) <= new Date();
+  }
+
+  /**
+   * Describe a code for the teacher's list, e.g. "20% off · Retreats only · 3 of 10 used"
+   */
+  static describePromoCode(promoCode: TeacherPromoCode): string {
+    const discount = promoCode.discount_type === 'percent'
+      ? `${promoCode.discount_value}% off`
+      : `${PricingService.formatAmount(promoCode.discount_value)} off`;
+    const scope = promoCode.scope === 'class'
+      ? promoCode.class_title || 'One class'
+      : promoCode.scope === 'retreats' ? 'Retreats only' : 'All classes';
+    const uses = promoCode.max_uses
+      ? `${promoCode.uses} of ${promoCode.max_uses} used`
+      : `${promoCode.uses} used`;
+
+    return [discount, scope, uses].join(' · ');
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Reminder Service
+ * Schedules local device notifications before a student's booked classes
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+const REMINDER_CHANNEL_ID = 'class-reminders';
+const REMINDER_ID_PREFIX = 'class-reminder-';
+
+/** Offsets students can pick from, in minutes before the class starts */
+export const REMINDER_OFFSET_OPTIONS = [10080, 1440, 120, 60, 30, 15];
+
+export const DEFAULT_REMINDER_OFFSETS = [1440, 60];
+
+export interface ReminderBooking {
+  id: string;
+  yoga_classes: {
+    id: string;
+    title: string;
+    date: string;
+    time: string;
+    location: string;
+    meeting_link?: string | null;
+    is_virtual?: boolean;
+  };
+}
+
+export class ReminderService {
+  /**
+   * Human readable label for an offset, e.g. "1 day" or "30 minutes"
+   */
+  static formatOffset(minutes: number): string {
+    if (minutes % 10080 === 0) {
+      const weeks = minutes / 10080;
+      return `${weeks} ${weeks === 1 ? 'week' : 'weeks'}`;
+    }
+    if (minutes % 1440 === 0) {
+      const days = minutes / 1440;
+      return `${days} ${days === 1 ? 'day' : 'days'}`;
+    }
+    if (minutes % 60 === 0) {
+      const hours = minutes / 60;
+      return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+    }
+    return `${minutes} minutes`;
+  }
+
+  /**
+   * Ask for permission to show notifications. Returns false when the student declined.
+   */
+  static async requestPermission(): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  /**
+   * Bring the scheduled reminders in line with the student's bookings. Reminders of
+   * cancelled bookings are removed and reminders of moved classes are rescheduled.
+   */
+  static async syncReminders(bookings: ReminderBooking[], offsets: number[]): Promise<void> {
+    if (Platform.OS === 'web') return;
+    if (!(await this.requestPermission())) return;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Class reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    // Everything a reminder shows, so a change to the class reschedules it
+    const wanted = new Map<string, { booking: ReminderBooking; offset: number; fireAt: Date; fingerprint: string }>();
+    const now = Date.now();
+
+    bookings.forEach((booking) => {
+      const yogaClass = booking.yoga_classes;
+      const startsAt = new Date(`${yogaClass.date} ${yogaClass.time}`);
+      const fingerprint = [startsAt.toISOString(), yogaClass.title, yogaClass.location, yogaClass.meeting_link || ''].join('|');
+
+      offsets.forEach((offset) => {
+        const fireAt = new Date(startsAt.getTime() - offset * 60 * 1000);
+        if (fireAt.getTime() <= now) return;
+
+        wanted.set(`${REMINDER_ID_PREFIX}${booking.id}-${offset}`, { booking, offset, fireAt, fingerprint });
+      });
+    });
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+
+    for (const request of scheduled) {
+      if (!request.identifier.startsWith(REMINDER_ID_PREFIX)) continue;
+
+      const reminder = wanted.get(request.identifier);
+      if (reminder && request.content.data?.fingerprint === reminder.fingerprint) {
+        wanted.delete(request.identifier);
+      } else {
+        await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      }
+    }
+
+    for (const [identifier, { booking, offset, fireAt, fingerprint }] of wanted) {
+      const yogaClass = booking.yoga_classes;
+      const isOnline = yogaClass.is_virtual || yogaClass.location.toLowerCase() === 'online';
+
+      await Notifications.scheduleNotificationAsync({
+        identifier,
+        content: {
+          title: `${yogaClass.title} starts in ${this.formatOffset(offset)}`,
+          body: isOnline && yogaClass.meeting_link
+            ? `Join online: ${yogaClass.meeting_link}`
+            : `Location: ${yogaClass.location}`,
+          data: {
+            fingerprint,
+            bookingId: booking.id,
+            classId: yogaClass.id,
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: fireAt,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Retreat Itinerary Service
+ * Loads and saves the day-by-day session schedule of a retreat
+ */
+
+import { supabase } from './supabase';
+
+export interface RetreatSession {
+  id: string;
+  retreat_id: string;
+  /** 1 is the retreat's start date */
+  day_number: number;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  leader: string | null;
+  location: string | null;
+  created_at: string;
+}
+
+export type RetreatSessionInput = Pick<
+  RetreatSession,
+  'day_number' | 'start_time' | 'end_time' | 'title' | 'leader' | 'location'
+>;
+
+export interface ItineraryDay<T extends RetreatSessionInput = RetreatSession> {
+  day_number: number;
+  date: Date;
+  sessions: T[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class RetreatItineraryService {
+  /**
+   * Get a retreat's sessions in schedule order
+   */
+  static async getItinerary(retreatId: string): Promise<RetreatSession[]> {
+    const { data, error } = await supabase
+      .from('retreat_sessions')
+      .select('*')
+      .eq('retreat_id', retreatId)
+      .order('day_number', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Replace a retreat's whole itinerary. Returns the number of sessions saved.
+   */
+  static async saveItinerary(
+    retreatId: string,
+    teacherId: string,
+    sessions: RetreatSessionInput[]
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('save_retreat_itinerary', {
+      p_retreat_id: retreatId,
+      p_teacher_id: teacherId,
+      p_sessions: sessions
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Number of days a retreat runs, counting both ends
+   */
+  static getDayCount(startDate: string, endDate?: string | null): number {
+    if (!endDate) return 1;
+
+    const start = new Date(`${startDate}T00:00:00`);
+    const end = new Date(`${endDate}T00:00:00`);
+    return Math.max(Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1, 1);
+  }
+
+  /**
+   * Every day of the retreat with its sessions, including days without any
+   */
+  static groupByDay<T extends RetreatSessionInput>(
+    sessions: T[],
+    startDate: string,
+    endDate?: string | null
+  ): ItineraryDay<T>[] {
+    const dayCount = this.getDayCount(startDate, endDate);
+
+    return Array.from({ length: dayCount }, (_, index) => {
+      const date = new Date(`${startDate}T00:00:00`);
+      date.setDate(date.getDate() + index);
+
+      return {
+        day_number: index + 1,
+        date,
+        sessions: sessions
+          .filter(session => session.day_number === index + 1)
+          .sort((a, b) => a.start_time.localeCompare(b.start_time)),
+      };
+    });
+  }
+
+  /**
+   * Whether a value is a 24-hour "HH:MM" time
+   */
+  static isValidTime(value: string): boolean {
+    return TIME_PATTERN.test(value);
+  }
+
+  /**
+   * Minutes from the first session start to the last session end on the busiest day
+   */
+  static getDailyDuration(sessions: RetreatSessionInput[]): number {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':');
+      return parseInt(hours) * 60 + parseInt(minutes);
+    };
+
+    const days = new Map<number, { start: number; end: number }>();
+    sessions.forEach(session => {
+      const start = toMinutes(session.start_time);
+      const end = session.end_time ? toMinutes(session.end_time) : start;
+      const day = days.get(session.day_number);
+
+      days.set(session.day_number, {
+        start: day ? Math.min(day.start, start) : start,
+        end: day ? Math.max(day.end, end) : end,
+      });
+    });
+
+    return Math.max(0, ...Array.from(days.values()).map(day => day.end - day.start));
+  }
+
+  /**
+   * Format a session's time range, e.g. "07:00 - 08:30"
+   */
+  static formatSessionTime(session: RetreatSessionInput): string {
+    const start = session.start_time.substring(0, 5);
+    return session.end_time ? `${start} - ${session.end_time.substring(0, 5)}` : start;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Retreat Service
+ * Creates retreats together with their itinerary and accommodation options
+ */
+
+import { supabase } from './supabase';
+import type { RetreatSessionInput } from './retreatItineraryService';
+import type { AccommodationInput } from './accommodationService';
+
+export class RetreatService {
+  /**
+   * Create a retreat with its itinerary and accommodation options in one
+   * transaction, so nothing is left behind when one of them is rejected.
+   * Options are kept in the given order. Returns the retreat id.
+   */
+  static async createRetreat(
+    teacherId: string,
+    retreat: Record<string, unknown>,
+    itinerary: RetreatSessionInput[] = [],
+    accommodations: AccommodationInput[] = []
+  ): Promise<string> {
+    const { data, error } = await supabase.rpc('create_retreat', {
+      p_teacher_id: teacherId,
+      p_retreat: retreat,
+      p_itinerary: itinerary,
+      p_accommodations: accommodations
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
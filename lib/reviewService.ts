@@ -0,0 +1,226 @@
+/**
+ * Review Service
+ * Handles student reviews of past classes, teacher replies and rating summaries
+ */
+
+import { supabase } from './supabase';
+
+export interface Review {
+  id: string;
+  booking_id: string;
+  class_id: string;
+  teacher_id: string;
+  student_id: string;
+  class_type: string;
+  rating: number;
+  comment?: string | null;
+  teacher_reply?: string | null;
+  replied_at?: string | null;
+  /** Flagged reviews stay public until a moderator removes or republishes them */
+  status: 'published' | 'flagged' | 'removed';
+  flag_reason?: string | null;
+  flagged_at?: string | null;
+  flag_resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewWithDetails extends Review {
+  profiles: {
+    full_name: string;
+  };
+  yoga_classes: {
+    title: string;
+    date: string;
+  };
+}
+
+export interface RatingSummary {
+  average_rating: number;
+  review_count: number;
+}
+
+export class ReviewService {
+  /**
+   * Create or update the student's review of a class they attended
+   */
+  static async submitReview(
+    bookingId: string,
+    studentId: string,
+    rating: number,
+    comment?: string
+  ): Promise<string> {
+    const { data, error } = await supabase.rpc('submit_review', {
+      p_booking_id: bookingId,
+      p_student_id: studentId,
+      p_rating: rating,
+      p_comment: comment || null
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a student's reviews keyed by booking id
+   */
+  static async getStudentReviews(studentId: string): Promise<Record<string, Review>> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('student_id', studentId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const reviews: Record<string, Review> = {};
+    (data || []).forEach((review: Review) => {
+      reviews[review.booking_id] = review;
+    });
+
+    return reviews;
+  }
+
+  /**
+   * Get reviews of a teacher's classes, newest first. Removed reviews are only
+   * returned to the teacher and the student who wrote them.
+   */
+  static async getTeacherReviews(teacherId: string, limit?: number): Promise<ReviewWithDetails[]> {
+    let query = supabase
+      .from('reviews')
+      .select(`
+        *,
+        profiles!reviews_student_id_fkey (
+          full_name
+        ),
+        yoga_classes (
+          title,
+          date
+        )
+      `)
+      .eq('teacher_id', teacherId)
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the overall rating of each teacher. Teachers without reviews are left out.
+   */
+  static async getTeacherRatings(teacherIds: string[]): Promise<Record<string, RatingSummary>> {
+    if (teacherIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('teacher_rating_summaries')
+      .select('*')
+      .in('teacher_id', teacherIds);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const ratings: Record<string, RatingSummary> = {};
+    (data || []).forEach((summary: RatingSummary & { teacher_id: string }) => {
+      ratings[summary.teacher_id] = {
+        average_rating: Number(summary.average_rating),
+        review_count: summary.review_count
+      };
+    });
+
+    return ratings;
+  }
+
+  /**
+   * Get a teacher's rating for each class type they have been reviewed for
+   */
+  static async getClassTypeRatings(teacherId: string): Promise<Record<string, RatingSummary>> {
+    const { data, error } = await supabase
+      .from('class_type_rating_summaries')
+      .select('*')
+      .eq('teacher_id', teacherId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const ratings: Record<string, RatingSummary> = {};
+    (data || []).forEach((summary: RatingSummary & { class_type: string }) => {
+      ratings[summary.class_type] = {
+        average_rating: Number(summary.average_rating),
+        review_count: summary.review_count
+      };
+    });
+
+    return ratings;
+  }
+
+  /**
+   * Reply publicly to a review of one of the teacher's classes
+   */
+  static async replyToReview(reviewId: string, teacherId: string, reply: string): Promise<void> {
+    const { error } = await supabase.rpc('reply_to_review', {
+      p_review_id: reviewId,
+      p_teacher_id: teacherId,
+      p_reply: reply
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Flag a review for a moderator to look at. It stays visible and counts towards
+   * the ratings unless the moderator removes it.
+   */
+  static async flagReview(reviewId: string, teacherId: string, reason: string): Promise<void> {
+    const { error } = await supabase.rpc('flag_review', {
+      p_review_id: reviewId,
+      p_teacher_id: teacherId,
+      p_reason: reason
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Withdraw a flag the moderator hasn't looked at yet
+   */
+  static async unflagReview(reviewId: string, teacherId: string): Promise<void> {
+    const { error } = await supabase.rpc('unflag_review', {
+      p_review_id: reviewId,
+      p_teacher_id: teacherId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Short rating label, e.g. "4.7 (23 reviews)"
+   */
+  static formatRating(summary?: RatingSummary | null): string {
+    if (!summary || summary.review_count === 0) {
+      return 'No reviews yet';
+    }
+
+    return `${summary.average_rating.toFixed(1)} (${summary.review_count} ${summary.review_count === 1 ? 'review' : 'reviews'})`;
+  }
+}
@@ -19,6 +19,12 @@ export type Database = {
           full_name: string;
           role: 'student' | 'teacher';
           avatar_url?: string;
+          reminder_offsets?: number[];
+          bio?: string | null;
+          certifications?: string[];
+          years_experience?: number | null;
+          specialties?: string[];
+          social_links?: Partial<Record<'instagram' | 'website' | 'youtube' | 'facebook', string>>;
           created_at: string;
           updated_at: string;
         };
@@ -35,6 +41,12 @@ export type Database = {
           full_name?: string;
           role?: 'student' | 'teacher';
           avatar_url?: string;
+          reminder_offsets?: number[];
+          bio?: string | null;
+          certifications?: string[];
+          years_experience?: number | null;
+          specialties?: string[];
+          social_links?: Partial<Record<'instagram' | 'website' | 'youtube' | 'facebook', string>>;
           updated_at?: string;
         };
       };
@@ -53,8 +65,18 @@ export type Database = {
           level: 'beginner' | 'intermediate' | 'advanced';
           type: string;
           location: string;
+          latitude: number | null;
+          longitude: number | null;
+          venue_id: string | null;
           meeting_link?: string;
           image_url?: string;
+          cancellation_policy_id?: string | null;
+          series_id?: string | null;
+          sliding_scale_min?: number | null;
+          sliding_scale_max?: number | null;
+          status: 'scheduled' | 'cancelled';
+          cancelled_at?: string | null;
+          cancellation_reason?: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -70,8 +92,13 @@ export type Database = {
           level: 'beginner' | 'intermediate' | 'advanced';
           type: string;
           location: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          venue_id?: string | null;
           meeting_link?: string;
           image_url?: string;
+          cancellation_policy_id?: string | null;
+          series_id?: string | null;
         };
         Update: {
           title?: string;
@@ -85,8 +112,12 @@ export type Database = {
           level?: 'beginner' | 'intermediate' | 'advanced';
           type?: string;
           location?: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          venue_id?: string | null;
           meeting_link?: string;
           image_url?: string;
+          cancellation_policy_id?: string | null;
           updated_at?: string;
         };
       };
@@ -97,7 +128,19 @@ export type Database = {
           class_id: string;
           booking_date: string;
           status: 'confirmed' | 'cancelled';
-          payment_status: 'pending' | 'completed' | 'failed' | 'refunded';
+          payment_status: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+          hold_expires_at?: string | null;
+          pack_purchase_id?: string | null;
+          membership_id?: string | null;
+          attendance?: 'checked_in' | 'no_show' | null;
+          checked_in_at?: string | null;
+          check_in_code: string;
+          accommodation_id?: string | null;
+          room_assignment?: string | null;
+          concession?: 'student' | 'senior' | null;
+          chosen_price?: number | null;
+          promo_code_id?: string | null;
+          promo_discount?: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -105,23 +148,874 @@ export type Database = {
           student_id: string;
           class_id: string;
           status: 'confirmed' | 'cancelled';
-          payment_status?: 'pending' | 'completed' | 'failed' | 'refunded';
+          payment_status?: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
         };
         Update: {
           status?: 'confirmed' | 'cancelled';
-          payment_status?: 'pending' | 'completed' | 'failed' | 'refunded';
+          payment_status?: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+          hold_expires_at?: string | null;
           updated_at?: string;
         };
       };
+      waitlist_entries: {
+        Row: {
+          id: string;
+          class_id: string;
+          student_id: string;
+          status: 'waiting' | 'promoted' | 'cancelled' | 'expired';
+          promoted_booking_id?: string | null;
+          promoted_at?: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          class_id: string;
+          student_id: string;
+          status?: 'waiting' | 'promoted' | 'cancelled' | 'expired';
+        };
+        Update: {
+          status?: 'waiting' | 'promoted' | 'cancelled' | 'expired';
+          promoted_booking_id?: string | null;
+          promoted_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      payments: {
+        Row: {
+          id: string;
+          booking_id?: string | null;
+          pack_purchase_id?: string | null;
+          membership_id?: string | null;
+          schedule_id?: string | null;
+          student_id: string;
+          provider: string;
+          provider_reference?: string | null;
+          amount: number;
+          currency: string;
+          status: 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+          failure_reason?: string | null;
+          confirmed_at?: string | null;
+          promo_code_id?: string | null;
+          discount_amount: number;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      payment_schedules: {
+        Row: {
+          id: string;
+          booking_id: string;
+          installment_number: number;
+          amount: number;
+          due_date: string;
+          status: 'pending' | 'paid' | 'overdue';
+          payment_id?: string | null;
+          paid_at?: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      pricing_rules: {
+        Row: {
+          id: string;
+          class_id: string;
+          rule_type: 'early_bird' | 'last_minute' | 'concession';
+          label: string | null;
+          discount_type: 'percent' | 'amount';
+          discount_value: number;
+          ends_on: string | null;
+          days_before: number | null;
+          concession: 'student' | 'senior' | null;
+          created_at: string;
+        };
+      };
+      promo_codes: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          code: string;
+          discount_type: 'percent' | 'amount';
+          discount_value: number;
+          scope: 'all' | 'class' | 'retreats';
+          class_id: string | null;
+          max_uses: number | null;
+          max_uses_per_student: number | null;
+          expires_at: string | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          teacher_id: string;
+          code: string;
+          discount_type: 'percent' | 'amount';
+          discount_value: number;
+          scope: 'all' | 'class' | 'retreats';
+          class_id?: string | null;
+          max_uses?: number | null;
+          max_uses_per_student?: number | null;
+          expires_at?: string | null;
+          is_active?: boolean;
+        };
+        Update: {
+          code?: string;
+          discount_type?: 'percent' | 'amount';
+          discount_value?: number;
+          scope?: 'all' | 'class' | 'retreats';
+          class_id?: string | null;
+          max_uses?: number | null;
+          max_uses_per_student?: number | null;
+          expires_at?: string | null;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      class_series: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          weekdays: number[];
+          interval_weeks: number;
+          start_date: string;
+          until_date?: string | null;
+          occurrence_count?: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      cancellation_policies: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          name: string;
+          tiers: { hours_before: number; refund_percent: number }[];
+          is_default: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          teacher_id: string;
+          name: string;
+          tiers: { hours_before: number; refund_percent: number }[];
+          is_default?: boolean;
+        };
+        Update: {
+          name?: string;
+          tiers?: { hours_before: number; refund_percent: number }[];
+          is_default?: boolean;
+          updated_at?: string;
+        };
+      };
+      refunds: {
+        Row: {
+          id: string;
+          booking_id: string | null;
+          payment_id?: string | null;
+          student_id: string;
+          class_id: string | null;
+          policy_id?: string | null;
+          amount_paid: number;
+          refund_percent: number;
+          amount: number;
+          currency: string;
+          hours_before_class?: number | null;
+          status: 'pending' | 'processed' | 'failed' | 'not_owed' | 'needs_review';
+          provider_reference?: string | null;
+          failure_reason?: string | null;
+          processed_at?: string | null;
+          credit_returned: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      class_packs: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          name: string;
+          class_count: number;
+          price: number;
+          validity_days: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          teacher_id: string;
+          name: string;
+          class_count: number;
+          price: number;
+          validity_days?: number;
+          is_active?: boolean;
+        };
+        Update: {
+          name?: string;
+          class_count?: number;
+          price?: number;
+          validity_days?: number;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      pack_purchases: {
+        Row: {
+          id: string;
+          pack_id: string;
+          student_id: string;
+          teacher_id: string;
+          credits_total: number;
+          credits_remaining: number;
+          price: number;
+          validity_days: number;
+          status: 'pending' | 'active' | 'failed';
+          purchased_at?: string | null;
+          expires_at?: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      membership_plans: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          name: string;
+          price: number;
+          classes_per_period?: number | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          teacher_id: string;
+          name: string;
+          price: number;
+          classes_per_period?: number | null;
+          is_active?: boolean;
+        };
+        Update: {
+          name?: string;
+          price?: number;
+          classes_per_period?: number | null;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      memberships: {
+        Row: {
+          id: string;
+          plan_id: string;
+          student_id: string;
+          teacher_id: string;
+          price: number;
+          classes_per_period?: number | null;
+          status: 'pending' | 'active' | 'past_due' | 'cancelled';
+          current_period_start?: string | null;
+          current_period_end?: string | null;
+          cancel_at_period_end: boolean;
+          cancelled_at?: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      class_change_notices: {
+        Row: {
+          id: string;
+          class_id: string;
+          booking_id: string;
+          student_id: string;
+          changes: Record<string, { old: string | null; new: string | null }>;
+          kind: 'changed' | 'cancelled';
+          dismissed_at?: string | null;
+          created_at: string;
+        };
+      };
+      penalty_policies: {
+        Row: {
+          teacher_id: string;
+          no_show_limit?: number | null;
+          late_cancel_limit?: number | null;
+          window_days: number;
+          penalty: 'booking_ban' | 'credit_forfeit';
+          ban_days: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      student_strikes: {
+        Row: {
+          id: string;
+          student_id: string;
+          teacher_id: string;
+          class_id: string;
+          booking_id: string;
+          kind: 'no_show' | 'late_cancel';
+          created_at: string;
+        };
+      };
+      student_penalties: {
+        Row: {
+          id: string;
+          student_id: string;
+          teacher_id: string;
+          penalty: 'booking_ban' | 'credit_forfeit';
+          reason: 'no_show' | 'late_cancel';
+          banned_until?: string | null;
+          pack_purchase_id?: string | null;
+          created_at: string;
+        };
+      };
+      venues: {
+        Row: {
+          id: string;
+          owner_id: string;
+          name: string;
+          address: string;
+          latitude: number | null;
+          longitude: number | null;
+          capacity: number;
+          accessibility_notes: string | null;
+          photos: string[];
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      retreat_accommodations: {
+        Row: {
+          id: string;
+          retreat_id: string;
+          name: string;
+          description: string | null;
+          price: number;
+          early_bird_price: number | null;
+          capacity: number;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      retreat_sessions: {
+        Row: {
+          id: string;
+          retreat_id: string;
+          day_number: number;
+          start_time: string;
+          end_time: string | null;
+          title: string;
+          leader: string | null;
+          location: string | null;
+          created_at: string;
+        };
+      };
+      teacher_follows: {
+        Row: {
+          student_id: string;
+          teacher_id: string;
+          created_at: string;
+        };
+      };
+      reviews: {
+        Row: {
+          id: string;
+          booking_id: string;
+          class_id: string;
+          teacher_id: string;
+          student_id: string;
+          class_type: string;
+          rating: number;
+          comment?: string | null;
+          teacher_reply?: string | null;
+          replied_at?: string | null;
+          status: 'published' | 'flagged' | 'removed';
+          flag_reason?: string | null;
+          flagged_at?: string | null;
+          flag_resolved_at?: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'booking_confirmed' | 'payment_received' | 'class_changed' | 'class_cancelled' | 'waitlist_promoted' | 'new_booking' | 'penalty_applied' | 'new_review' | 'review_reply' | 'new_class' | 'installment_overdue' | 'booking_released';
+          title: string;
+          body: string;
+          class_id?: string | null;
+          booking_id?: string | null;
+          read_at?: string | null;
+          created_at: string;
+        };
+      };
+    };
+    Views: {
+      teacher_rating_summaries: {
+        Row: {
+          teacher_id: string;
+          average_rating: number;
+          review_count: number;
+        };
+      };
+      class_type_rating_summaries: {
+        Row: {
+          teacher_id: string;
+          class_type: string;
+          average_rating: number;
+          review_count: number;
+        };
+      };
     };
     Functions: {
       update_booking_payment_status: {
         Args: {
           booking_id: string;
-          new_payment_status: 'pending' | 'completed' | 'failed' | 'refunded';
+          new_payment_status: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+        };
+        Returns: boolean;
+      };
+      create_payment_intent: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+          p_provider: string;
+          p_plan?: 'full' | 'installments';
+        };
+        Returns: {
+          payment_id: string;
+          booking_id: string;
+          provider: string;
+          amount: number;
+          discount_amount: number;
+          currency: string;
+          status: 'requires_confirmation';
+          installment_number: number | null;
+        };
+      };
+      submit_payment: {
+        Args: {
+          p_payment_id: string;
+          p_student_id: string;
+        };
+        Returns: undefined;
+      };
+      confirm_mock_payment: {
+        Args: {
+          p_payment_id: string;
+          p_student_id: string;
+          p_payment_method?: string;
+        };
+        Returns: {
+          payment_id: string;
+          status: 'succeeded' | 'failed';
+          failure_reason?: string;
+        };
+      };
+      join_waitlist: {
+        Args: {
+          p_student_id: string;
+          p_class_id: string;
+        };
+        Returns: { entry_id: string; position: number };
+      };
+      leave_waitlist: {
+        Args: {
+          p_entry_id: string;
+          p_student_id: string;
+        };
+        Returns: boolean;
+      };
+      get_waitlist_status: {
+        Args: {
+          p_student_id: string;
+          p_class_id: string;
+        };
+        Returns: {
+          on_waitlist: boolean;
+          entry_id?: string;
+          position?: number;
+          waiting_count: number;
+        };
+      };
+      get_refund_quote: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+        };
+        Returns: {
+          booking_id: string;
+          payment_id: string | null;
+          policy_id: string | null;
+          policy_name: string | null;
+          tiers: { hours_before: number; refund_percent: number }[];
+          hours_before_class: number;
+          amount_paid: number;
+          refund_percent: number;
+          refund_amount: number;
+          currency: string;
+          pack_purchase_id: string | null;
+          credit_returned: boolean;
+        };
+      };
+      create_pack_payment_intent: {
+        Args: {
+          p_pack_id: string;
+          p_student_id: string;
+          p_provider: string;
+        };
+        Returns: {
+          payment_id: string;
+          pack_purchase_id: string;
+          provider: string;
+          amount: number;
+          currency: string;
+          status: 'requires_confirmation';
+        };
+      };
+      create_membership_payment_intent: {
+        Args: {
+          p_plan_id: string;
+          p_student_id: string;
+          p_provider: string;
+        };
+        Returns: {
+          payment_id: string;
+          membership_id: string;
+          provider: string;
+          amount: number;
+          currency: string;
+          status: 'requires_confirmation';
+        };
+      };
+      create_membership_renewal_intent: {
+        Args: {
+          p_membership_id: string;
+          p_student_id: string;
+          p_provider: string;
+        };
+        Returns: {
+          payment_id: string;
+          membership_id: string;
+          provider: string;
+          amount: number;
+          currency: string;
+          status: 'requires_confirmation';
+        };
+      };
+      cancel_membership: {
+        Args: {
+          p_membership_id: string;
+          p_student_id: string;
+        };
+        Returns: {
+          membership_id: string;
+          status: 'active' | 'cancelled';
+          ends_at: string;
+        };
+      };
+      get_student_memberships: {
+        Args: {
+          p_student_id: string;
+        };
+        Returns: {
+          id: string;
+          plan_id: string;
+          plan_name: string;
+          teacher_id: string;
+          teacher_name: string;
+          price: number;
+          classes_per_period: number | null;
+          classes_used: number;
+          status: 'active' | 'past_due';
+          current_period_start: string | null;
+          current_period_end: string | null;
+          cancel_at_period_end: boolean;
+        }[];
+      };
+      create_booking_with_count: {
+        Args: {
+          p_student_id: string;
+          p_class_id: string;
+          p_status?: 'confirmed' | 'cancelled';
+          p_payment_status?: 'pending' | 'partially_paid' | 'completed' | 'failed' | 'refunded';
+          p_use_credit?: boolean;
+          p_accommodation_id?: string | null;
+        };
+        Returns: string;
+      };
+      create_class_series: {
+        Args: {
+          p_teacher_id: string;
+          p_class: Record<string, unknown>;
+          p_start_date: string;
+          p_weekdays: number[];
+          p_interval_weeks?: number;
+          p_until_date?: string | null;
+          p_occurrence_count?: number | null;
+        };
+        Returns: { series_id: string; class_count: number };
+      };
+      update_series_classes: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+          p_scope: 'single' | 'following' | 'all';
+          p_changes: Record<string, unknown>;
+        };
+        Returns: number;
+      };
+      cancel_class: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+          p_reason?: string | null;
+        };
+        Returns: { class_id: string; booking_count: number };
+      };
+      cancel_series_classes: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+          p_scope: 'single' | 'following' | 'all';
+          p_reason?: string | null;
+        };
+        Returns: { class_count: number; booking_count: number };
+      };
+      dismiss_class_change_notices: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+        };
+        Returns: number;
+      };
+      mark_notifications_read: {
+        Args: {
+          p_user_id: string;
+          p_notification_id?: string | null;
+        };
+        Returns: number;
+      };
+      check_in_booking: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+          p_check_in_code: string;
+        };
+        Returns: { booking_id: string; student_name: string };
+      };
+      submit_review: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+          p_rating: number;
+          p_comment?: string | null;
+        };
+        Returns: string;
+      };
+      reply_to_review: {
+        Args: {
+          p_review_id: string;
+          p_teacher_id: string;
+          p_reply: string;
+        };
+        Returns: boolean;
+      };
+      flag_review: {
+        Args: {
+          p_review_id: string;
+          p_teacher_id: string;
+          p_reason: string;
+        };
+        Returns: boolean;
+      };
+      get_teacher_stats: {
+        Args: {
+          p_teacher_id: string;
+        };
+        Returns: { classes_taught: number; retreats_hosted: number; students_taught: number; follower_count: number };
+      };
+      search_classes: {
+        Args: {
+          p_is_retreat?: boolean;
+          p_query?: string | null;
+          p_type?: string | null;
+          p_level?: string | null;
+          p_date_from?: string | null;
+          p_date_to?: string | null;
+          p_mode?: string;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_duration?: string;
+          p_teacher_ids?: string[] | null;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_km?: number | null;
+          p_sort?: 'date' | 'distance';
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: { items: unknown[]; total_count: number };
+      };
+      get_booking_restriction: {
+        Args: {
+          p_student_id: string;
+          p_teacher_id: string;
+        };
+        Returns: string | null;
+      };
+      mark_attendance: {
+        Args: {
+          p_booking_id: string;
+          p_teacher_id: string;
+          p_attendance: 'checked_in' | 'no_show';
         };
         Returns: boolean;
       };
+      mark_remaining_no_shows: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+        };
+        Returns: number;
+      };
+      set_default_cancellation_policy: {
+        Args: {
+          p_policy_id: string;
+          p_teacher_id: string;
+        };
+        Returns: boolean;
+      };
+      save_retreat_itinerary: {
+        Args: {
+          p_retreat_id: string;
+          p_teacher_id: string;
+          p_sessions: {
+            day_number: number;
+            start_time: string;
+            end_time: string | null;
+            title: string;
+            leader: string | null;
+            location: string | null;
+          }[];
+        };
+        Returns: number;
+      };
+      get_retreat_accommodations: {
+        Args: {
+          p_retreat_id: string;
+        };
+        Returns: {
+          id: string;
+          retreat_id: string;
+          name: string;
+          description: string | null;
+          price: number;
+          early_bird_price: number | null;
+          capacity: number;
+          sort_order: number;
+          spots_left: number;
+        }[];
+      };
+      get_installment_plan: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+        };
+        Returns: {
+          installment_number: number;
+          amount: number;
+          due_date: string;
+        }[];
+      };
+      choose_booking_accommodation: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+          p_accommodation_id: string;
+        };
+        Returns: boolean;
+      };
+      assign_retreat_room: {
+        Args: {
+          p_booking_id: string;
+          p_teacher_id: string;
+          p_room: string;
+        };
+        Returns: boolean;
+      };
+      calculate_price: {
+        Args: {
+          p_class_id: string;
+          p_accommodation_id?: string | null;
+          p_concession?: 'student' | 'senior' | null;
+          p_chosen_price?: number | null;
+          p_promo_code_id?: string | null;
+          p_on?: string;
+        };
+        Returns: {
+          base_price: number;
+          price: number;
+          adjustments: {
+            kind: 'early_bird' | 'last_minute' | 'concession' | 'sliding_scale' | 'promo_code';
+            label: string;
+            amount: number;
+          }[];
+          sliding_scale_min: number | null;
+          sliding_scale_max: number | null;
+        };
+      };
+      set_booking_pricing: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+          p_concession: 'student' | 'senior' | null;
+          p_chosen_price: number | null;
+        };
+        Returns: {
+          base_price: number;
+          price: number;
+          adjustments: {
+            kind: 'early_bird' | 'last_minute' | 'concession' | 'sliding_scale' | 'promo_code';
+            label: string;
+            amount: number;
+          }[];
+          sliding_scale_min: number | null;
+          sliding_scale_max: number | null;
+        };
+      };
+      save_class_pricing: {
+        Args: {
+          p_class_id: string;
+          p_teacher_id: string;
+          p_sliding_scale_min: number | null;
+          p_sliding_scale_max: number | null;
+          p_rules: {
+            rule_type: 'early_bird' | 'last_minute' | 'concession';
+            label: string | null;
+            discount_type: 'percent' | 'amount';
+            discount_value: number;
+            ends_on: string | null;
+            days_before: number | null;
+            concession: 'student' | 'senior' | null;
+          }[];
+        };
+        Returns: number;
+      };
+      apply_promo_code: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+          p_code: string;
+        };
+        Returns: string;
+      };
+      remove_promo_code: {
+        Args: {
+          p_booking_id: string;
+          p_student_id: string;
+        };
+        Returns: undefined;
+      };
     };
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,147 @@
+/**
+ * Teacher Profile Service
+ * Loads the public teacher page: profile details, upcoming schedule and stats
+ */
+
+import { supabase } from './supabase';
+
+export type SocialPlatform = 'instagram' | 'website' | 'youtube' | 'facebook';
+
+export type SocialLinks = Partial<Record<SocialPlatform, string>>;
+
+export const SOCIAL_PLATFORMS: { key: SocialPlatform; label: string }[] = [
+  { key: 'instagram', label: 'Instagram' },
+  { key: 'website', label: 'Website' },
+  { key: 'youtube', label: 'YouTube' },
+  { key: 'facebook', label: 'Facebook' },
+];
+
+export interface TeacherProfile {
+  id: string;
+  email: string;
+  full_name: string;
+  avatar_url?: string | null;
+  bio?: string | null;
+  certifications: string[];
+  years_experience?: number | null;
+  specialties: string[];
+  social_links: SocialLinks;
+}
+
+export interface TeacherStats {
+  classes_taught: number;
+  retreats_hosted: number;
+  students_taught: number;
+  follower_count: number;
+}
+
+export interface TeacherScheduleItem {
+  id: string;
+  title: string;
+  date: string;
+  time: string;
+  duration: number;
+  type: string;
+  level: string;
+  location: string;
+  price: number;
+  early_bird_price?: number | null;
+  early_bird_deadline?: string | null;
+  sliding_scale_min?: number | null;
+  sliding_scale_max?: number | null;
+  max_participants: number;
+  current_participants: number;
+  is_retreat?: boolean;
+  is_virtual?: boolean;
+  retreat_end_date?: string | null;
+}
+
+export class TeacherProfileService {
+  /**
+   * Get a teacher's public profile, or null when the id isn't a teacher
+   */
+  static async getTeacherProfile(teacherId: string): Promise<TeacherProfile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', teacherId)
+      .eq('role', 'teacher')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a teacher's upcoming classes and retreats, soonest first
+   */
+  static async getUpcomingSchedule(teacherId: string): Promise<TeacherScheduleItem[]> {
+    const today = new Date().toISOString().split('T')[0];
+    const { data, error } = await supabase
+      .from('yoga_classes')
+      .select('*')
+      .eq('teacher_id', teacherId)
+      .eq('status', 'scheduled')
+      .gte('date', today)
+      .order('date', { ascending: true })
+      .order('time', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    // Classes from earlier today have already started
+    const now = new Date();
+    return (data || []).filter((item: TeacherScheduleItem) =>
+      new Date(`${item.date} ${item.time}`) > now
+    );
+  }
+
+  /**
+   * Get the public counts shown on a teacher's page
+   */
+  static async getTeacherStats(teacherId: string): Promise<TeacherStats> {
+    const { data, error } = await supabase.rpc('get_teacher_stats', {
+      p_teacher_id: teacherId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Turn a handle or bare domain into a URL that can be opened
+   */
+  static normalizeLink(platform: SocialPlatform, value: string): string {
+    const trimmed = value.trim();
+    if (!trimmed || /^https?:\/\//i.test(trimmed)) return trimmed;
+
+    if (platform === 'instagram' && !trimmed.includes('.')) {
+      return `https://instagram.com/${trimmed.replace(/^@/, '')}`;
+    }
+
+    return `https://${trimmed}`;
+  }
+
+  /**
+   * Only plain http(s) links are stored and opened
+   */
+  static isSafeLink(url: string): boolean {
+    return /^https?:\/\/[^\s]+$/i.test(url);
+  }
+
+  /**
+   * Split a comma separated list from a text field, dropping blanks and duplicates
+   */
+  static parseList(value: string): string[] {
+    return Array.from(new Set(
+      value.split(',').map(item => item.trim()).filter(Boolean)
+    ));
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Venue Service
+ * Manages the studios and rooms teachers hold their classes in
+ */
+
+import { supabase } from './supabase';
+
+export interface Venue {
+  id: string;
+  owner_id: string;
+  name: string;
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  /** Most students the room holds */
+  capacity: number;
+  accessibility_notes: string | null;
+  photos: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VenueInput = Pick<
+  Venue,
+  'name' | 'address' | 'latitude' | 'longitude' | 'capacity' | 'accessibility_notes' | 'photos'
+>;
+
+export class VenueService {
+  /**
+   * Get the active venues a teacher manages, by name
+   */
+  static async getOwnerVenues(ownerId: string): Promise<Venue[]> {
+    const { data, error } = await supabase
+      .from('venues')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Find the teacher's active venues whose name or address matches the query.
+   * Classes can only be held in the teacher's own venues.
+   */
+  static async searchVenues(ownerId: string, query: string, limit: number = 10): Promise<Venue[]> {
+    // Characters with a meaning in PostgREST filters can't be part of the pattern
+    const term = query.replace(/[,()%*\\]/g, ' ').trim();
+    if (!term) return [];
+
+    const { data, error } = await supabase
+      .from('venues')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('is_active', true)
+      .or(`name.ilike.%${term}%,address.ilike.%${term}%`)
+      .order('name', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  static async createVenue(ownerId: string, venue: VenueInput): Promise<Venue> {
+    const { data, error } = await supabase
+      .from('venues')
+      .insert({ ...venue, owner_id: ownerId })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async updateVenue(venueId: string, ownerId: string, venue: VenueInput): Promise<Venue> {
+    const { data, error } = await supabase
+      .from('venues')
+      .update(venue)
+      .eq('id', venueId)
+      .eq('owner_id', ownerId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Archive a venue. Classes already scheduled there keep it.
+   */
+  static async archiveVenue(venueId: string, ownerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('venues')
+      .update({ is_active: false })
+      .eq('id', venueId)
+      .eq('owner_id', ownerId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Waitlist Service
+ * Manages class waitlists and the queue of students waiting for a freed spot
+ */
+
+import { supabase } from './supabase';
+
+export interface WaitlistEntry {
+  id: string;
+  class_id: string;
+  student_id: string;
+  status: 'waiting' | 'promoted' | 'cancelled' | 'expired';
+  promoted_booking_id?: string | null;
+  promoted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WaitlistEntryWithStudent extends WaitlistEntry {
+  profiles: {
+    full_name: string;
+    email: string;
+  };
+}
+
+export interface WaitlistStatus {
+  on_waitlist: boolean;
+  entry_id?: string;
+  position?: number;
+  waiting_count: number;
+}
+
+export class WaitlistService {
+  /**
+   * Join the waitlist of a full class
+   */
+  static async joinWaitlist(
+    studentId: string,
+    classId: string
+  ): Promise<{ entry_id: string; position: number }> {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      p_student_id: studentId,
+      p_class_id: classId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Leave a waitlist the student is currently queued on
+   */
+  static async leaveWaitlist(entryId: string, studentId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('leave_waitlist', {
+      p_entry_id: entryId,
+      p_student_id: studentId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get a student's position on the waitlist of a class
+   */
+  static async getWaitlistStatus(
+    studentId: string,
+    classId: string
+  ): Promise<WaitlistStatus> {
+    const { data, error } = await supabase.rpc('get_waitlist_status', {
+      p_student_id: studentId,
+      p_class_id: classId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || { on_waitlist: false, waiting_count: 0 };
+  }
+
+  /**
+   * Get the waiting queue for a set of classes, grouped by class, oldest first
+   */
+  static async getClassWaitlists(
+    classIds: string[]
+  ): Promise<Record<string, WaitlistEntryWithStudent[]>> {
+    if (classIds.length === 0) {
+      return {};
+    }
+
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select(`
+        *,
+        profiles!waitlist_entries_student_id_fkey (
+          full_name,
+          email
+        )
+      `)
+      .in('class_id', classIds)
+      .eq('status', 'waiting')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const waitlists: Record<string, WaitlistEntryWithStudent[]> = {};
+    (data || []).forEach((entry: WaitlistEntryWithStudent) => {
+      if (!waitlists[entry.class_id]) {
+        waitlists[entry.class_id] = [];
+      }
+      waitlists[entry.class_id].push(entry);
+    });
+
+    return waitlists;
+  }
+
+  /**
+   * Whether the spot of an unpaid booking is still held for the student
+   */
+  static isHoldActive(holdExpiresAt?: string | null): boolean {
+    if (!holdExpiresAt) return false;
+    return new Date(holdExpiresAt) > new Date();
+  }
+}
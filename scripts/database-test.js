@@ -272,17 +272,27 @@ class DatabaseTester {
       }
     }
 
-    // Test 3: Update Payment Status using secure function
+    // Test 3: Complete payment through the mock payment provider
     if (this.testBookingId) {
       try {
         this.startTime = Date.now();
-        const { data, error } = await this.supabase.rpc('update_booking_payment_status', {
-          booking_id: this.testBookingId,
-          new_payment_status: 'completed'
+        const { data: intent, error: intentError } = await this.supabase.rpc('create_payment_intent', {
+          p_booking_id: this.testBookingId,
+          p_student_id: '00000000-0000-0000-0000-000000000001',
+          p_provider: 'mock'
+        });
+
+        if (intentError) throw intentError;
+
+        const { data, error } = await this.supabase.rpc('confirm_mock_payment', {
+          p_payment_id: intent.payment_id,
+          p_student_id: '00000000-0000-0000-0000-000000000001',
+          p_payment_method: 'mock_card_success'
         });
 
         if (error) throw error;
-        this.logResult('UPDATE', 'bookings', true, `Updated payment status to completed`);
+        if (data.status !== 'succeeded') throw new Error(`Mock payment ${data.status}: ${data.failure_reason}`);
+        this.logResult('UPDATE', 'bookings', true, `Completed payment via mock provider`);
       } catch (error) {
         this.logResult('UPDATE', 'bookings', false, error.message);
         this.errors.push({ operation: 'UPDATE payment status', error: error.message });
@@ -27,10 +27,11 @@ class DatabaseFixer {
     console.log('🔧 Checking and fixing constraint issues...\n');
 
     try {
-      // Check for bookings that violate the payment status constraint
-      const { data: violatingBookings, error } = await this.supabase
+      // Cancelled bookings may keep a completed payment only when the
+      // cancellation policy recorded that no refund was owed
+      const { data: cancelledPaidBookings, error } = await this.supabase
         .from('bookings')
-        .select('*')
+        .select('*, refunds (id)')
         .eq('status', 'cancelled')
         .eq('payment_status', 'completed');
 
@@ -39,6 +40,10 @@ class DatabaseFixer {
         return;
       }
 
+      const violatingBookings = (cancelledPaidBookings || []).filter(
+        booking => !booking.refunds || booking.refunds.length === 0
+      );
+
       if (violatingBookings && violatingBookings.length > 0) {
         console.log(`⚠️ Found ${violatingBookings.length} bookings violating payment status constraint`);
         
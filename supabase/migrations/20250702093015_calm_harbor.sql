@@ -0,0 +1,648 @@
+/*
+  # Class Waitlist with Automatic Promotion
+
+  1. New Tables
+    - `waitlist_entries`
+      - `id` (uuid, primary key)
+      - `class_id` (uuid, references yoga_classes)
+      - `student_id` (uuid, references profiles)
+      - `status` (enum: waiting, promoted, cancelled, expired)
+      - `promoted_booking_id` (uuid, references bookings)
+      - `promoted_at` (timestamp)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. New Columns
+    - `bookings.hold_expires_at` (timestamptz) - Deadline for paying a held spot
+
+  3. Database Functions
+    - `get_held_spot_count` - Counts spots reserved by unexpired holds
+    - `join_waitlist` / `leave_waitlist` - Student queue management
+    - `get_waitlist_status` - Queue position for a student
+    - `promote_waitlist_entries` - Moves the first waiters into freed spots
+    - `increment_participant_count`, `create_booking_with_count`,
+      `cancel_booking_with_count`, `can_student_book_class` now respect held
+      spots, and cancellation promotes the next waiter
+
+  4. Security
+    - Students manage their own entries
+    - Teachers can view the queue for their classes
+*/
+
+-- Create waitlist status type
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'waitlist_status') THEN
+    CREATE TYPE waitlist_status AS ENUM ('waiting', 'promoted', 'cancelled', 'expired');
+  END IF;
+END $$;
+
+-- Add hold deadline to bookings
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS hold_expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_hold_expires_at
+ON bookings (class_id, hold_expires_at)
+WHERE hold_expires_at IS NOT NULL;
+
+-- Create waitlist table
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status waitlist_status NOT NULL DEFAULT 'waiting',
+  promoted_booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  promoted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(class_id, student_id)
+);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_class_status
+ON waitlist_entries (class_id, status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_student
+ON waitlist_entries (student_id, status);
+
+DROP TRIGGER IF EXISTS update_waitlist_entries_updated_at ON waitlist_entries;
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Waitlist policies
+CREATE POLICY "Students can view own waitlist entries"
+  ON waitlist_entries
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view waitlist for their classes"
+  ON waitlist_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM yoga_classes
+      WHERE yoga_classes.id = waitlist_entries.class_id
+      AND yoga_classes.teacher_id = auth.uid()
+    )
+  );
+
+-- Count spots reserved by promoted bookings that are still inside their hold
+CREATE OR REPLACE FUNCTION get_held_spot_count(
+  p_class_id uuid,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(*)::integer
+  FROM bookings
+  WHERE class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'pending'
+    AND hold_expires_at IS NOT NULL
+    AND hold_expires_at > now()
+    AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id);
+$$;
+
+-- Increment now also leaves room for spots held by other students
+CREATE OR REPLACE FUNCTION increment_participant_count(
+  p_class_id uuid,
+  p_student_id uuid,
+  p_booking_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_current_count integer;
+  v_max_participants integer;
+  v_new_count integer;
+  v_held_spots integer;
+BEGIN
+  -- Lock the class row to prevent concurrent modifications
+  SELECT current_participants, max_participants
+  INTO v_current_count, v_max_participants
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Spots held for promoted waitlist students are not available to others
+  v_held_spots := get_held_spot_count(p_class_id, p_booking_id);
+
+  -- Check if adding participant would exceed capacity
+  v_new_count := v_current_count + 1;
+  IF v_new_count + v_held_spots > v_max_participants THEN
+    PERFORM log_participant_count_change(
+      p_class_id,
+      p_student_id,
+      'validation',
+      v_current_count,
+      v_current_count,
+      p_booking_id,
+      'Increment rejected: would exceed max capacity'
+    );
+    RAISE EXCEPTION 'Class is full. Cannot add more participants.';
+  END IF;
+
+  -- Update the count
+  UPDATE yoga_classes
+  SET
+    current_participants = v_new_count,
+    updated_at = now()
+  WHERE id = p_class_id;
+
+  -- Log the change
+  PERFORM log_participant_count_change(
+    p_class_id,
+    p_student_id,
+    'increment',
+    v_current_count,
+    v_new_count,
+    p_booking_id,
+    'Participant added via booking'
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Promote waiting students into any spots that are free
+CREATE OR REPLACE FUNCTION promote_waitlist_entries(
+  p_class_id uuid,
+  p_hold_interval interval DEFAULT interval '12 hours'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_class_start timestamp;
+  v_available integer;
+  v_hold_until timestamptz;
+  v_entry record;
+  v_booking_id uuid;
+  v_promoted integer := 0;
+BEGIN
+  SELECT id, current_participants, max_participants, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- No promotions once the class has started
+  v_class_start := (v_class.date || ' ' || v_class.time)::timestamp;
+  IF v_class_start < now() THEN
+    RETURN 0;
+  END IF;
+
+  v_available := v_class.max_participants
+    - v_class.current_participants
+    - get_held_spot_count(p_class_id);
+
+  IF v_available <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- The hold never runs past the start of the class
+  v_hold_until := LEAST(now() + p_hold_interval, v_class_start);
+
+  FOR v_entry IN
+    SELECT id, student_id
+    FROM waitlist_entries
+    WHERE class_id = p_class_id
+      AND status = 'waiting'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_available <= 0;
+
+    -- Skip students who have booked the class some other way in the meantime
+    IF EXISTS (
+      SELECT 1 FROM bookings
+      WHERE student_id = v_entry.student_id
+        AND class_id = p_class_id
+        AND status = 'confirmed'
+    ) THEN
+      UPDATE waitlist_entries
+      SET status = 'cancelled'
+      WHERE id = v_entry.id;
+      CONTINUE;
+    END IF;
+
+    -- Reuse a previously cancelled booking row (bookings are unique per student and class)
+    UPDATE bookings
+    SET
+      status = 'confirmed',
+      payment_status = 'pending',
+      booking_date = now(),
+      hold_expires_at = v_hold_until,
+      updated_at = now()
+    WHERE student_id = v_entry.student_id
+      AND class_id = p_class_id
+      AND status = 'cancelled'
+    RETURNING id INTO v_booking_id;
+
+    IF v_booking_id IS NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, hold_expires_at)
+      VALUES (v_entry.student_id, p_class_id, 'confirmed', 'pending', v_hold_until)
+      RETURNING id INTO v_booking_id;
+    END IF;
+
+    UPDATE waitlist_entries
+    SET
+      status = 'promoted',
+      promoted_booking_id = v_booking_id,
+      promoted_at = now()
+    WHERE id = v_entry.id;
+
+    PERFORM log_participant_count_change(
+      p_class_id,
+      v_entry.student_id,
+      'validation',
+      v_class.current_participants,
+      v_class.current_participants,
+      v_booking_id,
+      'Waitlist entry promoted: spot held until ' || v_hold_until
+    );
+
+    v_available := v_available - 1;
+    v_promoted := v_promoted + 1;
+    v_booking_id := NULL;
+  END LOOP;
+
+  RETURN v_promoted;
+END;
+$$;
+
+-- Add a student to the waitlist of a full class
+CREATE OR REPLACE FUNCTION join_waitlist(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_entry_id uuid;
+  v_position integer;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  SELECT id, current_participants, max_participants, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  IF v_class.current_participants + get_held_spot_count(p_class_id) < v_class.max_participants THEN
+    RAISE EXCEPTION 'Class has available spots';
+  END IF;
+
+  -- Re-joining puts the student at the back of the queue
+  INSERT INTO waitlist_entries (class_id, student_id, status)
+  VALUES (p_class_id, p_student_id, 'waiting')
+  ON CONFLICT (class_id, student_id) DO UPDATE
+  SET
+    status = 'waiting',
+    promoted_booking_id = NULL,
+    promoted_at = NULL,
+    created_at = CASE
+      WHEN waitlist_entries.status = 'waiting' THEN waitlist_entries.created_at
+      ELSE now()
+    END
+  RETURNING id INTO v_entry_id;
+
+  SELECT COUNT(*) INTO v_position
+  FROM waitlist_entries
+  WHERE class_id = p_class_id
+    AND status = 'waiting'
+    AND created_at <= (SELECT created_at FROM waitlist_entries WHERE id = v_entry_id);
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry_id,
+    'position', v_position
+  );
+END;
+$$;
+
+-- Remove a student from a waitlist
+CREATE OR REPLACE FUNCTION leave_waitlist(
+  p_entry_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE waitlist_entries
+  SET status = 'cancelled'
+  WHERE id = p_entry_id
+    AND student_id = p_student_id
+    AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Get a student's place in the queue for a class
+CREATE OR REPLACE FUNCTION get_waitlist_status(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_entry record;
+  v_position integer;
+  v_waiting_count integer;
+BEGIN
+  SELECT COUNT(*) INTO v_waiting_count
+  FROM waitlist_entries
+  WHERE class_id = p_class_id
+    AND status = 'waiting';
+
+  SELECT id, created_at
+  INTO v_entry
+  FROM waitlist_entries
+  WHERE class_id = p_class_id
+    AND student_id = p_student_id
+    AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'on_waitlist', false,
+      'waiting_count', v_waiting_count
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_position
+  FROM waitlist_entries
+  WHERE class_id = p_class_id
+    AND status = 'waiting'
+    AND created_at <= v_entry.created_at;
+
+  RETURN jsonb_build_object(
+    'on_waitlist', true,
+    'entry_id', v_entry.id,
+    'position', v_position,
+    'waiting_count', v_waiting_count
+  );
+END;
+$$;
+
+-- Booking creation treats held spots as taken
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+BEGIN
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, current_participants, max_participants, date, time
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  IF (v_class_info.date || ' ' || v_class_info.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for promoted waitlist students
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Cancellation frees the spot and promotes the next waiting student
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_new_payment_status payment_status;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  -- Determine the appropriate payment status for cancellation
+  -- This ensures compliance with the bookings_payment_status_check constraint
+  CASE v_booking.payment_status
+    WHEN 'completed' THEN
+      v_new_payment_status := 'refunded';
+    WHEN 'pending' THEN
+      v_new_payment_status := 'pending';
+    WHEN 'failed' THEN
+      v_new_payment_status := 'failed';
+    ELSE
+      v_new_payment_status := 'pending';
+  END CASE;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if payment was completed
+  IF v_booking.payment_status = 'completed' THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_booking.payment_status = 'completed'
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Availability check reports held spots as taken and exposes waitlist size
+CREATE OR REPLACE FUNCTION can_student_book_class(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_booking_count integer;
+  v_class_info record;
+  v_class_datetime timestamp;
+  v_taken_spots integer;
+BEGIN
+  -- Check for existing booking
+  SELECT COUNT(*) INTO v_existing_booking_count
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed';
+
+  IF v_existing_booking_count > 0 THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'already_booked',
+      'message', 'Student already has a booking for this class'
+    );
+  END IF;
+
+  -- Get class information
+  SELECT
+    current_participants,
+    max_participants,
+    date,
+    time,
+    title
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_not_found',
+      'message', 'Class not found'
+    );
+  END IF;
+
+  -- Check if class is in the future
+  v_class_datetime := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_datetime < NOW() THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_past',
+      'message', 'Cannot book past classes'
+    );
+  END IF;
+
+  -- Check capacity, counting spots held for promoted waitlist students
+  v_taken_spots := v_class_info.current_participants + get_held_spot_count(p_class_id);
+  IF v_taken_spots >= v_class_info.max_participants THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_full',
+      'message', 'Class is full',
+      'current_count', v_class_info.current_participants,
+      'max_participants', v_class_info.max_participants,
+      'can_join_waitlist', true
+    );
+  END IF;
+
+  -- All checks passed
+  RETURN jsonb_build_object(
+    'can_book', true,
+    'reason', 'available',
+    'message', 'Class is available for booking',
+    'current_count', v_class_info.current_participants,
+    'max_participants', v_class_info.max_participants,
+    'spots_left', v_class_info.max_participants - v_taken_spots
+  );
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_held_spot_count(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_waitlist_entries(uuid, interval) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_waitlist(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_waitlist(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_status(uuid, uuid) TO authenticated;
+GRANT ALL ON waitlist_entries TO authenticated;
@@ -0,0 +1,328 @@
+/*
+  # Provider-Verified Payments
+
+  1. New Tables
+    - `payment_providers`
+      - `id` (text, primary key) - Provider key used by the client, e.g. `mock`
+      - `display_name` (text)
+      - `enabled` (boolean) - Disabled providers cannot create or confirm payments
+    - `payments`
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, references bookings)
+      - `student_id` (uuid, references profiles)
+      - `provider` (text, references payment_providers)
+      - `provider_reference` (text) - Charge / intent id reported by the provider
+      - `amount` (numeric) - Amount computed server-side at intent creation
+      - `currency` (text)
+      - `status` (requires_confirmation, processing, succeeded, failed, cancelled)
+      - `failure_reason` (text)
+      - `confirmed_at` (timestamp)
+
+  2. Database Functions
+    - `create_payment_intent` - Prices the booking server-side and opens a payment
+    - `record_payment_result` - Provider callback, only callable by the service role
+    - `confirm_mock_payment` - Deterministic local provider that settles through
+      the same callback path
+
+  3. Security
+    - Bookings can only become `completed` when a succeeded payment row exists
+    - Clients can read their payments but never write them
+*/
+
+-- Registered payment providers
+CREATE TABLE IF NOT EXISTS payment_providers (
+  id text PRIMARY KEY,
+  display_name text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payment_providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view payment providers"
+  ON payment_providers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- The mock provider is for local development; disable it in production
+INSERT INTO payment_providers (id, display_name, enabled)
+VALUES ('mock', 'Demo Card', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Payment records written by provider callbacks
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL REFERENCES payment_providers(id),
+  provider_reference text,
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'EUR',
+  status text NOT NULL DEFAULT 'requires_confirmation'
+    CHECK (status IN ('requires_confirmation', 'processing', 'succeeded', 'failed', 'cancelled')),
+  failure_reason text,
+  confirmed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(provider, provider_reference)
+);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_status ON payments(booking_id, status);
+CREATE INDEX IF NOT EXISTS idx_payments_student ON payments(student_id);
+
+DROP TRIGGER IF EXISTS update_payments_updated_at ON payments;
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Read-only access for clients; writes go through the functions below
+CREATE POLICY "Students can view own payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view payments for their classes"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      JOIN yoga_classes ON yoga_classes.id = bookings.class_id
+      WHERE bookings.id = payments.booking_id
+      AND yoga_classes.teacher_id = auth.uid()
+    )
+  );
+
+-- A booking may only be marked paid once a provider has confirmed a payment
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.payment_status != 'completed') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payments
+      WHERE booking_id = NEW.id
+        AND status = 'succeeded'
+    ) THEN
+      RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_verified_payment_trigger ON bookings;
+CREATE TRIGGER enforce_verified_payment_trigger
+  BEFORE INSERT OR UPDATE OF payment_status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_verified_payment();
+
+-- Open a payment for a pending booking, priced on the server
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_amount numeric(10,2);
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT
+    b.id,
+    b.status,
+    b.payment_status,
+    c.price,
+    c.early_bird_price,
+    c.early_bird_deadline
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  v_amount := get_current_price(
+    v_booking.price,
+    v_booking.early_bird_price,
+    v_booking.early_bird_deadline
+  );
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (booking_id, student_id, provider, amount)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- Provider callback: record the outcome and settle the booking
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+BEGIN
+  SELECT id, booking_id, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    BEGIN
+      UPDATE bookings
+      SET
+        payment_status = 'completed',
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- Local mock provider: declines the `mock_card_declined` method, accepts anything else
+CREATE OR REPLACE FUNCTION confirm_mock_payment(
+  p_payment_id uuid,
+  p_student_id uuid,
+  p_payment_method text DEFAULT 'mock_card_success'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+BEGIN
+  SELECT p.id, p.provider, p.student_id, pp.enabled
+  INTO v_payment
+  FROM payments p
+  JOIN payment_providers pp ON pp.id = p.provider
+  WHERE p.id = p_payment_id;
+
+  IF NOT FOUND OR v_payment.student_id != p_student_id THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.provider != 'mock' OR NOT v_payment.enabled THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  RETURN record_payment_result(
+    p_payment_id,
+    'mock_' || p_payment_id,
+    p_payment_method != 'mock_card_declined',
+    CASE WHEN p_payment_method = 'mock_card_declined' THEN 'Card declined' END
+  );
+END;
+$$;
+
+-- Provider callbacks must come from a trusted server (webhook handler)
+REVOKE EXECUTE ON FUNCTION record_payment_result(uuid, text, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment_result(uuid, text, boolean, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION create_payment_intent(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_mock_payment(uuid, uuid, text) TO authenticated;
+GRANT SELECT ON payments TO authenticated;
+GRANT SELECT ON payment_providers TO authenticated;
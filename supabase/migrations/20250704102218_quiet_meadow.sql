@@ -0,0 +1,490 @@
+/*
+  # Cancellation Policies and Refunds
+
+  1. New Tables
+    - `cancellation_policies`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references profiles)
+      - `name` (text)
+      - `tiers` (jsonb) - Array of `{ hours_before, refund_percent }`; the tier with
+        the largest `hours_before` that is still ahead of the class applies
+      - `is_default` (boolean) - Used for the teacher's classes without their own policy
+    - `refunds`
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, references bookings)
+      - `payment_id` (uuid, references payments) - The payment being refunded
+      - `student_id` (uuid, references profiles)
+      - `class_id` (uuid, references yoga_classes)
+      - `policy_id` (uuid, references cancellation_policies)
+      - `amount_paid` (numeric)
+      - `refund_percent` (numeric)
+      - `amount` (numeric) - Amount owed back to the student
+      - `hours_before_class` (numeric) - Notice given when the booking was cancelled
+      - `status` (pending, processed, failed, not_owed)
+      - `provider_reference` (text) - Refund id reported by the payment provider
+
+  2. Table Changes
+    - `yoga_classes.cancellation_policy_id` - Per-class policy override
+    - `bookings_payment_status_check` now allows cancelled bookings to keep a
+      `completed` payment when the policy grants no refund
+
+  3. Database Functions
+    - `calculate_refund` - Resolves the policy (class, then teacher default, then
+      full refund) and prices the refund for a booking
+    - `get_refund_quote` - Lets a student preview the refund before cancelling
+    - `set_default_cancellation_policy` - Switches a teacher's default policy
+    - `record_refund_result` - Provider callback, only callable by the service role
+    - `cancel_booking_with_count` now applies the policy and writes the refund ledger
+
+  4. Security
+    - Teachers manage their own policies; everyone can read them
+    - Students and teachers can read refunds but never write them
+*/
+
+-- Tiers must be a list of numeric { hours_before, refund_percent } pairs
+CREATE OR REPLACE FUNCTION is_valid_refund_tiers(p_tiers jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_tiers) != 'array' THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_tiers) AS tier
+      WHERE CASE
+        WHEN jsonb_typeof(tier->'hours_before') = 'number'
+          AND jsonb_typeof(tier->'refund_percent') = 'number' THEN
+          (tier->>'hours_before')::numeric < 0
+          OR (tier->>'refund_percent')::numeric NOT BETWEEN 0 AND 100
+        ELSE true
+      END
+    )
+  END;
+$$;
+
+-- Teacher cancellation policies
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (is_valid_refund_tiers(tiers)),
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_policies_teacher
+ON cancellation_policies (teacher_id);
+
+-- At most one default policy per teacher
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_teacher_default
+ON cancellation_policies (teacher_id)
+WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_cancellation_policies_updated_at ON cancellation_policies;
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON cancellation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view cancellation policies"
+  ON cancellation_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own cancellation policies"
+  ON cancellation_policies
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Per-class override; falls back to the teacher's default policy
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid REFERENCES cancellation_policies(id) ON DELETE SET NULL;
+
+-- A cancelled booking keeps its completed payment when no refund is owed
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+CHECK (
+  (status = 'cancelled' AND payment_status IN ('pending', 'completed', 'failed', 'refunded')) OR
+  (status = 'confirmed' AND payment_status IN ('pending', 'completed', 'failed'))
+);
+
+-- Refund ledger, one row per cancelled paid booking
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  policy_id uuid REFERENCES cancellation_policies(id) ON DELETE SET NULL,
+  amount_paid numeric(10,2) NOT NULL CHECK (amount_paid >= 0),
+  refund_percent numeric(5,2) NOT NULL CHECK (refund_percent BETWEEN 0 AND 100),
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'EUR',
+  hours_before_class numeric(10,2),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processed', 'failed', 'not_owed')),
+  provider_reference text,
+  failure_reason text,
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_refunds_booking ON refunds(booking_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_student ON refunds(student_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_class ON refunds(class_id);
+
+DROP TRIGGER IF EXISTS update_refunds_updated_at ON refunds;
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Students can view own refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view refunds for their classes"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM yoga_classes
+      WHERE yoga_classes.id = refunds.class_id
+      AND yoga_classes.teacher_id = auth.uid()
+    )
+  );
+
+-- Price the refund a booking would get if it were cancelled now
+CREATE OR REPLACE FUNCTION calculate_refund(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_policy record;
+  v_payment_id uuid;
+  v_currency text := 'EUR';
+  v_hours_before numeric;
+  v_refund_percent numeric := 0;
+  v_amount_paid numeric(10,2) := 0;
+BEGIN
+  SELECT
+    b.id,
+    b.payment_status,
+    c.teacher_id,
+    c.date,
+    c.time,
+    c.cancellation_policy_id
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_hours_before := ROUND(
+    EXTRACT(EPOCH FROM ((v_booking.date || ' ' || v_booking.time)::timestamp - now()::timestamp)) / 3600,
+    2
+  );
+
+  -- Class policy first, then the teacher's default
+  SELECT id, name, tiers
+  INTO v_policy
+  FROM cancellation_policies
+  WHERE id = v_booking.cancellation_policy_id;
+
+  IF NOT FOUND THEN
+    SELECT id, name, tiers
+    INTO v_policy
+    FROM cancellation_policies
+    WHERE teacher_id = v_booking.teacher_id
+      AND is_default = true;
+  END IF;
+
+  -- Only a completed payment that has not been refunded yet can be refunded
+  IF v_booking.payment_status = 'completed' THEN
+    SELECT p.id, p.amount, p.currency
+    INTO v_payment_id, v_amount_paid, v_currency
+    FROM payments p
+    WHERE p.booking_id = p_booking_id
+      AND p.status = 'succeeded'
+      AND NOT EXISTS (
+        SELECT 1 FROM refunds r
+        WHERE r.payment_id = p.id
+      )
+    ORDER BY p.confirmed_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_amount_paid := 0;
+      v_currency := 'EUR';
+    END IF;
+  END IF;
+
+  IF v_policy.id IS NULL THEN
+    -- Without a policy the booking is fully refundable
+    v_refund_percent := 100;
+  ELSE
+    SELECT COALESCE((
+      SELECT (tier->>'refund_percent')::numeric
+      FROM jsonb_array_elements(v_policy.tiers) AS tier
+      WHERE (tier->>'hours_before')::numeric <= v_hours_before
+      ORDER BY (tier->>'hours_before')::numeric DESC
+      LIMIT 1
+    ), 0)
+    INTO v_refund_percent;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'payment_id', v_payment_id,
+    'policy_id', v_policy.id,
+    'policy_name', v_policy.name,
+    'tiers', COALESCE(v_policy.tiers, '[]'::jsonb),
+    'hours_before_class', v_hours_before,
+    'amount_paid', v_amount_paid,
+    'refund_percent', v_refund_percent,
+    'refund_amount', ROUND(v_amount_paid * v_refund_percent / 100, 2),
+    'currency', v_currency
+  );
+END;
+$$;
+
+-- Student-facing preview of the refund for their own booking
+CREATE OR REPLACE FUNCTION get_refund_quote(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE id = p_booking_id
+      AND student_id = p_student_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  RETURN calculate_refund(p_booking_id);
+END;
+$$;
+
+-- Make one of a teacher's policies the default for their classes
+CREATE OR REPLACE FUNCTION set_default_cancellation_policy(
+  p_policy_id uuid,
+  p_teacher_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM cancellation_policies
+    WHERE id = p_policy_id
+      AND teacher_id = p_teacher_id
+  ) THEN
+    RAISE EXCEPTION 'Cancellation policy not found';
+  END IF;
+
+  UPDATE cancellation_policies
+  SET is_default = false
+  WHERE teacher_id = p_teacher_id
+    AND is_default = true
+    AND id != p_policy_id;
+
+  UPDATE cancellation_policies
+  SET is_default = true
+  WHERE id = p_policy_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Provider callback for refunds that settle asynchronously
+CREATE OR REPLACE FUNCTION record_refund_result(
+  p_refund_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_refund record;
+BEGIN
+  SELECT id, status
+  INTO v_refund
+  FROM refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_refund.status != 'pending' THEN
+    RETURN jsonb_build_object('refund_id', p_refund_id, 'status', v_refund.status);
+  END IF;
+
+  UPDATE refunds
+  SET
+    status = CASE WHEN p_succeeded THEN 'processed' ELSE 'failed' END,
+    provider_reference = p_provider_reference,
+    failure_reason = CASE WHEN p_succeeded THEN NULL ELSE COALESCE(p_failure_reason, 'Refund failed') END,
+    processed_at = now()
+  WHERE id = p_refund_id;
+
+  RETURN jsonb_build_object(
+    'refund_id', p_refund_id,
+    'status', CASE WHEN p_succeeded THEN 'processed' ELSE 'failed' END
+  );
+END;
+$$;
+
+-- Cancellation applies the refund policy and records the outcome
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_new_payment_status payment_status;
+  v_refund jsonb;
+  v_refund_amount numeric(10,2);
+  v_refund_id uuid;
+  v_provider text;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  -- Paid bookings are refunded according to the cancellation policy
+  IF v_booking.payment_status = 'completed' THEN
+    v_refund := calculate_refund(p_booking_id);
+    v_refund_amount := (v_refund->>'refund_amount')::numeric;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      policy_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      hours_before_class,
+      status
+    )
+    VALUES (
+      p_booking_id,
+      (v_refund->>'payment_id')::uuid,
+      p_student_id,
+      v_booking.class_id,
+      (v_refund->>'policy_id')::uuid,
+      (v_refund->>'amount_paid')::numeric,
+      (v_refund->>'refund_percent')::numeric,
+      v_refund_amount,
+      v_refund->>'currency',
+      (v_refund->>'hours_before_class')::numeric,
+      CASE WHEN v_refund_amount > 0 THEN 'pending' ELSE 'not_owed' END
+    )
+    RETURNING id INTO v_refund_id;
+
+    -- The local mock provider settles refunds immediately
+    SELECT provider INTO v_provider
+    FROM payments
+    WHERE id = (v_refund->>'payment_id')::uuid;
+
+    IF v_refund_amount > 0 AND v_provider = 'mock' THEN
+      UPDATE refunds
+      SET
+        status = 'processed',
+        provider_reference = 'mock_refund_' || v_refund_id,
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- A forfeited payment stays completed on the cancelled booking
+    IF v_refund_amount > 0 THEN
+      v_new_payment_status := 'refunded';
+    ELSE
+      v_new_payment_status := 'completed';
+    END IF;
+  ELSE
+    v_new_payment_status := v_booking.payment_status;
+  END IF;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if payment was completed
+  IF v_booking.payment_status = 'completed' THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_booking.payment_status = 'completed'
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Internal helpers and provider callbacks are not callable by clients
+REVOKE EXECUTE ON FUNCTION calculate_refund(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_refund_result(uuid, text, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_refund_result(uuid, text, boolean, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_refund_quote(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_default_cancellation_policy(uuid, uuid) TO authenticated;
+GRANT ALL ON cancellation_policies TO authenticated;
+GRANT SELECT ON refunds TO authenticated;
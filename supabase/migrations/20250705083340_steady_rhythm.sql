@@ -0,0 +1,323 @@
+/*
+  # Recurring Class Series
+
+  1. New Tables
+    - `class_series`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references profiles)
+      - `weekdays` (integer[]) - Days the class repeats on, 0 = Sunday
+      - `interval_weeks` (integer) - Repeat every N weeks
+      - `start_date` (date) - First day the series may produce a class
+      - `until_date` (date) - Last day of the series, or
+      - `occurrence_count` (integer) - Number of classes in the series
+
+  2. Table Changes
+    - `yoga_classes.series_id` - Links generated instances to their series
+
+  3. Database Functions
+    - `create_class_series` - Stores the rule and generates every class instance
+    - `get_series_scope_class_ids` - Resolves `single`, `following` or `all` to class ids
+    - `update_series_classes` - Applies an edit to one instance, this-and-following,
+      or every upcoming instance of the series
+    - `delete_series_classes` - Removes instances with the same scopes
+
+  4. Security
+    - Teachers manage their own series; everyone can read them
+*/
+
+-- Recurrence rules
+CREATE TABLE IF NOT EXISTS class_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekdays integer[] NOT NULL CHECK (
+    array_length(weekdays, 1) > 0
+    AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+  ),
+  interval_weeks integer NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 12),
+  start_date date NOT NULL,
+  until_date date,
+  occurrence_count integer CHECK (occurrence_count > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL),
+  CHECK (until_date IS NULL OR until_date >= start_date)
+);
+
+ALTER TABLE class_series ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_class_series_teacher ON class_series(teacher_id);
+
+DROP TRIGGER IF EXISTS update_class_series_updated_at ON class_series;
+CREATE TRIGGER update_class_series_updated_at
+  BEFORE UPDATE ON class_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view class series"
+  ON class_series
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own class series"
+  ON class_series
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Link class instances to their series
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES class_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_series_date
+ON yoga_classes (series_id, date)
+WHERE series_id IS NOT NULL;
+
+-- Store a recurrence rule and generate its class instances
+CREATE OR REPLACE FUNCTION create_class_series(
+  p_teacher_id uuid,
+  p_class jsonb,
+  p_start_date date,
+  p_weekdays integer[],
+  p_interval_weeks integer DEFAULT 1,
+  p_until_date date DEFAULT NULL,
+  p_occurrence_count integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- Upper bound so an open-ended rule can't flood the schedule
+  c_max_occurrences constant integer := 104;
+  v_series_id uuid;
+  v_weekdays integer[];
+  v_week_start date;
+  v_week integer := 0;
+  v_weekday integer;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_teacher_id
+      AND role = 'teacher'
+  ) THEN
+    RAISE EXCEPTION 'Only teachers can create class series';
+  END IF;
+
+  IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+    RAISE EXCEPTION 'A series needs an end date or a number of occurrences';
+  END IF;
+
+  IF p_start_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'A series cannot start in the past';
+  END IF;
+
+  SELECT array_agg(DISTINCT d ORDER BY d)
+  INTO v_weekdays
+  FROM unnest(p_weekdays) AS d;
+
+  INSERT INTO class_series (
+    teacher_id,
+    weekdays,
+    interval_weeks,
+    start_date,
+    until_date,
+    occurrence_count
+  )
+  VALUES (
+    p_teacher_id,
+    v_weekdays,
+    p_interval_weeks,
+    p_start_date,
+    p_until_date,
+    p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  -- Walk the calendar week by week, starting from the Sunday of the start week
+  v_week_start := p_start_date - EXTRACT(DOW FROM p_start_date)::integer;
+
+  <<weeks>>
+  LOOP
+    FOREACH v_weekday IN ARRAY v_weekdays LOOP
+      v_date := v_week_start + (v_week * 7 * p_interval_weeks) + v_weekday;
+
+      CONTINUE WHEN v_date < p_start_date;
+
+      EXIT weeks WHEN p_until_date IS NOT NULL AND v_date > p_until_date;
+      EXIT weeks WHEN v_count >= LEAST(COALESCE(p_occurrence_count, c_max_occurrences), c_max_occurrences);
+
+      INSERT INTO yoga_classes (
+        title,
+        description,
+        teacher_id,
+        date,
+        time,
+        duration,
+        max_participants,
+        current_participants,
+        price,
+        level,
+        type,
+        location,
+        meeting_link,
+        image_url,
+        cancellation_policy_id,
+        is_retreat,
+        series_id
+      )
+      VALUES (
+        p_class->>'title',
+        COALESCE(p_class->>'description', ''),
+        p_teacher_id,
+        v_date,
+        (p_class->>'time')::time,
+        COALESCE((p_class->>'duration')::integer, 60),
+        COALESCE((p_class->>'max_participants')::integer, 10),
+        0,
+        COALESCE((p_class->>'price')::numeric, 25.00),
+        COALESCE((p_class->>'level')::class_level, 'beginner'),
+        COALESCE(p_class->>'type', 'Hatha'),
+        COALESCE(p_class->>'location', 'Studio A'),
+        p_class->>'meeting_link',
+        p_class->>'image_url',
+        (p_class->>'cancellation_policy_id')::uuid,
+        false,
+        v_series_id
+      );
+
+      v_count := v_count + 1;
+    END LOOP;
+
+    v_week := v_week + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule does not produce any classes';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series_id', v_series_id,
+    'class_count', v_count
+  );
+END;
+$$;
+
+-- Resolve an edit scope to the class instances it covers
+CREATE OR REPLACE FUNCTION get_series_scope_class_ids(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text
+)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+BEGIN
+  SELECT id, teacher_id, series_id, date
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF p_scope NOT IN ('single', 'following', 'all') THEN
+    RAISE EXCEPTION 'Invalid series scope: %', p_scope;
+  END IF;
+
+  IF p_scope = 'single' OR v_class.series_id IS NULL THEN
+    RETURN NEXT p_class_id;
+    RETURN;
+  END IF;
+
+  -- Past instances are kept as they happened; `all` means every upcoming instance
+  RETURN QUERY
+  SELECT id
+  FROM yoga_classes
+  WHERE series_id = v_class.series_id
+    AND (
+      id = p_class_id
+      OR (p_scope = 'following' AND date >= v_class.date)
+      OR (p_scope = 'all' AND date >= CURRENT_DATE)
+    );
+END;
+$$;
+
+-- Apply an edit across a series scope; the date only changes for a single instance
+CREATE OR REPLACE FUNCTION update_series_classes(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text,
+  p_changes jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated_count integer;
+BEGIN
+  UPDATE yoga_classes
+  SET
+    title = COALESCE(p_changes->>'title', title),
+    description = COALESCE(p_changes->>'description', description),
+    type = COALESCE(p_changes->>'type', type),
+    level = COALESCE((p_changes->>'level')::class_level, level),
+    date = CASE
+      WHEN p_scope = 'single' THEN COALESCE((p_changes->>'date')::date, date)
+      ELSE date
+    END,
+    time = COALESCE((p_changes->>'time')::time, time),
+    duration = COALESCE((p_changes->>'duration')::integer, duration),
+    location = COALESCE(p_changes->>'location', location),
+    meeting_link = CASE WHEN p_changes ? 'meeting_link' THEN p_changes->>'meeting_link' ELSE meeting_link END,
+    price = COALESCE((p_changes->>'price')::numeric, price),
+    max_participants = COALESCE((p_changes->>'max_participants')::integer, max_participants),
+    image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+    cancellation_policy_id = CASE
+      WHEN p_changes ? 'cancellation_policy_id' THEN (p_changes->>'cancellation_policy_id')::uuid
+      ELSE cancellation_policy_id
+    END,
+    updated_at = now()
+  WHERE id IN (SELECT get_series_scope_class_ids(p_class_id, p_teacher_id, p_scope));
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+  RETURN v_updated_count;
+END;
+$$;
+
+-- Remove class instances across a series scope
+CREATE OR REPLACE FUNCTION delete_series_classes(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deleted_count integer;
+BEGIN
+  DELETE FROM yoga_classes
+  WHERE id IN (SELECT get_series_scope_class_ids(p_class_id, p_teacher_id, p_scope));
+
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+  RETURN v_deleted_count;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION create_class_series(uuid, jsonb, date, integer[], integer, date, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_series_scope_class_ids(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_series_classes(uuid, uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_series_classes(uuid, uuid, text) TO authenticated;
+GRANT ALL ON class_series TO authenticated;
@@ -0,0 +1,685 @@
+/*
+  # Class Packs and Credits
+
+  1. New Tables
+    - `class_packs`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references profiles)
+      - `name` (text)
+      - `class_count` (integer) - Credits granted by one purchase
+      - `price` (numeric)
+      - `validity_days` (integer) - Credits expire this many days after purchase
+      - `is_active` (boolean) - Inactive packs can no longer be bought
+    - `pack_purchases`
+      - `id` (uuid, primary key)
+      - `pack_id` (uuid, references class_packs)
+      - `student_id` (uuid, references profiles)
+      - `teacher_id` (uuid, references profiles) - Credits are redeemable for this teacher's classes
+      - `credits_total` / `credits_remaining` (integer)
+      - `price` (numeric) - Price paid, copied from the pack
+      - `status` (pending, active, failed)
+      - `purchased_at` / `expires_at` (timestamp) - Set once the payment succeeds
+
+  2. Table Changes
+    - `payments.booking_id` is now optional; `payments.pack_purchase_id` links pack payments
+    - `bookings.pack_purchase_id` - The purchase whose credit paid for the booking
+    - `refunds.credit_returned` - Whether a cancelled credit booking got its credit back
+
+  3. Database Functions
+    - `create_pack_payment_intent` - Opens a pending purchase and its payment
+    - `record_payment_result` now activates pack purchases
+    - `create_booking_with_count` takes `p_use_credit` to pay with the soonest-expiring credit
+    - `calculate_refund` / `cancel_booking_with_count` return the credit when the
+      cancellation policy would give a full refund
+
+  4. Security
+    - Teachers manage their own packs; everyone can read them
+    - Students can read their purchases, teachers the purchases of their packs
+    - Purchases are only written through the functions above
+*/
+
+-- Packs a teacher sells
+CREATE TABLE IF NOT EXISTS class_packs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  class_count integer NOT NULL CHECK (class_count > 0),
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  validity_days integer NOT NULL DEFAULT 90 CHECK (validity_days > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE class_packs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_class_packs_teacher ON class_packs(teacher_id, is_active);
+
+DROP TRIGGER IF EXISTS update_class_packs_updated_at ON class_packs;
+CREATE TRIGGER update_class_packs_updated_at
+  BEFORE UPDATE ON class_packs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view class packs"
+  ON class_packs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own class packs"
+  ON class_packs
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Purchased packs and their remaining credits
+CREATE TABLE IF NOT EXISTS pack_purchases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pack_id uuid NOT NULL REFERENCES class_packs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  credits_total integer NOT NULL CHECK (credits_total > 0),
+  credits_remaining integer NOT NULL CHECK (credits_remaining >= 0),
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  validity_days integer NOT NULL CHECK (validity_days > 0),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'failed')),
+  purchased_at timestamptz,
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (credits_remaining <= credits_total)
+);
+
+ALTER TABLE pack_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_pack_purchases_student_teacher
+ON pack_purchases (student_id, teacher_id, expires_at)
+WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_pack_purchases_updated_at ON pack_purchases;
+CREATE TRIGGER update_pack_purchases_updated_at
+  BEFORE UPDATE ON pack_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Students can view own pack purchases"
+  ON pack_purchases
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view purchases of their packs"
+  ON pack_purchases
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Payments pay for either a booking or a pack purchase
+ALTER TABLE payments ALTER COLUMN booking_id DROP NOT NULL;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS pack_purchase_id uuid REFERENCES pack_purchases(id) ON DELETE CASCADE;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_target_check;
+ALTER TABLE payments ADD CONSTRAINT payments_target_check
+CHECK ((booking_id IS NULL) != (pack_purchase_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_payments_pack_purchase ON payments(pack_purchase_id);
+
+CREATE POLICY "Teachers can view payments for their packs"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pack_purchases
+      WHERE pack_purchases.id = payments.pack_purchase_id
+      AND pack_purchases.teacher_id = auth.uid()
+    )
+  );
+
+-- Bookings paid with a credit
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS pack_purchase_id uuid REFERENCES pack_purchases(id) ON DELETE SET NULL;
+
+ALTER TABLE refunds
+ADD COLUMN IF NOT EXISTS credit_returned boolean NOT NULL DEFAULT false;
+
+-- A booking is paid once a provider confirmed a payment or a credit was spent on it
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.payment_status != 'completed')
+    AND NEW.pack_purchase_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payments
+      WHERE booking_id = NEW.id
+        AND status = 'succeeded'
+    ) THEN
+      RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Open a pending purchase for a pack and a payment for it, priced on the server
+CREATE OR REPLACE FUNCTION create_pack_payment_intent(
+  p_pack_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pack record;
+  v_purchase_id uuid;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT id, teacher_id, class_count, price, validity_days, is_active
+  INTO v_pack
+  FROM class_packs
+  WHERE id = p_pack_id;
+
+  IF NOT FOUND OR NOT v_pack.is_active THEN
+    RAISE EXCEPTION 'Class pack is not available';
+  END IF;
+
+  IF v_pack.teacher_id = p_student_id THEN
+    RAISE EXCEPTION 'Teachers cannot buy their own class packs';
+  END IF;
+
+  INSERT INTO pack_purchases (
+    pack_id,
+    student_id,
+    teacher_id,
+    credits_total,
+    credits_remaining,
+    price,
+    validity_days
+  )
+  VALUES (
+    p_pack_id,
+    p_student_id,
+    v_pack.teacher_id,
+    v_pack.class_count,
+    v_pack.class_count,
+    v_pack.price,
+    v_pack.validity_days
+  )
+  RETURNING id INTO v_purchase_id;
+
+  INSERT INTO payments (pack_purchase_id, student_id, provider, amount)
+  VALUES (v_purchase_id, p_student_id, p_provider, v_pack.price)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'pack_purchase_id', v_purchase_id,
+    'provider', p_provider,
+    'amount', v_pack.price,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- Provider callback: record the outcome and settle the booking or pack purchase
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+BEGIN
+  SELECT id, booking_id, pack_purchase_id, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      UPDATE bookings
+      SET
+        payment_status = 'completed',
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- Booking creation can spend a class credit instead of waiting for a payment
+DROP FUNCTION IF EXISTS create_booking_with_count(uuid, uuid, booking_status, payment_status);
+
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending',
+  p_use_credit boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+  v_purchase_id uuid;
+BEGIN
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, teacher_id, current_participants, max_participants, date, time, is_retreat
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  IF (v_class_info.date || ' ' || v_class_info.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for promoted waitlist students
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  IF p_use_credit THEN
+    IF v_class_info.is_retreat THEN
+      RAISE EXCEPTION 'Class credits cannot be used for retreats';
+    END IF;
+
+    -- Spend the credit that expires first
+    SELECT id
+    INTO v_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND expires_at > now()
+    ORDER BY expires_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No class credits available';
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_purchase_id;
+
+    INSERT INTO bookings (student_id, class_id, status, payment_status, pack_purchase_id)
+    VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_purchase_id)
+    RETURNING id INTO v_booking_id;
+
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+    RETURN v_booking_id;
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Price the refund a booking would get if it were cancelled now
+CREATE OR REPLACE FUNCTION calculate_refund(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_policy record;
+  v_payment_id uuid;
+  v_currency text := 'EUR';
+  v_hours_before numeric;
+  v_refund_percent numeric := 0;
+  v_amount_paid numeric(10,2) := 0;
+BEGIN
+  SELECT
+    b.id,
+    b.payment_status,
+    b.pack_purchase_id,
+    c.teacher_id,
+    c.date,
+    c.time,
+    c.cancellation_policy_id
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_hours_before := ROUND(
+    EXTRACT(EPOCH FROM ((v_booking.date || ' ' || v_booking.time)::timestamp - now()::timestamp)) / 3600,
+    2
+  );
+
+  -- Class policy first, then the teacher's default
+  SELECT id, name, tiers
+  INTO v_policy
+  FROM cancellation_policies
+  WHERE id = v_booking.cancellation_policy_id;
+
+  IF NOT FOUND THEN
+    SELECT id, name, tiers
+    INTO v_policy
+    FROM cancellation_policies
+    WHERE teacher_id = v_booking.teacher_id
+      AND is_default = true;
+  END IF;
+
+  -- Only a completed payment that has not been refunded yet can be refunded
+  IF v_booking.payment_status = 'completed' THEN
+    SELECT p.id, p.amount, p.currency
+    INTO v_payment_id, v_amount_paid, v_currency
+    FROM payments p
+    WHERE p.booking_id = p_booking_id
+      AND p.status = 'succeeded'
+      AND NOT EXISTS (
+        SELECT 1 FROM refunds r
+        WHERE r.payment_id = p.id
+      )
+    ORDER BY p.confirmed_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_amount_paid := 0;
+      v_currency := 'EUR';
+    END IF;
+  END IF;
+
+  IF v_policy.id IS NULL THEN
+    -- Without a policy the booking is fully refundable
+    v_refund_percent := 100;
+  ELSE
+    SELECT COALESCE((
+      SELECT (tier->>'refund_percent')::numeric
+      FROM jsonb_array_elements(v_policy.tiers) AS tier
+      WHERE (tier->>'hours_before')::numeric <= v_hours_before
+      ORDER BY (tier->>'hours_before')::numeric DESC
+      LIMIT 1
+    ), 0)
+    INTO v_refund_percent;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'payment_id', v_payment_id,
+    'policy_id', v_policy.id,
+    'policy_name', v_policy.name,
+    'tiers', COALESCE(v_policy.tiers, '[]'::jsonb),
+    'hours_before_class', v_hours_before,
+    'amount_paid', v_amount_paid,
+    'refund_percent', v_refund_percent,
+    'refund_amount', ROUND(v_amount_paid * v_refund_percent / 100, 2),
+    'currency', v_currency,
+    'pack_purchase_id', v_booking.pack_purchase_id,
+    -- A credit can't be split, so it only comes back with a full refund
+    'credit_returned', v_booking.payment_status = 'completed'
+      AND v_booking.pack_purchase_id IS NOT NULL
+      AND v_refund_percent >= 100
+  );
+END;
+$$;
+
+-- Cancellation applies the refund policy, returns credits and records the outcome
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_new_payment_status payment_status;
+  v_refund jsonb;
+  v_refund_amount numeric(10,2);
+  v_credit_returned boolean;
+  v_refund_id uuid;
+  v_provider text;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at, pack_purchase_id
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  -- Paid bookings are refunded according to the cancellation policy
+  IF v_booking.payment_status = 'completed' THEN
+    v_refund := calculate_refund(p_booking_id);
+    v_refund_amount := (v_refund->>'refund_amount')::numeric;
+    v_credit_returned := (v_refund->>'credit_returned')::boolean;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      policy_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      hours_before_class,
+      credit_returned,
+      status
+    )
+    VALUES (
+      p_booking_id,
+      (v_refund->>'payment_id')::uuid,
+      p_student_id,
+      v_booking.class_id,
+      (v_refund->>'policy_id')::uuid,
+      (v_refund->>'amount_paid')::numeric,
+      (v_refund->>'refund_percent')::numeric,
+      v_refund_amount,
+      v_refund->>'currency',
+      (v_refund->>'hours_before_class')::numeric,
+      v_credit_returned,
+      CASE WHEN v_refund_amount > 0 THEN 'pending' ELSE 'not_owed' END
+    )
+    RETURNING id INTO v_refund_id;
+
+    -- The local mock provider settles refunds immediately
+    SELECT provider INTO v_provider
+    FROM payments
+    WHERE id = (v_refund->>'payment_id')::uuid;
+
+    IF v_refund_amount > 0 AND v_provider = 'mock' THEN
+      UPDATE refunds
+      SET
+        status = 'processed',
+        provider_reference = 'mock_refund_' || v_refund_id,
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- Credits go straight back onto the purchase they came from
+    IF v_credit_returned THEN
+      UPDATE pack_purchases
+      SET credits_remaining = credits_remaining + 1
+      WHERE id = v_booking.pack_purchase_id;
+
+      UPDATE refunds
+      SET
+        status = 'processed',
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- A forfeited payment or credit stays completed on the cancelled booking
+    IF v_refund_amount > 0 OR v_credit_returned THEN
+      v_new_payment_status := 'refunded';
+    ELSE
+      v_new_payment_status := 'completed';
+    END IF;
+  ELSE
+    v_new_payment_status := v_booking.payment_status;
+  END IF;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if payment was completed
+  IF v_booking.payment_status = 'completed' THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_booking.payment_status = 'completed'
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION create_pack_payment_intent(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking_with_count(uuid, uuid, booking_status, payment_status, boolean) TO authenticated;
+GRANT ALL ON class_packs TO authenticated;
+GRANT SELECT ON pack_purchases TO authenticated;
@@ -0,0 +1,824 @@
+/*
+  # Memberships
+
+  1. New Tables
+    - `membership_plans`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references profiles)
+      - `name` (text)
+      - `price` (numeric) - Charged once per monthly billing period
+      - `classes_per_period` (integer) - Classes covered per period, NULL for unlimited
+      - `is_active` (boolean) - Inactive plans can no longer be subscribed to
+    - `memberships`
+      - `id` (uuid, primary key)
+      - `plan_id` (uuid, references membership_plans)
+      - `student_id` (uuid, references profiles)
+      - `teacher_id` (uuid, references profiles) - Membership covers this teacher's classes
+      - `price` / `classes_per_period` - Terms copied from the plan at signup
+      - `status` (pending, active, past_due, cancelled)
+      - `current_period_start` / `current_period_end` (timestamp) - Paid billing period
+      - `cancel_at_period_end` (boolean) - Cancelled by the student, ends with the period
+
+  2. Table Changes
+    - `payments.membership_id` - Links signup and renewal payments
+    - `bookings.membership_id` - The membership that covers the booking
+
+  3. Database Functions
+    - `get_covering_membership` - Finds the active membership entitled to cover a class
+    - `can_student_book_class` now reports the covering membership
+    - `create_booking_with_count` books covered classes as paid without a payment
+    - `create_membership_payment_intent` / `create_membership_renewal_intent` - Open
+      payments for a new or past-due membership
+    - `record_payment_result` now starts a new billing period for membership payments
+    - `cancel_membership` - Cancels at period end, or immediately when unpaid
+    - `advance_membership_periods` - Scheduled job that ends or marks memberships past due
+    - `get_student_memberships` - Memberships with their usage in the current period
+
+  4. Security
+    - Teachers manage their own plans; everyone can read them
+    - Students can read their memberships, teachers the memberships of their plans
+    - Memberships are only written through the functions above
+*/
+
+-- Plans a teacher offers
+CREATE TABLE IF NOT EXISTS membership_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  classes_per_period integer CHECK (classes_per_period > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE membership_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_membership_plans_teacher ON membership_plans(teacher_id, is_active);
+
+DROP TRIGGER IF EXISTS update_membership_plans_updated_at ON membership_plans;
+CREATE TRIGGER update_membership_plans_updated_at
+  BEFORE UPDATE ON membership_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view membership plans"
+  ON membership_plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own membership plans"
+  ON membership_plans
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Student subscriptions to a plan
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES membership_plans(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  classes_per_period integer CHECK (classes_per_period > 0),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'past_due', 'cancelled')),
+  current_period_start timestamptz,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean NOT NULL DEFAULT false,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (current_period_end IS NULL OR current_period_end > current_period_start)
+);
+
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+-- One live membership per student and plan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memberships_student_plan_live
+ON memberships (student_id, plan_id)
+WHERE status IN ('pending', 'active', 'past_due');
+
+CREATE INDEX IF NOT EXISTS idx_memberships_student_teacher
+ON memberships (student_id, teacher_id)
+WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_memberships_period_end
+ON memberships (current_period_end)
+WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_memberships_updated_at ON memberships;
+CREATE TRIGGER update_memberships_updated_at
+  BEFORE UPDATE ON memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Students can view own memberships"
+  ON memberships
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view memberships of their plans"
+  ON memberships
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Payments pay for a booking, a pack purchase or a membership period
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS membership_id uuid REFERENCES memberships(id) ON DELETE CASCADE;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_target_check;
+ALTER TABLE payments ADD CONSTRAINT payments_target_check
+CHECK (num_nonnulls(booking_id, pack_purchase_id, membership_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_payments_membership ON payments(membership_id);
+
+CREATE POLICY "Teachers can view payments for their memberships"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM memberships
+      WHERE memberships.id = payments.membership_id
+      AND memberships.teacher_id = auth.uid()
+    )
+  );
+
+-- Bookings covered by a membership
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS membership_id uuid REFERENCES memberships(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_membership
+ON bookings (membership_id)
+WHERE membership_id IS NOT NULL;
+
+-- A booking is paid by a confirmed payment, a spent credit or a covering membership
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.payment_status != 'completed')
+    AND NEW.pack_purchase_id IS NULL
+    AND NEW.membership_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payments
+      WHERE booking_id = NEW.id
+        AND status = 'succeeded'
+    ) THEN
+      RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Confirmed bookings a membership has covered in its current period
+CREATE OR REPLACE FUNCTION count_membership_classes(p_membership_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(*)::integer
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  JOIN memberships m ON m.id = b.membership_id
+  WHERE b.membership_id = p_membership_id
+    AND b.status = 'confirmed'
+    AND (c.date || ' ' || c.time)::timestamp >= m.current_period_start
+    AND (c.date || ' ' || c.time)::timestamp < m.current_period_end;
+$$;
+
+-- The active membership that would cover a class, if any.
+-- A membership covers its teacher's regular classes held during the paid period.
+CREATE OR REPLACE FUNCTION get_covering_membership(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_class_start timestamp;
+  v_membership_id uuid;
+BEGIN
+  SELECT teacher_id, date, time, is_retreat
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.is_retreat THEN
+    RETURN NULL;
+  END IF;
+
+  v_class_start := (v_class.date || ' ' || v_class.time)::timestamp;
+
+  -- Prefer unlimited plans, then the limited plan that renews first
+  SELECT m.id
+  INTO v_membership_id
+  FROM memberships m
+  WHERE m.student_id = p_student_id
+    AND m.teacher_id = v_class.teacher_id
+    AND m.status = 'active'
+    AND v_class_start >= m.current_period_start
+    AND v_class_start < m.current_period_end
+    AND (
+      m.classes_per_period IS NULL
+      OR count_membership_classes(m.id) < m.classes_per_period
+    )
+  ORDER BY m.classes_per_period IS NOT NULL, m.current_period_end
+  LIMIT 1;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+-- Availability check also reports the membership that would cover the booking
+CREATE OR REPLACE FUNCTION can_student_book_class(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_booking_count integer;
+  v_class_info record;
+  v_class_datetime timestamp;
+  v_taken_spots integer;
+BEGIN
+  -- Check for existing booking
+  SELECT COUNT(*) INTO v_existing_booking_count
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed';
+
+  IF v_existing_booking_count > 0 THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'already_booked',
+      'message', 'Student already has a booking for this class'
+    );
+  END IF;
+
+  -- Get class information
+  SELECT
+    current_participants,
+    max_participants,
+    date,
+    time,
+    title
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_not_found',
+      'message', 'Class not found'
+    );
+  END IF;
+
+  -- Check if class is in the future
+  v_class_datetime := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_datetime < NOW() THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_past',
+      'message', 'Cannot book past classes'
+    );
+  END IF;
+
+  -- Check capacity, counting spots held for promoted waitlist students
+  v_taken_spots := v_class_info.current_participants + get_held_spot_count(p_class_id);
+  IF v_taken_spots >= v_class_info.max_participants THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_full',
+      'message', 'Class is full',
+      'current_count', v_class_info.current_participants,
+      'max_participants', v_class_info.max_participants,
+      'can_join_waitlist', true
+    );
+  END IF;
+
+  -- All checks passed
+  RETURN jsonb_build_object(
+    'can_book', true,
+    'reason', 'available',
+    'message', 'Class is available for booking',
+    'current_count', v_class_info.current_participants,
+    'max_participants', v_class_info.max_participants,
+    'spots_left', v_class_info.max_participants - v_taken_spots,
+    'membership_id', get_covering_membership(p_student_id, p_class_id)
+  );
+END;
+$$;
+
+-- Booking creation applies a covering membership before asking for payment
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending',
+  p_use_credit boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+  v_purchase_id uuid;
+  v_membership_id uuid;
+BEGIN
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, teacher_id, current_participants, max_participants, date, time, is_retreat
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  IF (v_class_info.date || ' ' || v_class_info.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for promoted waitlist students
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  IF p_use_credit THEN
+    IF v_class_info.is_retreat THEN
+      RAISE EXCEPTION 'Class credits cannot be used for retreats';
+    END IF;
+
+    -- Spend the credit that expires first
+    SELECT id
+    INTO v_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND expires_at > now()
+    ORDER BY expires_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No class credits available';
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_purchase_id;
+
+    INSERT INTO bookings (student_id, class_id, status, payment_status, pack_purchase_id)
+    VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_purchase_id)
+    RETURNING id INTO v_booking_id;
+
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+    RETURN v_booking_id;
+  END IF;
+
+  IF p_status = 'confirmed' AND p_payment_status = 'pending' THEN
+    -- Serialize the student's bookings so a limited plan can't be overspent
+    PERFORM 1
+    FROM memberships
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    v_membership_id := get_covering_membership(p_student_id, p_class_id);
+
+    IF v_membership_id IS NOT NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, membership_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_membership_id)
+      RETURNING id INTO v_booking_id;
+
+      PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+      RETURN v_booking_id;
+    END IF;
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Sign up for a plan: opens a pending membership and its first payment
+CREATE OR REPLACE FUNCTION create_membership_payment_intent(
+  p_plan_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_plan record;
+  v_membership record;
+  v_membership_id uuid;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT id, teacher_id, price, classes_per_period, is_active
+  INTO v_plan
+  FROM membership_plans
+  WHERE id = p_plan_id;
+
+  IF NOT FOUND OR NOT v_plan.is_active THEN
+    RAISE EXCEPTION 'Membership plan is not available';
+  END IF;
+
+  IF v_plan.teacher_id = p_student_id THEN
+    RAISE EXCEPTION 'Teachers cannot subscribe to their own plans';
+  END IF;
+
+  SELECT id, status
+  INTO v_membership
+  FROM memberships
+  WHERE student_id = p_student_id
+    AND plan_id = p_plan_id
+    AND status IN ('pending', 'active', 'past_due')
+  FOR UPDATE;
+
+  IF FOUND AND v_membership.status != 'pending' THEN
+    RAISE EXCEPTION 'Student already has a membership for this plan';
+  END IF;
+
+  IF FOUND THEN
+    -- Retry an abandoned signup with a fresh payment
+    v_membership_id := v_membership.id;
+
+    UPDATE payments
+    SET status = 'cancelled'
+    WHERE membership_id = v_membership_id
+      AND status IN ('requires_confirmation', 'processing');
+  ELSE
+    INSERT INTO memberships (plan_id, student_id, teacher_id, price, classes_per_period)
+    VALUES (p_plan_id, p_student_id, v_plan.teacher_id, v_plan.price, v_plan.classes_per_period)
+    RETURNING id INTO v_membership_id;
+  END IF;
+
+  INSERT INTO payments (membership_id, student_id, provider, amount)
+  VALUES (v_membership_id, p_student_id, p_provider, v_plan.price)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'membership_id', v_membership_id,
+    'provider', p_provider,
+    'amount', v_plan.price,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- Pay for the next period of a past-due membership
+CREATE OR REPLACE FUNCTION create_membership_renewal_intent(
+  p_membership_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_membership record;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT id, status, price
+  INTO v_membership
+  FROM memberships
+  WHERE id = p_membership_id
+    AND student_id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership not found';
+  END IF;
+
+  IF v_membership.status != 'past_due' THEN
+    RAISE EXCEPTION 'Membership is not awaiting payment';
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE membership_id = p_membership_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (membership_id, student_id, provider, amount)
+  VALUES (p_membership_id, p_student_id, p_provider, v_membership.price)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'membership_id', p_membership_id,
+    'provider', p_provider,
+    'amount', v_membership.price,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- Provider callback: record the outcome and settle the booking, pack or membership
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+BEGIN
+  SELECT id, booking_id, pack_purchase_id, membership_id, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    -- A paid signup or renewal starts a new monthly period
+    IF v_payment.membership_id IS NOT NULL THEN
+      UPDATE memberships
+      SET
+        status = 'active',
+        current_period_start = now(),
+        current_period_end = now() + interval '1 month'
+      WHERE id = v_payment.membership_id
+        AND status IN ('pending', 'past_due');
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      UPDATE bookings
+      SET
+        payment_status = 'completed',
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- Students cancel at the end of a paid period; unpaid memberships end immediately
+CREATE OR REPLACE FUNCTION cancel_membership(
+  p_membership_id uuid,
+  p_student_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_membership record;
+BEGIN
+  SELECT id, status, current_period_end
+  INTO v_membership
+  FROM memberships
+  WHERE id = p_membership_id
+    AND student_id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_membership.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Membership not found or already cancelled';
+  END IF;
+
+  IF v_membership.status = 'active' THEN
+    UPDATE memberships
+    SET cancel_at_period_end = true
+    WHERE id = p_membership_id;
+
+    RETURN jsonb_build_object(
+      'membership_id', p_membership_id,
+      'status', 'active',
+      'ends_at', v_membership.current_period_end
+    );
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE membership_id = p_membership_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  UPDATE memberships
+  SET
+    status = 'cancelled',
+    cancelled_at = now()
+  WHERE id = p_membership_id;
+
+  RETURN jsonb_build_object(
+    'membership_id', p_membership_id,
+    'status', 'cancelled',
+    'ends_at', now()
+  );
+END;
+$$;
+
+-- Scheduled job: close finished periods. Cancelled memberships end, the rest
+-- become past due until the renewal payment succeeds.
+CREATE OR REPLACE FUNCTION advance_membership_periods()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated_count integer;
+BEGIN
+  UPDATE memberships
+  SET
+    status = CASE WHEN cancel_at_period_end THEN 'cancelled' ELSE 'past_due' END,
+    cancelled_at = CASE WHEN cancel_at_period_end THEN now() ELSE cancelled_at END
+  WHERE status = 'active'
+    AND current_period_end <= now();
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+  RETURN v_updated_count;
+END;
+$$;
+
+-- A student's memberships with plan, teacher and usage in the current period
+CREATE OR REPLACE FUNCTION get_student_memberships(p_student_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', m.id,
+        'plan_id', m.plan_id,
+        'plan_name', mp.name,
+        'teacher_id', m.teacher_id,
+        'teacher_name', p.full_name,
+        'price', m.price,
+        'classes_per_period', m.classes_per_period,
+        'classes_used', CASE WHEN m.status = 'active' THEN count_membership_classes(m.id) ELSE 0 END,
+        'status', m.status,
+        'current_period_start', m.current_period_start,
+        'current_period_end', m.current_period_end,
+        'cancel_at_period_end', m.cancel_at_period_end
+      )
+      ORDER BY m.created_at DESC
+    )
+    FROM memberships m
+    JOIN membership_plans mp ON mp.id = m.plan_id
+    JOIN profiles p ON p.id = m.teacher_id
+    WHERE m.student_id = p_student_id
+      AND m.status IN ('active', 'past_due')
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- Internal helpers and scheduled jobs are not callable by clients
+REVOKE EXECUTE ON FUNCTION count_membership_classes(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_covering_membership(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_membership_periods() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION advance_membership_periods() TO service_role;
+
+GRANT EXECUTE ON FUNCTION create_membership_payment_intent(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_membership_renewal_intent(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_membership(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_student_memberships(uuid) TO authenticated;
+GRANT ALL ON membership_plans TO authenticated;
+GRANT SELECT ON memberships TO authenticated;
@@ -0,0 +1,482 @@
+/*
+  # Payment Holds for Pending Bookings
+
+  1. Table Changes
+    - Unpaid bookings now always carry `bookings.hold_expires_at`. Bookings made
+      before this change get a day to complete payment.
+
+  2. Database Functions
+    - `release_booking_hold` - Cancels an unpaid booking past its hold through
+      `cancel_booking_with_count`, logs the release and promotes the waitlist
+    - `create_booking_with_count` holds the spot of an unpaid booking for 15 minutes,
+      releases the student's own lapsed hold and reuses the row of an earlier
+      cancelled or released booking
+    - `can_student_book_class` no longer treats a lapsed hold as a booking
+    - `create_payment_intent` refuses bookings whose hold has run out
+    - `enforce_verified_payment` ignores payments made for an earlier booking on a
+      reused row
+    - `release_expired_holds` - Scheduled job that releases every lapsed hold
+
+  3. Security
+    - `release_booking_hold` is internal; `release_expired_holds` is only callable
+      by the service role
+*/
+
+-- Existing unpaid bookings get a day to pay before their spot is released
+UPDATE bookings b
+SET hold_expires_at = LEAST(now() + interval '1 day', (c.date || ' ' || c.time)::timestamp)
+FROM yoga_classes c
+WHERE c.id = b.class_id
+  AND b.status = 'confirmed'
+  AND b.payment_status = 'pending'
+  AND b.hold_expires_at IS NULL;
+
+-- Release the spot of an unpaid booking whose hold has run out.
+-- Bookings with a payment the provider is still processing are left alone.
+CREATE OR REPLACE FUNCTION release_booking_hold(p_booking_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_current_count integer;
+BEGIN
+  SELECT id, student_id, class_id, hold_expires_at
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND status = 'confirmed'
+    AND payment_status = 'pending'
+    AND hold_expires_at IS NOT NULL
+    AND hold_expires_at <= now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE booking_id = p_booking_id
+      AND status = 'processing'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Abandoned payments can no longer be confirmed
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'requires_confirmation';
+
+  PERFORM cancel_booking_with_count(p_booking_id, v_booking.student_id);
+
+  SELECT current_participants INTO v_current_count
+  FROM yoga_classes
+  WHERE id = v_booking.class_id;
+
+  PERFORM log_participant_count_change(
+    v_booking.class_id,
+    v_booking.student_id,
+    'validation',
+    v_current_count,
+    v_current_count,
+    p_booking_id,
+    'Payment hold expired at ' || v_booking.hold_expires_at || ': spot released'
+  );
+
+  -- A promoted waitlist student who didn't pay loses their place
+  UPDATE waitlist_entries
+  SET status = 'expired'
+  WHERE promoted_booking_id = p_booking_id
+    AND status = 'promoted';
+
+  PERFORM promote_waitlist_entries(v_booking.class_id);
+
+  RETURN true;
+END;
+$$;
+
+-- Unpaid bookings hold their spot for a limited time
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending',
+  p_use_credit boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+  v_class_start timestamp;
+  v_hold_until timestamptz;
+  v_purchase_id uuid;
+  v_membership_id uuid;
+BEGIN
+  -- A lapsed hold of the student's own is released so they can book again
+  SELECT id INTO v_booking_id
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'pending'
+    AND hold_expires_at <= now();
+
+  IF FOUND THEN
+    PERFORM release_booking_hold(v_booking_id);
+    v_booking_id := NULL;
+  END IF;
+
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, teacher_id, current_participants, max_participants, date, time, is_retreat
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  v_class_start := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_start < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  IF p_use_credit THEN
+    IF v_class_info.is_retreat THEN
+      RAISE EXCEPTION 'Class credits cannot be used for retreats';
+    END IF;
+
+    -- Spend the credit that expires first
+    SELECT id
+    INTO v_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND expires_at > now()
+    ORDER BY expires_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No class credits available';
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_purchase_id;
+
+    INSERT INTO bookings (student_id, class_id, status, payment_status, pack_purchase_id)
+    VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_purchase_id)
+    RETURNING id INTO v_booking_id;
+
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+    RETURN v_booking_id;
+  END IF;
+
+  IF p_status = 'confirmed' AND p_payment_status = 'pending' THEN
+    -- Serialize the student's bookings so a limited plan can't be overspent
+    PERFORM 1
+    FROM memberships
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    v_membership_id := get_covering_membership(p_student_id, p_class_id);
+
+    IF v_membership_id IS NOT NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, membership_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_membership_id)
+      RETURNING id INTO v_booking_id;
+
+      PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+      RETURN v_booking_id;
+    END IF;
+
+    -- The hold never runs past the start of the class
+    v_hold_until := LEAST(now() + interval '15 minutes', v_class_start);
+
+    -- Reuse a previously cancelled or released booking row (bookings are unique per student and class)
+    UPDATE bookings
+    SET
+      status = 'confirmed',
+      payment_status = 'pending',
+      pack_purchase_id = NULL,
+      membership_id = NULL,
+      booking_date = now(),
+      hold_expires_at = v_hold_until,
+      updated_at = now()
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'cancelled'
+    RETURNING id INTO v_booking_id;
+
+    IF v_booking_id IS NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, hold_expires_at)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'pending', v_hold_until)
+      RETURNING id INTO v_booking_id;
+    END IF;
+
+    RETURN v_booking_id;
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Payments made before a reused booking row was booked again don't pay for it
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.payment_status != 'completed')
+    AND NEW.pack_purchase_id IS NULL
+    AND NEW.membership_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payments
+      WHERE booking_id = NEW.id
+        AND status = 'succeeded'
+        AND confirmed_at >= NEW.booking_date
+    ) THEN
+      RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Payments can only be opened while the booking's spot is still held
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_amount numeric(10,2);
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT
+    b.id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    c.price,
+    c.early_bird_price,
+    c.early_bird_deadline
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+    RAISE EXCEPTION 'Booking hold has expired';
+  END IF;
+
+  v_amount := get_current_price(
+    v_booking.price,
+    v_booking.early_bird_price,
+    v_booking.early_bird_deadline
+  );
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (booking_id, student_id, provider, amount)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- A booking whose hold ran out no longer stops the student from booking again
+CREATE OR REPLACE FUNCTION can_student_book_class(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_booking_count integer;
+  v_class_info record;
+  v_class_datetime timestamp;
+  v_taken_spots integer;
+BEGIN
+  -- Check for existing booking
+  SELECT COUNT(*) INTO v_existing_booking_count
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND NOT (payment_status = 'pending' AND hold_expires_at IS NOT NULL AND hold_expires_at <= now());
+
+  IF v_existing_booking_count > 0 THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'already_booked',
+      'message', 'Student already has a booking for this class'
+    );
+  END IF;
+
+  -- Get class information
+  SELECT
+    current_participants,
+    max_participants,
+    date,
+    time,
+    title
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_not_found',
+      'message', 'Class not found'
+    );
+  END IF;
+
+  -- Check if class is in the future
+  v_class_datetime := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_datetime < NOW() THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_past',
+      'message', 'Cannot book past classes'
+    );
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  v_taken_spots := v_class_info.current_participants + get_held_spot_count(p_class_id);
+  IF v_taken_spots >= v_class_info.max_participants THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_full',
+      'message', 'Class is full',
+      'current_count', v_class_info.current_participants,
+      'max_participants', v_class_info.max_participants,
+      'can_join_waitlist', true
+    );
+  END IF;
+
+  -- All checks passed
+  RETURN jsonb_build_object(
+    'can_book', true,
+    'reason', 'available',
+    'message', 'Class is available for booking',
+    'current_count', v_class_info.current_participants,
+    'max_participants', v_class_info.max_participants,
+    'spots_left', v_class_info.max_participants - v_taken_spots,
+    'membership_id', get_covering_membership(p_student_id, p_class_id)
+  );
+END;
+$$;
+
+-- Scheduled job: release every unpaid booking whose hold has run out
+CREATE OR REPLACE FUNCTION release_expired_holds()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_released integer := 0;
+BEGIN
+  FOR v_booking_id IN
+    SELECT id
+    FROM bookings
+    WHERE status = 'confirmed'
+      AND payment_status = 'pending'
+      AND hold_expires_at IS NOT NULL
+      AND hold_expires_at <= now()
+    ORDER BY hold_expires_at
+  LOOP
+    IF release_booking_hold(v_booking_id) THEN
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+-- Internal helpers and scheduled jobs are not callable by clients
+REVOKE EXECUTE ON FUNCTION release_booking_hold(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_holds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_holds() TO service_role;
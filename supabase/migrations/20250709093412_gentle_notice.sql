@@ -0,0 +1,158 @@
+/*
+  # Class Edit Validation and Change Notices
+
+  1. New Tables
+    - `class_change_notices`
+      - `id` (uuid, primary key)
+      - `class_id` (uuid, references yoga_classes)
+      - `booking_id` (uuid, references bookings)
+      - `student_id` (uuid, references profiles)
+      - `changes` (jsonb) - Changed fields with their `old` and `new` values
+      - `dismissed_at` (timestamp) - Set once the student has dismissed the notice
+      - `created_at` (timestamp)
+
+  2. Database Functions
+    - `validate_class_update` - Rejects edits booked students can't follow: a capacity
+      below the number of booked students, or moving a booked class into the past
+    - `record_class_changes` - Writes a notice for every booked student when the date,
+      time, location or meeting link of their class changes
+    - `dismiss_class_change_notices` - Hides the notices for one of a student's bookings
+
+  3. Security
+    - Students can read their own notices; notices are only written by the trigger
+*/
+
+-- Changes to a class a student has booked
+CREATE TABLE IF NOT EXISTS class_change_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  changes jsonb NOT NULL,
+  dismissed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE class_change_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_class_change_notices_student_open
+ON class_change_notices (student_id, created_at)
+WHERE dismissed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_class_change_notices_booking
+ON class_change_notices (booking_id);
+
+CREATE POLICY "Students can view own class change notices"
+  ON class_change_notices
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+-- Edits must leave room for every booked student and keep booked classes in the future
+CREATE OR REPLACE FUNCTION validate_class_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booked_count integer;
+BEGIN
+  IF NEW.max_participants < OLD.max_participants THEN
+    v_booked_count := NEW.current_participants + get_held_spot_count(NEW.id);
+
+    IF NEW.max_participants < v_booked_count THEN
+      RAISE EXCEPTION 'Max participants cannot be lower than the % students already booked', v_booked_count;
+    END IF;
+  END IF;
+
+  IF (NEW.date IS DISTINCT FROM OLD.date OR NEW.time IS DISTINCT FROM OLD.time)
+    AND (NEW.date || ' ' || NEW.time)::timestamp < now()
+    AND EXISTS (
+      SELECT 1 FROM bookings
+      WHERE class_id = NEW.id
+        AND status = 'confirmed'
+    ) THEN
+    RAISE EXCEPTION 'A class with bookings cannot be moved into the past';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_class_update_trigger ON yoga_classes;
+CREATE TRIGGER validate_class_update_trigger
+  BEFORE UPDATE OF max_participants, date, time ON yoga_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_class_update();
+
+-- Tell booked students when and where their class now takes place
+CREATE OR REPLACE FUNCTION record_class_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_changes jsonb := '{}'::jsonb;
+BEGIN
+  IF NEW.date IS DISTINCT FROM OLD.date THEN
+    v_changes := v_changes || jsonb_build_object('date', jsonb_build_object('old', OLD.date, 'new', NEW.date));
+  END IF;
+
+  IF NEW.time IS DISTINCT FROM OLD.time THEN
+    v_changes := v_changes || jsonb_build_object('time', jsonb_build_object('old', OLD.time, 'new', NEW.time));
+  END IF;
+
+  IF NEW.location IS DISTINCT FROM OLD.location THEN
+    v_changes := v_changes || jsonb_build_object('location', jsonb_build_object('old', OLD.location, 'new', NEW.location));
+  END IF;
+
+  IF NEW.meeting_link IS DISTINCT FROM OLD.meeting_link THEN
+    v_changes := v_changes || jsonb_build_object('meeting_link', jsonb_build_object('old', OLD.meeting_link, 'new', NEW.meeting_link));
+  END IF;
+
+  IF v_changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO class_change_notices (class_id, booking_id, student_id, changes)
+  SELECT NEW.id, id, student_id, v_changes
+  FROM bookings
+  WHERE class_id = NEW.id
+    AND status = 'confirmed';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_class_changes_trigger ON yoga_classes;
+CREATE TRIGGER record_class_changes_trigger
+  AFTER UPDATE OF date, time, location, meeting_link ON yoga_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_class_changes();
+
+-- Students dismiss the change banner of a booking
+CREATE OR REPLACE FUNCTION dismiss_class_change_notices(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_dismissed_count integer;
+BEGIN
+  UPDATE class_change_notices
+  SET dismissed_at = now()
+  WHERE booking_id = p_booking_id
+    AND student_id = p_student_id
+    AND dismissed_at IS NULL;
+
+  GET DIAGNOSTICS v_dismissed_count = ROW_COUNT;
+  RETURN v_dismissed_count;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION dismiss_class_change_notices(uuid, uuid) TO authenticated;
+GRANT SELECT ON class_change_notices TO authenticated;
@@ -0,0 +1,387 @@
+/*
+  # Teacher Class Cancellation
+
+  1. Table Changes
+    - `yoga_classes.status` (scheduled, cancelled) - Cancelled classes are kept for history
+    - `yoga_classes.cancelled_at` (timestamp)
+    - `yoga_classes.cancellation_reason` (text) - Shown to the students who had booked
+    - `class_change_notices.kind` (changed, cancelled) - Cancellation notices sit next
+      to the change notices students already get
+
+  2. Database Functions
+    - `prevent_booking_cancelled_class` - Trigger that stops bookings on cancelled classes
+    - `calculate_refund` refunds bookings of a cancelled class in full, regardless of policy
+    - `can_student_book_class` reports cancelled classes
+    - `cancel_class` - Marks a class cancelled, closes its waitlist, cancels every booking
+      through `cancel_booking_with_count` and leaves each student a notice
+    - `cancel_series_classes` - Cancels class instances across a series scope and replaces
+      `delete_series_classes`
+
+  3. Security
+    - Only the teacher of a class can cancel it
+*/
+
+-- Cancelled classes stay in place for history and statistics
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'scheduled'
+  CHECK (status IN ('scheduled', 'cancelled')),
+ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_status_date
+ON yoga_classes (status, date);
+
+-- Students are told when a class they booked is cancelled
+ALTER TABLE class_change_notices
+ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'changed'
+  CHECK (kind IN ('changed', 'cancelled'));
+
+-- No new or reinstated bookings on a cancelled class
+CREATE OR REPLACE FUNCTION prevent_booking_cancelled_class()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND EXISTS (
+    SELECT 1 FROM yoga_classes
+    WHERE id = NEW.class_id
+      AND status = 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'Class has been cancelled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_booking_cancelled_class_trigger ON bookings;
+CREATE TRIGGER prevent_booking_cancelled_class_trigger
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_booking_cancelled_class();
+
+-- Bookings of a class the teacher cancelled are refunded in full
+CREATE OR REPLACE FUNCTION calculate_refund(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_policy record;
+  v_payment_id uuid;
+  v_currency text := 'EUR';
+  v_hours_before numeric;
+  v_refund_percent numeric := 0;
+  v_amount_paid numeric(10,2) := 0;
+BEGIN
+  SELECT
+    b.id,
+    b.payment_status,
+    b.pack_purchase_id,
+    c.teacher_id,
+    c.date,
+    c.time,
+    c.cancellation_policy_id,
+    c.status AS class_status
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_hours_before := ROUND(
+    EXTRACT(EPOCH FROM ((v_booking.date || ' ' || v_booking.time)::timestamp - now()::timestamp)) / 3600,
+    2
+  );
+
+  -- Class policy first, then the teacher's default
+  SELECT id, name, tiers
+  INTO v_policy
+  FROM cancellation_policies
+  WHERE id = v_booking.cancellation_policy_id;
+
+  IF NOT FOUND THEN
+    SELECT id, name, tiers
+    INTO v_policy
+    FROM cancellation_policies
+    WHERE teacher_id = v_booking.teacher_id
+      AND is_default = true;
+  END IF;
+
+  -- Only a completed payment that has not been refunded yet can be refunded
+  IF v_booking.payment_status = 'completed' THEN
+    SELECT p.id, p.amount, p.currency
+    INTO v_payment_id, v_amount_paid, v_currency
+    FROM payments p
+    WHERE p.booking_id = p_booking_id
+      AND p.status = 'succeeded'
+      AND NOT EXISTS (
+        SELECT 1 FROM refunds r
+        WHERE r.payment_id = p.id
+      )
+    ORDER BY p.confirmed_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_amount_paid := 0;
+      v_currency := 'EUR';
+    END IF;
+  END IF;
+
+  IF v_booking.class_status = 'cancelled' THEN
+    -- The teacher cancelled the class, so the policy doesn't apply
+    v_refund_percent := 100;
+  ELSIF v_policy.id IS NULL THEN
+    -- Without a policy the booking is fully refundable
+    v_refund_percent := 100;
+  ELSE
+    SELECT COALESCE((
+      SELECT (tier->>'refund_percent')::numeric
+      FROM jsonb_array_elements(v_policy.tiers) AS tier
+      WHERE (tier->>'hours_before')::numeric <= v_hours_before
+      ORDER BY (tier->>'hours_before')::numeric DESC
+      LIMIT 1
+    ), 0)
+    INTO v_refund_percent;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'payment_id', v_payment_id,
+    'policy_id', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.id END,
+    'policy_name', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.name END,
+    'tiers', CASE WHEN v_booking.class_status = 'cancelled' THEN '[]'::jsonb ELSE COALESCE(v_policy.tiers, '[]'::jsonb) END,
+    'hours_before_class', v_hours_before,
+    'amount_paid', v_amount_paid,
+    'refund_percent', v_refund_percent,
+    'refund_amount', ROUND(v_amount_paid * v_refund_percent / 100, 2),
+    'currency', v_currency,
+    'pack_purchase_id', v_booking.pack_purchase_id,
+    -- A credit can't be split, so it only comes back with a full refund
+    'credit_returned', v_booking.payment_status = 'completed'
+      AND v_booking.pack_purchase_id IS NOT NULL
+      AND v_refund_percent >= 100
+  );
+END;
+$$;
+
+
+-- Availability check reports cancelled classes
+CREATE OR REPLACE FUNCTION can_student_book_class(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_booking_count integer;
+  v_class_info record;
+  v_class_datetime timestamp;
+  v_taken_spots integer;
+BEGIN
+  -- Check for existing booking
+  SELECT COUNT(*) INTO v_existing_booking_count
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND NOT (payment_status = 'pending' AND hold_expires_at IS NOT NULL AND hold_expires_at <= now());
+
+  IF v_existing_booking_count > 0 THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'already_booked',
+      'message', 'Student already has a booking for this class'
+    );
+  END IF;
+
+  -- Get class information
+  SELECT
+    current_participants,
+    max_participants,
+    date,
+    time,
+    title,
+    status
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_not_found',
+      'message', 'Class not found'
+    );
+  END IF;
+
+  IF v_class_info.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_cancelled',
+      'message', 'Class has been cancelled'
+    );
+  END IF;
+
+  -- Check if class is in the future
+  v_class_datetime := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_datetime < NOW() THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_past',
+      'message', 'Cannot book past classes'
+    );
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  v_taken_spots := v_class_info.current_participants + get_held_spot_count(p_class_id);
+  IF v_taken_spots >= v_class_info.max_participants THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_full',
+      'message', 'Class is full',
+      'current_count', v_class_info.current_participants,
+      'max_participants', v_class_info.max_participants,
+      'can_join_waitlist', true
+    );
+  END IF;
+
+  -- All checks passed
+  RETURN jsonb_build_object(
+    'can_book', true,
+    'reason', 'available',
+    'message', 'Class is available for booking',
+    'current_count', v_class_info.current_participants,
+    'max_participants', v_class_info.max_participants,
+    'spots_left', v_class_info.max_participants - v_taken_spots,
+    'membership_id', get_covering_membership(p_student_id, p_class_id)
+  );
+END;
+$$;
+
+
+-- Cancel a class: every booking is cancelled and refunded, and its student notified
+CREATE OR REPLACE FUNCTION cancel_class(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_booking record;
+  v_booking_count integer := 0;
+BEGIN
+  SELECT id, teacher_id, status, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF v_class.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Class is already cancelled';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Classes that have already started cannot be cancelled';
+  END IF;
+
+  UPDATE yoga_classes
+  SET
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = NULLIF(trim(p_reason), ''),
+    updated_at = now()
+  WHERE id = p_class_id;
+
+  -- Close the waitlist first so no one is promoted into the freed spots
+  UPDATE waitlist_entries
+  SET status = 'cancelled'
+  WHERE class_id = p_class_id
+    AND status = 'waiting';
+
+  FOR v_booking IN
+    SELECT id, student_id
+    FROM bookings
+    WHERE class_id = p_class_id
+      AND status = 'confirmed'
+  LOOP
+    -- Payments still open on unpaid bookings can no longer be confirmed
+    UPDATE payments
+    SET status = 'cancelled'
+    WHERE booking_id = v_booking.id
+      AND status IN ('requires_confirmation', 'processing');
+
+    PERFORM cancel_booking_with_count(v_booking.id, v_booking.student_id);
+
+    INSERT INTO class_change_notices (class_id, booking_id, student_id, changes, kind)
+    VALUES (p_class_id, v_booking.id, v_booking.student_id, '{}'::jsonb, 'cancelled');
+
+    v_booking_count := v_booking_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'class_id', p_class_id,
+    'booking_count', v_booking_count
+  );
+END;
+$$;
+
+-- Cancel class instances across a series scope; instances already cancelled or
+-- under way are skipped
+CREATE OR REPLACE FUNCTION cancel_series_classes(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_instance record;
+  v_result jsonb;
+  v_class_count integer := 0;
+  v_booking_count integer := 0;
+BEGIN
+  FOR v_instance IN
+    SELECT id
+    FROM yoga_classes
+    WHERE id IN (SELECT get_series_scope_class_ids(p_class_id, p_teacher_id, p_scope))
+      AND status = 'scheduled'
+      AND (date || ' ' || time)::timestamp >= now()
+    ORDER BY date, time
+  LOOP
+    v_result := cancel_class(v_instance.id, p_teacher_id, p_reason);
+    v_class_count := v_class_count + 1;
+    v_booking_count := v_booking_count + (v_result->>'booking_count')::integer;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'class_count', v_class_count,
+    'booking_count', v_booking_count
+  );
+END;
+$$;
+
+-- Series instances are cancelled, no longer deleted
+DROP FUNCTION IF EXISTS delete_series_classes(uuid, uuid, text);
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION cancel_class(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_series_classes(uuid, uuid, text, text) TO authenticated;
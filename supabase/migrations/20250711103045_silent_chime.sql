@@ -0,0 +1,319 @@
+/*
+  # In-App Notifications
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles) - Recipient
+      - `type` (text) - booking_confirmed, payment_received, class_changed, class_cancelled,
+        waitlist_promoted or new_booking
+      - `title` (text)
+      - `body` (text)
+      - `class_id` (uuid, references yoga_classes) - Class the notification is about
+      - `booking_id` (uuid, references bookings) - Booking the notification is about
+      - `read_at` (timestamp) - Set once the recipient has opened the notification
+      - `created_at` (timestamp)
+
+  2. Database Functions
+    - `create_notification` - Internal helper used by the triggers below
+    - `notify_booking_confirmed` - Tells the student their booking is confirmed and the
+      teacher that their class has a new booking, once the booking is paid
+    - `notify_payment_received` - Tells the student a payment has gone through
+    - `notify_class_change` - Tells the student a booked class was moved or cancelled
+    - `notify_waitlist_promoted` - Tells the student a waitlist spot is held for them
+    - `mark_notifications_read` - Marks one or all of a user's notifications as read
+
+  3. Security
+    - Users can read their own notifications; notifications are only written by triggers
+    - The table is added to the realtime publication so the app receives new notifications live
+*/
+
+-- Notifications shown in the inbox
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL
+    CHECK (type IN ('booking_confirmed', 'payment_received', 'class_changed', 'class_cancelled', 'waitlist_promoted', 'new_booking')),
+  title text NOT NULL,
+  body text NOT NULL,
+  class_id uuid REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON notifications (user_id)
+WHERE read_at IS NULL;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Shared insert used by every notification trigger
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text,
+  p_class_id uuid DEFAULT NULL,
+  p_booking_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_notification_id uuid;
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, class_id, booking_id)
+  VALUES (p_user_id, p_type, p_title, p_body, p_class_id, p_booking_id)
+  RETURNING id INTO v_notification_id;
+
+  RETURN v_notification_id;
+END;
+$$;
+
+-- A booking is confirmed once it is paid, by card, credit or membership
+CREATE OR REPLACE FUNCTION notify_booking_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_student_name text;
+BEGIN
+  IF NEW.status != 'confirmed' OR NEW.payment_status != 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' AND OLD.payment_status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, title, date, time, teacher_id, is_retreat
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  SELECT full_name INTO v_student_name
+  FROM profiles
+  WHERE id = NEW.student_id;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'booking_confirmed',
+    'Booking confirmed',
+    format(
+      'You''re booked for %s on %s at %s.',
+      v_class.title,
+      to_char(v_class.date, 'Dy DD Mon'),
+      to_char(v_class.time, 'HH24:MI')
+    ),
+    NEW.class_id,
+    NEW.id
+  );
+
+  PERFORM create_notification(
+    v_class.teacher_id,
+    'new_booking',
+    CASE WHEN v_class.is_retreat THEN 'New retreat booking' ELSE 'New booking' END,
+    format(
+      '%s booked %s on %s.',
+      COALESCE(v_student_name, 'A student'),
+      v_class.title,
+      to_char(v_class.date, 'Dy DD Mon')
+    ),
+    NEW.class_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_booking_confirmed_trigger ON bookings;
+CREATE TRIGGER notify_booking_confirmed_trigger
+  AFTER INSERT OR UPDATE OF status, payment_status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_booking_confirmed();
+
+-- Receipts for class payments
+CREATE OR REPLACE FUNCTION notify_payment_received()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  IF NEW.status != 'succeeded' OR OLD.status = 'succeeded' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT b.class_id, c.title
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = NEW.booking_id;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'payment_received',
+    'Payment received',
+    format(
+      'We received %s %s for %s.',
+      NEW.currency,
+      to_char(NEW.amount, 'FM999999990.00'),
+      v_booking.title
+    ),
+    v_booking.class_id,
+    NEW.booking_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_payment_received_trigger ON payments;
+CREATE TRIGGER notify_payment_received_trigger
+  AFTER UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payment_received();
+
+-- Every class change notice is also pushed to the student's inbox
+CREATE OR REPLACE FUNCTION notify_class_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_fields text;
+BEGIN
+  SELECT title, date, cancellation_reason
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  IF NEW.kind = 'cancelled' THEN
+    PERFORM create_notification(
+      NEW.student_id,
+      'class_cancelled',
+      'Class cancelled',
+      format(
+        '%s on %s was cancelled. %s',
+        v_class.title,
+        to_char(v_class.date, 'Dy DD Mon'),
+        COALESCE(v_class.cancellation_reason || ' ', '') || 'Any payment has been refunded in full.'
+      ),
+      NEW.class_id,
+      NEW.booking_id
+    );
+  ELSE
+    SELECT string_agg(replace(field, '_', ' '), ', ' ORDER BY field)
+    INTO v_fields
+    FROM jsonb_object_keys(NEW.changes) AS field;
+
+    PERFORM create_notification(
+      NEW.student_id,
+      'class_changed',
+      'Class changed',
+      format('The %s of %s changed. Check your booking for the details.', v_fields, v_class.title),
+      NEW.class_id,
+      NEW.booking_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_class_change_trigger ON class_change_notices;
+CREATE TRIGGER notify_class_change_trigger
+  AFTER INSERT ON class_change_notices
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_class_change();
+
+-- A promoted student has to pay before the hold runs out
+CREATE OR REPLACE FUNCTION notify_waitlist_promoted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_title text;
+  v_hold_until timestamptz;
+BEGIN
+  IF NEW.status != 'promoted' OR OLD.status = 'promoted' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_title
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  SELECT hold_expires_at INTO v_hold_until
+  FROM bookings
+  WHERE id = NEW.promoted_booking_id;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'waitlist_promoted',
+    'A spot opened up',
+    format(
+      'A spot in %s is held for you. Complete payment by %s to keep it.',
+      v_title,
+      to_char(v_hold_until, 'Dy DD Mon HH24:MI')
+    ),
+    NEW.class_id,
+    NEW.promoted_booking_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_waitlist_promoted_trigger ON waitlist_entries;
+CREATE TRIGGER notify_waitlist_promoted_trigger
+  AFTER UPDATE OF status ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_waitlist_promoted();
+
+-- Users mark a single notification, or all of them, as read
+CREATE OR REPLACE FUNCTION mark_notifications_read(
+  p_user_id uuid,
+  p_notification_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_read_count integer;
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = p_user_id
+    AND (p_notification_id IS NULL OR id = p_notification_id)
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_read_count = ROW_COUNT;
+  RETURN v_read_count;
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, text, text, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid, uuid) TO authenticated;
+GRANT SELECT ON notifications TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Class Reminder Settings
+
+  1. Table Changes
+    - `profiles`
+      - `reminder_offsets` (integer[]) - Minutes before a booked class at which the app
+        reminds the student, 1 day and 1 hour by default
+
+  2. Security
+    - Students change their offsets through the existing "update own profile" policy
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS reminder_offsets integer[] NOT NULL DEFAULT ARRAY[1440, 60];
+
+-- Up to a week ahead, never after the class has started
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_reminder_offsets_check;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_reminder_offsets_check
+CHECK (0 < ALL(reminder_offsets) AND 10080 >= ALL(reminder_offsets));
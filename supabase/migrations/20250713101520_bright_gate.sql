@@ -0,0 +1,176 @@
+/*
+  # Attendance Check-In
+
+  1. Table Changes
+    - `bookings`
+      - `attendance` (enum: checked_in, no_show) - Empty until the teacher takes attendance
+      - `checked_in_at` (timestamp)
+      - `check_in_code` (uuid) - Secret shown to the student as a QR code
+
+  2. Database Functions
+    - `check_in_booking` - Checks a student in from the code the teacher scanned
+    - `mark_attendance` - Lets the teacher set or correct attendance by hand
+    - `mark_remaining_no_shows` - Marks everyone not checked in once the class has started
+
+  3. Security
+    - Only the teacher of the class can take attendance
+*/
+
+-- Create attendance status type
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'attendance_status') THEN
+    CREATE TYPE attendance_status AS ENUM ('checked_in', 'no_show');
+  END IF;
+END $$;
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS attendance attendance_status,
+ADD COLUMN IF NOT EXISTS checked_in_at timestamptz,
+ADD COLUMN IF NOT EXISTS check_in_code uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_check_in_code
+ON bookings (check_in_code);
+
+-- Check-in opens an hour before the class starts
+CREATE OR REPLACE FUNCTION check_in_booking(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_check_in_code uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_booking record;
+BEGIN
+  SELECT id, teacher_id, date, time, status
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF v_class.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Class has been cancelled';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp - interval '1 hour' > now() THEN
+    RAISE EXCEPTION 'Check-in opens an hour before the class starts';
+  END IF;
+
+  SELECT b.id, b.class_id, b.status, b.payment_status, b.attendance, p.full_name
+  INTO v_booking
+  FROM bookings b
+  JOIN profiles p ON p.id = b.student_id
+  WHERE b.check_in_code = p_check_in_code
+  FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.class_id != p_class_id THEN
+    RAISE EXCEPTION 'This code is not for this class';
+  END IF;
+
+  IF v_booking.status != 'confirmed' THEN
+    RAISE EXCEPTION 'Booking has been cancelled';
+  END IF;
+
+  IF v_booking.payment_status != 'completed' THEN
+    RAISE EXCEPTION 'Booking has not been paid';
+  END IF;
+
+  IF v_booking.attendance = 'checked_in' THEN
+    RAISE EXCEPTION '% is already checked in', v_booking.full_name;
+  END IF;
+
+  UPDATE bookings
+  SET
+    attendance = 'checked_in',
+    checked_in_at = now(),
+    updated_at = now()
+  WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'booking_id', v_booking.id,
+    'student_name', v_booking.full_name
+  );
+END;
+$$;
+
+-- Manual attendance for students without their phone, or to correct a mistake
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_booking_id uuid,
+  p_teacher_id uuid,
+  p_attendance attendance_status
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE bookings b
+  SET
+    attendance = p_attendance,
+    checked_in_at = CASE WHEN p_attendance = 'checked_in' THEN COALESCE(b.checked_in_at, now()) ELSE NULL END,
+    updated_at = now()
+  FROM yoga_classes c
+  WHERE b.id = p_booking_id
+    AND c.id = b.class_id
+    AND c.teacher_id = p_teacher_id
+    AND b.status = 'confirmed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Close attendance for a class: everyone who hasn't shown up is a no-show
+CREATE OR REPLACE FUNCTION mark_remaining_no_shows(
+  p_class_id uuid,
+  p_teacher_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_no_show_count integer;
+BEGIN
+  SELECT id, teacher_id, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp > now() THEN
+    RAISE EXCEPTION 'No-shows can only be marked once the class has started';
+  END IF;
+
+  UPDATE bookings
+  SET
+    attendance = 'no_show',
+    updated_at = now()
+  WHERE class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'completed'
+    AND attendance IS NULL;
+
+  GET DIAGNOSTICS v_no_show_count = ROW_COUNT;
+  RETURN v_no_show_count;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION check_in_booking(uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_attendance(uuid, uuid, attendance_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_remaining_no_shows(uuid, uuid) TO authenticated;
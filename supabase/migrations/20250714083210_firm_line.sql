@@ -0,0 +1,518 @@
+/*
+  # No-Show and Late-Cancel Penalties
+
+  1. New Tables
+    - `penalty_policies` - One per teacher
+      - `teacher_id` (uuid, primary key, references profiles)
+      - `no_show_limit` (integer) - No-shows that trigger the penalty, empty to ignore no-shows
+      - `late_cancel_limit` (integer) - Late cancellations that trigger the penalty, empty to ignore them
+      - `window_days` (integer) - Only strikes from this many days back count
+      - `penalty` (text) - `booking_ban` or `credit_forfeit`
+      - `ban_days` (integer) - Length of a booking ban
+      - `is_active` (boolean)
+    - `student_strikes` - A student's no-shows and late cancellations with a teacher
+      - `id` (uuid, primary key)
+      - `student_id`, `teacher_id`, `class_id`, `booking_id`
+      - `kind` (text) - `no_show` or `late_cancel`
+      - `created_at` (timestamp)
+    - `student_penalties` - Penalties that were applied
+      - `id` (uuid, primary key)
+      - `student_id`, `teacher_id`
+      - `penalty` (text) - `booking_ban` or `credit_forfeit`
+      - `reason` (text) - `no_show` or `late_cancel`
+      - `banned_until` (timestamp) - End of a booking ban
+      - `pack_purchase_id` (uuid) - Pack a forfeited credit was taken from
+      - `created_at` (timestamp)
+
+  2. Database Functions
+    - `get_booking_restriction` - End of a student's active ban with a teacher, if any
+    - `apply_penalty_policy` - Applies the teacher's penalty once a student reaches a limit
+    - `record_no_show_strike` - Records a strike when a booking is marked as a no-show
+    - `record_late_cancel_strike` - Records a strike when a cancellation is refunded less than in full
+    - `prevent_restricted_booking` - Stops banned students from booking or joining a waitlist
+    - `can_student_book_class` - Reports `booking_restricted` for banned students
+
+  3. Security
+    - Teachers manage their own penalty policy
+    - Students see their own strikes and penalties, teachers those with their classes
+    - Strikes and penalties are only written by the triggers
+*/
+
+-- Teacher thresholds
+CREATE TABLE IF NOT EXISTS penalty_policies (
+  teacher_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  no_show_limit integer CHECK (no_show_limit > 0),
+  late_cancel_limit integer CHECK (late_cancel_limit > 0),
+  window_days integer NOT NULL DEFAULT 30 CHECK (window_days > 0),
+  penalty text NOT NULL DEFAULT 'booking_ban' CHECK (penalty IN ('booking_ban', 'credit_forfeit')),
+  ban_days integer NOT NULL DEFAULT 7 CHECK (ban_days > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE penalty_policies ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_penalty_policies_updated_at ON penalty_policies;
+CREATE TRIGGER update_penalty_policies_updated_at
+  BEFORE UPDATE ON penalty_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view penalty policies"
+  ON penalty_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own penalty policy"
+  ON penalty_policies
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Strikes count towards the limits
+CREATE TABLE IF NOT EXISTS student_strikes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('no_show', 'late_cancel')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(booking_id, kind)
+);
+
+ALTER TABLE student_strikes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_student_strikes_student_teacher
+ON student_strikes (student_id, teacher_id, kind, created_at);
+
+CREATE POLICY "Students can view own strikes"
+  ON student_strikes
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view strikes with their classes"
+  ON student_strikes
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Applied penalties
+CREATE TABLE IF NOT EXISTS student_penalties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  penalty text NOT NULL CHECK (penalty IN ('booking_ban', 'credit_forfeit')),
+  reason text NOT NULL CHECK (reason IN ('no_show', 'late_cancel')),
+  banned_until timestamptz,
+  pack_purchase_id uuid REFERENCES pack_purchases(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE student_penalties ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_student_penalties_student_teacher
+ON student_penalties (student_id, teacher_id, created_at);
+
+CREATE POLICY "Students can view own penalties"
+  ON student_penalties
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view penalties with their classes"
+  ON student_penalties
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Students are told when a penalty is applied
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'booking_confirmed',
+  'payment_received',
+  'class_changed',
+  'class_cancelled',
+  'waitlist_promoted',
+  'new_booking',
+  'penalty_applied'
+));
+
+-- End of the student's current ban with a teacher, NULL when they may book
+CREATE OR REPLACE FUNCTION get_booking_restriction(
+  p_student_id uuid,
+  p_teacher_id uuid
+)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT MAX(banned_until)
+  FROM student_penalties
+  WHERE student_id = p_student_id
+    AND teacher_id = p_teacher_id
+    AND penalty = 'booking_ban'
+    AND banned_until > now();
+$$;
+
+-- Strikes since the last penalty for the same reason count towards the next one
+CREATE OR REPLACE FUNCTION apply_penalty_policy(
+  p_student_id uuid,
+  p_teacher_id uuid,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_policy record;
+  v_limit integer;
+  v_last_penalty_at timestamptz;
+  v_strike_count integer;
+  v_banned_until timestamptz;
+  v_pack_purchase_id uuid;
+  v_teacher_name text;
+BEGIN
+  SELECT * INTO v_policy
+  FROM penalty_policies
+  WHERE teacher_id = p_teacher_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_limit := CASE WHEN p_reason = 'no_show' THEN v_policy.no_show_limit ELSE v_policy.late_cancel_limit END;
+
+  IF v_limit IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT MAX(created_at) INTO v_last_penalty_at
+  FROM student_penalties
+  WHERE student_id = p_student_id
+    AND teacher_id = p_teacher_id
+    AND reason = p_reason;
+
+  SELECT COUNT(*) INTO v_strike_count
+  FROM student_strikes
+  WHERE student_id = p_student_id
+    AND teacher_id = p_teacher_id
+    AND kind = p_reason
+    AND created_at > now() - make_interval(days => v_policy.window_days)
+    AND created_at > COALESCE(v_last_penalty_at, '-infinity'::timestamptz);
+
+  IF v_strike_count < v_limit THEN
+    RETURN;
+  END IF;
+
+  SELECT full_name INTO v_teacher_name
+  FROM profiles
+  WHERE id = p_teacher_id;
+
+  IF v_policy.penalty = 'booking_ban' THEN
+    v_banned_until := now() + make_interval(days => v_policy.ban_days);
+
+    INSERT INTO student_penalties (student_id, teacher_id, penalty, reason, banned_until)
+    VALUES (p_student_id, p_teacher_id, 'booking_ban', p_reason, v_banned_until);
+
+    -- A banned student can't be promoted into one of the teacher's classes
+    UPDATE waitlist_entries
+    SET
+      status = 'cancelled',
+      updated_at = now()
+    WHERE student_id = p_student_id
+      AND status = 'waiting'
+      AND class_id IN (
+        SELECT id FROM yoga_classes
+        WHERE teacher_id = p_teacher_id
+      );
+
+    PERFORM create_notification(
+      p_student_id,
+      'penalty_applied',
+      'Booking paused',
+      format(
+        'After %s %s you can''t book classes with %s until %s.',
+        v_strike_count,
+        CASE WHEN p_reason = 'no_show' THEN 'no-shows' ELSE 'late cancellations' END,
+        COALESCE(v_teacher_name, 'this teacher'),
+        to_char(v_banned_until, 'Dy DD Mon')
+      )
+    );
+  ELSE
+    -- The credit that expires first is forfeited
+    SELECT id INTO v_pack_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = p_teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND (expires_at IS NULL OR expires_at > now())
+    ORDER BY expires_at ASC NULLS LAST
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET credits_remaining = credits_remaining - 1
+      WHERE id = v_pack_purchase_id;
+    END IF;
+
+    INSERT INTO student_penalties (student_id, teacher_id, penalty, reason, pack_purchase_id)
+    VALUES (p_student_id, p_teacher_id, 'credit_forfeit', p_reason, v_pack_purchase_id);
+
+    IF v_pack_purchase_id IS NOT NULL THEN
+      PERFORM create_notification(
+        p_student_id,
+        'penalty_applied',
+        'Class credit forfeited',
+        format(
+          'After %s %s one of your class credits with %s was forfeited.',
+          v_strike_count,
+          CASE WHEN p_reason = 'no_show' THEN 'no-shows' ELSE 'late cancellations' END,
+          COALESCE(v_teacher_name, 'this teacher')
+        )
+      );
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Marking a no-show adds a strike, correcting it removes the strike again
+CREATE OR REPLACE FUNCTION record_no_show_strike()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF NEW.attendance IS NOT DISTINCT FROM OLD.attendance THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.attendance = 'no_show' THEN
+    DELETE FROM student_strikes
+    WHERE booking_id = NEW.id
+      AND kind = 'no_show';
+  END IF;
+
+  IF NEW.attendance = 'no_show' THEN
+    SELECT teacher_id INTO v_teacher_id
+    FROM yoga_classes
+    WHERE id = NEW.class_id;
+
+    INSERT INTO student_strikes (student_id, teacher_id, class_id, booking_id, kind)
+    VALUES (NEW.student_id, v_teacher_id, NEW.class_id, NEW.id, 'no_show')
+    ON CONFLICT (booking_id, kind) DO NOTHING;
+
+    PERFORM apply_penalty_policy(NEW.student_id, v_teacher_id, 'no_show');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_no_show_strike_trigger ON bookings;
+CREATE TRIGGER record_no_show_strike_trigger
+  AFTER UPDATE OF attendance ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_no_show_strike();
+
+-- A cancellation is late when the cancellation policy kept part of the payment
+CREATE OR REPLACE FUNCTION record_late_cancel_strike()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF NEW.refund_percent >= 100 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT teacher_id INTO v_teacher_id
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  INSERT INTO student_strikes (student_id, teacher_id, class_id, booking_id, kind)
+  VALUES (NEW.student_id, v_teacher_id, NEW.class_id, NEW.booking_id, 'late_cancel')
+  ON CONFLICT (booking_id, kind) DO NOTHING;
+
+  PERFORM apply_penalty_policy(NEW.student_id, v_teacher_id, 'late_cancel');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_late_cancel_strike_trigger ON refunds;
+CREATE TRIGGER record_late_cancel_strike_trigger
+  AFTER INSERT ON refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION record_late_cancel_strike();
+
+-- Banned students can't book or queue for the teacher's classes
+CREATE OR REPLACE FUNCTION prevent_restricted_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_banned_until timestamptz;
+BEGIN
+  IF TG_TABLE_NAME = 'bookings' THEN
+    IF NEW.status != 'confirmed' OR (TG_OP = 'UPDATE' AND OLD.status = 'confirmed') THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.status != 'waiting' OR (TG_OP = 'UPDATE' AND OLD.status = 'waiting') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT get_booking_restriction(NEW.student_id, teacher_id)
+  INTO v_banned_until
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  IF v_banned_until IS NOT NULL THEN
+    RAISE EXCEPTION 'Booking restricted until %', to_char(v_banned_until, 'YYYY-MM-DD');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_restricted_booking_trigger ON bookings;
+CREATE TRIGGER prevent_restricted_booking_trigger
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_restricted_booking();
+
+DROP TRIGGER IF EXISTS prevent_restricted_waitlist_trigger ON waitlist_entries;
+CREATE TRIGGER prevent_restricted_waitlist_trigger
+  BEFORE INSERT OR UPDATE OF status ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_restricted_booking();
+
+-- Availability check reports banned students
+CREATE OR REPLACE FUNCTION can_student_book_class(
+  p_student_id uuid,
+  p_class_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing_booking_count integer;
+  v_class_info record;
+  v_class_datetime timestamp;
+  v_taken_spots integer;
+  v_banned_until timestamptz;
+BEGIN
+  -- Check for existing booking
+  SELECT COUNT(*) INTO v_existing_booking_count
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND NOT (payment_status = 'pending' AND hold_expires_at IS NOT NULL AND hold_expires_at <= now());
+
+  IF v_existing_booking_count > 0 THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'already_booked',
+      'message', 'Student already has a booking for this class'
+    );
+  END IF;
+
+  -- Get class information
+  SELECT
+    current_participants,
+    max_participants,
+    date,
+    time,
+    title,
+    status,
+    teacher_id
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_not_found',
+      'message', 'Class not found'
+    );
+  END IF;
+
+  IF v_class_info.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_cancelled',
+      'message', 'Class has been cancelled'
+    );
+  END IF;
+
+  -- Check if class is in the future
+  v_class_datetime := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_datetime < NOW() THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_past',
+      'message', 'Cannot book past classes'
+    );
+  END IF;
+
+  -- Check for a ban after repeated no-shows or late cancellations
+  v_banned_until := get_booking_restriction(p_student_id, v_class_info.teacher_id);
+  IF v_banned_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'booking_restricted',
+      'message', 'Booking restricted until ' || to_char(v_banned_until, 'YYYY-MM-DD'),
+      'restricted_until', v_banned_until
+    );
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  v_taken_spots := v_class_info.current_participants + get_held_spot_count(p_class_id);
+  IF v_taken_spots >= v_class_info.max_participants THEN
+    RETURN jsonb_build_object(
+      'can_book', false,
+      'reason', 'class_full',
+      'message', 'Class is full',
+      'current_count', v_class_info.current_participants,
+      'max_participants', v_class_info.max_participants,
+      'can_join_waitlist', true
+    );
+  END IF;
+
+  -- All checks passed
+  RETURN jsonb_build_object(
+    'can_book', true,
+    'reason', 'available',
+    'message', 'Class is available for booking',
+    'current_count', v_class_info.current_participants,
+    'max_participants', v_class_info.max_participants,
+    'spots_left', v_class_info.max_participants - v_taken_spots,
+    'membership_id', get_covering_membership(p_student_id, p_class_id)
+  );
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION apply_penalty_policy(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_restriction(uuid, uuid) TO authenticated;
+GRANT SELECT ON student_strikes TO authenticated;
+GRANT SELECT ON student_penalties TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON penalty_policies TO authenticated;
@@ -0,0 +1,317 @@
+/*
+  # Ratings and Reviews
+
+  1. New Tables
+    - `reviews` - One per attended booking
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, unique, references bookings)
+      - `class_id`, `teacher_id`, `student_id`
+      - `class_type` (text) - Type of the class when it was reviewed, for per-type ratings
+      - `rating` (integer) - 1 to 5
+      - `comment` (text)
+      - `teacher_reply` (text), `replied_at` (timestamp)
+      - `status` (text) - `published` or `flagged`
+      - `flag_reason` (text), `flagged_at` (timestamp)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Views
+    - `teacher_rating_summaries` - Average rating and review count per teacher
+    - `class_type_rating_summaries` - Average rating and review count per teacher and class type
+
+  3. Database Functions
+    - `submit_review` - Creates or updates a student's review of a class they attended
+    - `reply_to_review` - Lets the teacher reply publicly to a review
+    - `flag_review` - Lets the teacher hide a review until it has been looked at
+    - `notify_new_review` - Tells the teacher about new reviews
+    - `notify_review_reply` - Tells the student when the teacher replies
+
+  4. Security
+    - Published reviews are public, flagged ones are only visible to the student and teacher
+    - Flagged reviews don't count towards the ratings
+    - Reviews are only written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  class_type text NOT NULL,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text,
+  teacher_reply text,
+  replied_at timestamptz,
+  status text NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'flagged')),
+  flag_reason text,
+  flagged_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_teacher_created
+ON reviews (teacher_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_student
+ON reviews (student_id);
+
+DROP TRIGGER IF EXISTS update_reviews_updated_at ON reviews;
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view published reviews"
+  ON reviews
+  FOR SELECT
+  TO anon, authenticated
+  USING (status = 'published');
+
+CREATE POLICY "Students can view own reviews"
+  ON reviews
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view reviews of their classes"
+  ON reviews
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+-- Ratings only count published reviews
+CREATE OR REPLACE VIEW teacher_rating_summaries AS
+SELECT
+  teacher_id,
+  ROUND(AVG(rating)::numeric, 1) AS average_rating,
+  COUNT(*)::integer AS review_count
+FROM reviews
+WHERE status = 'published'
+GROUP BY teacher_id;
+
+CREATE OR REPLACE VIEW class_type_rating_summaries AS
+SELECT
+  teacher_id,
+  class_type,
+  ROUND(AVG(rating)::numeric, 1) AS average_rating,
+  COUNT(*)::integer AS review_count
+FROM reviews
+WHERE status = 'published'
+GROUP BY teacher_id, class_type;
+
+GRANT SELECT ON teacher_rating_summaries TO anon, authenticated;
+GRANT SELECT ON class_type_rating_summaries TO anon, authenticated;
+
+-- Teachers hear about new reviews and students about replies
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'booking_confirmed',
+  'payment_received',
+  'class_changed',
+  'class_cancelled',
+  'waitlist_promoted',
+  'new_booking',
+  'penalty_applied',
+  'new_review',
+  'review_reply'
+));
+
+-- Students can review a class once it has taken place, unless they didn't show up
+CREATE OR REPLACE FUNCTION submit_review(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_rating integer,
+  p_comment text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_review_id uuid;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT b.id, b.student_id, b.status, b.payment_status, b.attendance,
+         c.id AS class_id, c.teacher_id, c.type, c.date, c.time, c.retreat_end_date, c.status AS class_status
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.student_id != p_student_id OR v_booking.status != 'confirmed' THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.class_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Class has been cancelled';
+  END IF;
+
+  IF (COALESCE(v_booking.retreat_end_date, v_booking.date) || ' ' || v_booking.time)::timestamp > now() THEN
+    RAISE EXCEPTION 'Class has not taken place yet';
+  END IF;
+
+  IF v_booking.payment_status != 'completed' OR v_booking.attendance = 'no_show' THEN
+    RAISE EXCEPTION 'Only students who attended can review this class';
+  END IF;
+
+  INSERT INTO reviews (booking_id, class_id, teacher_id, student_id, class_type, rating, comment)
+  VALUES (
+    v_booking.id,
+    v_booking.class_id,
+    v_booking.teacher_id,
+    p_student_id,
+    v_booking.type,
+    p_rating,
+    NULLIF(trim(p_comment), '')
+  )
+  ON CONFLICT (booking_id) DO UPDATE
+  SET
+    rating = EXCLUDED.rating,
+    comment = EXCLUDED.comment,
+    updated_at = now()
+  RETURNING id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reply_to_review(
+  p_review_id uuid,
+  p_teacher_id uuid,
+  p_reply text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_reply IS NULL OR trim(p_reply) = '' THEN
+    RAISE EXCEPTION 'Reply cannot be empty';
+  END IF;
+
+  UPDATE reviews
+  SET
+    teacher_reply = trim(p_reply),
+    replied_at = now(),
+    updated_at = now()
+  WHERE id = p_review_id
+    AND teacher_id = p_teacher_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Flagged reviews are hidden from other students and left out of the ratings
+CREATE OR REPLACE FUNCTION flag_review(
+  p_review_id uuid,
+  p_teacher_id uuid,
+  p_reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please give a reason for flagging this review';
+  END IF;
+
+  UPDATE reviews
+  SET
+    status = 'flagged',
+    flag_reason = trim(p_reason),
+    flagged_at = now(),
+    updated_at = now()
+  WHERE id = p_review_id
+    AND teacher_id = p_teacher_id
+    AND status = 'published';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found or already flagged';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_new_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_title text;
+BEGIN
+  SELECT title INTO v_class_title
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  PERFORM create_notification(
+    NEW.teacher_id,
+    'new_review',
+    'New review',
+    format('Someone rated %s %s out of 5.', v_class_title, NEW.rating),
+    NEW.class_id,
+    NEW.booking_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_review_trigger ON reviews;
+CREATE TRIGGER notify_new_review_trigger
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_review();
+
+CREATE OR REPLACE FUNCTION notify_review_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_name text;
+BEGIN
+  IF NEW.teacher_reply IS NOT DISTINCT FROM OLD.teacher_reply OR NEW.teacher_reply IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_teacher_name
+  FROM profiles
+  WHERE id = NEW.teacher_id;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'review_reply',
+    'Reply to your review',
+    format('%s replied to your review.', v_teacher_name),
+    NEW.class_id,
+    NEW.booking_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_review_reply_trigger ON reviews;
+CREATE TRIGGER notify_review_reply_trigger
+  AFTER UPDATE OF teacher_reply ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_review_reply();
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION submit_review(uuid, uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reply_to_review(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION flag_review(uuid, uuid, text) TO authenticated;
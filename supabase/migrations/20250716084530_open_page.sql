@@ -0,0 +1,76 @@
+/*
+  # Public Teacher Profiles
+
+  1. Table Changes
+    - `profiles`
+      - `bio` (text)
+      - `certifications` (text array) - e.g. "RYT-500"
+      - `years_experience` (integer)
+      - `specialties` (text array) - Styles the teacher is known for
+      - `social_links` (jsonb) - `instagram`, `website`, `youtube` or `facebook` URLs
+
+  2. Database Functions
+    - `get_teacher_stats` - Classes taught, students taught and retreats hosted by a teacher
+
+  3. Security
+    - Stats only count past, scheduled classes and paid bookings, so they leak no booking details
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS bio text,
+ADD COLUMN IF NOT EXISTS certifications text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS years_experience integer,
+ADD COLUMN IF NOT EXISTS specialties text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS social_links jsonb NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'profiles_years_experience_check'
+  ) THEN
+    ALTER TABLE profiles ADD CONSTRAINT profiles_years_experience_check
+    CHECK (years_experience IS NULL OR years_experience BETWEEN 0 AND 80);
+  END IF;
+END $$;
+
+-- Students can't read other students' bookings, so the counts are computed here
+CREATE OR REPLACE FUNCTION get_teacher_stats(p_teacher_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_classes_taught integer;
+  v_retreats_hosted integer;
+  v_students_taught integer;
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE NOT COALESCE(is_retreat, false)),
+    COUNT(*) FILTER (WHERE COALESCE(is_retreat, false))
+  INTO v_classes_taught, v_retreats_hosted
+  FROM yoga_classes
+  WHERE teacher_id = p_teacher_id
+    AND status = 'scheduled'
+    AND (date || ' ' || time)::timestamp < now();
+
+  SELECT COUNT(DISTINCT b.student_id)
+  INTO v_students_taught
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE c.teacher_id = p_teacher_id
+    AND c.status = 'scheduled'
+    AND (c.date || ' ' || c.time)::timestamp < now()
+    AND b.status = 'confirmed'
+    AND b.payment_status = 'completed';
+
+  RETURN jsonb_build_object(
+    'classes_taught', v_classes_taught,
+    'retreats_hosted', v_retreats_hosted,
+    'students_taught', v_students_taught
+  );
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_teacher_stats(uuid) TO authenticated;
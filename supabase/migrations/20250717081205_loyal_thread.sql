@@ -0,0 +1,172 @@
+/*
+  # Followed Teachers
+
+  1. New Tables
+    - `teacher_follows` - Teachers a student follows
+      - `student_id` (uuid, references profiles)
+      - `teacher_id` (uuid, references profiles)
+      - `created_at` (timestamp)
+
+  2. Database Functions
+    - `notify_followers_new_class` - Tells followers when a teacher publishes a class or retreat
+    - `get_teacher_stats` - Now also returns the follower count
+
+  3. Security
+    - Students manage their own follows
+    - Teachers can see who follows them
+*/
+
+CREATE TABLE IF NOT EXISTS teacher_follows (
+  student_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (student_id, teacher_id),
+  CHECK (student_id != teacher_id)
+);
+
+ALTER TABLE teacher_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_teacher_follows_teacher
+ON teacher_follows (teacher_id);
+
+CREATE POLICY "Students can view own follows"
+  ON teacher_follows
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Teachers can view their followers"
+  ON teacher_follows
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+CREATE POLICY "Students can follow teachers"
+  ON teacher_follows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    student_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM profiles WHERE id = teacher_id AND role = 'teacher')
+  );
+
+CREATE POLICY "Students can unfollow teachers"
+  ON teacher_follows
+  FOR DELETE
+  TO authenticated
+  USING (student_id = auth.uid());
+
+-- Followers hear about new classes and retreats
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'booking_confirmed',
+  'payment_received',
+  'class_changed',
+  'class_cancelled',
+  'waitlist_promoted',
+  'new_booking',
+  'penalty_applied',
+  'new_review',
+  'review_reply',
+  'new_class'
+));
+
+-- A new series only announces its first class, not every occurrence
+CREATE OR REPLACE FUNCTION notify_followers_new_class()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_name text;
+  v_follower record;
+BEGIN
+  IF NEW.status != 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.series_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM yoga_classes
+    WHERE series_id = NEW.series_id
+      AND id != NEW.id
+      AND (date, time) <= (NEW.date, NEW.time)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_teacher_name
+  FROM profiles
+  WHERE id = NEW.teacher_id;
+
+  FOR v_follower IN
+    SELECT student_id FROM teacher_follows WHERE teacher_id = NEW.teacher_id
+  LOOP
+    PERFORM create_notification(
+      v_follower.student_id,
+      'new_class',
+      CASE WHEN COALESCE(NEW.is_retreat, false) THEN 'New retreat' ELSE 'New class' END,
+      format(
+        '%s published %s on %s.',
+        v_teacher_name,
+        NEW.title,
+        to_char(NEW.date, 'Mon DD')
+      ),
+      NEW.id,
+      NULL
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_followers_new_class_trigger ON yoga_classes;
+CREATE TRIGGER notify_followers_new_class_trigger
+  AFTER INSERT ON yoga_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_followers_new_class();
+
+CREATE OR REPLACE FUNCTION get_teacher_stats(p_teacher_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_classes_taught integer;
+  v_retreats_hosted integer;
+  v_students_taught integer;
+  v_follower_count integer;
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE NOT COALESCE(is_retreat, false)),
+    COUNT(*) FILTER (WHERE COALESCE(is_retreat, false))
+  INTO v_classes_taught, v_retreats_hosted
+  FROM yoga_classes
+  WHERE teacher_id = p_teacher_id
+    AND status = 'scheduled'
+    AND (date || ' ' || time)::timestamp < now();
+
+  SELECT COUNT(DISTINCT b.student_id)
+  INTO v_students_taught
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE c.teacher_id = p_teacher_id
+    AND c.status = 'scheduled'
+    AND (c.date || ' ' || c.time)::timestamp < now()
+    AND b.status = 'confirmed'
+    AND b.payment_status = 'completed';
+
+  SELECT COUNT(*)
+  INTO v_follower_count
+  FROM teacher_follows
+  WHERE teacher_id = p_teacher_id;
+
+  RETURN jsonb_build_object(
+    'classes_taught', v_classes_taught,
+    'retreats_hosted', v_retreats_hosted,
+    'students_taught', v_students_taught,
+    'follower_count', v_follower_count
+  );
+END;
+$$;
@@ -0,0 +1,138 @@
+/*
+  # Server-Side Class Search
+
+  1. Indexes
+    - Upcoming scheduled classes by date for paging
+    - Trigram indexes for free-text search on title, location and teacher name
+
+  2. Database Functions
+    - `search_classes` - Filters, searches and pages upcoming classes or retreats
+      - Filters: type, level, date range, mode, price range, retreat duration, teachers
+      - `p_query` matches title, description, location and teacher name
+      - Returns `{ items, total_count }`, each item with its teacher and participant count
+
+  3. Security
+    - Only scheduled classes are returned
+    - Participant counts are computed here, so students don't need to read other bookings
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_search_date
+ON yoga_classes (is_retreat, date, time)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_title_trgm
+ON yoga_classes USING gin (title gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_location_trgm
+ON yoga_classes USING gin (location gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_full_name_trgm
+ON profiles USING gin (full_name gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_classes(
+  p_is_retreat boolean DEFAULT false,
+  p_query text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_level text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_mode text DEFAULT 'all',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_duration text DEFAULT 'all',
+  p_teacher_ids uuid[] DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pattern text;
+  v_total_count integer;
+  v_items jsonb;
+BEGIN
+  IF p_mode NOT IN ('all', 'in-person', 'virtual') THEN
+    RAISE EXCEPTION 'Invalid mode: %', p_mode;
+  END IF;
+
+  IF p_duration NOT IN ('all', '1-3', '4-7', '7+') THEN
+    RAISE EXCEPTION 'Invalid duration: %', p_duration;
+  END IF;
+
+  -- Escape LIKE wildcards so the query is matched literally
+  IF p_query IS NOT NULL AND trim(p_query) != '' THEN
+    v_pattern := '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH matches AS (
+    SELECT c.id, c.date, c.time
+    FROM yoga_classes c
+    JOIN profiles p ON p.id = c.teacher_id
+    WHERE c.status = 'scheduled'
+      AND COALESCE(c.is_retreat, false) = p_is_retreat
+      AND c.date >= GREATEST(COALESCE(p_date_from, CURRENT_DATE), CURRENT_DATE)
+      AND (p_date_to IS NULL OR c.date <= p_date_to)
+      AND (p_type IS NULL OR c.type = p_type)
+      AND (p_level IS NULL OR c.level::text = p_level)
+      AND (
+        p_mode = 'all' OR
+        (p_mode = 'virtual' AND COALESCE(c.is_virtual, false)) OR
+        (p_mode = 'in-person' AND NOT COALESCE(c.is_virtual, false))
+      )
+      AND (p_min_price IS NULL OR c.price >= p_min_price)
+      AND (p_max_price IS NULL OR c.price <= p_max_price)
+      AND (
+        p_duration = 'all' OR
+        (p_duration = '1-3' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 1 AND 3) OR
+        (p_duration = '4-7' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 4 AND 7) OR
+        (p_duration = '7+' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 > 7)
+      )
+      AND (p_teacher_ids IS NULL OR c.teacher_id = ANY(p_teacher_ids))
+      AND (
+        v_pattern IS NULL OR
+        c.title ILIKE v_pattern OR
+        c.description ILIKE v_pattern OR
+        c.location ILIKE v_pattern OR
+        p.full_name ILIKE v_pattern
+      )
+  ),
+  page AS (
+    SELECT id, date, time
+    FROM matches
+    ORDER BY date, time, id
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matches),
+    COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) || jsonb_build_object(
+          'profiles', jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url),
+          'participant_count', (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.class_id = c.id AND b.status = 'confirmed'
+          )
+        )
+        ORDER BY page.date, page.time, page.id
+      )
+      FROM page
+      JOIN yoga_classes c ON c.id = page.id
+      JOIN profiles p ON p.id = c.teacher_id
+    ), '[]'::jsonb)
+  INTO v_total_count, v_items;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'total_count', v_total_count
+  );
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION search_classes(boolean, text, text, text, date, date, text, numeric, numeric, text, uuid[], integer, integer) TO authenticated;
@@ -0,0 +1,381 @@
+/*
+  # Class Coordinates and Distance Search
+
+  1. Table Changes
+    - `yoga_classes.latitude`, `yoga_classes.longitude` - Where an in-person class takes place
+      - Both set or both empty; online classes have none
+
+  2. Database Functions
+    - `distance_km` - Great-circle distance between two points
+    - `create_class_series` / `update_series_classes` - Now copy the coordinates too
+    - `search_classes` - Adds an origin, a radius and sorting by distance
+      - Each item carries `distance_km` when an origin is given
+
+  3. Security
+    - Coordinates are as public as the class address
+*/
+
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE yoga_classes
+DROP CONSTRAINT IF EXISTS yoga_classes_coordinates_check;
+
+ALTER TABLE yoga_classes
+ADD CONSTRAINT yoga_classes_coordinates_check
+CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_coordinates
+ON yoga_classes (latitude, longitude)
+WHERE status = 'scheduled' AND latitude IS NOT NULL;
+
+-- Haversine distance in kilometres
+CREATE OR REPLACE FUNCTION distance_km(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(LEAST(1, sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  )));
+$$;
+
+-- Store a recurrence rule and generate its class instances
+CREATE OR REPLACE FUNCTION create_class_series(
+  p_teacher_id uuid,
+  p_class jsonb,
+  p_start_date date,
+  p_weekdays integer[],
+  p_interval_weeks integer DEFAULT 1,
+  p_until_date date DEFAULT NULL,
+  p_occurrence_count integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- Upper bound so an open-ended rule can't flood the schedule
+  c_max_occurrences constant integer := 104;
+  v_series_id uuid;
+  v_weekdays integer[];
+  v_week_start date;
+  v_week integer := 0;
+  v_weekday integer;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_teacher_id
+      AND role = 'teacher'
+  ) THEN
+    RAISE EXCEPTION 'Only teachers can create class series';
+  END IF;
+
+  IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+    RAISE EXCEPTION 'A series needs an end date or a number of occurrences';
+  END IF;
+
+  IF p_start_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'A series cannot start in the past';
+  END IF;
+
+  SELECT array_agg(DISTINCT d ORDER BY d)
+  INTO v_weekdays
+  FROM unnest(p_weekdays) AS d;
+
+  INSERT INTO class_series (
+    teacher_id,
+    weekdays,
+    interval_weeks,
+    start_date,
+    until_date,
+    occurrence_count
+  )
+  VALUES (
+    p_teacher_id,
+    v_weekdays,
+    p_interval_weeks,
+    p_start_date,
+    p_until_date,
+    p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  -- Walk the calendar week by week, starting from the Sunday of the start week
+  v_week_start := p_start_date - EXTRACT(DOW FROM p_start_date)::integer;
+
+  <<weeks>>
+  LOOP
+    FOREACH v_weekday IN ARRAY v_weekdays LOOP
+      v_date := v_week_start + (v_week * 7 * p_interval_weeks) + v_weekday;
+
+      CONTINUE WHEN v_date < p_start_date;
+
+      EXIT weeks WHEN p_until_date IS NOT NULL AND v_date > p_until_date;
+      EXIT weeks WHEN v_count >= LEAST(COALESCE(p_occurrence_count, c_max_occurrences), c_max_occurrences);
+
+      INSERT INTO yoga_classes (
+        title,
+        description,
+        teacher_id,
+        date,
+        time,
+        duration,
+        max_participants,
+        current_participants,
+        price,
+        level,
+        type,
+        location,
+        latitude,
+        longitude,
+        meeting_link,
+        image_url,
+        cancellation_policy_id,
+        is_retreat,
+        series_id
+      )
+      VALUES (
+        p_class->>'title',
+        COALESCE(p_class->>'description', ''),
+        p_teacher_id,
+        v_date,
+        (p_class->>'time')::time,
+        COALESCE((p_class->>'duration')::integer, 60),
+        COALESCE((p_class->>'max_participants')::integer, 10),
+        0,
+        COALESCE((p_class->>'price')::numeric, 25.00),
+        COALESCE((p_class->>'level')::class_level, 'beginner'),
+        COALESCE(p_class->>'type', 'Hatha'),
+        COALESCE(p_class->>'location', 'Studio A'),
+        (p_class->>'latitude')::double precision,
+        (p_class->>'longitude')::double precision,
+        p_class->>'meeting_link',
+        p_class->>'image_url',
+        (p_class->>'cancellation_policy_id')::uuid,
+        false,
+        v_series_id
+      );
+
+      v_count := v_count + 1;
+    END LOOP;
+
+    v_week := v_week + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule does not produce any classes';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series_id', v_series_id,
+    'class_count', v_count
+  );
+END;
+$$;
+
+-- Apply an edit across a series scope; the date only changes for a single instance
+CREATE OR REPLACE FUNCTION update_series_classes(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text,
+  p_changes jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated_count integer;
+BEGIN
+  UPDATE yoga_classes
+  SET
+    title = COALESCE(p_changes->>'title', title),
+    description = COALESCE(p_changes->>'description', description),
+    type = COALESCE(p_changes->>'type', type),
+    level = COALESCE((p_changes->>'level')::class_level, level),
+    date = CASE
+      WHEN p_scope = 'single' THEN COALESCE((p_changes->>'date')::date, date)
+      ELSE date
+    END,
+    time = COALESCE((p_changes->>'time')::time, time),
+    duration = COALESCE((p_changes->>'duration')::integer, duration),
+    location = COALESCE(p_changes->>'location', location),
+    latitude = CASE WHEN p_changes ? 'latitude' THEN (p_changes->>'latitude')::double precision ELSE latitude END,
+    longitude = CASE WHEN p_changes ? 'longitude' THEN (p_changes->>'longitude')::double precision ELSE longitude END,
+    meeting_link = CASE WHEN p_changes ? 'meeting_link' THEN p_changes->>'meeting_link' ELSE meeting_link END,
+    price = COALESCE((p_changes->>'price')::numeric, price),
+    max_participants = COALESCE((p_changes->>'max_participants')::integer, max_participants),
+    image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+    cancellation_policy_id = CASE
+      WHEN p_changes ? 'cancellation_policy_id' THEN (p_changes->>'cancellation_policy_id')::uuid
+      ELSE cancellation_policy_id
+    END,
+    updated_at = now()
+  WHERE id IN (SELECT get_series_scope_class_ids(p_class_id, p_teacher_id, p_scope));
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+  RETURN v_updated_count;
+END;
+$$;
+
+-- The argument list changes, so replace the old signature instead of overloading it
+DROP FUNCTION IF EXISTS search_classes(boolean, text, text, text, date, date, text, numeric, numeric, text, uuid[], integer, integer);
+
+CREATE OR REPLACE FUNCTION search_classes(
+  p_is_retreat boolean DEFAULT false,
+  p_query text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_level text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_mode text DEFAULT 'all',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_duration text DEFAULT 'all',
+  p_teacher_ids uuid[] DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_radius_km numeric DEFAULT NULL,
+  p_sort text DEFAULT 'date',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pattern text;
+  v_has_origin boolean := p_latitude IS NOT NULL AND p_longitude IS NOT NULL;
+  v_lat_delta double precision;
+  v_total_count integer;
+  v_items jsonb;
+BEGIN
+  IF p_mode NOT IN ('all', 'in-person', 'virtual') THEN
+    RAISE EXCEPTION 'Invalid mode: %', p_mode;
+  END IF;
+
+  IF p_duration NOT IN ('all', '1-3', '4-7', '7+') THEN
+    RAISE EXCEPTION 'Invalid duration: %', p_duration;
+  END IF;
+
+  IF p_sort NOT IN ('date', 'distance') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  IF NOT v_has_origin AND (p_radius_km IS NOT NULL OR p_sort = 'distance') THEN
+    RAISE EXCEPTION 'A location is required to search by distance';
+  END IF;
+
+  -- Escape LIKE wildcards so the query is matched literally
+  IF p_query IS NOT NULL AND trim(p_query) != '' THEN
+    v_pattern := '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  -- Latitude band around the origin, so the index can narrow rows before the exact distance
+  IF p_radius_km IS NOT NULL THEN
+    v_lat_delta := p_radius_km / 111.0;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      c.id,
+      c.date,
+      c.time,
+      CASE
+        WHEN v_has_origin AND c.latitude IS NOT NULL
+        THEN distance_km(p_latitude, p_longitude, c.latitude, c.longitude)
+      END AS distance_km
+    FROM yoga_classes c
+    JOIN profiles p ON p.id = c.teacher_id
+    WHERE c.status = 'scheduled'
+      AND COALESCE(c.is_retreat, false) = p_is_retreat
+      AND c.date >= GREATEST(COALESCE(p_date_from, CURRENT_DATE), CURRENT_DATE)
+      AND (p_date_to IS NULL OR c.date <= p_date_to)
+      AND (p_type IS NULL OR c.type = p_type)
+      AND (p_level IS NULL OR c.level::text = p_level)
+      AND (
+        p_mode = 'all' OR
+        (p_mode = 'virtual' AND COALESCE(c.is_virtual, false)) OR
+        (p_mode = 'in-person' AND NOT COALESCE(c.is_virtual, false))
+      )
+      AND (p_min_price IS NULL OR c.price >= p_min_price)
+      AND (p_max_price IS NULL OR c.price <= p_max_price)
+      AND (
+        p_duration = 'all' OR
+        (p_duration = '1-3' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 1 AND 3) OR
+        (p_duration = '4-7' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 4 AND 7) OR
+        (p_duration = '7+' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 > 7)
+      )
+      AND (p_teacher_ids IS NULL OR c.teacher_id = ANY(p_teacher_ids))
+      AND (
+        p_radius_km IS NULL OR (
+          c.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+          AND distance_km(p_latitude, p_longitude, c.latitude, c.longitude) <= p_radius_km
+        )
+      )
+      AND (
+        v_pattern IS NULL OR
+        c.title ILIKE v_pattern OR
+        c.description ILIKE v_pattern OR
+        c.location ILIKE v_pattern OR
+        p.full_name ILIKE v_pattern
+      )
+  ),
+  page AS (
+    SELECT
+      id,
+      distance_km,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'distance' THEN distance_km END NULLS LAST,
+          date,
+          time,
+          id
+      ) AS position
+    FROM matches
+    ORDER BY position
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matches),
+    COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) || jsonb_build_object(
+          'profiles', jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url),
+          'participant_count', (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.class_id = c.id AND b.status = 'confirmed'
+          ),
+          'distance_km', page.distance_km
+        )
+        ORDER BY page.position
+      )
+      FROM page
+      JOIN yoga_classes c ON c.id = page.id
+      JOIN profiles p ON p.id = c.teacher_id
+    ), '[]'::jsonb)
+  INTO v_total_count, v_items;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'total_count', v_total_count
+  );
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION distance_km(double precision, double precision, double precision, double precision) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_classes(boolean, text, text, text, date, date, text, numeric, numeric, text, uuid[], double precision, double precision, numeric, text, integer, integer) TO authenticated;
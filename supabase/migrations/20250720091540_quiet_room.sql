@@ -0,0 +1,320 @@
+/*
+  # Teacher Venues
+
+  1. New Tables
+    - `venues` - Studios and rooms classes take place in
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, references profiles) - Teacher or studio account managing the venue
+      - `name` (text), `address` (text)
+      - `latitude`, `longitude` (double precision) - Both set or both empty
+      - `capacity` (integer) - Most students the room holds
+      - `accessibility_notes` (text)
+      - `photos` (text[])
+      - `is_active` (boolean) - Archived venues are hidden from search
+
+  2. Table Changes
+    - `yoga_classes.venue_id` - Venue the class takes place in
+
+  3. Database Functions
+    - `check_venue_booking` - Keeps classes within the room capacity and stops
+      two scheduled classes from using the same room at overlapping times
+    - `create_class_series` / `update_series_classes` - Now copy the venue too
+
+  4. Security
+    - Everyone can view venues; owners manage their own
+*/
+
+CREATE TABLE IF NOT EXISTS venues (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  address text NOT NULL CHECK (length(trim(address)) > 0),
+  latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision CHECK (longitude BETWEEN -180 AND 180),
+  capacity integer NOT NULL CHECK (capacity > 0),
+  accessibility_notes text,
+  photos text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+ALTER TABLE venues ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_venues_owner ON venues(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_venues_name_trgm
+ON venues USING gin (name gin_trgm_ops);
+
+DROP TRIGGER IF EXISTS update_venues_updated_at ON venues;
+CREATE TRIGGER update_venues_updated_at
+  BEFORE UPDATE ON venues
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view venues"
+  ON venues
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can manage own venues"
+  ON venues
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- Link classes to the venue they take place in
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS venue_id uuid REFERENCES venues(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_yoga_classes_venue_date
+ON yoga_classes (venue_id, date)
+WHERE venue_id IS NOT NULL AND status = 'scheduled';
+
+-- Enforce room capacity and stop overlapping classes in the same room
+CREATE OR REPLACE FUNCTION check_venue_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_venue record;
+  v_starts_at timestamp;
+  v_ends_at timestamp;
+  v_conflict record;
+BEGIN
+  IF NEW.venue_id IS NULL OR NEW.status != 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, capacity INTO v_venue
+  FROM venues
+  WHERE id = NEW.venue_id;
+
+  IF NEW.max_participants > v_venue.capacity THEN
+    RAISE EXCEPTION 'Max participants (%) exceeds the room capacity of % at %',
+      NEW.max_participants, v_venue.capacity, v_venue.name;
+  END IF;
+
+  -- Serialize bookings of the same room so concurrent inserts can't both pass
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.venue_id::text));
+
+  v_starts_at := NEW.date + NEW.time;
+  v_ends_at := v_starts_at + make_interval(mins => NEW.duration);
+
+  SELECT title, date, time INTO v_conflict
+  FROM yoga_classes
+  WHERE venue_id = NEW.venue_id
+    AND id != NEW.id
+    AND status = 'scheduled'
+    -- Classes can run past midnight, so look at the neighbouring days too
+    AND date BETWEEN NEW.date - 1 AND NEW.date + 1
+    AND date + time < v_ends_at
+    AND v_starts_at < date + time + make_interval(mins => duration)
+  ORDER BY date, time
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is already booked for "%" on % at %',
+      v_venue.name, v_conflict.title, v_conflict.date, to_char(v_conflict.time, 'HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_venue_booking_trigger ON yoga_classes;
+CREATE TRIGGER check_venue_booking_trigger
+  BEFORE INSERT OR UPDATE OF venue_id, date, time, duration, max_participants, status ON yoga_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_venue_booking();
+
+-- Store a recurrence rule and generate its class instances
+CREATE OR REPLACE FUNCTION create_class_series(
+  p_teacher_id uuid,
+  p_class jsonb,
+  p_start_date date,
+  p_weekdays integer[],
+  p_interval_weeks integer DEFAULT 1,
+  p_until_date date DEFAULT NULL,
+  p_occurrence_count integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- Upper bound so an open-ended rule can't flood the schedule
+  c_max_occurrences constant integer := 104;
+  v_series_id uuid;
+  v_weekdays integer[];
+  v_week_start date;
+  v_week integer := 0;
+  v_weekday integer;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_teacher_id
+      AND role = 'teacher'
+  ) THEN
+    RAISE EXCEPTION 'Only teachers can create class series';
+  END IF;
+
+  IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+    RAISE EXCEPTION 'A series needs an end date or a number of occurrences';
+  END IF;
+
+  IF p_start_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'A series cannot start in the past';
+  END IF;
+
+  SELECT array_agg(DISTINCT d ORDER BY d)
+  INTO v_weekdays
+  FROM unnest(p_weekdays) AS d;
+
+  INSERT INTO class_series (
+    teacher_id,
+    weekdays,
+    interval_weeks,
+    start_date,
+    until_date,
+    occurrence_count
+  )
+  VALUES (
+    p_teacher_id,
+    v_weekdays,
+    p_interval_weeks,
+    p_start_date,
+    p_until_date,
+    p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  -- Walk the calendar week by week, starting from the Sunday of the start week
+  v_week_start := p_start_date - EXTRACT(DOW FROM p_start_date)::integer;
+
+  <<weeks>>
+  LOOP
+    FOREACH v_weekday IN ARRAY v_weekdays LOOP
+      v_date := v_week_start + (v_week * 7 * p_interval_weeks) + v_weekday;
+
+      CONTINUE WHEN v_date < p_start_date;
+
+      EXIT weeks WHEN p_until_date IS NOT NULL AND v_date > p_until_date;
+      EXIT weeks WHEN v_count >= LEAST(COALESCE(p_occurrence_count, c_max_occurrences), c_max_occurrences);
+
+      INSERT INTO yoga_classes (
+        title,
+        description,
+        teacher_id,
+        date,
+        time,
+        duration,
+        max_participants,
+        current_participants,
+        price,
+        level,
+        type,
+        location,
+        latitude,
+        longitude,
+        venue_id,
+        meeting_link,
+        image_url,
+        cancellation_policy_id,
+        is_retreat,
+        series_id
+      )
+      VALUES (
+        p_class->>'title',
+        COALESCE(p_class->>'description', ''),
+        p_teacher_id,
+        v_date,
+        (p_class->>'time')::time,
+        COALESCE((p_class->>'duration')::integer, 60),
+        COALESCE((p_class->>'max_participants')::integer, 10),
+        0,
+        COALESCE((p_class->>'price')::numeric, 25.00),
+        COALESCE((p_class->>'level')::class_level, 'beginner'),
+        COALESCE(p_class->>'type', 'Hatha'),
+        COALESCE(p_class->>'location', 'Studio A'),
+        (p_class->>'latitude')::double precision,
+        (p_class->>'longitude')::double precision,
+        (p_class->>'venue_id')::uuid,
+        p_class->>'meeting_link',
+        p_class->>'image_url',
+        (p_class->>'cancellation_policy_id')::uuid,
+        false,
+        v_series_id
+      );
+
+      v_count := v_count + 1;
+    END LOOP;
+
+    v_week := v_week + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule does not produce any classes';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series_id', v_series_id,
+    'class_count', v_count
+  );
+END;
+$$;
+
+-- Apply an edit across a series scope; the date only changes for a single instance
+CREATE OR REPLACE FUNCTION update_series_classes(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text,
+  p_changes jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_updated_count integer;
+BEGIN
+  UPDATE yoga_classes
+  SET
+    title = COALESCE(p_changes->>'title', title),
+    description = COALESCE(p_changes->>'description', description),
+    type = COALESCE(p_changes->>'type', type),
+    level = COALESCE((p_changes->>'level')::class_level, level),
+    date = CASE
+      WHEN p_scope = 'single' THEN COALESCE((p_changes->>'date')::date, date)
+      ELSE date
+    END,
+    time = COALESCE((p_changes->>'time')::time, time),
+    duration = COALESCE((p_changes->>'duration')::integer, duration),
+    location = COALESCE(p_changes->>'location', location),
+    latitude = CASE WHEN p_changes ? 'latitude' THEN (p_changes->>'latitude')::double precision ELSE latitude END,
+    longitude = CASE WHEN p_changes ? 'longitude' THEN (p_changes->>'longitude')::double precision ELSE longitude END,
+    venue_id = CASE WHEN p_changes ? 'venue_id' THEN (p_changes->>'venue_id')::uuid ELSE venue_id END,
+    meeting_link = CASE WHEN p_changes ? 'meeting_link' THEN p_changes->>'meeting_link' ELSE meeting_link END,
+    price = COALESCE((p_changes->>'price')::numeric, price),
+    max_participants = COALESCE((p_changes->>'max_participants')::integer, max_participants),
+    image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+    cancellation_policy_id = CASE
+      WHEN p_changes ? 'cancellation_policy_id' THEN (p_changes->>'cancellation_policy_id')::uuid
+      ELSE cancellation_policy_id
+    END,
+    updated_at = now()
+  WHERE id IN (SELECT get_series_scope_class_ids(p_class_id, p_teacher_id, p_scope));
+
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+  RETURN v_updated_count;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT ALL ON venues TO authenticated;
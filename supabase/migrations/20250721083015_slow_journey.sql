@@ -0,0 +1,134 @@
+/*
+  # Retreat Itineraries
+
+  1. New Tables
+    - `retreat_sessions` - The day-by-day schedule of a retreat
+      - `id` (uuid, primary key)
+      - `retreat_id` (uuid, references yoga_classes)
+      - `day_number` (integer) - 1 is the retreat's start date
+      - `start_time`, `end_time` (time) - End is optional
+      - `title` (text)
+      - `leader` (text) - Who leads the session, when not the organizer
+      - `location` (text) - Where on site the session takes place
+
+  2. Database Functions
+    - `save_retreat_itinerary` - Replaces a retreat's whole itinerary at once
+
+  3. Security
+    - Everyone can view itineraries; only the organizer changes them
+*/
+
+CREATE TABLE IF NOT EXISTS retreat_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  retreat_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  day_number integer NOT NULL CHECK (day_number >= 1),
+  start_time time NOT NULL,
+  end_time time,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  leader text,
+  location text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_time IS NULL OR end_time > start_time)
+);
+
+ALTER TABLE retreat_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_retreat_sessions_schedule
+ON retreat_sessions (retreat_id, day_number, start_time);
+
+CREATE POLICY "Anyone can view retreat sessions"
+  ON retreat_sessions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own retreat sessions"
+  ON retreat_sessions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM yoga_classes c
+      WHERE c.id = retreat_sessions.retreat_id
+        AND c.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM yoga_classes c
+      WHERE c.id = retreat_sessions.retreat_id
+        AND c.teacher_id = auth.uid()
+    )
+  );
+
+-- Replace every session of a retreat so the itinerary is never half-saved
+CREATE OR REPLACE FUNCTION save_retreat_itinerary(
+  p_retreat_id uuid,
+  p_teacher_id uuid,
+  p_sessions jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_retreat record;
+  v_day_count integer;
+  v_session_count integer;
+BEGIN
+  SELECT teacher_id, is_retreat, date, retreat_end_date
+  INTO v_retreat
+  FROM yoga_classes
+  WHERE id = p_retreat_id;
+
+  IF NOT FOUND OR v_retreat.teacher_id != p_teacher_id OR NOT COALESCE(v_retreat.is_retreat, false) THEN
+    RAISE EXCEPTION 'Retreat not found';
+  END IF;
+
+  v_day_count := get_retreat_duration(v_retreat.date, v_retreat.retreat_end_date);
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_sessions, '[]'::jsonb)) AS s(day_number integer)
+    WHERE s.day_number IS NULL OR s.day_number NOT BETWEEN 1 AND v_day_count
+  ) THEN
+    RAISE EXCEPTION 'Every session must fall on one of the % retreat days', v_day_count;
+  END IF;
+
+  DELETE FROM retreat_sessions
+  WHERE retreat_id = p_retreat_id;
+
+  INSERT INTO retreat_sessions (
+    retreat_id,
+    day_number,
+    start_time,
+    end_time,
+    title,
+    leader,
+    location
+  )
+  SELECT
+    p_retreat_id,
+    s.day_number,
+    s.start_time,
+    s.end_time,
+    trim(s.title),
+    NULLIF(trim(s.leader), ''),
+    NULLIF(trim(s.location), '')
+  FROM jsonb_to_recordset(COALESCE(p_sessions, '[]'::jsonb)) AS s(
+    day_number integer,
+    start_time time,
+    end_time time,
+    title text,
+    leader text,
+    location text
+  );
+
+  GET DIAGNOSTICS v_session_count = ROW_COUNT;
+  RETURN v_session_count;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION save_retreat_itinerary(uuid, uuid, jsonb) TO authenticated;
+GRANT ALL ON retreat_sessions TO authenticated;
@@ -0,0 +1,553 @@
+/*
+  # Retreat Accommodation Options
+
+  1. New Tables
+    - `retreat_accommodations` - The rooms a retreat is sold with
+      - `id` (uuid, primary key)
+      - `retreat_id` (uuid, references yoga_classes)
+      - `name` (text) - e.g. "Shared dorm", "Private room"
+      - `description` (text)
+      - `price`, `early_bird_price` (numeric) - Early bird uses the retreat's deadline
+      - `capacity` (integer) - Guests this option sleeps across all its rooms
+      - `sort_order` (integer)
+
+  2. Table Changes
+    - `bookings.accommodation_id` - The option a retreat guest booked
+    - `bookings.room_assignment` - The room the organizer put the guest in
+    - Cancelled bookings give up their accommodation and room
+
+  3. Database Functions
+    - `get_accommodation_taken_count` - Paid guests plus held spots of an option
+    - `get_retreat_accommodations` - A retreat's options with the spots left in each
+    - `create_booking_with_count` takes the accommodation, which retreats with options
+      require, and enforces its capacity next to the retreat's own
+    - `choose_booking_accommodation` - Picks or changes the option of an unpaid booking,
+      e.g. one promoted from the waitlist
+    - `create_payment_intent` charges the price of the booked option
+    - `assign_retreat_room` - The organizer puts a paid guest in a room
+
+  4. Security
+    - Everyone can view accommodation options; only the organizer changes them
+*/
+
+CREATE TABLE IF NOT EXISTS retreat_accommodations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  retreat_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  early_bird_price numeric(10,2) CHECK (early_bird_price > 0),
+  capacity integer NOT NULL CHECK (capacity > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (early_bird_price IS NULL OR early_bird_price < price)
+);
+
+ALTER TABLE retreat_accommodations ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_retreat_accommodations_retreat
+ON retreat_accommodations (retreat_id, sort_order);
+
+DROP TRIGGER IF EXISTS update_retreat_accommodations_updated_at ON retreat_accommodations;
+CREATE TRIGGER update_retreat_accommodations_updated_at
+  BEFORE UPDATE ON retreat_accommodations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Anyone can view retreat accommodations"
+  ON retreat_accommodations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can manage own retreat accommodations"
+  ON retreat_accommodations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM yoga_classes c
+      WHERE c.id = retreat_accommodations.retreat_id
+        AND c.teacher_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM yoga_classes c
+      WHERE c.id = retreat_accommodations.retreat_id
+        AND c.teacher_id = auth.uid()
+        AND c.is_retreat = true
+    )
+  );
+
+-- Options with guests can't be removed from under them
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS accommodation_id uuid REFERENCES retreat_accommodations(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS room_assignment text;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_accommodation
+ON bookings (accommodation_id)
+WHERE accommodation_id IS NOT NULL;
+
+-- A cancelled booking gives up its room, so a reused booking row starts without one
+CREATE OR REPLACE FUNCTION release_booking_accommodation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+    NEW.accommodation_id := NULL;
+    NEW.room_assignment := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_booking_accommodation_trigger ON bookings;
+CREATE TRIGGER release_booking_accommodation_trigger
+  BEFORE UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION release_booking_accommodation();
+
+-- Paid guests and held spots of an accommodation option
+CREATE OR REPLACE FUNCTION get_accommodation_taken_count(
+  p_accommodation_id uuid,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(*)::integer
+  FROM bookings
+  WHERE accommodation_id = p_accommodation_id
+    AND status = 'confirmed'
+    AND (
+      payment_status = 'completed'
+      OR (payment_status = 'pending' AND hold_expires_at IS NOT NULL AND hold_expires_at > now())
+    )
+    AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id);
+$$;
+
+-- Lock an option of the retreat and make sure it has room for one more guest
+CREATE OR REPLACE FUNCTION reserve_accommodation(
+  p_retreat_id uuid,
+  p_accommodation_id uuid,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_option record;
+BEGIN
+  SELECT id, name, capacity
+  INTO v_option
+  FROM retreat_accommodations
+  WHERE id = p_accommodation_id
+    AND retreat_id = p_retreat_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Accommodation option not found';
+  END IF;
+
+  IF get_accommodation_taken_count(p_accommodation_id, p_exclude_booking_id) >= v_option.capacity THEN
+    RAISE EXCEPTION '% is fully booked', v_option.name;
+  END IF;
+END;
+$$;
+
+-- A retreat's options with the spots left in each
+CREATE OR REPLACE FUNCTION get_retreat_accommodations(p_retreat_id uuid)
+RETURNS TABLE(
+  id uuid,
+  retreat_id uuid,
+  name text,
+  description text,
+  price numeric,
+  early_bird_price numeric,
+  capacity integer,
+  sort_order integer,
+  spots_left integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    a.id,
+    a.retreat_id,
+    a.name,
+    a.description,
+    a.price,
+    a.early_bird_price,
+    a.capacity,
+    a.sort_order,
+    GREATEST(a.capacity - get_accommodation_taken_count(a.id), 0)
+  FROM retreat_accommodations a
+  WHERE a.retreat_id = p_retreat_id
+  ORDER BY a.sort_order, a.price;
+$$;
+
+-- The accommodation joins the arguments, so the old signature goes
+DROP FUNCTION IF EXISTS create_booking_with_count(uuid, uuid, booking_status, payment_status, boolean);
+
+-- Retreats sold by accommodation hold a spot in the chosen option as well
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending',
+  p_use_credit boolean DEFAULT false,
+  p_accommodation_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+  v_class_start timestamp;
+  v_hold_until timestamptz;
+  v_purchase_id uuid;
+  v_membership_id uuid;
+BEGIN
+  -- A lapsed hold of the student's own is released so they can book again
+  SELECT id INTO v_booking_id
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'pending'
+    AND hold_expires_at <= now();
+
+  IF FOUND THEN
+    PERFORM release_booking_hold(v_booking_id);
+    v_booking_id := NULL;
+  END IF;
+
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, teacher_id, current_participants, max_participants, date, time, is_retreat
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  v_class_start := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_start < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  -- Retreats with accommodation options are booked into one of them
+  IF p_accommodation_id IS NOT NULL THEN
+    PERFORM reserve_accommodation(p_class_id, p_accommodation_id);
+  ELSIF EXISTS (
+    SELECT 1 FROM retreat_accommodations
+    WHERE retreat_id = p_class_id
+  ) THEN
+    RAISE EXCEPTION 'Choose an accommodation option';
+  END IF;
+
+  IF p_use_credit THEN
+    IF v_class_info.is_retreat THEN
+      RAISE EXCEPTION 'Class credits cannot be used for retreats';
+    END IF;
+
+    -- Spend the credit that expires first
+    SELECT id
+    INTO v_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND expires_at > now()
+    ORDER BY expires_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No class credits available';
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_purchase_id;
+
+    INSERT INTO bookings (student_id, class_id, status, payment_status, pack_purchase_id)
+    VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_purchase_id)
+    RETURNING id INTO v_booking_id;
+
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+    RETURN v_booking_id;
+  END IF;
+
+  IF p_status = 'confirmed' AND p_payment_status = 'pending' THEN
+    -- Serialize the student's bookings so a limited plan can't be overspent
+    PERFORM 1
+    FROM memberships
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    v_membership_id := get_covering_membership(p_student_id, p_class_id);
+
+    IF v_membership_id IS NOT NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, membership_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_membership_id)
+      RETURNING id INTO v_booking_id;
+
+      PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+      RETURN v_booking_id;
+    END IF;
+
+    -- The hold never runs past the start of the class
+    v_hold_until := LEAST(now() + interval '15 minutes', v_class_start);
+
+    -- Reuse a previously cancelled or released booking row (bookings are unique per student and class)
+    UPDATE bookings
+    SET
+      status = 'confirmed',
+      payment_status = 'pending',
+      pack_purchase_id = NULL,
+      membership_id = NULL,
+      accommodation_id = p_accommodation_id,
+      booking_date = now(),
+      hold_expires_at = v_hold_until,
+      updated_at = now()
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'cancelled'
+    RETURNING id INTO v_booking_id;
+
+    IF v_booking_id IS NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, hold_expires_at, accommodation_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'pending', v_hold_until, p_accommodation_id)
+      RETURNING id INTO v_booking_id;
+    END IF;
+
+    RETURN v_booking_id;
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status, accommodation_id)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status, p_accommodation_id)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Pick or change the accommodation of a booking that hasn't been paid yet
+CREATE OR REPLACE FUNCTION choose_booking_accommodation(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_accommodation_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT id, class_id, status, payment_status, hold_expires_at
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+    RAISE EXCEPTION 'Booking hold has expired';
+  END IF;
+
+  PERFORM reserve_accommodation(v_booking.class_id, p_accommodation_id, p_booking_id);
+
+  -- An open payment was for the price of the previous choice
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'requires_confirmation';
+
+  UPDATE bookings
+  SET
+    accommodation_id = p_accommodation_id,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Retreats with accommodation options charge the price of the booked option
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_amount numeric(10,2);
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  SELECT
+    b.id,
+    b.class_id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    b.accommodation_id,
+    COALESCE(a.price, c.price) AS price,
+    CASE WHEN a.id IS NULL THEN c.early_bird_price ELSE a.early_bird_price END AS early_bird_price,
+    c.early_bird_deadline
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  LEFT JOIN retreat_accommodations a ON a.id = b.accommodation_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+    RAISE EXCEPTION 'Booking hold has expired';
+  END IF;
+
+  -- Bookings promoted from the waitlist pick their accommodation before paying
+  IF v_booking.accommodation_id IS NULL AND EXISTS (
+    SELECT 1 FROM retreat_accommodations
+    WHERE retreat_id = v_booking.class_id
+  ) THEN
+    RAISE EXCEPTION 'Choose an accommodation option';
+  END IF;
+
+  v_amount := get_current_price(
+    v_booking.price,
+    v_booking.early_bird_price,
+    v_booking.early_bird_deadline
+  );
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (booking_id, student_id, provider, amount)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation'
+  );
+END;
+$$;
+
+-- The organizer puts a paid guest in a room, or clears it with an empty room
+CREATE OR REPLACE FUNCTION assign_retreat_room(
+  p_booking_id uuid,
+  p_teacher_id uuid,
+  p_room text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE bookings b
+  SET
+    room_assignment = NULLIF(trim(p_room), ''),
+    updated_at = now()
+  FROM yoga_classes c
+  WHERE b.id = p_booking_id
+    AND c.id = b.class_id
+    AND c.teacher_id = p_teacher_id
+    AND c.is_retreat = true
+    AND b.status = 'confirmed'
+    AND b.payment_status = 'completed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only paid guests of your own retreats can be given a room';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Internal helpers are not callable by clients
+REVOKE EXECUTE ON FUNCTION reserve_accommodation(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_accommodation_taken_count(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_retreat_accommodations(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_booking_with_count(uuid, uuid, booking_status, payment_status, boolean, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION choose_booking_accommodation(uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_retreat_room(uuid, uuid, text) TO authenticated;
+GRANT ALL ON retreat_accommodations TO authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Partially Paid Bookings
+
+  1. Type Changes
+    - `payment_status` gains `partially_paid` for retreat bookings paid by deposit and
+      installments. The value is added on its own because a new enum value can't be
+      used in the migration that adds it.
+*/
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'partially_paid' AFTER 'pending';
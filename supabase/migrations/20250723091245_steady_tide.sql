@@ -0,0 +1,1199 @@
+/*
+  # Retreat Deposits and Installments
+
+  1. New Tables
+    - `payment_schedules` - One row per installment of a booking paid by plan
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, references bookings)
+      - `installment_number` (integer) - 0 is the deposit paid at booking time
+      - `amount` (numeric)
+      - `due_date` (timestamp)
+      - `status` (text) - pending, paid or overdue
+      - `payment_id` (uuid, references payments) - The payment that settled it
+      - `paid_at` (timestamp)
+
+  2. Table Changes
+    - `yoga_classes.deposit_percent` - Share of the price due at booking time; retreats
+      without one are paid in full
+    - `yoga_classes.installment_count` - Installments the balance is split into
+    - `yoga_classes.balance_due_days` - The last installment is due this many days
+      before the retreat starts
+    - `payments.schedule_id` - The installment a payment pays for
+    - Confirmed and cancelled bookings can be `partially_paid`
+    - Notifications for overdue installments and released bookings
+
+  3. Database Functions
+    - `build_payment_schedule` - Internal helper that splits a price into a deposit and
+      installments
+    - `get_installment_plan` - Previews the plan a student would pay by
+    - `create_payment_intent` takes the plan: the deposit opens the schedule and later
+      payments pay the next installment
+    - `record_payment_result` marks the installment paid and keeps the booking
+      `partially_paid` until the last one
+    - `handle_payment_status_change`, `notify_booking_confirmed`, `enforce_verified_payment`,
+      `cancel_booking_with_count`, `calculate_refund`, `sync_participant_count`,
+      `validate_all_participant_counts`, `get_accommodation_taken_count` and
+      `assign_retreat_room` treat a paid deposit as a taken spot
+    - `release_unpaid_balance` - Cancels a booking whose last installment is past due
+      through `cancel_booking_with_count`, so the retreat's cancellation policy applies
+      as if the student had cancelled at the deadline
+    - `process_payment_schedules` - Scheduled job that marks installments overdue and
+      releases bookings whose balance wasn't paid in time
+
+  4. Security
+    - Students view the schedules of their own bookings; teachers those of their retreats
+    - `build_payment_schedule` and `release_unpaid_balance` are internal;
+      `process_payment_schedules` is only callable by the service role
+*/
+
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS deposit_percent numeric(5,2) CHECK (deposit_percent > 0 AND deposit_percent < 100),
+ADD COLUMN IF NOT EXISTS installment_count integer NOT NULL DEFAULT 1 CHECK (installment_count BETWEEN 1 AND 12),
+ADD COLUMN IF NOT EXISTS balance_due_days integer NOT NULL DEFAULT 30 CHECK (balance_due_days >= 0);
+
+-- Installments of bookings paid by deposit
+CREATE TABLE IF NOT EXISTS payment_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  installment_number integer NOT NULL CHECK (installment_number >= 0),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  due_date timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'overdue')),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(booking_id, installment_number)
+);
+
+ALTER TABLE payment_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_payment_schedules_due
+ON payment_schedules (due_date)
+WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_payment_schedules_updated_at ON payment_schedules;
+CREATE TRIGGER update_payment_schedules_updated_at
+  BEFORE UPDATE ON payment_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Read-only access for clients; schedules are written by the payment functions
+CREATE POLICY "Students can view own payment schedules"
+  ON payment_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = payment_schedules.booking_id
+      AND bookings.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can view payment schedules for their classes"
+  ON payment_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      JOIN yoga_classes ON yoga_classes.id = bookings.class_id
+      WHERE bookings.id = payment_schedules.booking_id
+      AND yoga_classes.teacher_id = auth.uid()
+    )
+  );
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES payment_schedules(id) ON DELETE SET NULL;
+
+-- A paid deposit holds the spot until the balance is paid
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+CHECK (
+  (status = 'cancelled' AND payment_status IN ('pending', 'partially_paid', 'completed', 'failed', 'refunded')) OR
+  (status = 'confirmed' AND payment_status IN ('pending', 'partially_paid', 'completed', 'failed'))
+);
+
+-- Students hear about installments they missed and spots they lost over it
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'booking_confirmed',
+  'payment_received',
+  'class_changed',
+  'class_cancelled',
+  'waitlist_promoted',
+  'new_booking',
+  'penalty_applied',
+  'new_review',
+  'review_reply',
+  'new_class',
+  'installment_overdue',
+  'booking_released'
+));
+
+-- Split a price into a deposit due now and installments spread evenly up to the
+-- balance deadline. Empty when the class has no plan or the deadline has passed.
+CREATE OR REPLACE FUNCTION build_payment_schedule(
+  p_class_id uuid,
+  p_total numeric
+)
+RETURNS TABLE (
+  installment_number integer,
+  amount numeric(10,2),
+  due_date timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_final_due timestamptz;
+  v_deposit numeric(10,2);
+  v_installment numeric(10,2);
+BEGIN
+  SELECT deposit_percent, installment_count, balance_due_days, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id
+    AND is_retreat = true
+    AND deposit_percent IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_final_due := (v_class.date || ' ' || v_class.time)::timestamp - make_interval(days => v_class.balance_due_days);
+  IF v_final_due <= now() THEN
+    RETURN;
+  END IF;
+
+  v_deposit := ROUND(p_total * v_class.deposit_percent / 100, 2);
+  v_installment := ROUND((p_total - v_deposit) / v_class.installment_count, 2);
+
+  installment_number := 0;
+  amount := v_deposit;
+  due_date := now();
+  RETURN NEXT;
+
+  FOR i IN 1..v_class.installment_count LOOP
+    installment_number := i;
+    -- The last installment takes the rounding difference
+    amount := CASE
+      WHEN i = v_class.installment_count THEN p_total - v_deposit - v_installment * (v_class.installment_count - 1)
+      ELSE v_installment
+    END;
+    due_date := CASE
+      WHEN i = v_class.installment_count THEN v_final_due
+      ELSE now() + (v_final_due - now()) * i / v_class.installment_count
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- The plan an unpaid booking could be paid by, at today's price
+CREATE OR REPLACE FUNCTION get_installment_plan(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS TABLE (
+  installment_number integer,
+  amount numeric(10,2),
+  due_date timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT
+    b.class_id,
+    COALESCE(a.price, c.price) AS price,
+    CASE WHEN a.id IS NULL THEN c.early_bird_price ELSE a.early_bird_price END AS early_bird_price,
+    c.early_bird_deadline
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  LEFT JOIN retreat_accommodations a ON a.id = b.accommodation_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+    AND b.status = 'confirmed'
+    AND b.payment_status IN ('pending', 'failed');
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM build_payment_schedule(
+    v_booking.class_id,
+    get_current_price(v_booking.price, v_booking.early_bird_price, v_booking.early_bird_deadline)
+  );
+END;
+$$;
+
+-- The plan joins the arguments, so the old signature goes
+DROP FUNCTION IF EXISTS create_payment_intent(uuid, uuid, text);
+
+-- A booking is paid in full or by installments: the deposit opens the schedule and
+-- each later payment pays the next installment due
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text,
+  p_plan text DEFAULT 'full'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_amount numeric(10,2);
+  v_schedule_id uuid;
+  v_installment_number integer;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  IF p_plan NOT IN ('full', 'installments') THEN
+    RAISE EXCEPTION 'Unknown payment plan %', p_plan;
+  END IF;
+
+  SELECT
+    b.id,
+    b.class_id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    b.accommodation_id,
+    COALESCE(a.price, c.price) AS price,
+    CASE WHEN a.id IS NULL THEN c.early_bird_price ELSE a.early_bird_price END AS early_bird_price,
+    c.early_bird_deadline
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  LEFT JOIN retreat_accommodations a ON a.id = b.accommodation_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'partially_paid', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.payment_status = 'partially_paid' THEN
+    -- The schedule is fixed once the deposit is paid
+    SELECT id, installment_number, amount
+    INTO v_schedule_id, v_installment_number, v_amount
+    FROM payment_schedules
+    WHERE booking_id = p_booking_id
+      AND status != 'paid'
+    ORDER BY installment_number
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking is not awaiting payment';
+    END IF;
+  ELSE
+    IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+      RAISE EXCEPTION 'Booking hold has expired';
+    END IF;
+
+    -- Bookings promoted from the waitlist pick their accommodation before paying
+    IF v_booking.accommodation_id IS NULL AND EXISTS (
+      SELECT 1 FROM retreat_accommodations
+      WHERE retreat_id = v_booking.class_id
+    ) THEN
+      RAISE EXCEPTION 'Choose an accommodation option';
+    END IF;
+
+    v_amount := get_current_price(
+      v_booking.price,
+      v_booking.early_bird_price,
+      v_booking.early_bird_deadline
+    );
+
+    -- Nothing has been paid yet, so an earlier plan choice can be dropped
+    DELETE FROM payment_schedules
+    WHERE booking_id = p_booking_id;
+
+    IF p_plan = 'installments' THEN
+      INSERT INTO payment_schedules (booking_id, installment_number, amount, due_date)
+      SELECT p_booking_id, plan.installment_number, plan.amount, plan.due_date
+      FROM build_payment_schedule(v_booking.class_id, v_amount) AS plan;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Installments are not available for this booking';
+      END IF;
+
+      SELECT id, installment_number, amount
+      INTO v_schedule_id, v_installment_number, v_amount
+      FROM payment_schedules
+      WHERE booking_id = p_booking_id
+        AND installment_number = 0;
+    END IF;
+  END IF;
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (booking_id, student_id, provider, amount, schedule_id)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount, v_schedule_id)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation',
+    'installment_number', v_installment_number
+  );
+END;
+$$;
+
+-- Provider callback: record the outcome and settle the booking, pack or membership
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+  v_new_payment_status payment_status := 'completed';
+BEGIN
+  SELECT id, booking_id, pack_purchase_id, membership_id, schedule_id, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    -- A paid signup or renewal starts a new monthly period
+    IF v_payment.membership_id IS NOT NULL THEN
+      UPDATE memberships
+      SET
+        status = 'active',
+        current_period_start = now(),
+        current_period_end = now() + interval '1 month'
+      WHERE id = v_payment.membership_id
+        AND status IN ('pending', 'past_due');
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      -- The booking stays partially paid until its last installment is in
+      IF v_payment.schedule_id IS NOT NULL THEN
+        UPDATE payment_schedules
+        SET
+          status = 'paid',
+          payment_id = p_payment_id,
+          paid_at = now()
+        WHERE id = v_payment.schedule_id;
+
+        IF EXISTS (
+          SELECT 1 FROM payment_schedules
+          WHERE booking_id = v_payment.booking_id
+            AND status != 'paid'
+        ) THEN
+          v_new_payment_status := 'partially_paid';
+        END IF;
+      END IF;
+
+      UPDATE bookings
+      SET
+        payment_status = v_new_payment_status,
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- A booking is only paid, in part or in full, once a provider has confirmed a payment
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status IN ('completed', 'partially_paid')
+    AND (TG_OP = 'INSERT' OR OLD.payment_status NOT IN ('completed', 'partially_paid'))
+    AND NEW.pack_purchase_id IS NULL
+    AND NEW.membership_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payments
+      WHERE booking_id = NEW.id
+        AND status = 'succeeded'
+        AND confirmed_at >= NEW.booking_date
+    ) THEN
+      RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.payment_status = 'partially_paid'
+    AND NEW.payment_status = 'completed'
+    AND EXISTS (
+      SELECT 1 FROM payment_schedules
+      WHERE booking_id = NEW.id
+        AND status != 'paid'
+    ) THEN
+    RAISE EXCEPTION 'Booking has installments left to pay';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The spot is counted from the deposit on, and only once
+CREATE OR REPLACE FUNCTION handle_payment_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Only process if payment status actually changed
+  IF OLD.payment_status != NEW.payment_status AND NEW.status = 'confirmed' THEN
+
+    -- Deposit or full payment: increment count
+    IF OLD.payment_status NOT IN ('completed', 'partially_paid') AND NEW.payment_status IN ('completed', 'partially_paid') THEN
+      PERFORM increment_participant_count(NEW.class_id, NEW.student_id, NEW.id);
+
+    -- Payment was made but now failed/refunded: decrement count
+    ELSIF OLD.payment_status IN ('completed', 'partially_paid') AND NEW.payment_status IN ('failed', 'refunded') THEN
+      PERFORM decrement_participant_count(NEW.class_id, NEW.student_id, NEW.id);
+
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A retreat booking is confirmed once its deposit is paid, not again with the balance
+CREATE OR REPLACE FUNCTION notify_booking_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_student_name text;
+BEGIN
+  IF NEW.status != 'confirmed' OR NEW.payment_status NOT IN ('completed', 'partially_paid') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' AND OLD.payment_status IN ('completed', 'partially_paid') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, title, date, time, teacher_id, is_retreat
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  SELECT full_name INTO v_student_name
+  FROM profiles
+  WHERE id = NEW.student_id;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'booking_confirmed',
+    'Booking confirmed',
+    format(
+      'You''re booked for %s on %s at %s.',
+      v_class.title,
+      to_char(v_class.date, 'Dy DD Mon'),
+      to_char(v_class.time, 'HH24:MI')
+    ),
+    NEW.class_id,
+    NEW.id
+  );
+
+  PERFORM create_notification(
+    v_class.teacher_id,
+    'new_booking',
+    CASE WHEN v_class.is_retreat THEN 'New retreat booking' ELSE 'New booking' END,
+    format(
+      '%s booked %s on %s.',
+      COALESCE(v_student_name, 'A student'),
+      v_class.title,
+      to_char(v_class.date, 'Dy DD Mon')
+    ),
+    NEW.class_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Everything paid towards the current booking counts, deposit and installments alike
+CREATE OR REPLACE FUNCTION calculate_refund(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_policy record;
+  v_payment_id uuid;
+  v_currency text := 'EUR';
+  v_hours_before numeric;
+  v_refund_percent numeric := 0;
+  v_amount_paid numeric(10,2) := 0;
+BEGIN
+  SELECT
+    b.id,
+    b.payment_status,
+    b.pack_purchase_id,
+    b.booking_date,
+    c.teacher_id,
+    c.date,
+    c.time,
+    c.cancellation_policy_id,
+    c.status AS class_status
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_hours_before := ROUND(
+    EXTRACT(EPOCH FROM ((v_booking.date || ' ' || v_booking.time)::timestamp - now()::timestamp)) / 3600,
+    2
+  );
+
+  -- Class policy first, then the teacher's default
+  SELECT id, name, tiers
+  INTO v_policy
+  FROM cancellation_policies
+  WHERE id = v_booking.cancellation_policy_id;
+
+  IF NOT FOUND THEN
+    SELECT id, name, tiers
+    INTO v_policy
+    FROM cancellation_policies
+    WHERE teacher_id = v_booking.teacher_id
+      AND is_default = true;
+  END IF;
+
+  -- Only payments that have not been refunded yet can be refunded; the refund is
+  -- recorded against the latest of them
+  IF v_booking.payment_status IN ('completed', 'partially_paid') THEN
+    SELECT
+      (array_agg(p.id ORDER BY p.confirmed_at DESC))[1],
+      COALESCE(SUM(p.amount), 0),
+      COALESCE(MIN(p.currency), 'EUR')
+    INTO v_payment_id, v_amount_paid, v_currency
+    FROM payments p
+    WHERE p.booking_id = p_booking_id
+      AND p.status = 'succeeded'
+      AND p.confirmed_at >= v_booking.booking_date
+      AND NOT EXISTS (
+        SELECT 1 FROM refunds r
+        WHERE r.payment_id = p.id
+      );
+  END IF;
+
+  IF v_booking.class_status = 'cancelled' THEN
+    -- The teacher cancelled the class, so the policy doesn't apply
+    v_refund_percent := 100;
+  ELSIF v_policy.id IS NULL THEN
+    -- Without a policy the booking is fully refundable
+    v_refund_percent := 100;
+  ELSE
+    SELECT COALESCE((
+      SELECT (tier->>'refund_percent')::numeric
+      FROM jsonb_array_elements(v_policy.tiers) AS tier
+      WHERE (tier->>'hours_before')::numeric <= v_hours_before
+      ORDER BY (tier->>'hours_before')::numeric DESC
+      LIMIT 1
+    ), 0)
+    INTO v_refund_percent;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'payment_id', v_payment_id,
+    'policy_id', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.id END,
+    'policy_name', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.name END,
+    'tiers', CASE WHEN v_booking.class_status = 'cancelled' THEN '[]'::jsonb ELSE COALESCE(v_policy.tiers, '[]'::jsonb) END,
+    'hours_before_class', v_hours_before,
+    'amount_paid', v_amount_paid,
+    'refund_percent', v_refund_percent,
+    'refund_amount', ROUND(v_amount_paid * v_refund_percent / 100, 2),
+    'currency', v_currency,
+    'pack_purchase_id', v_booking.pack_purchase_id,
+    -- A credit can't be split, so it only comes back with a full refund
+    'credit_returned', v_booking.payment_status = 'completed'
+      AND v_booking.pack_purchase_id IS NOT NULL
+      AND v_refund_percent >= 100
+  );
+END;
+$$;
+
+-- A partially paid booking is refunded and frees its spot like a paid one
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_new_payment_status payment_status;
+  v_refund jsonb;
+  v_refund_amount numeric(10,2);
+  v_credit_returned boolean;
+  v_refund_id uuid;
+  v_provider text;
+  v_was_paid boolean;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at, pack_purchase_id
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  v_was_paid := v_booking.payment_status IN ('completed', 'partially_paid');
+
+  -- Paid bookings are refunded according to the cancellation policy
+  IF v_was_paid THEN
+    v_refund := calculate_refund(p_booking_id);
+    v_refund_amount := (v_refund->>'refund_amount')::numeric;
+    v_credit_returned := (v_refund->>'credit_returned')::boolean;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      policy_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      hours_before_class,
+      credit_returned,
+      status
+    )
+    VALUES (
+      p_booking_id,
+      (v_refund->>'payment_id')::uuid,
+      p_student_id,
+      v_booking.class_id,
+      (v_refund->>'policy_id')::uuid,
+      (v_refund->>'amount_paid')::numeric,
+      (v_refund->>'refund_percent')::numeric,
+      v_refund_amount,
+      v_refund->>'currency',
+      (v_refund->>'hours_before_class')::numeric,
+      v_credit_returned,
+      CASE WHEN v_refund_amount > 0 THEN 'pending' ELSE 'not_owed' END
+    )
+    RETURNING id INTO v_refund_id;
+
+    -- The local mock provider settles refunds immediately
+    SELECT provider INTO v_provider
+    FROM payments
+    WHERE id = (v_refund->>'payment_id')::uuid;
+
+    IF v_refund_amount > 0 AND v_provider = 'mock' THEN
+      UPDATE refunds
+      SET
+        status = 'processed',
+        provider_reference = 'mock_refund_' || v_refund_id,
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- Credits go straight back onto the purchase they came from
+    IF v_credit_returned THEN
+      UPDATE pack_purchases
+      SET credits_remaining = credits_remaining + 1
+      WHERE id = v_booking.pack_purchase_id;
+
+      UPDATE refunds
+      SET
+        status = 'processed',
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- A forfeited payment or credit stays on the cancelled booking as it was
+    IF v_refund_amount > 0 OR v_credit_returned THEN
+      v_new_payment_status := 'refunded';
+    ELSE
+      v_new_payment_status := v_booking.payment_status;
+    END IF;
+  ELSE
+    v_new_payment_status := v_booking.payment_status;
+  END IF;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if the spot was paid for
+  IF v_was_paid THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_was_paid
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Create function to synchronize participant count with actual bookings
+CREATE OR REPLACE FUNCTION sync_participant_count(p_class_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_actual_count integer;
+  v_current_count integer;
+BEGIN
+  -- Count confirmed bookings with a paid deposit or full payment
+  SELECT COUNT(*)
+  INTO v_actual_count
+  FROM bookings
+  WHERE class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status IN ('completed', 'partially_paid');
+
+  -- Get current stored count
+  SELECT current_participants
+  INTO v_current_count
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Update if counts don't match
+  IF v_actual_count != v_current_count THEN
+    UPDATE yoga_classes
+    SET
+      current_participants = v_actual_count,
+      updated_at = now()
+    WHERE id = p_class_id;
+
+    -- Log the synchronization
+    PERFORM log_participant_count_change(
+      p_class_id,
+      NULL,
+      'sync',
+      v_current_count,
+      v_actual_count,
+      NULL,
+      'Count synchronized with actual bookings'
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Create function to validate all participant counts
+CREATE OR REPLACE FUNCTION validate_all_participant_counts()
+RETURNS TABLE(class_id uuid, old_count integer, new_count integer, fixed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  class_record record;
+  v_actual_count integer;
+  v_stored_count integer;
+BEGIN
+  FOR class_record IN
+    SELECT id, current_participants FROM yoga_classes
+    ORDER BY date, time
+  LOOP
+    -- Calculate actual count
+    SELECT COUNT(*)
+    INTO v_actual_count
+    FROM bookings
+    WHERE class_id = class_record.id
+      AND status = 'confirmed'
+      AND payment_status IN ('completed', 'partially_paid');
+
+    v_stored_count := class_record.current_participants;
+
+    -- Update if different
+    IF v_actual_count != v_stored_count THEN
+      UPDATE yoga_classes
+      SET current_participants = v_actual_count,
+          updated_at = now()
+      WHERE id = class_record.id;
+    END IF;
+
+    -- Return the result
+    RETURN QUERY SELECT
+      class_record.id,
+      v_stored_count,
+      v_actual_count,
+      (v_actual_count != v_stored_count);
+  END LOOP;
+END;
+$$;
+
+-- Paid guests, guests who paid a deposit and held spots of an accommodation option
+CREATE OR REPLACE FUNCTION get_accommodation_taken_count(
+  p_accommodation_id uuid,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(*)::integer
+  FROM bookings
+  WHERE accommodation_id = p_accommodation_id
+    AND status = 'confirmed'
+    AND (
+      payment_status IN ('completed', 'partially_paid')
+      OR (payment_status = 'pending' AND hold_expires_at IS NOT NULL AND hold_expires_at > now())
+    )
+    AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id);
+$$;
+
+-- Guests paying by installments get a room too
+CREATE OR REPLACE FUNCTION assign_retreat_room(
+  p_booking_id uuid,
+  p_teacher_id uuid,
+  p_room text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE bookings b
+  SET
+    room_assignment = NULLIF(trim(p_room), ''),
+    updated_at = now()
+  FROM yoga_classes c
+  WHERE b.id = p_booking_id
+    AND c.id = b.class_id
+    AND c.teacher_id = p_teacher_id
+    AND c.is_retreat = true
+    AND b.status = 'confirmed'
+    AND b.payment_status IN ('completed', 'partially_paid');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only paid guests of your own retreats can be given a room';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Release the spot of a partially paid booking whose last installment is past due.
+-- Bookings with a payment the provider is still processing are left alone.
+CREATE OR REPLACE FUNCTION release_unpaid_balance(p_booking_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_final_due timestamptz;
+  v_current_count integer;
+BEGIN
+  SELECT b.id, b.student_id, b.class_id, c.title
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.status = 'confirmed'
+    AND b.payment_status = 'partially_paid'
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT due_date INTO v_final_due
+  FROM payment_schedules
+  WHERE booking_id = p_booking_id
+    AND status != 'paid'
+    AND installment_number = (
+      SELECT MAX(installment_number) FROM payment_schedules
+      WHERE booking_id = p_booking_id
+    );
+
+  IF NOT FOUND OR v_final_due > now() THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE booking_id = p_booking_id
+      AND status = 'processing'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Installments can no longer be paid once the spot is gone
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'requires_confirmation';
+
+  PERFORM cancel_booking_with_count(p_booking_id, v_booking.student_id);
+
+  SELECT current_participants INTO v_current_count
+  FROM yoga_classes
+  WHERE id = v_booking.class_id;
+
+  PERFORM log_participant_count_change(
+    v_booking.class_id,
+    v_booking.student_id,
+    'validation',
+    v_current_count,
+    v_current_count,
+    p_booking_id,
+    'Balance due at ' || v_final_due || ' was not paid: spot released'
+  );
+
+  PERFORM create_notification(
+    v_booking.student_id,
+    'booking_released',
+    'Spot released',
+    format(
+      'The balance for %s was due on %s and wasn''t paid, so your spot has been released.',
+      v_booking.title,
+      to_char(v_final_due, 'Dy DD Mon')
+    ),
+    v_booking.class_id,
+    p_booking_id
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- Scheduled job: flag installments that are past due and release the bookings whose
+-- last installment is among them
+CREATE OR REPLACE FUNCTION process_payment_schedules()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_installment record;
+  v_booking_id uuid;
+  v_overdue integer := 0;
+  v_released integer := 0;
+BEGIN
+  FOR v_installment IN
+    SELECT
+      s.id,
+      s.booking_id,
+      s.amount,
+      s.due_date,
+      b.student_id,
+      b.class_id,
+      c.title,
+      s.installment_number = (
+        SELECT MAX(installment_number) FROM payment_schedules
+        WHERE booking_id = s.booking_id
+      ) AS is_final
+    FROM payment_schedules s
+    JOIN bookings b ON b.id = s.booking_id
+    JOIN yoga_classes c ON c.id = b.class_id
+    WHERE s.status = 'pending'
+      AND s.due_date <= now()
+      AND b.status = 'confirmed'
+      AND b.payment_status = 'partially_paid'
+    ORDER BY s.due_date
+  LOOP
+    UPDATE payment_schedules
+    SET status = 'overdue'
+    WHERE id = v_installment.id;
+
+    v_overdue := v_overdue + 1;
+
+    -- A missed last installment releases the spot below, which sends its own notice
+    CONTINUE WHEN v_installment.is_final;
+
+    PERFORM create_notification(
+      v_installment.student_id,
+      'installment_overdue',
+      'Installment overdue',
+      format(
+        'Your installment of EUR %s for %s was due on %s. Pay it to keep your spot.',
+        to_char(v_installment.amount, 'FM999999990.00'),
+        v_installment.title,
+        to_char(v_installment.due_date, 'Dy DD Mon')
+      ),
+      v_installment.class_id,
+      v_installment.booking_id
+    );
+  END LOOP;
+
+  FOR v_booking_id IN
+    SELECT b.id
+    FROM bookings b
+    WHERE b.status = 'confirmed'
+      AND b.payment_status = 'partially_paid'
+      AND EXISTS (
+        SELECT 1 FROM payment_schedules s
+        WHERE s.booking_id = b.id
+          AND s.status = 'overdue'
+          AND s.installment_number = (
+            SELECT MAX(installment_number) FROM payment_schedules
+            WHERE booking_id = b.id
+          )
+      )
+  LOOP
+    IF release_unpaid_balance(v_booking_id) THEN
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'overdue', v_overdue,
+    'released', v_released
+  );
+END;
+$$;
+
+-- Internal helpers and scheduled jobs are not callable by clients
+REVOKE EXECUTE ON FUNCTION build_payment_schedule(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_unpaid_balance(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_payment_schedules() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_payment_schedules() TO service_role;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_installment_plan(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_payment_intent(uuid, uuid, text, text) TO authenticated;
+GRANT SELECT ON payment_schedules TO authenticated;
@@ -0,0 +1,689 @@
+/*
+  # Pricing Engine
+
+  1. New Tables
+    - `pricing_rules` - Discounts a class or retreat is sold with
+      - `id` (uuid, primary key)
+      - `class_id` (uuid, references yoga_classes)
+      - `rule_type` (text) - early_bird, last_minute or concession
+      - `label` (text) - Shown to students instead of the default name
+      - `discount_type` (text) - percent or amount
+      - `discount_value` (numeric)
+      - `ends_on` (date) - Last day of an early bird window
+      - `days_before` (integer) - A last-minute window opens this many days before the start
+      - `concession` (text) - student or senior
+
+  2. Table Changes
+    - `yoga_classes.sliding_scale_min`, `sliding_scale_max` - Range students may pay
+      within when the class is pay-what-you-can
+    - `bookings.concession` - Concession the student booked at
+    - `bookings.chosen_price` - Amount chosen on a sliding scale
+
+  3. Database Functions
+    - `calculate_price` - The one pricing engine: the base or accommodation price, less
+      the best early bird or last-minute window on offer, less the student's concession,
+      or the amount chosen on a sliding scale. Returns the price with its breakdown.
+    - `get_booking_price` - Internal helper pricing a booking at today's date
+    - `set_booking_pricing` - Students pick their concession and sliding-scale amount
+      before paying
+    - `save_class_pricing` - Teachers replace the discounts and sliding scale of a class
+    - `get_installment_plan` and `create_payment_intent` charge the engine's price
+    - `search_classes` filters on the engine's price
+    - `get_current_price` is dropped; the retreat's early bird price and deadline are
+      read by `calculate_price` as one more early bird window
+
+  4. Security
+    - Anyone signed in can view pricing rules; they are written through `save_class_pricing`
+*/
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  rule_type text NOT NULL CHECK (rule_type IN ('early_bird', 'last_minute', 'concession')),
+  label text,
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  ends_on date,
+  days_before integer CHECK (days_before >= 0),
+  concession text CHECK (concession IN ('student', 'senior')),
+  created_at timestamptz DEFAULT now(),
+  CHECK (discount_type = 'amount' OR discount_value < 100),
+  CHECK (
+    (rule_type = 'early_bird' AND ends_on IS NOT NULL AND days_before IS NULL AND concession IS NULL) OR
+    (rule_type = 'last_minute' AND days_before IS NOT NULL AND ends_on IS NULL AND concession IS NULL) OR
+    (rule_type = 'concession' AND concession IS NOT NULL AND ends_on IS NULL AND days_before IS NULL)
+  )
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_class
+ON pricing_rules (class_id);
+
+-- One price per concession
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_rules_concession
+ON pricing_rules (class_id, concession)
+WHERE concession IS NOT NULL;
+
+CREATE POLICY "Anyone can view pricing rules"
+  ON pricing_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE yoga_classes
+ADD COLUMN IF NOT EXISTS sliding_scale_min numeric(10,2),
+ADD COLUMN IF NOT EXISTS sliding_scale_max numeric(10,2);
+
+ALTER TABLE yoga_classes DROP CONSTRAINT IF EXISTS yoga_classes_sliding_scale_check;
+ALTER TABLE yoga_classes ADD CONSTRAINT yoga_classes_sliding_scale_check
+CHECK (
+  (sliding_scale_min IS NULL AND sliding_scale_max IS NULL) OR
+  (sliding_scale_min >= 0 AND sliding_scale_max >= sliding_scale_min)
+);
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS concession text CHECK (concession IN ('student', 'senior')),
+ADD COLUMN IF NOT EXISTS chosen_price numeric(10,2) CHECK (chosen_price >= 0);
+
+-- Price a class, or one of its accommodation options, as of a date. Early bird and
+-- last-minute windows don't stack: the biggest discount on offer applies, then the
+-- concession comes off what is left. A sliding-scale amount replaces the price.
+CREATE OR REPLACE FUNCTION calculate_price(
+  p_class_id uuid,
+  p_accommodation_id uuid DEFAULT NULL,
+  p_concession text DEFAULT NULL,
+  p_chosen_price numeric DEFAULT NULL,
+  p_on date DEFAULT CURRENT_DATE
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_base numeric(10,2);
+  v_early_bird_price numeric(10,2);
+  v_price numeric(10,2);
+  v_adjustments jsonb := '[]'::jsonb;
+  v_discount record;
+BEGIN
+  SELECT
+    c.date,
+    COALESCE(a.price, c.price) AS price,
+    CASE WHEN a.id IS NULL THEN c.early_bird_price ELSE a.early_bird_price END AS early_bird_price,
+    c.early_bird_deadline,
+    c.sliding_scale_min,
+    c.sliding_scale_max
+  INTO v_class
+  FROM yoga_classes c
+  LEFT JOIN retreat_accommodations a ON a.id = p_accommodation_id AND a.retreat_id = c.id
+  WHERE c.id = p_class_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  v_base := v_class.price;
+  v_price := v_base;
+
+  SELECT kind, label, discount
+  INTO v_discount
+  FROM (
+    SELECT 'early_bird' AS kind, 'Early Bird' AS label, v_base - v_class.early_bird_price AS discount
+    WHERE v_class.early_bird_price IS NOT NULL
+      AND v_class.early_bird_deadline >= p_on
+    UNION ALL
+    SELECT
+      r.rule_type,
+      COALESCE(r.label, CASE r.rule_type WHEN 'early_bird' THEN 'Early Bird' ELSE 'Last Minute' END),
+      CASE r.discount_type
+        WHEN 'percent' THEN ROUND(v_base * r.discount_value / 100, 2)
+        ELSE LEAST(r.discount_value, v_base)
+      END
+    FROM pricing_rules r
+    WHERE r.class_id = p_class_id
+      AND (
+        (r.rule_type = 'early_bird' AND r.ends_on >= p_on) OR
+        (r.rule_type = 'last_minute' AND v_class.date - p_on BETWEEN 0 AND r.days_before)
+      )
+  ) windows
+  ORDER BY discount DESC
+  LIMIT 1;
+
+  IF FOUND AND v_discount.discount > 0 THEN
+    v_price := v_price - v_discount.discount;
+    v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+      'kind', v_discount.kind,
+      'label', v_discount.label,
+      'amount', -v_discount.discount
+    ));
+  END IF;
+
+  IF p_concession IS NOT NULL THEN
+    SELECT
+      'concession' AS kind,
+      COALESCE(label, initcap(concession)) AS label,
+      CASE discount_type
+        WHEN 'percent' THEN ROUND(v_price * discount_value / 100, 2)
+        ELSE LEAST(discount_value, v_price)
+      END AS discount
+    INTO v_discount
+    FROM pricing_rules
+    WHERE class_id = p_class_id
+      AND rule_type = 'concession'
+      AND concession = p_concession;
+
+    IF FOUND AND v_discount.discount > 0 THEN
+      v_price := v_price - v_discount.discount;
+      v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+        'kind', v_discount.kind,
+        'label', v_discount.label,
+        'amount', -v_discount.discount
+      ));
+    END IF;
+  END IF;
+
+  IF p_chosen_price IS NOT NULL AND v_class.sliding_scale_min IS NOT NULL THEN
+    IF p_chosen_price NOT BETWEEN v_class.sliding_scale_min AND v_class.sliding_scale_max THEN
+      RAISE EXCEPTION 'Choose a price between €% and €%', v_class.sliding_scale_min, v_class.sliding_scale_max;
+    END IF;
+
+    IF p_chosen_price != v_price THEN
+      v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+        'kind', 'sliding_scale',
+        'label', 'Pay What You Can',
+        'amount', p_chosen_price - v_price
+      ));
+      v_price := p_chosen_price;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'base_price', v_base,
+    'price', v_price,
+    'adjustments', v_adjustments,
+    'sliding_scale_min', v_class.sliding_scale_min,
+    'sliding_scale_max', v_class.sliding_scale_max
+  );
+END;
+$$;
+
+-- Today's price of a booking, with the concession and amount its student chose
+CREATE OR REPLACE FUNCTION get_booking_price(p_booking_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT class_id, accommodation_id, concession, chosen_price
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN (calculate_price(
+    v_booking.class_id,
+    v_booking.accommodation_id,
+    v_booking.concession,
+    v_booking.chosen_price
+  )->>'price')::numeric;
+END;
+$$;
+
+-- Students pick a concession and a sliding-scale amount while the booking is unpaid
+CREATE OR REPLACE FUNCTION set_booking_pricing(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_concession text,
+  p_chosen_price numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT b.class_id, b.accommodation_id, b.status, b.payment_status, c.sliding_scale_min
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF p_concession IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pricing_rules
+    WHERE class_id = v_booking.class_id
+      AND concession = p_concession
+  ) THEN
+    RAISE EXCEPTION 'No % price is offered for this class', p_concession;
+  END IF;
+
+  IF p_chosen_price IS NOT NULL AND v_booking.sliding_scale_min IS NULL THEN
+    RAISE EXCEPTION 'This class has a fixed price';
+  END IF;
+
+  UPDATE bookings
+  SET
+    concession = p_concession,
+    chosen_price = p_chosen_price
+  WHERE id = p_booking_id;
+
+  -- Also checks the amount is within the sliding scale
+  RETURN calculate_price(v_booking.class_id, v_booking.accommodation_id, p_concession, p_chosen_price);
+END;
+$$;
+
+-- Replace the discounts and sliding scale a class is sold with
+CREATE OR REPLACE FUNCTION save_class_pricing(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_sliding_scale_min numeric,
+  p_sliding_scale_max numeric,
+  p_rules jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_rule_count integer;
+BEGIN
+  SELECT teacher_id, date
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF (p_sliding_scale_min IS NULL) != (p_sliding_scale_max IS NULL)
+    OR p_sliding_scale_min > p_sliding_scale_max THEN
+    RAISE EXCEPTION 'Enter the lowest and highest price of the sliding scale';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_rules, '[]'::jsonb)) AS r(rule_type text, ends_on date)
+    WHERE r.rule_type = 'early_bird' AND r.ends_on >= v_class.date
+  ) THEN
+    RAISE EXCEPTION 'Early bird windows must end before the class starts';
+  END IF;
+
+  UPDATE yoga_classes
+  SET
+    sliding_scale_min = p_sliding_scale_min,
+    sliding_scale_max = p_sliding_scale_max
+  WHERE id = p_class_id;
+
+  DELETE FROM pricing_rules
+  WHERE class_id = p_class_id;
+
+  INSERT INTO pricing_rules (
+    class_id,
+    rule_type,
+    label,
+    discount_type,
+    discount_value,
+    ends_on,
+    days_before,
+    concession
+  )
+  SELECT
+    p_class_id,
+    r.rule_type,
+    NULLIF(trim(r.label), ''),
+    r.discount_type,
+    r.discount_value,
+    r.ends_on,
+    r.days_before,
+    r.concession
+  FROM jsonb_to_recordset(COALESCE(p_rules, '[]'::jsonb)) AS r(
+    rule_type text,
+    label text,
+    discount_type text,
+    discount_value numeric,
+    ends_on date,
+    days_before integer,
+    concession text
+  );
+
+  GET DIAGNOSTICS v_rule_count = ROW_COUNT;
+  RETURN v_rule_count;
+END;
+$$;
+
+-- The plan an unpaid booking could be paid by, at today's price
+CREATE OR REPLACE FUNCTION get_installment_plan(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS TABLE (
+  installment_number integer,
+  amount numeric(10,2),
+  due_date timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT class_id
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+    AND payment_status IN ('pending', 'failed');
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM build_payment_schedule(v_booking.class_id, get_booking_price(p_booking_id));
+END;
+$$;
+
+
+-- Same as before, charging the price from calculate_price
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text,
+  p_plan text DEFAULT 'full'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_amount numeric(10,2);
+  v_schedule_id uuid;
+  v_installment_number integer;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  IF p_plan NOT IN ('full', 'installments') THEN
+    RAISE EXCEPTION 'Unknown payment plan %', p_plan;
+  END IF;
+
+  SELECT
+    b.id,
+    b.class_id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    b.accommodation_id
+  INTO v_booking
+  FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'partially_paid', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.payment_status = 'partially_paid' THEN
+    -- The schedule is fixed once the deposit is paid
+    SELECT id, installment_number, amount
+    INTO v_schedule_id, v_installment_number, v_amount
+    FROM payment_schedules
+    WHERE booking_id = p_booking_id
+      AND status != 'paid'
+    ORDER BY installment_number
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking is not awaiting payment';
+    END IF;
+  ELSE
+    IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+      RAISE EXCEPTION 'Booking hold has expired';
+    END IF;
+
+    -- Bookings promoted from the waitlist pick their accommodation before paying
+    IF v_booking.accommodation_id IS NULL AND EXISTS (
+      SELECT 1 FROM retreat_accommodations
+      WHERE retreat_id = v_booking.class_id
+    ) THEN
+      RAISE EXCEPTION 'Choose an accommodation option';
+    END IF;
+
+    v_amount := get_booking_price(p_booking_id);
+
+    -- Nothing has been paid yet, so an earlier plan choice can be dropped
+    DELETE FROM payment_schedules
+    WHERE booking_id = p_booking_id;
+
+    IF p_plan = 'installments' THEN
+      INSERT INTO payment_schedules (booking_id, installment_number, amount, due_date)
+      SELECT p_booking_id, plan.installment_number, plan.amount, plan.due_date
+      FROM build_payment_schedule(v_booking.class_id, v_amount) AS plan;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Installments are not available for this booking';
+      END IF;
+
+      SELECT id, installment_number, amount
+      INTO v_schedule_id, v_installment_number, v_amount
+      FROM payment_schedules
+      WHERE booking_id = p_booking_id
+        AND installment_number = 0;
+    END IF;
+  END IF;
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  INSERT INTO payments (booking_id, student_id, provider, amount, schedule_id)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount, v_schedule_id)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation',
+    'installment_number', v_installment_number
+  );
+END;
+$$;
+
+-- Same as before, filtering on today's price rather than the base price
+CREATE OR REPLACE FUNCTION search_classes(
+  p_is_retreat boolean DEFAULT false,
+  p_query text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_level text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_mode text DEFAULT 'all',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_duration text DEFAULT 'all',
+  p_teacher_ids uuid[] DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_radius_km numeric DEFAULT NULL,
+  p_sort text DEFAULT 'date',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pattern text;
+  v_has_origin boolean := p_latitude IS NOT NULL AND p_longitude IS NOT NULL;
+  v_lat_delta double precision;
+  v_total_count integer;
+  v_items jsonb;
+BEGIN
+  IF p_mode NOT IN ('all', 'in-person', 'virtual') THEN
+    RAISE EXCEPTION 'Invalid mode: %', p_mode;
+  END IF;
+
+  IF p_duration NOT IN ('all', '1-3', '4-7', '7+') THEN
+    RAISE EXCEPTION 'Invalid duration: %', p_duration;
+  END IF;
+
+  IF p_sort NOT IN ('date', 'distance') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  IF NOT v_has_origin AND (p_radius_km IS NOT NULL OR p_sort = 'distance') THEN
+    RAISE EXCEPTION 'A location is required to search by distance';
+  END IF;
+
+  -- Escape LIKE wildcards so the query is matched literally
+  IF p_query IS NOT NULL AND trim(p_query) != '' THEN
+    v_pattern := '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  -- Latitude band around the origin, so the index can narrow rows before the exact distance
+  IF p_radius_km IS NOT NULL THEN
+    v_lat_delta := p_radius_km / 111.0;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      c.id,
+      c.date,
+      c.time,
+      CASE
+        WHEN v_has_origin AND c.latitude IS NOT NULL
+        THEN distance_km(p_latitude, p_longitude, c.latitude, c.longitude)
+      END AS distance_km
+    FROM yoga_classes c
+    JOIN profiles p ON p.id = c.teacher_id
+    CROSS JOIN LATERAL (SELECT (calculate_price(c.id)->>'price')::numeric AS price) current_price
+    WHERE c.status = 'scheduled'
+      AND COALESCE(c.is_retreat, false) = p_is_retreat
+      AND c.date >= GREATEST(COALESCE(p_date_from, CURRENT_DATE), CURRENT_DATE)
+      AND (p_date_to IS NULL OR c.date <= p_date_to)
+      AND (p_type IS NULL OR c.type = p_type)
+      AND (p_level IS NULL OR c.level::text = p_level)
+      AND (
+        p_mode = 'all' OR
+        (p_mode = 'virtual' AND COALESCE(c.is_virtual, false)) OR
+        (p_mode = 'in-person' AND NOT COALESCE(c.is_virtual, false))
+      )
+      AND (p_min_price IS NULL OR current_price.price >= p_min_price)
+      AND (p_max_price IS NULL OR current_price.price <= p_max_price)
+      AND (
+        p_duration = 'all' OR
+        (p_duration = '1-3' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 1 AND 3) OR
+        (p_duration = '4-7' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 4 AND 7) OR
+        (p_duration = '7+' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 > 7)
+      )
+      AND (p_teacher_ids IS NULL OR c.teacher_id = ANY(p_teacher_ids))
+      AND (
+        p_radius_km IS NULL OR (
+          c.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+          AND distance_km(p_latitude, p_longitude, c.latitude, c.longitude) <= p_radius_km
+        )
+      )
+      AND (
+        v_pattern IS NULL OR
+        c.title ILIKE v_pattern OR
+        c.description ILIKE v_pattern OR
+        c.location ILIKE v_pattern OR
+        p.full_name ILIKE v_pattern
+      )
+  ),
+  page AS (
+    SELECT
+      id,
+      distance_km,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'distance' THEN distance_km END NULLS LAST,
+          date,
+          time,
+          id
+      ) AS position
+    FROM matches
+    ORDER BY position
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matches),
+    COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) || jsonb_build_object(
+          'profiles', jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url),
+          'participant_count', (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.class_id = c.id AND b.status = 'confirmed'
+          ),
+          'distance_km', page.distance_km
+        )
+        ORDER BY page.position
+      )
+      FROM page
+      JOIN yoga_classes c ON c.id = page.id
+      JOIN profiles p ON p.id = c.teacher_id
+    ), '[]'::jsonb)
+  INTO v_total_count, v_items;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'total_count', v_total_count
+  );
+END;
+$$;
+
+-- Superseded by calculate_price
+DROP FUNCTION IF EXISTS get_current_price(numeric, numeric, date);
+
+-- Internal helpers are not callable by clients
+REVOKE EXECUTE ON FUNCTION get_booking_price(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION calculate_price(uuid, uuid, text, numeric, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_booking_pricing(uuid, uuid, text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_class_pricing(uuid, uuid, numeric, numeric, jsonb) TO authenticated;
+GRANT SELECT ON pricing_rules TO authenticated;
@@ -0,0 +1,648 @@
+/*
+  # Promo Codes
+
+  1. New Tables
+    - `promo_codes`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references profiles)
+      - `code` (text) - Entered at checkout, stored in upper case
+      - `discount_type` (percent, amount) / `discount_value` (numeric)
+      - `scope` (all, class, retreats) - Every class of the teacher, one class, or retreats only
+      - `class_id` (uuid, references yoga_classes) - The class of a `class` code
+      - `max_uses` (integer) - Paid bookings the code can be used for, NULL for unlimited
+      - `max_uses_per_student` (integer) - NULL for unlimited
+      - `expires_at` (timestamp) - NULL for never
+      - `is_active` (boolean) - Inactive codes can no longer be applied
+
+  2. Table Changes
+    - `bookings.promo_code_id` - Code applied to the booking
+    - `bookings.promo_discount` - Discount the code gave, set when the payment is opened
+    - `payments.promo_code_id` / `payments.discount_amount` - Code and discount of the
+      payment, so revenue can be reported before and after discounts
+
+  3. Database Functions
+    - `calculate_price` takes the promo code, taken off after every other adjustment
+    - `check_promo_code` - Raises unless a code can be used for a booking
+    - `apply_promo_code` / `remove_promo_code` - Students add or drop a code before paying
+    - `set_booking_pricing` and `get_booking_price` price the booking with its code
+    - `create_payment_intent` checks the code again and records its discount
+
+  4. Security
+    - Teachers manage their own codes
+    - Students can only read the codes applied to their bookings
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,20}$'),
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  scope text NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'class', 'retreats')),
+  class_id uuid REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  max_uses integer CHECK (max_uses > 0),
+  max_uses_per_student integer CHECK (max_uses_per_student > 0),
+  expires_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type = 'amount' OR discount_value <= 100),
+  CHECK ((scope = 'class') = (class_id IS NOT NULL))
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are looked up by the teacher of the class being paid for
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_teacher_code
+ON promo_codes (teacher_id, code);
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Teachers can manage own promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (teacher_id = auth.uid())
+  WITH CHECK (
+    teacher_id = auth.uid() AND (
+      class_id IS NULL OR EXISTS (
+        SELECT 1 FROM yoga_classes
+        WHERE yoga_classes.id = promo_codes.class_id
+        AND yoga_classes.teacher_id = auth.uid()
+      )
+    )
+  );
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS promo_discount numeric(10,2) CHECK (promo_discount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code
+ON bookings (promo_code_id)
+WHERE promo_code_id IS NOT NULL;
+
+-- Defined after bookings.promo_code_id, which it reads
+CREATE POLICY "Students can view promo codes applied to their bookings"
+  ON promo_codes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.promo_code_id = promo_codes.id
+      AND bookings.student_id = auth.uid()
+    )
+  );
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- The promo code is a new parameter
+DROP FUNCTION IF EXISTS calculate_price(uuid, uuid, text, numeric, date);
+
+-- Same as before; the promo code comes off last, after the sliding-scale amount
+CREATE OR REPLACE FUNCTION calculate_price(
+  p_class_id uuid,
+  p_accommodation_id uuid DEFAULT NULL,
+  p_concession text DEFAULT NULL,
+  p_chosen_price numeric DEFAULT NULL,
+  p_promo_code_id uuid DEFAULT NULL,
+  p_on date DEFAULT CURRENT_DATE
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_base numeric(10,2);
+  v_price numeric(10,2);
+  v_adjustments jsonb := '[]'::jsonb;
+  v_discount record;
+BEGIN
+  SELECT
+    c.date,
+    COALESCE(a.price, c.price) AS price,
+    CASE WHEN a.id IS NULL THEN c.early_bird_price ELSE a.early_bird_price END AS early_bird_price,
+    c.early_bird_deadline,
+    c.sliding_scale_min,
+    c.sliding_scale_max
+  INTO v_class
+  FROM yoga_classes c
+  LEFT JOIN retreat_accommodations a ON a.id = p_accommodation_id AND a.retreat_id = c.id
+  WHERE c.id = p_class_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  v_base := v_class.price;
+  v_price := v_base;
+
+  SELECT kind, label, discount
+  INTO v_discount
+  FROM (
+    SELECT 'early_bird' AS kind, 'Early Bird' AS label, v_base - v_class.early_bird_price AS discount
+    WHERE v_class.early_bird_price IS NOT NULL
+      AND v_class.early_bird_deadline >= p_on
+    UNION ALL
+    SELECT
+      r.rule_type,
+      COALESCE(r.label, CASE r.rule_type WHEN 'early_bird' THEN 'Early Bird' ELSE 'Last Minute' END),
+      CASE r.discount_type
+        WHEN 'percent' THEN ROUND(v_base * r.discount_value / 100, 2)
+        ELSE LEAST(r.discount_value, v_base)
+      END
+    FROM pricing_rules r
+    WHERE r.class_id = p_class_id
+      AND (
+        (r.rule_type = 'early_bird' AND r.ends_on >= p_on) OR
+        (r.rule_type = 'last_minute' AND v_class.date - p_on BETWEEN 0 AND r.days_before)
+      )
+  ) windows
+  ORDER BY discount DESC
+  LIMIT 1;
+
+  IF FOUND AND v_discount.discount > 0 THEN
+    v_price := v_price - v_discount.discount;
+    v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+      'kind', v_discount.kind,
+      'label', v_discount.label,
+      'amount', -v_discount.discount
+    ));
+  END IF;
+
+  IF p_concession IS NOT NULL THEN
+    SELECT
+      'concession' AS kind,
+      COALESCE(label, initcap(concession)) AS label,
+      CASE discount_type
+        WHEN 'percent' THEN ROUND(v_price * discount_value / 100, 2)
+        ELSE LEAST(discount_value, v_price)
+      END AS discount
+    INTO v_discount
+    FROM pricing_rules
+    WHERE class_id = p_class_id
+      AND rule_type = 'concession'
+      AND concession = p_concession;
+
+    IF FOUND AND v_discount.discount > 0 THEN
+      v_price := v_price - v_discount.discount;
+      v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+        'kind', v_discount.kind,
+        'label', v_discount.label,
+        'amount', -v_discount.discount
+      ));
+    END IF;
+  END IF;
+
+  IF p_chosen_price IS NOT NULL AND v_class.sliding_scale_min IS NOT NULL THEN
+    IF p_chosen_price NOT BETWEEN v_class.sliding_scale_min AND v_class.sliding_scale_max THEN
+      RAISE EXCEPTION 'Choose a price between €% and €%', v_class.sliding_scale_min, v_class.sliding_scale_max;
+    END IF;
+
+    IF p_chosen_price != v_price THEN
+      v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+        'kind', 'sliding_scale',
+        'label', 'Pay What You Can',
+        'amount', p_chosen_price - v_price
+      ));
+      v_price := p_chosen_price;
+    END IF;
+  END IF;
+
+  IF p_promo_code_id IS NOT NULL THEN
+    SELECT
+      'promo_code' AS kind,
+      'Code ' || code AS label,
+      CASE discount_type
+        WHEN 'percent' THEN ROUND(v_price * discount_value / 100, 2)
+        ELSE LEAST(discount_value, v_price)
+      END AS discount
+    INTO v_discount
+    FROM promo_codes
+    WHERE id = p_promo_code_id;
+
+    IF FOUND AND v_discount.discount > 0 THEN
+      v_price := v_price - v_discount.discount;
+      v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object(
+        'kind', v_discount.kind,
+        'label', v_discount.label,
+        'amount', -v_discount.discount
+      ));
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'base_price', v_base,
+    'price', v_price,
+    'adjustments', v_adjustments,
+    'sliding_scale_min', v_class.sliding_scale_min,
+    'sliding_scale_max', v_class.sliding_scale_max
+  );
+END;
+$$;
+
+-- Raises unless the code can be used for the booking. Uses are paid bookings, not
+-- counting the booking itself.
+CREATE OR REPLACE FUNCTION check_promo_code(
+  p_promo_code_id uuid,
+  p_booking_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo record;
+  v_booking record;
+BEGIN
+  SELECT *
+  INTO v_promo
+  FROM promo_codes
+  WHERE id = p_promo_code_id;
+
+  SELECT b.student_id, b.class_id, c.teacher_id, COALESCE(c.is_retreat, false) AS is_retreat
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF v_promo.id IS NULL OR NOT v_promo.is_active OR v_promo.teacher_id != v_booking.teacher_id THEN
+    RAISE EXCEPTION 'Promo code not found';
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  IF (v_promo.scope = 'class' AND v_promo.class_id != v_booking.class_id)
+    OR (v_promo.scope = 'retreats' AND NOT v_booking.is_retreat) THEN
+    RAISE EXCEPTION 'This promo code does not apply to this class';
+  END IF;
+
+  IF v_promo.max_uses IS NOT NULL AND (
+    SELECT COUNT(*) FROM bookings
+    WHERE promo_code_id = p_promo_code_id
+      AND id != p_booking_id
+      AND status = 'confirmed'
+      AND payment_status IN ('completed', 'partially_paid')
+  ) >= v_promo.max_uses THEN
+    RAISE EXCEPTION 'This promo code has been fully redeemed';
+  END IF;
+
+  IF v_promo.max_uses_per_student IS NOT NULL AND (
+    SELECT COUNT(*) FROM bookings
+    WHERE promo_code_id = p_promo_code_id
+      AND id != p_booking_id
+      AND student_id = v_booking.student_id
+      AND status = 'confirmed'
+      AND payment_status IN ('completed', 'partially_paid')
+  ) >= v_promo.max_uses_per_student THEN
+    RAISE EXCEPTION 'You have already used this promo code';
+  END IF;
+END;
+$$;
+
+-- Today's price of a booking, with the concession, amount and code its student chose
+CREATE OR REPLACE FUNCTION get_booking_price(p_booking_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT class_id, accommodation_id, concession, chosen_price, promo_code_id
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN (calculate_price(
+    v_booking.class_id,
+    v_booking.accommodation_id,
+    v_booking.concession,
+    v_booking.chosen_price,
+    v_booking.promo_code_id
+  )->>'price')::numeric;
+END;
+$$;
+
+-- Same as before, keeping the booking's promo code in the price returned
+CREATE OR REPLACE FUNCTION set_booking_pricing(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_concession text,
+  p_chosen_price numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT b.class_id, b.accommodation_id, b.status, b.payment_status, b.promo_code_id, c.sliding_scale_min
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF p_concession IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pricing_rules
+    WHERE class_id = v_booking.class_id
+      AND concession = p_concession
+  ) THEN
+    RAISE EXCEPTION 'No % price is offered for this class', p_concession;
+  END IF;
+
+  IF p_chosen_price IS NOT NULL AND v_booking.sliding_scale_min IS NULL THEN
+    RAISE EXCEPTION 'This class has a fixed price';
+  END IF;
+
+  UPDATE bookings
+  SET
+    concession = p_concession,
+    chosen_price = p_chosen_price
+  WHERE id = p_booking_id;
+
+  -- Also checks the amount is within the sliding scale
+  RETURN calculate_price(
+    v_booking.class_id,
+    v_booking.accommodation_id,
+    p_concession,
+    p_chosen_price,
+    v_booking.promo_code_id
+  );
+END;
+$$;
+
+-- Students enter a code while the booking is unpaid. Codes are matched without regard
+-- to case against the codes of the class's teacher. Returns the code applied.
+CREATE OR REPLACE FUNCTION apply_promo_code(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_code text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_promo_code_id uuid;
+BEGIN
+  SELECT b.status, b.payment_status, c.teacher_id
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  SELECT id
+  INTO v_promo_code_id
+  FROM promo_codes
+  WHERE teacher_id = v_booking.teacher_id
+    AND code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code not found';
+  END IF;
+
+  PERFORM check_promo_code(v_promo_code_id, p_booking_id);
+
+  UPDATE bookings
+  SET promo_code_id = v_promo_code_id
+  WHERE id = p_booking_id;
+
+  RETURN v_promo_code_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_promo_code(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+BEGIN
+  SELECT status, payment_status
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  UPDATE bookings
+  SET
+    promo_code_id = NULL,
+    promo_discount = NULL
+  WHERE id = p_booking_id;
+END;
+$$;
+
+-- Same as before; the booking's code is checked again, and its discount recorded on
+-- the booking and the payment
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text,
+  p_plan text DEFAULT 'full'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_pricing jsonb;
+  v_amount numeric(10,2);
+  v_discount numeric(10,2) := 0;
+  v_promo_code_id uuid;
+  v_schedule_id uuid;
+  v_installment_number integer;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  IF p_plan NOT IN ('full', 'installments') THEN
+    RAISE EXCEPTION 'Unknown payment plan %', p_plan;
+  END IF;
+
+  SELECT
+    b.id,
+    b.class_id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    b.accommodation_id,
+    b.concession,
+    b.chosen_price,
+    b.promo_code_id
+  INTO v_booking
+  FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'partially_paid', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.payment_status = 'partially_paid' THEN
+    -- The schedule is fixed once the deposit is paid
+    SELECT id, installment_number, amount
+    INTO v_schedule_id, v_installment_number, v_amount
+    FROM payment_schedules
+    WHERE booking_id = p_booking_id
+      AND status != 'paid'
+    ORDER BY installment_number
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking is not awaiting payment';
+    END IF;
+  ELSE
+    IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+      RAISE EXCEPTION 'Booking hold has expired';
+    END IF;
+
+    -- Bookings promoted from the waitlist pick their accommodation before paying
+    IF v_booking.accommodation_id IS NULL AND EXISTS (
+      SELECT 1 FROM retreat_accommodations
+      WHERE retreat_id = v_booking.class_id
+    ) THEN
+      RAISE EXCEPTION 'Choose an accommodation option';
+    END IF;
+
+    IF v_booking.promo_code_id IS NOT NULL THEN
+      -- Payments using the same code wait for each other, so its limits hold
+      PERFORM 1 FROM promo_codes WHERE id = v_booking.promo_code_id FOR UPDATE;
+      PERFORM check_promo_code(v_booking.promo_code_id, p_booking_id);
+      v_promo_code_id := v_booking.promo_code_id;
+    END IF;
+
+    v_pricing := calculate_price(
+      v_booking.class_id,
+      v_booking.accommodation_id,
+      v_booking.concession,
+      v_booking.chosen_price,
+      v_promo_code_id
+    );
+    v_amount := (v_pricing->>'price')::numeric;
+
+    SELECT COALESCE(-SUM((adjustment->>'amount')::numeric), 0)
+    INTO v_discount
+    FROM jsonb_array_elements(v_pricing->'adjustments') adjustment
+    WHERE adjustment->>'kind' = 'promo_code';
+
+    UPDATE bookings
+    SET promo_discount = CASE WHEN v_promo_code_id IS NOT NULL THEN v_discount END
+    WHERE id = p_booking_id;
+
+    -- Nothing has been paid yet, so an earlier plan choice can be dropped
+    DELETE FROM payment_schedules
+    WHERE booking_id = p_booking_id;
+
+    IF p_plan = 'installments' THEN
+      INSERT INTO payment_schedules (booking_id, installment_number, amount, due_date)
+      SELECT p_booking_id, plan.installment_number, plan.amount, plan.due_date
+      FROM build_payment_schedule(v_booking.class_id, v_amount) AS plan;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Installments are not available for this booking';
+      END IF;
+
+      SELECT id, installment_number, amount
+      INTO v_schedule_id, v_installment_number, v_amount
+      FROM payment_schedules
+      WHERE booking_id = p_booking_id
+        AND installment_number = 0;
+    END IF;
+  END IF;
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status IN ('requires_confirmation', 'processing');
+
+  -- The discount is recorded on the first payment of the booking; installments
+  -- are already scheduled at the discounted price
+  INSERT INTO payments (booking_id, student_id, provider, amount, schedule_id, promo_code_id, discount_amount)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount, v_schedule_id, v_promo_code_id, v_discount)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'discount_amount', v_discount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation',
+    'installment_number', v_installment_number
+  );
+END;
+$$;
+
+-- Internal helpers are not callable by clients
+REVOKE EXECUTE ON FUNCTION check_promo_code(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION calculate_price(uuid, uuid, text, numeric, uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_promo_code(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_promo_code(uuid, uuid) TO authenticated;
+GRANT ALL ON promo_codes TO authenticated;
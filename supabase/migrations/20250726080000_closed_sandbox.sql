@@ -0,0 +1,17 @@
+/*
+  # Disable the Mock Payment Provider
+
+  1. Table Changes
+    - The `mock` payment provider is disabled. Local databases turn it back on in
+      `supabase/seed.sql`.
+
+  2. Security
+    - `confirm_mock_payment` is no longer callable by clients; the local seed grants
+      it to `authenticated` for development
+*/
+
+UPDATE payment_providers
+SET enabled = false
+WHERE id = 'mock';
+
+REVOKE EXECUTE ON FUNCTION confirm_mock_payment(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,283 @@
+/*
+  # Refunds for Bookings Without a Payment Record
+
+  1. Table Changes
+    - `refunds.status` allows `needs_review` - A refund is owed but there is no
+      payment to refund it against, so someone has to settle it by hand
+
+  2. Database Functions
+    - `calculate_refund` prices a paid booking without a payment on record at the
+      class price and flags it with `needs_review`. Bookings paid with a credit or
+      covered by a membership are not affected.
+    - `cancel_booking_with_count` records those refunds as `needs_review`
+*/
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_status_check
+CHECK (status IN ('pending', 'processed', 'failed', 'not_owed', 'needs_review'));
+
+-- Same as before, but a paid booking without a payment on record is flagged for
+-- manual review at the class price instead of owing nothing
+CREATE OR REPLACE FUNCTION calculate_refund(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_policy record;
+  v_payment_id uuid;
+  v_currency text := 'EUR';
+  v_hours_before numeric;
+  v_refund_percent numeric := 0;
+  v_amount_paid numeric(10,2) := 0;
+  v_needs_review boolean := false;
+BEGIN
+  SELECT
+    b.id,
+    b.payment_status,
+    b.pack_purchase_id,
+    b.membership_id,
+    b.booking_date,
+    c.teacher_id,
+    c.price,
+    c.date,
+    c.time,
+    c.cancellation_policy_id,
+    c.status AS class_status
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_hours_before := ROUND(
+    EXTRACT(EPOCH FROM ((v_booking.date || ' ' || v_booking.time)::timestamp - now()::timestamp)) / 3600,
+    2
+  );
+
+  -- Class policy first, then the teacher's default
+  SELECT id, name, tiers
+  INTO v_policy
+  FROM cancellation_policies
+  WHERE id = v_booking.cancellation_policy_id;
+
+  IF NOT FOUND THEN
+    SELECT id, name, tiers
+    INTO v_policy
+    FROM cancellation_policies
+    WHERE teacher_id = v_booking.teacher_id
+      AND is_default = true;
+  END IF;
+
+  -- Only payments that have not been refunded yet can be refunded; the refund is
+  -- recorded against the latest of them
+  IF v_booking.payment_status IN ('completed', 'partially_paid') THEN
+    SELECT
+      (array_agg(p.id ORDER BY p.confirmed_at DESC))[1],
+      COALESCE(SUM(p.amount), 0),
+      COALESCE(MIN(p.currency), 'EUR')
+    INTO v_payment_id, v_amount_paid, v_currency
+    FROM payments p
+    WHERE p.booking_id = p_booking_id
+      AND p.status = 'succeeded'
+      AND p.confirmed_at >= v_booking.booking_date
+      AND NOT EXISTS (
+        SELECT 1 FROM refunds r
+        WHERE r.payment_id = p.id
+      );
+  END IF;
+
+  -- A booking paid in money without any payment on record (e.g. paid before
+  -- payments were recorded) is priced at the class price and left for a person
+  -- to check instead of being treated as free
+  IF v_booking.payment_status IN ('completed', 'partially_paid')
+    AND v_booking.pack_purchase_id IS NULL
+    AND v_booking.membership_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM payments p
+      WHERE p.booking_id = p_booking_id
+        AND p.status = 'succeeded'
+        AND p.confirmed_at >= v_booking.booking_date
+    ) THEN
+    v_amount_paid := COALESCE(v_booking.price, 0);
+    v_needs_review := true;
+  END IF;
+
+  IF v_booking.class_status = 'cancelled' THEN
+    -- The teacher cancelled the class, so the policy doesn't apply
+    v_refund_percent := 100;
+  ELSIF v_policy.id IS NULL THEN
+    -- Without a policy the booking is fully refundable
+    v_refund_percent := 100;
+  ELSE
+    SELECT COALESCE((
+      SELECT (tier->>'refund_percent')::numeric
+      FROM jsonb_array_elements(v_policy.tiers) AS tier
+      WHERE (tier->>'hours_before')::numeric <= v_hours_before
+      ORDER BY (tier->>'hours_before')::numeric DESC
+      LIMIT 1
+    ), 0)
+    INTO v_refund_percent;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'payment_id', v_payment_id,
+    'policy_id', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.id END,
+    'policy_name', CASE WHEN v_booking.class_status = 'cancelled' THEN NULL ELSE v_policy.name END,
+    'tiers', CASE WHEN v_booking.class_status = 'cancelled' THEN '[]'::jsonb ELSE COALESCE(v_policy.tiers, '[]'::jsonb) END,
+    'hours_before_class', v_hours_before,
+    'amount_paid', v_amount_paid,
+    'refund_percent', v_refund_percent,
+    'refund_amount', ROUND(v_amount_paid * v_refund_percent / 100, 2),
+    'currency', v_currency,
+    'pack_purchase_id', v_booking.pack_purchase_id,
+    'needs_review', v_needs_review,
+    -- A credit can't be split, so it only comes back with a full refund
+    'credit_returned', v_booking.payment_status = 'completed'
+      AND v_booking.pack_purchase_id IS NOT NULL
+      AND v_refund_percent >= 100
+  );
+END;
+$$;
+
+-- Same as before, but refunds without a payment to refund wait for manual review
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_new_payment_status payment_status;
+  v_refund jsonb;
+  v_refund_amount numeric(10,2);
+  v_credit_returned boolean;
+  v_refund_id uuid;
+  v_provider text;
+  v_was_paid boolean;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at, pack_purchase_id
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  v_was_paid := v_booking.payment_status IN ('completed', 'partially_paid');
+
+  -- Paid bookings are refunded according to the cancellation policy
+  IF v_was_paid THEN
+    v_refund := calculate_refund(p_booking_id);
+    v_refund_amount := (v_refund->>'refund_amount')::numeric;
+    v_credit_returned := (v_refund->>'credit_returned')::boolean;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      policy_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      hours_before_class,
+      credit_returned,
+      status
+    )
+    VALUES (
+      p_booking_id,
+      (v_refund->>'payment_id')::uuid,
+      p_student_id,
+      v_booking.class_id,
+      (v_refund->>'policy_id')::uuid,
+      (v_refund->>'amount_paid')::numeric,
+      (v_refund->>'refund_percent')::numeric,
+      v_refund_amount,
+      v_refund->>'currency',
+      (v_refund->>'hours_before_class')::numeric,
+      v_credit_returned,
+      CASE
+        WHEN v_refund_amount > 0 AND (v_refund->>'needs_review')::boolean THEN 'needs_review'
+        WHEN v_refund_amount > 0 THEN 'pending'
+        ELSE 'not_owed'
+      END
+    )
+    RETURNING id INTO v_refund_id;
+
+    -- The local mock provider settles refunds immediately
+    SELECT provider INTO v_provider
+    FROM payments
+    WHERE id = (v_refund->>'payment_id')::uuid;
+
+    IF v_refund_amount > 0 AND v_provider = 'mock' THEN
+      UPDATE refunds
+      SET
+        status = 'processed',
+        provider_reference = 'mock_refund_' || v_refund_id,
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- Credits go straight back onto the purchase they came from
+    IF v_credit_returned THEN
+      UPDATE pack_purchases
+      SET credits_remaining = credits_remaining + 1
+      WHERE id = v_booking.pack_purchase_id;
+
+      UPDATE refunds
+      SET
+        status = 'processed',
+        processed_at = now()
+      WHERE id = v_refund_id;
+    END IF;
+
+    -- A forfeited payment or credit stays on the cancelled booking as it was
+    IF v_refund_amount > 0 OR v_credit_returned THEN
+      v_new_payment_status := 'refunded';
+    ELSE
+      v_new_payment_status := v_booking.payment_status;
+    END IF;
+  ELSE
+    v_new_payment_status := v_booking.payment_status;
+  END IF;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if the spot was paid for
+  IF v_was_paid THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_was_paid
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,246 @@
+/*
+  # Lock Down Booking Payments
+
+  1. Database Functions
+    - `create_booking_with_count` marks the pack purchase it spent a credit from for
+      the rest of the transaction
+    - `enforce_verified_payment` only accepts a pack purchase on a paid booking when it
+      is the student's own active purchase and a credit of it was just spent on the
+      booking. Any other pack purchase no longer stands in for a payment.
+
+  2. Security
+    - Students can no longer insert or update bookings directly; bookings are created,
+      paid and cancelled through the booking and payment functions only
+*/
+
+DROP POLICY IF EXISTS "Students can create own bookings" ON bookings;
+DROP POLICY IF EXISTS "Students can update own bookings" ON bookings;
+
+REVOKE INSERT, UPDATE ON bookings FROM anon, authenticated;
+
+-- Same as before, but the spent credit is marked for enforce_verified_payment
+CREATE OR REPLACE FUNCTION create_booking_with_count(
+  p_student_id uuid,
+  p_class_id uuid,
+  p_status booking_status DEFAULT 'confirmed',
+  p_payment_status payment_status DEFAULT 'pending',
+  p_use_credit boolean DEFAULT false,
+  p_accommodation_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_class_info record;
+  v_class_start timestamp;
+  v_hold_until timestamptz;
+  v_purchase_id uuid;
+  v_membership_id uuid;
+BEGIN
+  -- A lapsed hold of the student's own is released so they can book again
+  SELECT id INTO v_booking_id
+  FROM bookings
+  WHERE student_id = p_student_id
+    AND class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'pending'
+    AND hold_expires_at <= now();
+
+  IF FOUND THEN
+    PERFORM release_booking_hold(v_booking_id);
+    v_booking_id := NULL;
+  END IF;
+
+  -- Check if student already has a booking for this class
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Student already has a booking for this class';
+  END IF;
+
+  -- Get class information and lock the row
+  SELECT id, teacher_id, current_participants, max_participants, date, time, is_retreat
+  INTO v_class_info
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  -- Check if class exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Check if class is in the future
+  v_class_start := (v_class_info.date || ' ' || v_class_info.time)::timestamp;
+  IF v_class_start < now() THEN
+    RAISE EXCEPTION 'Cannot book past classes';
+  END IF;
+
+  -- Check capacity, counting spots held for unpaid bookings
+  IF v_class_info.current_participants + get_held_spot_count(p_class_id) >= v_class_info.max_participants THEN
+    RAISE EXCEPTION 'Class is full';
+  END IF;
+
+  -- Retreats with accommodation options are booked into one of them
+  IF p_accommodation_id IS NOT NULL THEN
+    PERFORM reserve_accommodation(p_class_id, p_accommodation_id);
+  ELSIF EXISTS (
+    SELECT 1 FROM retreat_accommodations
+    WHERE retreat_id = p_class_id
+  ) THEN
+    RAISE EXCEPTION 'Choose an accommodation option';
+  END IF;
+
+  IF p_use_credit THEN
+    IF v_class_info.is_retreat THEN
+      RAISE EXCEPTION 'Class credits cannot be used for retreats';
+    END IF;
+
+    -- Spend the credit that expires first
+    SELECT id
+    INTO v_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND expires_at > now()
+    ORDER BY expires_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No class credits available';
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_purchase_id;
+
+    -- Tells enforce_verified_payment the credit was spent on this booking
+    PERFORM set_config('app.spent_pack_purchase_id', v_purchase_id::text, true);
+
+    INSERT INTO bookings (student_id, class_id, status, payment_status, pack_purchase_id)
+    VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_purchase_id)
+    RETURNING id INTO v_booking_id;
+
+    PERFORM set_config('app.spent_pack_purchase_id', '', true);
+
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+    RETURN v_booking_id;
+  END IF;
+
+  IF p_status = 'confirmed' AND p_payment_status = 'pending' THEN
+    -- Serialize the student's bookings so a limited plan can't be overspent
+    PERFORM 1
+    FROM memberships
+    WHERE student_id = p_student_id
+      AND teacher_id = v_class_info.teacher_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    v_membership_id := get_covering_membership(p_student_id, p_class_id);
+
+    IF v_membership_id IS NOT NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, membership_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'completed', v_membership_id)
+      RETURNING id INTO v_booking_id;
+
+      PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+
+      RETURN v_booking_id;
+    END IF;
+
+    -- The hold never runs past the start of the class
+    v_hold_until := LEAST(now() + interval '15 minutes', v_class_start);
+
+    -- Reuse a previously cancelled or released booking row (bookings are unique per student and class)
+    UPDATE bookings
+    SET
+      status = 'confirmed',
+      payment_status = 'pending',
+      pack_purchase_id = NULL,
+      membership_id = NULL,
+      accommodation_id = p_accommodation_id,
+      booking_date = now(),
+      hold_expires_at = v_hold_until,
+      updated_at = now()
+    WHERE student_id = p_student_id
+      AND class_id = p_class_id
+      AND status = 'cancelled'
+    RETURNING id INTO v_booking_id;
+
+    IF v_booking_id IS NULL THEN
+      INSERT INTO bookings (student_id, class_id, status, payment_status, hold_expires_at, accommodation_id)
+      VALUES (p_student_id, p_class_id, 'confirmed', 'pending', v_hold_until, p_accommodation_id)
+      RETURNING id INTO v_booking_id;
+    END IF;
+
+    RETURN v_booking_id;
+  END IF;
+
+  -- Create the booking
+  INSERT INTO bookings (student_id, class_id, status, payment_status, accommodation_id)
+  VALUES (p_student_id, p_class_id, p_status, p_payment_status, p_accommodation_id)
+  RETURNING id INTO v_booking_id;
+
+  -- Increment participant count only if payment is completed
+  IF p_payment_status = 'completed' THEN
+    PERFORM increment_participant_count(p_class_id, p_student_id, v_booking_id);
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- A booking is only paid, in part or in full, once a provider has confirmed a payment,
+-- a credit of the student's was spent on it or a membership covers it
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status IN ('completed', 'partially_paid')
+    AND (TG_OP = 'INSERT' OR OLD.payment_status NOT IN ('completed', 'partially_paid')) THEN
+    IF NEW.pack_purchase_id IS NOT NULL THEN
+      IF current_setting('app.spent_pack_purchase_id', true) IS DISTINCT FROM NEW.pack_purchase_id::text
+        OR NOT EXISTS (
+          SELECT 1 FROM pack_purchases
+          WHERE id = NEW.pack_purchase_id
+            AND student_id = NEW.student_id
+            AND status = 'active'
+        ) THEN
+        RAISE EXCEPTION 'No class credit was spent on this booking';
+      END IF;
+    ELSIF NEW.membership_id IS NULL THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM payments
+        WHERE booking_id = NEW.id
+          AND status = 'succeeded'
+          AND confirmed_at >= NEW.booking_date
+      ) THEN
+        RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.payment_status = 'partially_paid'
+    AND NEW.payment_status = 'completed'
+    AND EXISTS (
+      SELECT 1 FROM payment_schedules
+      WHERE booking_id = NEW.id
+        AND status != 'paid'
+    ) THEN
+    RAISE EXCEPTION 'Booking has installments left to pay';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
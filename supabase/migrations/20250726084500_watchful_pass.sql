@@ -0,0 +1,82 @@
+/*
+  # Membership Checks and Period Job
+
+  1. Database Functions
+    - `enforce_verified_payment` only accepts a membership on a paid booking when it is
+      the student's own active membership with the class's teacher and its current
+      period includes the class
+
+  2. Scheduled Jobs
+    - `advance_membership_periods` runs every hour through pg_cron
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Same as before, but a membership only covers bookings of its own student with
+-- its teacher
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status IN ('completed', 'partially_paid')
+    AND (TG_OP = 'INSERT' OR OLD.payment_status NOT IN ('completed', 'partially_paid')) THEN
+    IF NEW.pack_purchase_id IS NOT NULL THEN
+      IF current_setting('app.spent_pack_purchase_id', true) IS DISTINCT FROM NEW.pack_purchase_id::text
+        OR NOT EXISTS (
+          SELECT 1 FROM pack_purchases
+          WHERE id = NEW.pack_purchase_id
+            AND student_id = NEW.student_id
+            AND status = 'active'
+        ) THEN
+        RAISE EXCEPTION 'No class credit was spent on this booking';
+      END IF;
+    ELSIF NEW.membership_id IS NOT NULL THEN
+      -- Only the student's own active membership with the teacher, in the period
+      -- of the class, covers the booking
+      IF NOT EXISTS (
+        SELECT 1
+        FROM memberships m
+        JOIN yoga_classes c ON c.id = NEW.class_id
+        WHERE m.id = NEW.membership_id
+          AND m.student_id = NEW.student_id
+          AND m.teacher_id = c.teacher_id
+          AND m.status = 'active'
+          AND (c.date || ' ' || c.time)::timestamp >= m.current_period_start
+          AND (c.date || ' ' || c.time)::timestamp < m.current_period_end
+      ) THEN
+        RAISE EXCEPTION 'Membership does not cover this booking';
+      END IF;
+    ELSE
+      IF NOT EXISTS (
+        SELECT 1 FROM payments
+        WHERE booking_id = NEW.id
+          AND status = 'succeeded'
+          AND confirmed_at >= NEW.booking_date
+      ) THEN
+        RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.payment_status = 'partially_paid'
+    AND NEW.payment_status = 'completed'
+    AND EXISTS (
+      SELECT 1 FROM payment_schedules
+      WHERE booking_id = NEW.id
+        AND status != 'paid'
+    ) THEN
+    RAISE EXCEPTION 'Booking has installments left to pay';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Close finished membership periods every hour
+SELECT cron.schedule(
+  'advance-membership-periods',
+  '0 * * * *',
+  $$SELECT advance_membership_periods()$$
+);
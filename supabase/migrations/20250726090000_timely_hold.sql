@@ -0,0 +1,15 @@
+/*
+  # Release Expired Holds
+
+  1. Scheduled Jobs
+    - `release_expired_holds` runs every minute through pg_cron, so a spot held for
+      an unpaid booking is given back soon after its 15 minutes run out
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'release-expired-holds',
+  '* * * * *',
+  $$SELECT release_expired_holds()$$
+);
@@ -0,0 +1,66 @@
+/*
+  # Receipts for Pack and Membership Payments
+
+  1. Database Functions
+    - `notify_payment_received` names the class pack or membership plan a payment was
+      for. Only class payments are tied to a class and booking.
+*/
+
+-- Same as before, but pack and membership payments name what was bought
+CREATE OR REPLACE FUNCTION notify_payment_received()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_id uuid;
+  v_subject text;
+BEGIN
+  IF NEW.status != 'succeeded' OR OLD.status = 'succeeded' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.pack_purchase_id IS NOT NULL THEN
+    SELECT 'the ' || cp.name || ' class pack'
+    INTO v_subject
+    FROM pack_purchases pp
+    JOIN class_packs cp ON cp.id = pp.pack_id
+    WHERE pp.id = NEW.pack_purchase_id;
+  ELSIF NEW.membership_id IS NOT NULL THEN
+    SELECT 'your ' || mp.name || ' membership'
+    INTO v_subject
+    FROM memberships m
+    JOIN membership_plans mp ON mp.id = m.plan_id
+    WHERE m.id = NEW.membership_id;
+  ELSE
+    SELECT b.class_id, c.title
+    INTO v_class_id, v_subject
+    FROM bookings b
+    JOIN yoga_classes c ON c.id = b.class_id
+    WHERE b.id = NEW.booking_id;
+  END IF;
+
+  PERFORM create_notification(
+    NEW.student_id,
+    'payment_received',
+    'Payment received',
+    CASE
+      WHEN v_subject IS NULL THEN format(
+        'We received %s %s.',
+        NEW.currency,
+        to_char(NEW.amount, 'FM999999990.00')
+      )
+      ELSE format(
+        'We received %s %s for %s.',
+        NEW.currency,
+        to_char(NEW.amount, 'FM999999990.00'),
+        v_subject
+      )
+    END,
+    v_class_id,
+    NEW.booking_id
+  );
+
+  RETURN NEW;
+END;
+$$;
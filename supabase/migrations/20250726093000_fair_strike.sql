@@ -0,0 +1,181 @@
+/*
+  # Attendance and Penalty Fixes
+
+  1. Database Functions
+    - `record_no_show_strike` rejects attendance changes made by the student of the
+      booking, so a student can't clear their own no-show and its strike
+    - `apply_penalty_policy` no longer records a credit forfeit, and so no longer
+      resets the strikes, when the student has no credit to forfeit
+
+  2. Security
+    - Attendance is only written by the teacher through `check_in_booking`,
+      `mark_attendance` and `mark_remaining_no_shows`; clients can't update bookings
+      directly
+*/
+
+-- Same as before, but a credit forfeit without a credit to take is skipped
+CREATE OR REPLACE FUNCTION apply_penalty_policy(
+  p_student_id uuid,
+  p_teacher_id uuid,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_policy record;
+  v_limit integer;
+  v_last_penalty_at timestamptz;
+  v_strike_count integer;
+  v_banned_until timestamptz;
+  v_pack_purchase_id uuid;
+  v_teacher_name text;
+BEGIN
+  SELECT * INTO v_policy
+  FROM penalty_policies
+  WHERE teacher_id = p_teacher_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_limit := CASE WHEN p_reason = 'no_show' THEN v_policy.no_show_limit ELSE v_policy.late_cancel_limit END;
+
+  IF v_limit IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT MAX(created_at) INTO v_last_penalty_at
+  FROM student_penalties
+  WHERE student_id = p_student_id
+    AND teacher_id = p_teacher_id
+    AND reason = p_reason;
+
+  SELECT COUNT(*) INTO v_strike_count
+  FROM student_strikes
+  WHERE student_id = p_student_id
+    AND teacher_id = p_teacher_id
+    AND kind = p_reason
+    AND created_at > now() - make_interval(days => v_policy.window_days)
+    AND created_at > COALESCE(v_last_penalty_at, '-infinity'::timestamptz);
+
+  IF v_strike_count < v_limit THEN
+    RETURN;
+  END IF;
+
+  SELECT full_name INTO v_teacher_name
+  FROM profiles
+  WHERE id = p_teacher_id;
+
+  IF v_policy.penalty = 'booking_ban' THEN
+    v_banned_until := now() + make_interval(days => v_policy.ban_days);
+
+    INSERT INTO student_penalties (student_id, teacher_id, penalty, reason, banned_until)
+    VALUES (p_student_id, p_teacher_id, 'booking_ban', p_reason, v_banned_until);
+
+    -- A banned student can't be promoted into one of the teacher's classes
+    UPDATE waitlist_entries
+    SET
+      status = 'cancelled',
+      updated_at = now()
+    WHERE student_id = p_student_id
+      AND status = 'waiting'
+      AND class_id IN (
+        SELECT id FROM yoga_classes
+        WHERE teacher_id = p_teacher_id
+      );
+
+    PERFORM create_notification(
+      p_student_id,
+      'penalty_applied',
+      'Booking paused',
+      format(
+        'After %s %s you can''t book classes with %s until %s.',
+        v_strike_count,
+        CASE WHEN p_reason = 'no_show' THEN 'no-shows' ELSE 'late cancellations' END,
+        COALESCE(v_teacher_name, 'this teacher'),
+        to_char(v_banned_until, 'Dy DD Mon')
+      )
+    );
+  ELSE
+    -- The credit that expires first is forfeited
+    SELECT id INTO v_pack_purchase_id
+    FROM pack_purchases
+    WHERE student_id = p_student_id
+      AND teacher_id = p_teacher_id
+      AND status = 'active'
+      AND credits_remaining > 0
+      AND (expires_at IS NULL OR expires_at > now())
+    ORDER BY expires_at ASC NULLS LAST
+    LIMIT 1
+    FOR UPDATE;
+
+    -- Without a credit to take nothing is recorded, so the strikes keep counting
+    -- towards the next penalty
+    IF v_pack_purchase_id IS NULL THEN
+      RETURN;
+    END IF;
+
+    UPDATE pack_purchases
+    SET credits_remaining = credits_remaining - 1
+    WHERE id = v_pack_purchase_id;
+
+    INSERT INTO student_penalties (student_id, teacher_id, penalty, reason, pack_purchase_id)
+    VALUES (p_student_id, p_teacher_id, 'credit_forfeit', p_reason, v_pack_purchase_id);
+
+    PERFORM create_notification(
+      p_student_id,
+      'penalty_applied',
+      'Class credit forfeited',
+      format(
+        'After %s %s one of your class credits with %s was forfeited.',
+        v_strike_count,
+        CASE WHEN p_reason = 'no_show' THEN 'no-shows' ELSE 'late cancellations' END,
+        COALESCE(v_teacher_name, 'this teacher')
+      )
+    );
+  END IF;
+END;
+$$;
+
+-- Same as before, but students can't change their own attendance
+CREATE OR REPLACE FUNCTION record_no_show_strike()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF NEW.attendance IS NOT DISTINCT FROM OLD.attendance THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only the teacher takes attendance; a student can't clear their own no-show
+  IF auth.uid() = NEW.student_id THEN
+    RAISE EXCEPTION 'Only the teacher can change attendance';
+  END IF;
+
+  IF OLD.attendance = 'no_show' THEN
+    DELETE FROM student_strikes
+    WHERE booking_id = NEW.id
+      AND kind = 'no_show';
+  END IF;
+
+  IF NEW.attendance = 'no_show' THEN
+    SELECT teacher_id INTO v_teacher_id
+    FROM yoga_classes
+    WHERE id = NEW.class_id;
+
+    INSERT INTO student_strikes (student_id, teacher_id, class_id, booking_id, kind)
+    VALUES (NEW.student_id, v_teacher_id, NEW.class_id, NEW.id, 'no_show')
+    ON CONFLICT (booking_id, kind) DO NOTHING;
+
+    PERFORM apply_penalty_policy(NEW.student_id, v_teacher_id, 'no_show');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,147 @@
+/*
+  # Review Flag Moderation
+
+  1. Table Changes
+    - `reviews.status` allows `removed` - A moderator upheld the flag
+    - `reviews.flag_resolved_at` (timestamp) - When a moderator looked at the flag
+
+  2. Views
+    - `teacher_rating_summaries` and `class_type_rating_summaries` count flagged
+      reviews until a moderator removes them
+
+  3. Database Functions
+    - `flag_review` only marks a review for moderation; it stays public and counted
+    - `unflag_review` - Lets the teacher withdraw their flag
+    - `resolve_review_flag` - A moderator removes a flagged review or publishes it again
+
+  4. Security
+    - Flagged reviews are public like published ones; removed reviews are only visible
+      to the student and teacher
+    - `resolve_review_flag` is only callable by the service role
+*/
+
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_status_check;
+ALTER TABLE reviews ADD CONSTRAINT reviews_status_check
+CHECK (status IN ('published', 'flagged', 'removed'));
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS flag_resolved_at timestamptz;
+
+DROP POLICY IF EXISTS "Anyone can view published reviews" ON reviews;
+CREATE POLICY "Anyone can view published reviews"
+  ON reviews
+  FOR SELECT
+  TO anon, authenticated
+  USING (status IN ('published', 'flagged'));
+
+-- A flag alone doesn't change the ratings; only removed reviews are left out
+CREATE OR REPLACE VIEW teacher_rating_summaries AS
+SELECT
+  teacher_id,
+  ROUND(AVG(rating)::numeric, 1) AS average_rating,
+  COUNT(*)::integer AS review_count
+FROM reviews
+WHERE status IN ('published', 'flagged')
+GROUP BY teacher_id;
+
+CREATE OR REPLACE VIEW class_type_rating_summaries AS
+SELECT
+  teacher_id,
+  class_type,
+  ROUND(AVG(rating)::numeric, 1) AS average_rating,
+  COUNT(*)::integer AS review_count
+FROM reviews
+WHERE status IN ('published', 'flagged')
+GROUP BY teacher_id, class_type;
+
+-- Same as before, but the review stays up until a moderator resolves the flag
+CREATE OR REPLACE FUNCTION flag_review(
+  p_review_id uuid,
+  p_teacher_id uuid,
+  p_reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please give a reason for flagging this review';
+  END IF;
+
+  UPDATE reviews
+  SET
+    status = 'flagged',
+    flag_reason = trim(p_reason),
+    flagged_at = now(),
+    flag_resolved_at = NULL,
+    updated_at = now()
+  WHERE id = p_review_id
+    AND teacher_id = p_teacher_id
+    AND status = 'published';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found or already flagged';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- The teacher can take their flag back while it is still open
+CREATE OR REPLACE FUNCTION unflag_review(
+  p_review_id uuid,
+  p_teacher_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE reviews
+  SET
+    status = 'published',
+    flag_reason = NULL,
+    flagged_at = NULL,
+    updated_at = now()
+  WHERE id = p_review_id
+    AND teacher_id = p_teacher_id
+    AND status = 'flagged';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found or not flagged';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Moderators either uphold the flag and remove the review, or publish it again
+CREATE OR REPLACE FUNCTION resolve_review_flag(
+  p_review_id uuid,
+  p_remove boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE reviews
+  SET
+    status = CASE WHEN p_remove THEN 'removed' ELSE 'published' END,
+    flag_resolved_at = now(),
+    updated_at = now()
+  WHERE id = p_review_id
+    AND status = 'flagged';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found or not flagged';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_review_flag(uuid, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_review_flag(uuid, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION unflag_review(uuid, uuid) TO authenticated;
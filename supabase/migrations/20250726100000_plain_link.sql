@@ -0,0 +1,45 @@
+/*
+  # Social Link Checks
+
+  1. Table Changes
+    - `profiles.social_links` only holds `instagram`, `website`, `youtube` or
+      `facebook` links starting with http:// or https://. Existing links that don't
+      are dropped.
+*/
+
+-- Social links must map known platforms to plain http(s) URLs
+CREATE OR REPLACE FUNCTION is_valid_social_links(p_links jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_links) != 'object' THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_links) AS link
+      WHERE link.key NOT IN ('instagram', 'website', 'youtube', 'facebook')
+        OR jsonb_typeof(link.value) != 'string'
+        OR link.value #>> '{}' !~* '^https?://[^[:space:]]+$'
+    )
+  END;
+$$;
+
+UPDATE profiles
+SET social_links = COALESCE((
+  SELECT jsonb_object_agg(link.key, link.value)
+  FROM jsonb_each(profiles.social_links) AS link
+  WHERE is_valid_social_links(jsonb_build_object(link.key, link.value))
+), '{}'::jsonb)
+WHERE NOT is_valid_social_links(social_links);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'profiles_social_links_check'
+  ) THEN
+    ALTER TABLE profiles ADD CONSTRAINT profiles_social_links_check
+    CHECK (is_valid_social_links(social_links));
+  END IF;
+END $$;
@@ -0,0 +1,70 @@
+/*
+  # Venue Ownership Checks
+
+  1. Database Functions
+    - `check_venue_booking` only lets a class use a venue owned by its teacher that
+      hasn't been archived. Classes already in a venue that is archived later keep it.
+*/
+
+-- Same as before, but the venue must be the teacher's own and active
+CREATE OR REPLACE FUNCTION check_venue_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_venue record;
+  v_starts_at timestamp;
+  v_ends_at timestamp;
+  v_conflict record;
+BEGIN
+  IF NEW.venue_id IS NULL OR NEW.status != 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, capacity, owner_id, is_active INTO v_venue
+  FROM venues
+  WHERE id = NEW.venue_id;
+
+  -- Teachers can only hold classes in their own venues, and not in archived ones
+  IF TG_OP = 'INSERT' OR NEW.venue_id IS DISTINCT FROM OLD.venue_id THEN
+    IF v_venue.owner_id != NEW.teacher_id THEN
+      RAISE EXCEPTION 'You can only use your own venues';
+    END IF;
+
+    IF NOT v_venue.is_active THEN
+      RAISE EXCEPTION '% has been archived', v_venue.name;
+    END IF;
+  END IF;
+
+  IF NEW.max_participants > v_venue.capacity THEN
+    RAISE EXCEPTION 'Max participants (%) exceeds the room capacity of % at %',
+      NEW.max_participants, v_venue.capacity, v_venue.name;
+  END IF;
+
+  -- Serialize bookings of the same room so concurrent inserts can't both pass
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.venue_id::text));
+
+  v_starts_at := NEW.date + NEW.time;
+  v_ends_at := v_starts_at + make_interval(mins => NEW.duration);
+
+  SELECT title, date, time INTO v_conflict
+  FROM yoga_classes
+  WHERE venue_id = NEW.venue_id
+    AND id != NEW.id
+    AND status = 'scheduled'
+    -- Classes can run past midnight, so look at the neighbouring days too
+    AND date BETWEEN NEW.date - 1 AND NEW.date + 1
+    AND date + time < v_ends_at
+    AND v_starts_at < date + time + make_interval(mins => duration)
+  ORDER BY date, time
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is already booked for "%" on % at %',
+      v_venue.name, v_conflict.title, v_conflict.date, to_char(v_conflict.time, 'HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
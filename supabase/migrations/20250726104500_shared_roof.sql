@@ -0,0 +1,135 @@
+/*
+  # Create Retreats with Their Accommodation Options
+
+  1. Database Functions
+    - `create_retreat` takes the accommodation options too, so a retreat is never
+      left on sale without the options it was created with
+
+  2. Security
+    - Clients can't write `bookings.accommodation_id` or `bookings.room_assignment`;
+      they only change through `create_booking_with_count`,
+      `choose_booking_accommodation` and `assign_retreat_room`
+*/
+
+REVOKE UPDATE (accommodation_id, room_assignment) ON bookings FROM anon, authenticated;
+
+-- The accommodations join the arguments, so the old signature goes
+DROP FUNCTION IF EXISTS create_retreat(uuid, jsonb, jsonb);
+
+-- Same as before, but the accommodation options are created in the same transaction
+CREATE OR REPLACE FUNCTION create_retreat(
+  p_teacher_id uuid,
+  p_retreat jsonb,
+  p_itinerary jsonb DEFAULT '[]'::jsonb,
+  p_accommodations jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_fields yoga_classes%ROWTYPE;
+  v_retreat_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_teacher_id
+      AND role = 'teacher'
+  ) THEN
+    RAISE EXCEPTION 'Only teachers can create retreats';
+  END IF;
+
+  v_fields := jsonb_populate_record(NULL::yoga_classes, p_retreat);
+
+  INSERT INTO yoga_classes (
+    title,
+    description,
+    teacher_id,
+    type,
+    date,
+    retreat_end_date,
+    time,
+    duration,
+    level,
+    is_retreat,
+    is_virtual,
+    location,
+    latitude,
+    longitude,
+    retreat_image_url,
+    retreat_highlights,
+    retreat_capacity,
+    max_participants,
+    current_participants,
+    price,
+    early_bird_price,
+    early_bird_deadline,
+    deposit_percent,
+    installment_count,
+    balance_due_days
+  )
+  VALUES (
+    v_fields.title,
+    COALESCE(v_fields.description, ''),
+    p_teacher_id,
+    v_fields.type,
+    v_fields.date,
+    v_fields.retreat_end_date,
+    v_fields.time,
+    v_fields.duration,
+    v_fields.level,
+    true,
+    COALESCE(v_fields.is_virtual, false),
+    v_fields.location,
+    v_fields.latitude,
+    v_fields.longitude,
+    v_fields.retreat_image_url,
+    v_fields.retreat_highlights,
+    v_fields.retreat_capacity,
+    v_fields.max_participants,
+    0,
+    v_fields.price,
+    v_fields.early_bird_price,
+    v_fields.early_bird_deadline,
+    v_fields.deposit_percent,
+    COALESCE(v_fields.installment_count, 1),
+    COALESCE(v_fields.balance_due_days, 30)
+  )
+  RETURNING id INTO v_retreat_id;
+
+  -- Options keep the order they were given in
+  INSERT INTO retreat_accommodations (
+    retreat_id,
+    name,
+    description,
+    price,
+    early_bird_price,
+    capacity,
+    sort_order
+  )
+  SELECT
+    v_retreat_id,
+    a.name,
+    a.description,
+    a.price,
+    a.early_bird_price,
+    a.capacity,
+    a.ordinality - 1
+  FROM jsonb_to_recordset(COALESCE(p_accommodations, '[]'::jsonb)) WITH ORDINALITY AS a(
+    name text,
+    description text,
+    price numeric,
+    early_bird_price numeric,
+    capacity integer,
+    ordinality bigint
+  );
+
+  IF jsonb_array_length(COALESCE(p_itinerary, '[]'::jsonb)) > 0 THEN
+    PERFORM save_retreat_itinerary(v_retreat_id, p_teacher_id, p_itinerary);
+  END IF;
+
+  RETURN v_retreat_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_retreat(uuid, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,95 @@
+/*
+  # Installment Checks and Schedule Job
+
+  1. Database Functions
+    - `enforce_verified_payment` only completes a booking with an installment plan once
+      every installment is paid, whatever status it comes from, and stops a confirmed
+      booking from dropping out of a paid status
+
+  2. Scheduled Jobs
+    - `process_payment_schedules` runs every hour through pg_cron
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Same as before, but installments are checked on every way to completed and paid
+-- bookings can't be downgraded
+CREATE OR REPLACE FUNCTION enforce_verified_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.payment_status IN ('completed', 'partially_paid')
+    AND (TG_OP = 'INSERT' OR OLD.payment_status NOT IN ('completed', 'partially_paid')) THEN
+    IF NEW.pack_purchase_id IS NOT NULL THEN
+      IF current_setting('app.spent_pack_purchase_id', true) IS DISTINCT FROM NEW.pack_purchase_id::text
+        OR NOT EXISTS (
+          SELECT 1 FROM pack_purchases
+          WHERE id = NEW.pack_purchase_id
+            AND student_id = NEW.student_id
+            AND status = 'active'
+        ) THEN
+        RAISE EXCEPTION 'No class credit was spent on this booking';
+      END IF;
+    ELSIF NEW.membership_id IS NOT NULL THEN
+      -- Only the student's own active membership with the teacher, in the period
+      -- of the class, covers the booking
+      IF NOT EXISTS (
+        SELECT 1
+        FROM memberships m
+        JOIN yoga_classes c ON c.id = NEW.class_id
+        WHERE m.id = NEW.membership_id
+          AND m.student_id = NEW.student_id
+          AND m.teacher_id = c.teacher_id
+          AND m.status = 'active'
+          AND (c.date || ' ' || c.time)::timestamp >= m.current_period_start
+          AND (c.date || ' ' || c.time)::timestamp < m.current_period_end
+      ) THEN
+        RAISE EXCEPTION 'Membership does not cover this booking';
+      END IF;
+    ELSE
+      IF NOT EXISTS (
+        SELECT 1 FROM payments
+        WHERE booking_id = NEW.id
+          AND status = 'succeeded'
+          AND confirmed_at >= NEW.booking_date
+      ) THEN
+        RAISE EXCEPTION 'Payment has not been confirmed by a payment provider';
+      END IF;
+    END IF;
+  END IF;
+
+  -- A booking with an installment plan is only paid in full once every installment is
+  IF NEW.payment_status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.payment_status != 'completed')
+    AND EXISTS (
+      SELECT 1 FROM payment_schedules
+      WHERE booking_id = NEW.id
+        AND status != 'paid'
+    ) THEN
+    RAISE EXCEPTION 'Booking has installments left to pay';
+  END IF;
+
+  -- A paid booking only gives up its payment when it is cancelled; going back to
+  -- unpaid would let it be paid, and counted, a second time. A cancelled booking row
+  -- that is booked again starts over.
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'confirmed'
+    AND NEW.status = 'confirmed'
+    AND (
+      (OLD.payment_status = 'completed' AND NEW.payment_status != 'completed')
+      OR (OLD.payment_status = 'partially_paid' AND NEW.payment_status NOT IN ('partially_paid', 'completed'))
+    ) THEN
+    RAISE EXCEPTION 'A paid booking cannot go back to %', NEW.payment_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Flag overdue installments and release unpaid balances every hour
+SELECT cron.schedule(
+  'process-payment-schedules',
+  '30 * * * *',
+  $$SELECT process_payment_schedules()$$
+);
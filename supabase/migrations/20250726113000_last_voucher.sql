@@ -0,0 +1,244 @@
+/*
+  # Promo Code Limits at Payment
+
+  1. Database Functions
+    - New `check_promo_code_limits` holds the usage limit checks of `check_promo_code`.
+    - `record_payment_result` checks the limits again, with the code locked, before a
+      successful payment settles its booking. A payment over the limit is recorded as
+      failed, the same way as one for a class that filled up.
+
+  2. Security
+    - `check_promo_code_limits` is internal and not callable by clients.
+*/
+
+-- Raises once the code has been used as often as allowed. Uses are paid bookings, not
+-- counting the booking itself.
+CREATE OR REPLACE FUNCTION check_promo_code_limits(
+  p_promo_code_id uuid,
+  p_booking_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_limits record;
+BEGIN
+  SELECT p.max_uses, p.max_uses_per_student, b.student_id
+  INTO v_limits
+  FROM promo_codes p
+  CROSS JOIN bookings b
+  WHERE p.id = p_promo_code_id
+    AND b.id = p_booking_id;
+
+  IF v_limits.max_uses IS NOT NULL AND (
+    SELECT COUNT(*) FROM bookings
+    WHERE promo_code_id = p_promo_code_id
+      AND id != p_booking_id
+      AND status = 'confirmed'
+      AND payment_status IN ('completed', 'partially_paid')
+  ) >= v_limits.max_uses THEN
+    RAISE EXCEPTION 'This promo code has been fully redeemed';
+  END IF;
+
+  IF v_limits.max_uses_per_student IS NOT NULL AND (
+    SELECT COUNT(*) FROM bookings
+    WHERE promo_code_id = p_promo_code_id
+      AND id != p_booking_id
+      AND student_id = v_limits.student_id
+      AND status = 'confirmed'
+      AND payment_status IN ('completed', 'partially_paid')
+  ) >= v_limits.max_uses_per_student THEN
+    RAISE EXCEPTION 'You have already used this promo code';
+  END IF;
+END;
+$$;
+
+-- Same as before, with the usage limits checked by check_promo_code_limits
+CREATE OR REPLACE FUNCTION check_promo_code(
+  p_promo_code_id uuid,
+  p_booking_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo record;
+  v_booking record;
+BEGIN
+  SELECT *
+  INTO v_promo
+  FROM promo_codes
+  WHERE id = p_promo_code_id;
+
+  SELECT b.student_id, b.class_id, c.teacher_id, COALESCE(c.is_retreat, false) AS is_retreat
+  INTO v_booking
+  FROM bookings b
+  JOIN yoga_classes c ON c.id = b.class_id
+  WHERE b.id = p_booking_id;
+
+  IF v_promo.id IS NULL OR NOT v_promo.is_active OR v_promo.teacher_id != v_booking.teacher_id THEN
+    RAISE EXCEPTION 'Promo code not found';
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  IF (v_promo.scope = 'class' AND v_promo.class_id != v_booking.class_id)
+    OR (v_promo.scope = 'retreats' AND NOT v_booking.is_retreat) THEN
+    RAISE EXCEPTION 'This promo code does not apply to this class';
+  END IF;
+
+  PERFORM check_promo_code_limits(p_promo_code_id, p_booking_id);
+END;
+$$;
+
+-- Same as before, but a booking paid with a promo code checks the code's usage limits
+-- again, now that no other payment with the code can be recorded at the same time
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+  v_new_payment_status payment_status := 'completed';
+BEGIN
+  SELECT id, booking_id, pack_purchase_id, membership_id, schedule_id, promo_code_id, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    -- A paid signup or renewal starts a new monthly period
+    IF v_payment.membership_id IS NOT NULL THEN
+      UPDATE memberships
+      SET
+        status = 'active',
+        current_period_start = now(),
+        current_period_end = now() + interval '1 month'
+      WHERE id = v_payment.membership_id
+        AND status IN ('pending', 'past_due');
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      -- Payments that started together could otherwise all redeem the last use
+      IF v_payment.promo_code_id IS NOT NULL THEN
+        PERFORM 1 FROM bookings WHERE id = v_payment.booking_id FOR UPDATE;
+        PERFORM 1 FROM promo_codes WHERE id = v_payment.promo_code_id FOR UPDATE;
+        PERFORM check_promo_code_limits(v_payment.promo_code_id, v_payment.booking_id);
+      END IF;
+
+      -- The booking stays partially paid until its last installment is in
+      IF v_payment.schedule_id IS NOT NULL THEN
+        UPDATE payment_schedules
+        SET
+          status = 'paid',
+          payment_id = p_payment_id,
+          paid_at = now()
+        WHERE id = v_payment.schedule_id;
+
+        IF EXISTS (
+          SELECT 1 FROM payment_schedules
+          WHERE booking_id = v_payment.booking_id
+            AND status != 'paid'
+        ) THEN
+          v_new_payment_status := 'partially_paid';
+        END IF;
+      END IF;
+
+      UPDATE bookings
+      SET
+        payment_status = v_new_payment_status,
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up, or the code ran out, while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- Internal helpers are not callable by clients
+REVOKE EXECUTE ON FUNCTION check_promo_code_limits(uuid, uuid) FROM PUBLIC, anon, authenticated;
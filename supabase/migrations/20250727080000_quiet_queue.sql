@@ -0,0 +1,10 @@
+/*
+  # Internal Waitlist Promotion
+
+  1. Security
+    - `promote_waitlist_entries` is no longer callable by clients. It is only run by
+      the cancellation and hold release functions, with the standard hold; a client
+      could otherwise pass a negative hold and have the sweeper expire the whole queue.
+*/
+
+REVOKE EXECUTE ON FUNCTION promote_waitlist_entries(uuid, interval) FROM PUBLIC, anon, authenticated;
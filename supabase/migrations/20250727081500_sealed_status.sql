@@ -0,0 +1,10 @@
+/*
+  # Internal Booking Payment Status
+
+  1. Security
+    - `update_booking_payment_status` is no longer callable by clients. Bookings are
+      paid through `record_payment_result` and refunded through the cancellation
+      functions; the old helper let any user mark any paid booking as refunded.
+*/
+
+REVOKE EXECUTE ON FUNCTION update_booking_payment_status(uuid, payment_status) FROM PUBLIC, anon, authenticated;
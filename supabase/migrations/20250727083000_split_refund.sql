@@ -0,0 +1,229 @@
+/*
+  # One Refund per Payment
+
+  1. Database Functions
+    - `cancel_booking_with_count` records a refund for each payment of the booking,
+      each for its share of that payment. A booking paid in installments used to get
+      one refund for the whole sum against its latest payment, which a provider can't
+      refund. Bookings without a payment (a credit, a membership or no payment on
+      record) still get a single refund.
+    - `record_late_cancel_strike` applies the penalty policy once per booking, not
+      once per refund
+*/
+
+-- Same as before, but each refundable payment gets its own refund
+CREATE OR REPLACE FUNCTION cancel_booking_with_count(
+  p_booking_id uuid,
+  p_student_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_payment record;
+  v_new_payment_status payment_status;
+  v_refund jsonb;
+  v_refund_percent numeric;
+  v_refund_amount numeric(10,2) := 0;
+  v_payment_refund numeric(10,2);
+  v_credit_returned boolean;
+  v_refund_id uuid;
+  v_was_paid boolean;
+BEGIN
+  -- Get booking information and lock the row
+  SELECT id, student_id, class_id, status, payment_status, hold_expires_at, pack_purchase_id, booking_date
+  INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id
+    AND student_id = p_student_id
+    AND status = 'confirmed'
+  FOR UPDATE;
+
+  -- Check if booking exists and belongs to student
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or already cancelled';
+  END IF;
+
+  v_was_paid := v_booking.payment_status IN ('completed', 'partially_paid');
+
+  -- Paid bookings are refunded according to the cancellation policy
+  IF v_was_paid THEN
+    v_refund := calculate_refund(p_booking_id);
+    v_refund_percent := (v_refund->>'refund_percent')::numeric;
+    v_credit_returned := (v_refund->>'credit_returned')::boolean;
+
+    -- A provider refunds each charge on its own, and never more than was charged
+    FOR v_payment IN
+      SELECT p.id, p.amount, p.currency, p.provider
+      FROM payments p
+      WHERE p.booking_id = p_booking_id
+        AND p.status = 'succeeded'
+        AND p.confirmed_at >= v_booking.booking_date
+        AND NOT EXISTS (
+          SELECT 1 FROM refunds r
+          WHERE r.payment_id = p.id
+        )
+      ORDER BY p.confirmed_at
+    LOOP
+      v_payment_refund := ROUND(v_payment.amount * v_refund_percent / 100, 2);
+
+      INSERT INTO refunds (
+        booking_id,
+        payment_id,
+        student_id,
+        class_id,
+        policy_id,
+        amount_paid,
+        refund_percent,
+        amount,
+        currency,
+        hours_before_class,
+        credit_returned,
+        status
+      )
+      VALUES (
+        p_booking_id,
+        v_payment.id,
+        p_student_id,
+        v_booking.class_id,
+        (v_refund->>'policy_id')::uuid,
+        v_payment.amount,
+        v_refund_percent,
+        v_payment_refund,
+        v_payment.currency,
+        (v_refund->>'hours_before_class')::numeric,
+        false,
+        CASE WHEN v_payment_refund > 0 THEN 'pending' ELSE 'not_owed' END
+      )
+      RETURNING id INTO v_refund_id;
+
+      -- The local mock provider settles refunds immediately
+      IF v_payment_refund > 0 AND v_payment.provider = 'mock' THEN
+        UPDATE refunds
+        SET
+          status = 'processed',
+          provider_reference = 'mock_refund_' || v_refund_id,
+          processed_at = now()
+        WHERE id = v_refund_id;
+      END IF;
+
+      v_refund_amount := v_refund_amount + v_payment_refund;
+    END LOOP;
+
+    -- Credits, memberships and bookings without a payment on record
+    IF NOT FOUND THEN
+      v_refund_amount := (v_refund->>'refund_amount')::numeric;
+
+      INSERT INTO refunds (
+        booking_id,
+        student_id,
+        class_id,
+        policy_id,
+        amount_paid,
+        refund_percent,
+        amount,
+        currency,
+        hours_before_class,
+        credit_returned,
+        status
+      )
+      VALUES (
+        p_booking_id,
+        p_student_id,
+        v_booking.class_id,
+        (v_refund->>'policy_id')::uuid,
+        (v_refund->>'amount_paid')::numeric,
+        v_refund_percent,
+        v_refund_amount,
+        v_refund->>'currency',
+        (v_refund->>'hours_before_class')::numeric,
+        v_credit_returned,
+        CASE
+          WHEN v_refund_amount > 0 AND (v_refund->>'needs_review')::boolean THEN 'needs_review'
+          WHEN v_refund_amount > 0 THEN 'pending'
+          ELSE 'not_owed'
+        END
+      )
+      RETURNING id INTO v_refund_id;
+
+      -- Credits go straight back onto the purchase they came from
+      IF v_credit_returned THEN
+        UPDATE pack_purchases
+        SET credits_remaining = credits_remaining + 1
+        WHERE id = v_booking.pack_purchase_id;
+
+        UPDATE refunds
+        SET
+          status = 'processed',
+          processed_at = now()
+        WHERE id = v_refund_id;
+      END IF;
+    END IF;
+
+    -- A forfeited payment or credit stays on the cancelled booking as it was
+    IF v_refund_amount > 0 OR v_credit_returned THEN
+      v_new_payment_status := 'refunded';
+    ELSE
+      v_new_payment_status := v_booking.payment_status;
+    END IF;
+  ELSE
+    v_new_payment_status := v_booking.payment_status;
+  END IF;
+
+  -- Update booking status and payment status
+  UPDATE bookings
+  SET
+    status = 'cancelled',
+    payment_status = v_new_payment_status,
+    hold_expires_at = NULL,
+    updated_at = now()
+  WHERE id = p_booking_id;
+
+  -- Decrement participant count only if the spot was paid for
+  IF v_was_paid THEN
+    PERFORM decrement_participant_count(v_booking.class_id, p_student_id, p_booking_id);
+  END IF;
+
+  -- A paid spot or a held spot was released
+  IF v_was_paid
+    OR (v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at > now()) THEN
+    PERFORM promote_waitlist_entries(v_booking.class_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Same as before, but the penalty policy only runs for the booking's first strike
+CREATE OR REPLACE FUNCTION record_late_cancel_strike()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF NEW.refund_percent >= 100 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT teacher_id INTO v_teacher_id
+  FROM yoga_classes
+  WHERE id = NEW.class_id;
+
+  INSERT INTO student_strikes (student_id, teacher_id, class_id, booking_id, kind)
+  VALUES (NEW.student_id, v_teacher_id, NEW.class_id, NEW.booking_id, 'late_cancel')
+  ON CONFLICT (booking_id, kind) DO NOTHING;
+
+  -- A booking paid in installments has a refund per payment
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM apply_penalty_policy(NEW.student_id, v_teacher_id, 'late_cancel');
+
+  RETURN NEW;
+END;
+$$;
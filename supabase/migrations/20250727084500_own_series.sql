@@ -0,0 +1,199 @@
+/*
+  # Series Functions Act for the Caller
+
+  1. Database Functions
+    - `create_class_series` only creates classes for the calling teacher
+    - `get_series_scope_class_ids` only resolves classes of the calling teacher, so
+      `update_series_classes` and `cancel_series_classes` can't change another
+      teacher's classes. Teacher ids are public, so checking the id passed in was
+      not enough.
+*/
+
+-- Same as before, but only for the calling teacher
+CREATE OR REPLACE FUNCTION create_class_series(
+  p_teacher_id uuid,
+  p_class jsonb,
+  p_start_date date,
+  p_weekdays integer[],
+  p_interval_weeks integer DEFAULT 1,
+  p_until_date date DEFAULT NULL,
+  p_occurrence_count integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- Upper bound so an open-ended rule can't flood the schedule
+  c_max_occurrences constant integer := 104;
+  v_series_id uuid;
+  v_weekdays integer[];
+  v_week_start date;
+  v_week integer := 0;
+  v_weekday integer;
+  v_date date;
+  v_count integer := 0;
+BEGIN
+  -- The teacher id is public, so it has to be the caller's own
+  IF p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only create classes for yourself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_teacher_id
+      AND role = 'teacher'
+  ) THEN
+    RAISE EXCEPTION 'Only teachers can create class series';
+  END IF;
+
+  IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+    RAISE EXCEPTION 'A series needs an end date or a number of occurrences';
+  END IF;
+
+  IF p_start_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'A series cannot start in the past';
+  END IF;
+
+  SELECT array_agg(DISTINCT d ORDER BY d)
+  INTO v_weekdays
+  FROM unnest(p_weekdays) AS d;
+
+  INSERT INTO class_series (
+    teacher_id,
+    weekdays,
+    interval_weeks,
+    start_date,
+    until_date,
+    occurrence_count
+  )
+  VALUES (
+    p_teacher_id,
+    v_weekdays,
+    p_interval_weeks,
+    p_start_date,
+    p_until_date,
+    p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  -- Walk the calendar week by week, starting from the Sunday of the start week
+  v_week_start := p_start_date - EXTRACT(DOW FROM p_start_date)::integer;
+
+  <<weeks>>
+  LOOP
+    FOREACH v_weekday IN ARRAY v_weekdays LOOP
+      v_date := v_week_start + (v_week * 7 * p_interval_weeks) + v_weekday;
+
+      CONTINUE WHEN v_date < p_start_date;
+
+      EXIT weeks WHEN p_until_date IS NOT NULL AND v_date > p_until_date;
+      EXIT weeks WHEN v_count >= LEAST(COALESCE(p_occurrence_count, c_max_occurrences), c_max_occurrences);
+
+      INSERT INTO yoga_classes (
+        title,
+        description,
+        teacher_id,
+        date,
+        time,
+        duration,
+        max_participants,
+        current_participants,
+        price,
+        level,
+        type,
+        location,
+        latitude,
+        longitude,
+        venue_id,
+        meeting_link,
+        image_url,
+        cancellation_policy_id,
+        is_retreat,
+        series_id
+      )
+      VALUES (
+        p_class->>'title',
+        COALESCE(p_class->>'description', ''),
+        p_teacher_id,
+        v_date,
+        (p_class->>'time')::time,
+        COALESCE((p_class->>'duration')::integer, 60),
+        COALESCE((p_class->>'max_participants')::integer, 10),
+        0,
+        COALESCE((p_class->>'price')::numeric, 25.00),
+        COALESCE((p_class->>'level')::class_level, 'beginner'),
+        COALESCE(p_class->>'type', 'Hatha'),
+        COALESCE(p_class->>'location', 'Studio A'),
+        (p_class->>'latitude')::double precision,
+        (p_class->>'longitude')::double precision,
+        (p_class->>'venue_id')::uuid,
+        p_class->>'meeting_link',
+        p_class->>'image_url',
+        (p_class->>'cancellation_policy_id')::uuid,
+        false,
+        v_series_id
+      );
+
+      v_count := v_count + 1;
+    END LOOP;
+
+    v_week := v_week + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule does not produce any classes';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series_id', v_series_id,
+    'class_count', v_count
+  );
+END;
+$$;
+
+-- Same as before, but the class has to belong to the caller. Series edits and
+-- cancellations both resolve their classes here.
+CREATE OR REPLACE FUNCTION get_series_scope_class_ids(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_scope text
+)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+BEGIN
+  SELECT id, teacher_id, series_id, date
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id OR p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF p_scope NOT IN ('single', 'following', 'all') THEN
+    RAISE EXCEPTION 'Invalid series scope: %', p_scope;
+  END IF;
+
+  IF p_scope = 'single' OR v_class.series_id IS NULL THEN
+    RETURN NEXT p_class_id;
+    RETURN;
+  END IF;
+
+  -- Past instances are kept as they happened; `all` means every upcoming instance
+  RETURN QUERY
+  SELECT id
+  FROM yoga_classes
+  WHERE series_id = v_class.series_id
+    AND (
+      id = p_class_id
+      OR (p_scope = 'following' AND date >= v_class.date)
+      OR (p_scope = 'all' AND date >= CURRENT_DATE)
+    );
+END;
+$$;
@@ -0,0 +1,411 @@
+/*
+  # Submitted Payments Are Processing
+
+  1. Table Changes
+    - `refunds.booking_id` and `refunds.class_id` are optional, so a pack or membership
+      charge can be refunded too
+
+  2. Database Functions
+    - New `submit_payment` marks a payment `processing` when the app hands it to the
+      provider. `release_booking_hold` already leaves those payments and their booking
+      alone; until now nothing set the status.
+    - `create_payment_intent` refuses a new payment while one is processing, and only
+      cancels payments that were never submitted
+    - `record_payment_result` no longer rejects a charge that succeeds after its payment
+      was cancelled. The charge is recorded on the payment and a `needs_review` refund
+      is written for it.
+*/
+
+ALTER TABLE refunds ALTER COLUMN booking_id DROP NOT NULL;
+ALTER TABLE refunds ALTER COLUMN class_id DROP NOT NULL;
+
+-- Called right before the payment is handed to the provider. From then on the hold
+-- sweeper and new intents leave the payment alone.
+CREATE OR REPLACE FUNCTION submit_payment(
+  p_payment_id uuid,
+  p_student_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+BEGIN
+  SELECT p.id, p.student_id, p.status, b.hold_expires_at
+  INTO v_payment
+  FROM payments p
+  LEFT JOIN bookings b ON b.id = p.booking_id
+  WHERE p.id = p_payment_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND
+    OR v_payment.student_id != p_student_id
+    OR p_student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status != 'requires_confirmation' THEN
+    RAISE EXCEPTION 'Payment is no longer open';
+  END IF;
+
+  IF v_payment.hold_expires_at IS NOT NULL AND v_payment.hold_expires_at <= now() THEN
+    RAISE EXCEPTION 'Booking hold has expired';
+  END IF;
+
+  UPDATE payments
+  SET status = 'processing'
+  WHERE id = p_payment_id;
+END;
+$$;
+
+-- Same as before, but a payment already submitted to the provider is never cancelled
+CREATE OR REPLACE FUNCTION create_payment_intent(
+  p_booking_id uuid,
+  p_student_id uuid,
+  p_provider text,
+  p_plan text DEFAULT 'full'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking record;
+  v_pricing jsonb;
+  v_amount numeric(10,2);
+  v_discount numeric(10,2) := 0;
+  v_promo_code_id uuid;
+  v_schedule_id uuid;
+  v_installment_number integer;
+  v_payment_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_providers
+    WHERE id = p_provider AND enabled = true
+  ) THEN
+    RAISE EXCEPTION 'Payment provider % is not available', p_provider;
+  END IF;
+
+  IF p_plan NOT IN ('full', 'installments') THEN
+    RAISE EXCEPTION 'Unknown payment plan %', p_plan;
+  END IF;
+
+  SELECT
+    b.id,
+    b.class_id,
+    b.status,
+    b.payment_status,
+    b.hold_expires_at,
+    b.accommodation_id,
+    b.concession,
+    b.chosen_price,
+    b.promo_code_id
+  INTO v_booking
+  FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.student_id = p_student_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_booking.payment_status NOT IN ('pending', 'partially_paid', 'failed') THEN
+    RAISE EXCEPTION 'Booking is not awaiting payment';
+  END IF;
+
+  IF v_booking.payment_status = 'partially_paid' THEN
+    -- The schedule is fixed once the deposit is paid
+    SELECT id, installment_number, amount
+    INTO v_schedule_id, v_installment_number, v_amount
+    FROM payment_schedules
+    WHERE booking_id = p_booking_id
+      AND status != 'paid'
+    ORDER BY installment_number
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking is not awaiting payment';
+    END IF;
+  ELSE
+    IF v_booking.hold_expires_at IS NOT NULL AND v_booking.hold_expires_at <= now() THEN
+      RAISE EXCEPTION 'Booking hold has expired';
+    END IF;
+
+    -- Bookings promoted from the waitlist pick their accommodation before paying
+    IF v_booking.accommodation_id IS NULL AND EXISTS (
+      SELECT 1 FROM retreat_accommodations
+      WHERE retreat_id = v_booking.class_id
+    ) THEN
+      RAISE EXCEPTION 'Choose an accommodation option';
+    END IF;
+
+    IF v_booking.promo_code_id IS NOT NULL THEN
+      -- Payments using the same code wait for each other, so its limits hold
+      PERFORM 1 FROM promo_codes WHERE id = v_booking.promo_code_id FOR UPDATE;
+      PERFORM check_promo_code(v_booking.promo_code_id, p_booking_id);
+      v_promo_code_id := v_booking.promo_code_id;
+    END IF;
+
+    v_pricing := calculate_price(
+      v_booking.class_id,
+      v_booking.accommodation_id,
+      v_booking.concession,
+      v_booking.chosen_price,
+      v_promo_code_id
+    );
+    v_amount := (v_pricing->>'price')::numeric;
+
+    SELECT COALESCE(-SUM((adjustment->>'amount')::numeric), 0)
+    INTO v_discount
+    FROM jsonb_array_elements(v_pricing->'adjustments') adjustment
+    WHERE adjustment->>'kind' = 'promo_code';
+
+    UPDATE bookings
+    SET promo_discount = CASE WHEN v_promo_code_id IS NOT NULL THEN v_discount END
+    WHERE id = p_booking_id;
+
+    -- Nothing has been paid yet, so an earlier plan choice can be dropped
+    DELETE FROM payment_schedules
+    WHERE booking_id = p_booking_id;
+
+    IF p_plan = 'installments' THEN
+      INSERT INTO payment_schedules (booking_id, installment_number, amount, due_date)
+      SELECT p_booking_id, plan.installment_number, plan.amount, plan.due_date
+      FROM build_payment_schedule(v_booking.class_id, v_amount) AS plan;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Installments are not available for this booking';
+      END IF;
+
+      SELECT id, installment_number, amount
+      INTO v_schedule_id, v_installment_number, v_amount
+      FROM payment_schedules
+      WHERE booking_id = p_booking_id
+        AND installment_number = 0;
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE booking_id = p_booking_id
+      AND status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'A payment for this booking is already being processed';
+  END IF;
+
+  -- Only one open payment per booking
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id
+    AND status = 'requires_confirmation';
+
+  -- The discount is recorded on the first payment of the booking; installments
+  -- are already scheduled at the discounted price
+  INSERT INTO payments (booking_id, student_id, provider, amount, schedule_id, promo_code_id, discount_amount)
+  VALUES (p_booking_id, p_student_id, p_provider, v_amount, v_schedule_id, v_promo_code_id, v_discount)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'booking_id', p_booking_id,
+    'provider', p_provider,
+    'amount', v_amount,
+    'discount_amount', v_discount,
+    'currency', 'EUR',
+    'status', 'requires_confirmation',
+    'installment_number', v_installment_number
+  );
+END;
+$$;
+
+-- Same as before, but a charge that succeeds after its payment was cancelled is
+-- recorded and left for review as a refund instead of being rejected
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+  v_new_payment_status payment_status := 'completed';
+BEGIN
+  SELECT id, booking_id, student_id, pack_purchase_id, membership_id, schedule_id, promo_code_id, amount, currency, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' AND NOT p_succeeded THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  -- The provider took the money anyway, e.g. the class was cancelled while the charge
+  -- was processing. The payment stays cancelled and the charge is owed back.
+  IF v_payment.status = 'cancelled' THEN
+    UPDATE payments
+    SET
+      provider_reference = p_provider_reference,
+      failure_reason = 'Charged after the payment was cancelled'
+    WHERE id = p_payment_id;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      credit_returned,
+      status
+    )
+    SELECT
+      v_payment.booking_id,
+      p_payment_id,
+      v_payment.student_id,
+      (SELECT class_id FROM bookings WHERE id = v_payment.booking_id),
+      v_payment.amount,
+      100,
+      v_payment.amount,
+      v_payment.currency,
+      false,
+      'needs_review'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE payment_id = p_payment_id
+    );
+
+    RETURN jsonb_build_object(
+      'payment_id', p_payment_id,
+      'status', 'cancelled',
+      'failure_reason', 'Charged after the payment was cancelled'
+    );
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    -- A paid signup or renewal starts a new monthly period
+    IF v_payment.membership_id IS NOT NULL THEN
+      UPDATE memberships
+      SET
+        status = 'active',
+        current_period_start = now(),
+        current_period_end = now() + interval '1 month'
+      WHERE id = v_payment.membership_id
+        AND status IN ('pending', 'past_due');
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      -- Payments that started together could otherwise all redeem the last use
+      IF v_payment.promo_code_id IS NOT NULL THEN
+        PERFORM 1 FROM bookings WHERE id = v_payment.booking_id FOR UPDATE;
+        PERFORM 1 FROM promo_codes WHERE id = v_payment.promo_code_id FOR UPDATE;
+        PERFORM check_promo_code_limits(v_payment.promo_code_id, v_payment.booking_id);
+      END IF;
+
+      -- The booking stays partially paid until its last installment is in
+      IF v_payment.schedule_id IS NOT NULL THEN
+        UPDATE payment_schedules
+        SET
+          status = 'paid',
+          payment_id = p_payment_id,
+          paid_at = now()
+        WHERE id = v_payment.schedule_id;
+
+        IF EXISTS (
+          SELECT 1 FROM payment_schedules
+          WHERE booking_id = v_payment.booking_id
+            AND status != 'paid'
+        ) THEN
+          v_new_payment_status := 'partially_paid';
+        END IF;
+      END IF;
+
+      UPDATE bookings
+      SET
+        payment_status = v_new_payment_status,
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up, or the code ran out, while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION submit_payment(uuid, uuid) TO authenticated;
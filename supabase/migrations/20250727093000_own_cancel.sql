@@ -0,0 +1,83 @@
+/*
+  # Classes Are Cancelled by Their Teacher
+
+  1. Database Functions
+    - `cancel_class` only cancels a class of the calling teacher. Teacher ids are
+      public, so anyone could cancel a class, with every booking refunded and its
+      student notified. `cancel_series_classes` already resolves its classes for the
+      caller only.
+*/
+
+-- Same as before, but only the calling teacher can cancel their class
+CREATE OR REPLACE FUNCTION cancel_class(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_booking record;
+  v_booking_count integer := 0;
+BEGIN
+  SELECT id, teacher_id, status, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id OR p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF v_class.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Class is already cancelled';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp < now() THEN
+    RAISE EXCEPTION 'Classes that have already started cannot be cancelled';
+  END IF;
+
+  UPDATE yoga_classes
+  SET
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = NULLIF(trim(p_reason), ''),
+    updated_at = now()
+  WHERE id = p_class_id;
+
+  -- Close the waitlist first so no one is promoted into the freed spots
+  UPDATE waitlist_entries
+  SET status = 'cancelled'
+  WHERE class_id = p_class_id
+    AND status = 'waiting';
+
+  FOR v_booking IN
+    SELECT id, student_id
+    FROM bookings
+    WHERE class_id = p_class_id
+      AND status = 'confirmed'
+  LOOP
+    -- Payments still open on unpaid bookings can no longer be confirmed
+    UPDATE payments
+    SET status = 'cancelled'
+    WHERE booking_id = v_booking.id
+      AND status IN ('requires_confirmation', 'processing');
+
+    PERFORM cancel_booking_with_count(v_booking.id, v_booking.student_id);
+
+    INSERT INTO class_change_notices (class_id, booking_id, student_id, changes, kind)
+    VALUES (p_class_id, v_booking.id, v_booking.student_id, '{}'::jsonb, 'cancelled');
+
+    v_booking_count := v_booking_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'class_id', p_class_id,
+    'booking_count', v_booking_count
+  );
+END;
+$$;
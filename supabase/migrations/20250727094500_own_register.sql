@@ -0,0 +1,148 @@
+/*
+  # Attendance Is Taken by the Teacher
+
+  1. Database Functions
+    - `check_in_booking`, `mark_attendance` and `mark_remaining_no_shows` only work on
+      classes of the calling teacher. They checked the teacher id passed in, which is
+      public, so anyone could mark a class's students as no-shows and set off strikes,
+      bans and forfeited credits.
+*/
+
+-- Same as before, but only for the calling teacher's classes
+CREATE OR REPLACE FUNCTION check_in_booking(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_check_in_code uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_booking record;
+BEGIN
+  SELECT id, teacher_id, date, time, status
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id OR p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF v_class.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Class has been cancelled';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp - interval '1 hour' > now() THEN
+    RAISE EXCEPTION 'Check-in opens an hour before the class starts';
+  END IF;
+
+  SELECT b.id, b.class_id, b.status, b.payment_status, b.attendance, p.full_name
+  INTO v_booking
+  FROM bookings b
+  JOIN profiles p ON p.id = b.student_id
+  WHERE b.check_in_code = p_check_in_code
+  FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.class_id != p_class_id THEN
+    RAISE EXCEPTION 'This code is not for this class';
+  END IF;
+
+  IF v_booking.status != 'confirmed' THEN
+    RAISE EXCEPTION 'Booking has been cancelled';
+  END IF;
+
+  IF v_booking.payment_status != 'completed' THEN
+    RAISE EXCEPTION 'Booking has not been paid';
+  END IF;
+
+  IF v_booking.attendance = 'checked_in' THEN
+    RAISE EXCEPTION '% is already checked in', v_booking.full_name;
+  END IF;
+
+  UPDATE bookings
+  SET
+    attendance = 'checked_in',
+    checked_in_at = now(),
+    updated_at = now()
+  WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'booking_id', v_booking.id,
+    'student_name', v_booking.full_name
+  );
+END;
+$$;
+
+-- Same as before, but only for the calling teacher's classes
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_booking_id uuid,
+  p_teacher_id uuid,
+  p_attendance attendance_status
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE bookings b
+  SET
+    attendance = p_attendance,
+    checked_in_at = CASE WHEN p_attendance = 'checked_in' THEN COALESCE(b.checked_in_at, now()) ELSE NULL END,
+    updated_at = now()
+  FROM yoga_classes c
+  WHERE b.id = p_booking_id
+    AND c.id = b.class_id
+    AND c.teacher_id = p_teacher_id
+    AND p_teacher_id = auth.uid()
+    AND b.status = 'confirmed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Same as before, but only for the calling teacher's classes
+CREATE OR REPLACE FUNCTION mark_remaining_no_shows(
+  p_class_id uuid,
+  p_teacher_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_no_show_count integer;
+BEGIN
+  SELECT id, teacher_id, date, time
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id OR p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF (v_class.date || ' ' || v_class.time)::timestamp > now() THEN
+    RAISE EXCEPTION 'No-shows can only be marked once the class has started';
+  END IF;
+
+  UPDATE bookings
+  SET
+    attendance = 'no_show',
+    updated_at = now()
+  WHERE class_id = p_class_id
+    AND status = 'confirmed'
+    AND payment_status = 'completed'
+    AND attendance IS NULL;
+
+  GET DIAGNOSTICS v_no_show_count = ROW_COUNT;
+  RETURN v_no_show_count;
+END;
+$$;
@@ -0,0 +1,88 @@
+/*
+  # Class Pricing Is Set by the Teacher
+
+  1. Database Functions
+    - `save_class_pricing` only changes classes of the calling teacher. It checked the
+      teacher id passed in, which is public, so anyone could reprice a class.
+*/
+
+-- Same as before, but only for the calling teacher's classes
+CREATE OR REPLACE FUNCTION save_class_pricing(
+  p_class_id uuid,
+  p_teacher_id uuid,
+  p_sliding_scale_min numeric,
+  p_sliding_scale_max numeric,
+  p_rules jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class record;
+  v_rule_count integer;
+BEGIN
+  SELECT teacher_id, date
+  INTO v_class
+  FROM yoga_classes
+  WHERE id = p_class_id;
+
+  IF NOT FOUND OR v_class.teacher_id != p_teacher_id OR p_teacher_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF (p_sliding_scale_min IS NULL) != (p_sliding_scale_max IS NULL)
+    OR p_sliding_scale_min > p_sliding_scale_max THEN
+    RAISE EXCEPTION 'Enter the lowest and highest price of the sliding scale';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_rules, '[]'::jsonb)) AS r(rule_type text, ends_on date)
+    WHERE r.rule_type = 'early_bird' AND r.ends_on >= v_class.date
+  ) THEN
+    RAISE EXCEPTION 'Early bird windows must end before the class starts';
+  END IF;
+
+  UPDATE yoga_classes
+  SET
+    sliding_scale_min = p_sliding_scale_min,
+    sliding_scale_max = p_sliding_scale_max
+  WHERE id = p_class_id;
+
+  DELETE FROM pricing_rules
+  WHERE class_id = p_class_id;
+
+  INSERT INTO pricing_rules (
+    class_id,
+    rule_type,
+    label,
+    discount_type,
+    discount_value,
+    ends_on,
+    days_before,
+    concession
+  )
+  SELECT
+    p_class_id,
+    r.rule_type,
+    NULLIF(trim(r.label), ''),
+    r.discount_type,
+    r.discount_value,
+    r.ends_on,
+    r.days_before,
+    r.concession
+  FROM jsonb_to_recordset(COALESCE(p_rules, '[]'::jsonb)) AS r(
+    rule_type text,
+    label text,
+    discount_type text,
+    discount_value numeric,
+    ends_on date,
+    days_before integer,
+    concession text
+  );
+
+  GET DIAGNOSTICS v_rule_count = ROW_COUNT;
+  RETURN v_rule_count;
+END;
+$$;
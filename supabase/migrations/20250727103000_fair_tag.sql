@@ -0,0 +1,274 @@
+/*
+  # Stored Current Prices
+
+  1. New Tables
+    - `class_prices` - The pricing engine's price of each class for today
+      - `class_id` (uuid, primary key, references yoga_classes)
+      - `current_price` (numeric) - `calculate_price` without a concession, amount or code
+      - `updated_at` (timestamp)
+
+  2. Database Functions
+    - `refresh_class_price` - Prices one class again with `calculate_price`
+    - `refresh_class_prices` - Prices every upcoming class again
+    - `search_classes` filters on the stored current price, so a class with an early
+      bird or last-minute price is found at the price its card shows, without running
+      the engine for every candidate class
+
+  3. Triggers
+    - Classes are priced again when their price, early bird or date changes, and when
+      their pricing rules change
+
+  4. Scheduled Jobs
+    - `refresh_class_prices` runs every night, as discount windows open and close
+      with the date
+
+  5. Security
+    - `class_prices` is only read through `search_classes`; the refresh functions are
+      internal
+*/
+
+CREATE TABLE IF NOT EXISTS class_prices (
+  class_id uuid PRIMARY KEY REFERENCES yoga_classes(id) ON DELETE CASCADE,
+  current_price numeric(10,2) NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE class_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_class_prices_current_price
+ON class_prices (current_price);
+
+CREATE OR REPLACE FUNCTION refresh_class_price(p_class_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Nothing to price once the class is gone
+  INSERT INTO class_prices (class_id, current_price)
+  SELECT id, (calculate_price(id)->>'price')::numeric
+  FROM yoga_classes
+  WHERE id = p_class_id
+  ON CONFLICT (class_id) DO UPDATE
+  SET
+    current_price = EXCLUDED.current_price,
+    updated_at = now();
+END;
+$$;
+
+-- Past classes keep the price they last had
+CREATE OR REPLACE FUNCTION refresh_class_prices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_id uuid;
+  v_refreshed integer := 0;
+BEGIN
+  FOR v_class_id IN
+    SELECT id
+    FROM yoga_classes
+    WHERE status = 'scheduled'
+      AND date >= CURRENT_DATE
+  LOOP
+    PERFORM refresh_class_price(v_class_id);
+    v_refreshed := v_refreshed + 1;
+  END LOOP;
+
+  RETURN v_refreshed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_class_price_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_class_price(OLD.class_id);
+  ELSIF TG_TABLE_NAME = 'pricing_rules' THEN
+    PERFORM refresh_class_price(NEW.class_id);
+  ELSE
+    PERFORM refresh_class_price(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_class_price_trigger ON yoga_classes;
+CREATE TRIGGER refresh_class_price_trigger
+  AFTER INSERT OR UPDATE OF price, early_bird_price, early_bird_deadline, date ON yoga_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_class_price_trigger();
+
+DROP TRIGGER IF EXISTS refresh_class_price_trigger ON pricing_rules;
+CREATE TRIGGER refresh_class_price_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON pricing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_class_price_trigger();
+
+-- Price the classes already on sale
+SELECT refresh_class_prices();
+
+-- Same as before, but the price filter uses the stored current price
+CREATE OR REPLACE FUNCTION search_classes(
+  p_is_retreat boolean DEFAULT false,
+  p_query text DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_level text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_mode text DEFAULT 'all',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_duration text DEFAULT 'all',
+  p_teacher_ids uuid[] DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_radius_km numeric DEFAULT NULL,
+  p_sort text DEFAULT 'date',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pattern text;
+  v_has_origin boolean := p_latitude IS NOT NULL AND p_longitude IS NOT NULL;
+  v_lat_delta double precision;
+  v_total_count integer;
+  v_items jsonb;
+BEGIN
+  IF p_mode NOT IN ('all', 'in-person', 'virtual') THEN
+    RAISE EXCEPTION 'Invalid mode: %', p_mode;
+  END IF;
+
+  IF p_duration NOT IN ('all', '1-3', '4-7', '7+') THEN
+    RAISE EXCEPTION 'Invalid duration: %', p_duration;
+  END IF;
+
+  IF p_sort NOT IN ('date', 'distance') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  IF NOT v_has_origin AND (p_radius_km IS NOT NULL OR p_sort = 'distance') THEN
+    RAISE EXCEPTION 'A location is required to search by distance';
+  END IF;
+
+  -- Escape LIKE wildcards so the query is matched literally
+  IF p_query IS NOT NULL AND trim(p_query) != '' THEN
+    v_pattern := '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  -- Latitude band around the origin, so the index can narrow rows before the exact distance
+  IF p_radius_km IS NOT NULL THEN
+    v_lat_delta := p_radius_km / 111.0;
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      c.id,
+      c.date,
+      c.time,
+      CASE
+        WHEN v_has_origin AND c.latitude IS NOT NULL
+        THEN distance_km(p_latitude, p_longitude, c.latitude, c.longitude)
+      END AS distance_km
+    FROM yoga_classes c
+    JOIN profiles p ON p.id = c.teacher_id
+    LEFT JOIN class_prices cp ON cp.class_id = c.id
+    WHERE c.status = 'scheduled'
+      AND COALESCE(c.is_retreat, false) = p_is_retreat
+      AND c.date >= GREATEST(COALESCE(p_date_from, CURRENT_DATE), CURRENT_DATE)
+      AND (p_date_to IS NULL OR c.date <= p_date_to)
+      AND (p_type IS NULL OR c.type = p_type)
+      AND (p_level IS NULL OR c.level::text = p_level)
+      AND (
+        p_mode = 'all' OR
+        (p_mode = 'virtual' AND COALESCE(c.is_virtual, false)) OR
+        (p_mode = 'in-person' AND NOT COALESCE(c.is_virtual, false))
+      )
+      AND (p_min_price IS NULL OR COALESCE(cp.current_price, c.price) >= p_min_price)
+      AND (p_max_price IS NULL OR COALESCE(cp.current_price, c.price) <= p_max_price)
+      AND (
+        p_duration = 'all' OR
+        (p_duration = '1-3' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 1 AND 3) OR
+        (p_duration = '4-7' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 BETWEEN 4 AND 7) OR
+        (p_duration = '7+' AND COALESCE(c.retreat_end_date, c.date) - c.date + 1 > 7)
+      )
+      AND (p_teacher_ids IS NULL OR c.teacher_id = ANY(p_teacher_ids))
+      AND (
+        p_radius_km IS NULL OR (
+          c.latitude BETWEEN p_latitude - v_lat_delta AND p_latitude + v_lat_delta
+          AND distance_km(p_latitude, p_longitude, c.latitude, c.longitude) <= p_radius_km
+        )
+      )
+      AND (
+        v_pattern IS NULL OR
+        c.title ILIKE v_pattern OR
+        c.description ILIKE v_pattern OR
+        c.location ILIKE v_pattern OR
+        p.full_name ILIKE v_pattern
+      )
+  ),
+  page AS (
+    SELECT
+      id,
+      distance_km,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'distance' THEN distance_km END NULLS LAST,
+          date,
+          time,
+          id
+      ) AS position
+    FROM matches
+    ORDER BY position
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matches),
+    COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) || jsonb_build_object(
+          'profiles', jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url),
+          'participant_count', (
+            SELECT COUNT(*) FROM bookings b
+            WHERE b.class_id = c.id AND b.status = 'confirmed'
+          ),
+          'distance_km', page.distance_km
+        )
+        ORDER BY page.position
+      )
+      FROM page
+      JOIN yoga_classes c ON c.id = page.id
+      JOIN profiles p ON p.id = c.teacher_id
+    ), '[]'::jsonb)
+  INTO v_total_count, v_items;
+
+  RETURN jsonb_build_object(
+    'items', v_items,
+    'total_count', v_total_count
+  );
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Discount windows are counted in days, so prices change overnight
+SELECT cron.schedule(
+  'refresh-class-prices',
+  '0 0 * * *',
+  $$SELECT refresh_class_prices()$$
+);
+
+-- Internal helpers are not callable by clients
+REVOKE EXECUTE ON FUNCTION refresh_class_price(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_class_prices() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,236 @@
+/*
+  # Refund Charges That Can't Settle Their Booking
+
+  1. Database Functions
+    - `record_payment_result` records a full refund when a successful charge can't
+      settle its booking, e.g. the class filled up or the promo code ran out while the
+      student was paying. The payment is still marked failed, and the failure tells the
+      student the money comes back.
+*/
+
+-- Same as before, but a charge that can't settle its booking is refunded
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_provider_reference text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment record;
+  v_failure_reason text := p_failure_reason;
+  v_new_payment_status payment_status := 'completed';
+  v_refund_id uuid;
+BEGIN
+  SELECT id, booking_id, student_id, provider, pack_purchase_id, membership_id, schedule_id, promo_code_id, amount, currency, status
+  INTO v_payment
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Callbacks may be delivered more than once
+  IF v_payment.status IN ('succeeded', 'failed') THEN
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', v_payment.status);
+  END IF;
+
+  IF v_payment.status = 'cancelled' AND NOT p_succeeded THEN
+    RAISE EXCEPTION 'Payment was cancelled';
+  END IF;
+
+  -- The provider took the money anyway, e.g. the class was cancelled while the charge
+  -- was processing. The payment stays cancelled and the charge is owed back.
+  IF v_payment.status = 'cancelled' THEN
+    UPDATE payments
+    SET
+      provider_reference = p_provider_reference,
+      failure_reason = 'Charged after the payment was cancelled'
+    WHERE id = p_payment_id;
+
+    INSERT INTO refunds (
+      booking_id,
+      payment_id,
+      student_id,
+      class_id,
+      amount_paid,
+      refund_percent,
+      amount,
+      currency,
+      credit_returned,
+      status
+    )
+    SELECT
+      v_payment.booking_id,
+      p_payment_id,
+      v_payment.student_id,
+      (SELECT class_id FROM bookings WHERE id = v_payment.booking_id),
+      v_payment.amount,
+      100,
+      v_payment.amount,
+      v_payment.currency,
+      false,
+      'needs_review'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM refunds
+      WHERE payment_id = p_payment_id
+    );
+
+    RETURN jsonb_build_object(
+      'payment_id', p_payment_id,
+      'status', 'cancelled',
+      'failure_reason', 'Charged after the payment was cancelled'
+    );
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE payments
+    SET
+      status = 'succeeded',
+      provider_reference = p_provider_reference,
+      failure_reason = NULL,
+      confirmed_at = now()
+    WHERE id = p_payment_id;
+
+    -- Credits start counting down from the moment the pack is paid
+    IF v_payment.pack_purchase_id IS NOT NULL THEN
+      UPDATE pack_purchases
+      SET
+        status = 'active',
+        purchased_at = now(),
+        expires_at = now() + make_interval(days => validity_days)
+      WHERE id = v_payment.pack_purchase_id;
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    -- A paid signup or renewal starts a new monthly period
+    IF v_payment.membership_id IS NOT NULL THEN
+      UPDATE memberships
+      SET
+        status = 'active',
+        current_period_start = now(),
+        current_period_end = now() + interval '1 month'
+      WHERE id = v_payment.membership_id
+        AND status IN ('pending', 'past_due');
+
+      RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+    END IF;
+
+    BEGIN
+      -- Payments that started together could otherwise all redeem the last use
+      IF v_payment.promo_code_id IS NOT NULL THEN
+        PERFORM 1 FROM bookings WHERE id = v_payment.booking_id FOR UPDATE;
+        PERFORM 1 FROM promo_codes WHERE id = v_payment.promo_code_id FOR UPDATE;
+        PERFORM check_promo_code_limits(v_payment.promo_code_id, v_payment.booking_id);
+      END IF;
+
+      -- The booking stays partially paid until its last installment is in
+      IF v_payment.schedule_id IS NOT NULL THEN
+        UPDATE payment_schedules
+        SET
+          status = 'paid',
+          payment_id = p_payment_id,
+          paid_at = now()
+        WHERE id = v_payment.schedule_id;
+
+        IF EXISTS (
+          SELECT 1 FROM payment_schedules
+          WHERE booking_id = v_payment.booking_id
+            AND status != 'paid'
+        ) THEN
+          v_new_payment_status := 'partially_paid';
+        END IF;
+      END IF;
+
+      UPDATE bookings
+      SET
+        payment_status = v_new_payment_status,
+        hold_expires_at = NULL,
+        updated_at = now()
+      WHERE id = v_payment.booking_id;
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- e.g. the class filled up, or the code ran out, while the student was paying
+        v_failure_reason := SQLERRM;
+        UPDATE payments
+        SET
+          status = 'failed',
+          failure_reason = 'Booking could not be completed: ' || v_failure_reason
+        WHERE id = p_payment_id;
+
+        -- The provider has already taken the money, so all of it is owed back
+        INSERT INTO refunds (
+          booking_id,
+          payment_id,
+          student_id,
+          class_id,
+          amount_paid,
+          refund_percent,
+          amount,
+          currency,
+          credit_returned,
+          status
+        )
+        SELECT
+          v_payment.booking_id,
+          p_payment_id,
+          v_payment.student_id,
+          class_id,
+          v_payment.amount,
+          100,
+          v_payment.amount,
+          v_payment.currency,
+          false,
+          'pending'
+        FROM bookings
+        WHERE id = v_payment.booking_id
+        RETURNING id INTO v_refund_id;
+
+        -- The local mock provider settles refunds immediately
+        IF v_payment.provider = 'mock' THEN
+          UPDATE refunds
+          SET
+            status = 'processed',
+            provider_reference = 'mock_refund_' || v_refund_id,
+            processed_at = now()
+          WHERE id = v_refund_id;
+        END IF;
+
+        v_failure_reason := v_failure_reason || '. Your payment will be refunded.';
+
+        RETURN jsonb_build_object(
+          'payment_id', p_payment_id,
+          'status', 'failed',
+          'failure_reason', v_failure_reason
+        );
+    END;
+
+    RETURN jsonb_build_object('payment_id', p_payment_id, 'status', 'succeeded');
+  END IF;
+
+  UPDATE payments
+  SET
+    status = 'failed',
+    provider_reference = p_provider_reference,
+    failure_reason = COALESCE(v_failure_reason, 'Payment declined')
+  WHERE id = p_payment_id;
+
+  IF v_payment.pack_purchase_id IS NOT NULL THEN
+    UPDATE pack_purchases
+    SET status = 'failed'
+    WHERE id = v_payment.pack_purchase_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', p_payment_id,
+    'status', 'failed',
+    'failure_reason', COALESCE(v_failure_reason, 'Payment declined')
+  );
+END;
+$$;
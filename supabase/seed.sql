@@ -0,0 +1,9 @@
+-- Local development only: `supabase db reset` runs this after the migrations.
+-- Never run it against a production database.
+
+-- Let development builds pay with the mock provider
+UPDATE payment_providers
+SET enabled = true
+WHERE id = 'mock';
+
+GRANT EXECUTE ON FUNCTION confirm_mock_payment(uuid, uuid, text) TO authenticated;